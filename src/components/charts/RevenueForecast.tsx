@@ -0,0 +1,279 @@
+import { useState, useMemo } from 'react'
+import { motion } from 'framer-motion'
+import {
+  BarChart,
+  Bar,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
+} from 'recharts'
+import { TrendingUp } from 'lucide-react'
+import { formatCurrency } from '../../lib/supabase'
+import {
+  FORECAST_CATEGORY_INFO,
+  buildForecastActuals,
+  buildForecastPeriods,
+  compareForecastToActual,
+  unscheduledTotals,
+  type ForecastCategory,
+  type ForecastGranularity,
+  type ForecastItem,
+} from '../../lib/forecast'
+import type { SalesSummary } from '../../hooks/useSalesMetrics'
+
+interface RevenueForecastProps {
+  items: ForecastItem[]
+  loading: boolean
+  error: string | null
+  salesSummary: SalesSummary
+  startDate: Date
+  endDate: Date
+}
+
+// Periods shown ahead (forecast) and back (forecast vs. closed)
+const PERIOD_COUNT: Record<ForecastGranularity, number> = { month: 6, quarter: 4 }
+
+const CATEGORIES: ForecastCategory[] = ['commit', 'bestCase', 'pipeline']
+
+const FORECAST_COLOR = '#a78bfa'
+const CLOSED_COLOR = '#22c55e'
+
+function formatCompact(value: number): string {
+  return value >= 1000 ? `$${(value / 1000).toFixed(0)}k` : `$${value.toFixed(0)}`
+}
+
+const CurrencyTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-800 border border-slate-600 rounded-lg p-2 shadow-xl">
+        <p className="text-xs text-slate-400 mb-1">{label}</p>
+        {payload.map((entry: any) => (
+          <p key={entry.dataKey} className="text-xs font-semibold" style={{ color: entry.color }}>
+            {entry.name}: {formatCurrency(entry.value)}
+          </p>
+        ))}
+      </div>
+    )
+  }
+  return null
+}
+
+export default function RevenueForecast({ items, loading, error, salesSummary, startDate, endDate }: RevenueForecastProps) {
+  const [granularity, setGranularity] = useState<ForecastGranularity>('month')
+
+  const periods = useMemo(
+    () => buildForecastPeriods(items, granularity, PERIOD_COUNT[granularity]),
+    [items, granularity]
+  )
+  const actuals = useMemo(
+    () => buildForecastActuals(items, granularity, PERIOD_COUNT[granularity]),
+    [items, granularity]
+  )
+  const unscheduled = useMemo(() => unscheduledTotals(items), [items])
+
+  // The selected date range, compared with the closed revenue the sales metrics report
+  const rangeComparison = useMemo(() => {
+    const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() + 1)
+    const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate())
+    return compareForecastToActual(items, start, end)
+  }, [items, startDate, endDate])
+
+  const horizon = useMemo(() => {
+    const totals = Object.fromEntries(CATEGORIES.map(c => [c, { amount: 0, weighted: 0, count: 0 }])) as
+      Record<ForecastCategory, { amount: number; weighted: number; count: number }>
+    periods.forEach(period => {
+      CATEGORIES.forEach(category => {
+        totals[category].amount += period.categories[category].amount
+        totals[category].weighted += period.categories[category].weighted
+        totals[category].count += period.categories[category].count
+      })
+    })
+    return totals
+  }, [periods])
+  const horizonWeighted = CATEGORIES.reduce((sum, c) => sum + horizon[c].weighted, 0)
+  const pastDueCount = periods[0]?.pastDueCount || 0
+
+  const forecastChartData = periods.map(period => ({
+    label: period.label,
+    commit: period.categories.commit.amount,
+    bestCase: period.categories.bestCase.amount,
+    pipeline: period.categories.pipeline.amount,
+  }))
+
+  if (loading) {
+    return (
+      <div className="bg-rillation-card rounded-xl p-6 border border-rillation-border w-full">
+        <h3 className="text-lg font-semibold text-rillation-text mb-6">Revenue Forecast</h3>
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-rillation-green border-t-transparent rounded-full animate-spin" />
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-rillation-card rounded-xl p-6 border border-rillation-border w-full">
+        <h3 className="text-lg font-semibold text-rillation-text mb-6">Revenue Forecast</h3>
+        <div className="text-sm text-red-400">{error}</div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="bg-rillation-card rounded-xl p-4 sm:p-6 border border-rillation-border w-full space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-rillation-text flex items-center gap-2">
+            <TrendingUp size={18} className="text-rillation-green" />
+            Revenue Forecast
+          </h3>
+          <p className="text-xs text-rillation-text-muted mt-1">
+            Open deals and opportunities by expected close date, weighted by probability
+          </p>
+        </div>
+        <div className="flex p-0.5 gap-0.5 rounded-lg border border-rillation-border" role="radiogroup" aria-label="Forecast period">
+          {(['month', 'quarter'] as const).map(option => (
+            <button
+              key={option}
+              role="radio"
+              aria-checked={granularity === option}
+              onClick={() => setGranularity(option)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                granularity === option
+                  ? 'bg-slate-700 text-white'
+                  : 'text-rillation-text-muted hover:text-rillation-text'
+              }`}
+            >
+              {option === 'month' ? 'Monthly' : 'Quarterly'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Category totals over the horizon */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {CATEGORIES.map(category => {
+          const info = FORECAST_CATEGORY_INFO[category]
+          return (
+            <div key={category} className="rounded-xl p-4 bg-rillation-bg border border-rillation-border">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: info.color }} />
+                <span className="text-[10px] font-medium text-white/70 uppercase tracking-wider">{info.label}</span>
+              </div>
+              <span className="text-xl font-bold text-white block">{formatCurrency(horizon[category].amount)}</span>
+              <span className="text-[10px] text-white/50">
+                {horizon[category].count} {horizon[category].count === 1 ? 'deal' : 'deals'} • {info.description}
+              </span>
+            </div>
+          )
+        })}
+        <div className="rounded-xl p-4 bg-rillation-bg border border-rillation-border">
+          <span className="text-[10px] font-medium text-white/70 uppercase tracking-wider block mb-1">Weighted Forecast</span>
+          <span className="text-xl font-bold text-rillation-green block">{formatCurrency(horizonWeighted)}</span>
+          <span className="text-[10px] text-white/50">
+            Next {PERIOD_COUNT[granularity]} {granularity === 'month' ? 'months' : 'quarters'}
+          </span>
+        </div>
+      </div>
+
+      {/* Forecast by period */}
+      <div>
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={forecastChartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="label" stroke="#64748b" tick={{ fontSize: 10 }} />
+            <YAxis stroke="#64748b" tick={{ fontSize: 10 }} tickFormatter={formatCompact} />
+            <Tooltip content={<CurrencyTooltip />} cursor={{ fill: 'rgba(255,255,255,0.04)' }} />
+            {CATEGORIES.map((category, i) => (
+              <Bar
+                key={category}
+                dataKey={category}
+                name={FORECAST_CATEGORY_INFO[category].label}
+                stackId="forecast"
+                fill={FORECAST_CATEGORY_INFO[category].color}
+                radius={i === CATEGORIES.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0]}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="overflow-x-auto mt-2">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-rillation-text-muted">
+                <th className="text-left font-medium py-1.5">Period</th>
+                {CATEGORIES.map(category => (
+                  <th key={category} className="text-right font-medium py-1.5">{FORECAST_CATEGORY_INFO[category].label}</th>
+                ))}
+                <th className="text-right font-medium py-1.5">Weighted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map(period => (
+                <tr key={period.key} className="border-t border-rillation-border text-rillation-text">
+                  <td className="py-1.5">{period.label}</td>
+                  {CATEGORIES.map(category => (
+                    <td key={category} className="text-right py-1.5">{formatCurrency(period.categories[category].amount)}</td>
+                  ))}
+                  <td className="text-right py-1.5 font-semibold text-rillation-green">{formatCurrency(period.total.weighted)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {(pastDueCount > 0 || unscheduled.count > 0) && (
+            <p className="text-[11px] text-rillation-text-muted mt-2">
+              {pastDueCount > 0 && `${pastDueCount} past-due ${pastDueCount === 1 ? 'deal is' : 'deals are'} counted in ${periods[0].label}. `}
+              {unscheduled.count > 0 &&
+                `${unscheduled.count} open ${unscheduled.count === 1 ? 'deal has' : 'deals have'} no expected close date (${formatCurrency(unscheduled.amount)}, ${formatCurrency(unscheduled.weighted)} weighted).`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Forecast vs. actual closed */}
+      <div className="pt-4 border-t border-rillation-border">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div>
+            <h4 className="text-sm font-semibold text-white">Forecast vs. Closed</h4>
+            <p className="text-[11px] text-rillation-text-muted mt-0.5">
+              Weighted forecast at the start of each period against deals won in it (by actual close date)
+            </p>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="text-[10px] text-white/50 uppercase tracking-wider">Selected range</p>
+            <p className="text-sm text-white">
+              <span style={{ color: FORECAST_COLOR }}>{formatCurrency(rangeComparison.forecast)}</span>
+              <span className="text-rillation-text-muted"> forecast • </span>
+              <span style={{ color: CLOSED_COLOR }}>{formatCurrency(rangeComparison.closedWon)}</span>
+              <span className="text-rillation-text-muted"> won</span>
+            </p>
+            <p className="text-[10px] text-white/50">
+              {formatCurrency(salesSummary.totalRevenue)} closed revenue from {salesSummary.totalClosedWon} {salesSummary.totalClosedWon === 1 ? 'opportunity' : 'opportunities'}
+            </p>
+          </div>
+        </div>
+        <ResponsiveContainer width="100%" height={180}>
+          <BarChart data={actuals} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="label" stroke="#64748b" tick={{ fontSize: 10 }} />
+            <YAxis stroke="#64748b" tick={{ fontSize: 10 }} tickFormatter={formatCompact} />
+            <Tooltip content={<CurrencyTooltip />} cursor={{ fill: 'rgba(255,255,255,0.04)' }} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Bar dataKey="forecast" name="Forecast" fill={FORECAST_COLOR} radius={[4, 4, 0, 0]} />
+            <Bar dataKey="closedWon" name="Closed won" fill={CLOSED_COLOR} radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </motion.div>
+  )
+}
@@ -11,6 +11,7 @@ import {
 } from 'recharts'
 import { Sparkles } from 'lucide-react'
 import type { ChartDataPoint } from '../../types/database'
+import { targetsForDays, type TargetSchedule } from '../../lib/target-schedule'
 import { useAI } from '../../contexts/AIContext'
 
 interface TrendChartProps {
@@ -20,8 +21,11 @@ interface TrendChartProps {
     emailsTarget: number
     prospectsTarget: number
     repliesTarget: number
+    interestedTarget?: number // Interested gets no target line without one
     meetingsTarget: number
   }
+  // Per-point target lines follow the target in force on each point's days
+  targetSchedule?: TargetSchedule
   metrics?: {
     totalEmailsSent: number
     uniqueProspects: number
@@ -35,7 +39,7 @@ const METRIC_CONFIG = {
   sent: { label: 'Emails Sent', dataKey: 'sent', yAxisId: 'left', targetKey: 'emailsTarget', metricKey: 'totalEmailsSent' },
   prospects: { label: 'Unique Prospects', dataKey: 'prospects', yAxisId: 'left', targetKey: 'prospectsTarget', metricKey: 'uniqueProspects' },
   replied: { label: 'Replied', dataKey: 'replied', yAxisId: 'right', targetKey: 'repliesTarget', metricKey: 'realReplies' },
-  positiveReplies: { label: 'Interested', dataKey: 'positiveReplies', yAxisId: 'right', targetKey: 'repliesTarget', metricKey: 'positiveReplies' },
+  positiveReplies: { label: 'Interested', dataKey: 'positiveReplies', yAxisId: 'right', targetKey: 'interestedTarget', metricKey: 'positiveReplies' },
   meetings: { label: 'Meetings', dataKey: 'meetings', yAxisId: 'right', targetKey: 'meetingsTarget', metricKey: 'meetingsBooked' },
 }
 
@@ -48,7 +52,7 @@ function getTargetColorHex(actual: number, target: number): string {
   return '#ef4444' // red
 }
 
-export default function TrendChart({ data, selectedMetric, targets, metrics }: TrendChartProps) {
+export default function TrendChart({ data, selectedMetric, targets, targetSchedule, metrics }: TrendChartProps) {
   const { askAboutChart } = useAI()
 
   // Handle AI click
@@ -64,11 +68,26 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
   // Calculate daily targets for target lines
   const chartDataWithTargets = useMemo(() => {
     if (!targets || data.length === 0) return data
+
+    if (targetSchedule) {
+      return data.map(point => {
+        const pointTargets = targetsForDays(targetSchedule, point.days || [])
+        return {
+          ...point,
+          sentTarget: pointTargets.emails,
+          prospectsTarget: pointTargets.prospects,
+          repliedTarget: pointTargets.replies,
+          positiveRepliesTarget: pointTargets.interested,
+          meetingsTarget: pointTargets.meetings,
+        }
+      })
+    }
     
     const numDays = data.length
     const dailyEmailsTarget = targets.emailsTarget / numDays
     const dailyProspectsTarget = targets.prospectsTarget / numDays
     const dailyRepliesTarget = targets.repliesTarget / numDays
+    const dailyInterestedTarget = (targets.interestedTarget || 0) / numDays
     const dailyMeetingsTarget = targets.meetingsTarget / numDays
     
     return data.map(point => ({
@@ -76,10 +95,10 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
       sentTarget: dailyEmailsTarget,
       prospectsTarget: dailyProspectsTarget,
       repliedTarget: dailyRepliesTarget,
-      positiveRepliesTarget: dailyRepliesTarget,
+      positiveRepliesTarget: dailyInterestedTarget,
       meetingsTarget: dailyMeetingsTarget,
     }))
-  }, [data, targets])
+  }, [data, targets, targetSchedule])
 
   // Get line color based on selected metric and targets
   const getLineColor = (metric: keyof typeof METRIC_CONFIG): string => {
@@ -87,7 +106,7 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
     
     const config = METRIC_CONFIG[metric]
     const actual = metrics[config.metricKey as keyof typeof metrics] as number
-    const target = targets[config.targetKey as keyof typeof targets] as number
+    const target = targets[config.targetKey as keyof typeof targets] || 0
     
     return getTargetColorHex(actual, target)
   }
@@ -178,7 +197,7 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
                     animationDuration={500}
                   />
                   {/* Target line */}
-                  {targets && (
+                  {targets && (selectedMetric !== 'positiveReplies' || (targets.interestedTarget || 0) > 0) && (
                     <Line
                       yAxisId={METRIC_CONFIG[selectedMetric].yAxisId}
                       type="monotone"
@@ -1,11 +1,13 @@
 import { NavLink, useLocation } from 'react-router-dom'
-import { BarChart3, Users, Settings, TrendingUp, LayoutDashboard, DollarSign, CheckSquare } from 'lucide-react'
+import { BarChart3, Users, Settings, TrendingUp, LayoutDashboard, DollarSign, CheckSquare, CalendarDays, SlidersHorizontal } from 'lucide-react'
 
 const CRM_SUBSECTIONS = [
   { path: '/crm', icon: LayoutDashboard, label: 'Dashboard', exact: true },
   { path: '/crm/contacts', icon: Users, label: 'Contacts' },
   { path: '/crm/deals', icon: DollarSign, label: 'Deals' },
   { path: '/crm/tasks', icon: CheckSquare, label: 'Tasks' },
+  { path: '/crm/calendar', icon: CalendarDays, label: 'Calendar' },
+  { path: '/crm/settings', icon: SlidersHorizontal, label: 'CRM Settings' },
 ]
 
 const ANALYTICS_SUBSECTIONS = [
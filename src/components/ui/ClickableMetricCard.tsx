@@ -1,5 +1,6 @@
 import { motion, AnimatePresence } from 'framer-motion'
 import { formatNumber, formatPercentage } from '../../lib/supabase'
+import type { PacingResult } from '../../lib/pacing'
 
 interface ClickableMetricCardProps {
   title: string
@@ -7,16 +8,25 @@ interface ClickableMetricCardProps {
   percentage?: number
   percentageLabel?: string
   colorClass?: string
+  projection?: Pick<PacingResult, 'projected' | 'monthTarget' | 'status'>
   isActive?: boolean
   onClick?: () => void
 }
 
+const PROJECTION_COLORS: Record<PacingResult['status'], string> = {
+  ahead: 'text-green-400',
+  on_track: 'text-yellow-400',
+  behind: 'text-red-400',
+  no_target: 'text-white/70',
+}
+
 export default function ClickableMetricCard({
   title,
   value,
   percentage,
   percentageLabel,
   colorClass = 'text-white',
+  projection,
   isActive = false,
   onClick,
 }: ClickableMetricCardProps) {
@@ -94,6 +104,13 @@ export default function ClickableMetricCard({
           {percentageLabel}
         </p>
       )}
+
+      {/* Projected end of month */}
+      {projection && projection.status !== 'no_target' && (
+        <p className={`relative z-10 text-[10px] mt-1 ${PROJECTION_COLORS[projection.status]}`}>
+          Proj. EOM {formatNumber(projection.projected)} / {formatNumber(projection.monthTarget)}
+        </p>
+      )}
     </motion.div>
   )
 }
@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { X, Save, Loader2 } from 'lucide-react'
 import { supabase, formatNumber, formatPercentage, formatDateForDisplay } from '../../lib/supabase'
+import { EMPTY_TARGET_SCHEDULE, targetsForRange, toDateKey, versionOn, type TargetSchedule } from '../../lib/target-schedule'
+import { fetchTargetSchedule } from '../../hooks/useTargetSchedule'
 import Button from './Button'
 import ModalPortal from './ModalPortal'
 
@@ -37,15 +39,38 @@ export default function ClientDetailModal({
   const [prospectsPerDay, setProspectsPerDay] = useState(0)
   const [repliesPerDay, setRepliesPerDay] = useState(0)
   const [meetingsPerDay, setMeetingsPerDay] = useState(0)
+  const [schedule, setSchedule] = useState<TargetSchedule>(EMPTY_TARGET_SCHEDULE)
 
-  // Calculate number of days in range
-  const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
+  // The edited targets are saved as a version from today
+  const todayKey = toDateKey(new Date())
+  const draftVersion = useMemo(() => {
+    const current = versionOn(schedule, new Date())
+    return {
+      client: clientName,
+      effective_from: todayKey,
+      emails_per_day: emailsPerDay,
+      prospects_per_day: prospectsPerDay,
+      replies_per_day: repliesPerDay,
+      interested_per_day: current?.interested_per_day ?? null,
+      meetings_per_day: meetingsPerDay,
+      weekend_weight: current?.weekend_weight ?? 1,
+    }
+  }, [schedule, clientName, todayKey, emailsPerDay, prospectsPerDay, repliesPerDay, meetingsPerDay])
 
-  // Calculate targets for the period
-  const emailsTarget = emailsPerDay * daysDiff
-  const prospectsTarget = prospectsPerDay * daysDiff
-  const repliesTarget = repliesPerDay * daysDiff
-  const meetingsTarget = meetingsPerDay * daysDiff
+  // Calculate targets for the period from the target in force on each day; the
+  // draft replaces today's version and runs until the next scheduled one
+  const periodTargets = useMemo(() => targetsForRange({
+    ...schedule,
+    versions: [
+      ...schedule.versions.filter(v => v.effective_from < todayKey),
+      draftVersion,
+      ...schedule.versions.filter(v => v.effective_from > todayKey),
+    ],
+  }, startDate, endDate), [schedule, todayKey, draftVersion, startDate, endDate])
+  const emailsTarget = periodTargets.emails
+  const prospectsTarget = periodTargets.prospects
+  const repliesTarget = periodTargets.replies
+  const meetingsTarget = periodTargets.meetings
 
   // Calculate percentages
   const emailsPct = emailsTarget > 0 ? (actualData.emailsSent / emailsTarget) * 100 : 0
@@ -60,36 +85,14 @@ export default function ClientDetailModal({
     async function fetchTargets() {
       setLoading(true)
       try {
-        const { data, error } = await supabase
-          .from('client_targets')
-          .select('*')
-          .eq('client', clientName)
-          .single()
-
-        if (error && error.code !== 'PGRST116') throw error
-
-        type TargetRow = {
-          client: string
-          emails_per_day: number | null
-          prospects_per_day: number | null
-          replies_per_day: number | null
-          meetings_per_day: number | null
-        }
-
-        const targetData = data as TargetRow | null
+        const result = await fetchTargetSchedule(clientName)
+        const current = versionOn(result, new Date())
 
-        if (targetData) {
-          setEmailsPerDay(targetData.emails_per_day || 0)
-          setProspectsPerDay(targetData.prospects_per_day || 0)
-          setRepliesPerDay(targetData.replies_per_day || 0)
-          setMeetingsPerDay(targetData.meetings_per_day || 0)
-        } else {
-          // Reset to 0 if no targets found
-          setEmailsPerDay(0)
-          setProspectsPerDay(0)
-          setRepliesPerDay(0)
-          setMeetingsPerDay(0)
-        }
+        setSchedule(result)
+        setEmailsPerDay(current?.emails_per_day || 0)
+        setProspectsPerDay(current?.prospects_per_day || 0)
+        setRepliesPerDay(current?.replies_per_day || 0)
+        setMeetingsPerDay(current?.meetings_per_day || 0)
       } catch (err) {
         console.error('Error fetching targets:', err)
       } finally {
@@ -109,19 +112,26 @@ export default function ClientDetailModal({
   const handleSave = async () => {
     setSaving(true)
     try {
-      const { error } = await supabase
-        .from('client_targets')
-        .upsert({
-          client: clientName,
-          emails_per_day: emailsPerDay,
-          prospects_per_day: prospectsPerDay,
-          replies_per_day: repliesPerDay,
-          meetings_per_day: meetingsPerDay,
-        } as any, {
-          onConflict: 'client'
-        })
+      // Unchanged targets would only add a copy of the version in force
+      const current = versionOn(schedule, new Date())
+      const unchanged = current !== null
+        && Number(current.emails_per_day || 0) === emailsPerDay
+        && Number(current.prospects_per_day || 0) === prospectsPerDay
+        && Number(current.replies_per_day || 0) === repliesPerDay
+        && Number(current.meetings_per_day || 0) === meetingsPerDay
 
-      if (error) throw error
+      if (!unchanged) {
+        // Earlier days keep the targets that were in force then
+        const { error } = await supabase.from('client_target_schedules')
+          .upsert({
+            ...draftVersion,
+            updated_at: new Date().toISOString(),
+          }, {
+            onConflict: 'client,effective_from'
+          })
+
+        if (error) throw error
+      }
 
       onTargetsSaved?.()
       onClose()
@@ -257,7 +267,10 @@ export default function ClientDetailModal({
 
               {/* Edit Daily Targets */}
               <div>
-                <h3 className="text-sm font-medium text-rillation-text mb-3">Edit Daily Targets</h3>
+                <h3 className="text-sm font-medium text-rillation-text mb-1">Edit Daily Targets</h3>
+                <p className="text-xs text-rillation-text-muted mb-3">
+                  Saved as the targets from today on; earlier days keep the targets they had.
+                </p>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-xs text-rillation-text-muted mb-1">
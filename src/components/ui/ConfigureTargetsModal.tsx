@@ -1,7 +1,11 @@
 import { useState, useEffect, useMemo } from 'react'
-import { X, Save, Loader2, ChevronDown, ChevronUp, Search } from 'lucide-react'
-import { supabase, formatDateForQuery, formatCurrency } from '../../lib/supabase'
+import { X, Save, Loader2, ChevronDown, ChevronUp, Search, Plus, Trash2 } from 'lucide-react'
+import { supabase, formatDateForQuery, formatCurrency, formatNumber } from '../../lib/supabase'
 import { isLeadAtDeepestStage, stageToBooleanMap, PIPELINE_STAGES_ORDERED } from '../../lib/pipeline-utils'
+import { PACING_METRICS } from '../../lib/pacing'
+import { TARGET_COLUMNS, toDateKey, versionOn, type TargetColumn } from '../../lib/target-schedule'
+import { fetchTargetSchedule } from '../../hooks/useTargetSchedule'
+import type { ClientTargetSchedule } from '../../types/database'
 import Button from './Button'
 import ModalPortal from './ModalPortal'
 
@@ -29,6 +33,11 @@ interface LeadWithOpportunity {
   opportunityValue?: number
 }
 
+interface MonthOverrideDraft {
+  month: string // YYYY-MM
+  values: Partial<Record<TargetColumn, number | null>> // Empty keeps the scheduled value
+}
+
 interface StageGroup {
   stage: string
   leads: LeadWithOpportunity[]
@@ -44,6 +53,11 @@ const PIPELINE_STAGES = [
 
 // stageToBooleanMap is now imported from pipeline-utils
 
+function formatEffectiveDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
 export default function ConfigureTargetsModal({
   isOpen,
   onClose,
@@ -66,6 +80,11 @@ export default function ConfigureTargetsModal({
   const [repliesPerDay, setRepliesPerDay] = useState(0)
   const [interestedPerDay, setInterestedPerDay] = useState(0)
   const [meetingsPerDay, setMeetingsPerDay] = useState(0)
+  const [weekendWeight, setWeekendWeight] = useState(1)
+  const [effectiveFrom, setEffectiveFrom] = useState(() => toDateKey(new Date()))
+  const [targetVersions, setTargetVersions] = useState<ClientTargetSchedule[]>([])
+  const [monthOverrides, setMonthOverrides] = useState<MonthOverrideDraft[]>([])
+  const [removedVersionIds, setRemovedVersionIds] = useState<string[]>([])
 
   // Fetch all clients for targets mode
   useEffect(() => {
@@ -93,6 +112,16 @@ export default function ConfigureTargetsModal({
     fetchClients()
   }, [isOpen, mode])
 
+  // Fill the form from a target version (zeros when there is none)
+  const loadVersion = (version: ClientTargetSchedule | null) => {
+    setEmailsPerDay(version?.emails_per_day || 0)
+    setProspectsPerDay(version?.prospects_per_day || 0)
+    setRepliesPerDay(version?.replies_per_day || 0)
+    setInterestedPerDay(version?.interested_per_day || 0)
+    setMeetingsPerDay(version?.meetings_per_day || 0)
+    setWeekendWeight(version ? Number(version.weekend_weight ?? 1) : 1)
+  }
+
   // Fetch targets for selected client
   useEffect(() => {
     if (!isOpen || mode !== 'targets' || !selectedClientForTargets) return
@@ -100,39 +129,20 @@ export default function ConfigureTargetsModal({
     async function fetchTargets() {
       setLoading(true)
       try {
-        const { data, error } = await supabase
-          .from('client_targets')
-          .select('*')
-          .eq('client', selectedClientForTargets)
-          .single()
-
-        if (error && error.code !== 'PGRST116') throw error
-
-        type TargetRow = {
-          client: string
-          emails_per_day: number | null
-          prospects_per_day: number | null
-          replies_per_day: number | null
-          interested_per_day?: number | null
-          meetings_per_day: number | null
-        }
-
-        const targetData = data as TargetRow | null
-
-        if (targetData) {
-          setEmailsPerDay(targetData.emails_per_day || 0)
-          setProspectsPerDay(targetData.prospects_per_day || 0)
-          setRepliesPerDay(targetData.replies_per_day || 0)
-          setInterestedPerDay(targetData.interested_per_day || 0)
-          setMeetingsPerDay(targetData.meetings_per_day || 0)
-        } else {
-          // Reset to 0 if no targets found
-          setEmailsPerDay(0)
-          setProspectsPerDay(0)
-          setRepliesPerDay(0)
-          setInterestedPerDay(0)
-          setMeetingsPerDay(0)
-        }
+        const schedule = await fetchTargetSchedule(selectedClientForTargets)
+
+        // Start from the targets in force today, saved as a new version from today
+        const today = new Date()
+        setTargetVersions(schedule.versions)
+        setRemovedVersionIds([])
+        setEffectiveFrom(toDateKey(today))
+        loadVersion(versionOn(schedule, today) || schedule.versions[schedule.versions.length - 1] || null)
+        setMonthOverrides(schedule.overrides.map(override => ({
+          month: `${override.year}-${String(override.month).padStart(2, '0')}`,
+          values: Object.fromEntries(
+            Object.values(TARGET_COLUMNS).map(column => [column, override[column]])
+          ),
+        })))
       } catch (err) {
         console.error('Error fetching targets:', err)
       } finally {
@@ -320,26 +330,122 @@ export default function ConfigureTargetsModal({
     e.target.select()
   }
 
+  // Edit an existing version: saving with its date updates it in place
+  const handleEditVersion = (version: ClientTargetSchedule) => {
+    setEffectiveFrom(version.effective_from)
+    loadVersion(version)
+  }
+
+  // Removed versions are deleted on save, like removed month overrides
+  const handleDeleteVersion = (version: ClientTargetSchedule) => {
+    const remaining = targetVersions.filter(v => v !== version)
+    if (version.id) setRemovedVersionIds(prev => [...prev, version.id!])
+    setTargetVersions(remaining)
+
+    // Otherwise saving would write the deleted version straight back
+    if (version.effective_from === effectiveFrom) {
+      const today = new Date()
+      setEffectiveFrom(toDateKey(today))
+      loadVersion(versionOn({ versions: remaining, overrides: [] }, today))
+    }
+  }
+
+  const updateMonthOverride = (index: number, update: Partial<MonthOverrideDraft>) => {
+    setMonthOverrides(prev => prev.map((override, i) =>
+      i === index ? { ...override, ...update, values: { ...override.values, ...update.values } } : override
+    ))
+  }
+
   // Save targets for targets mode
   const handleSaveTargets = async () => {
-    if (!selectedClientForTargets) return
-    
+    if (!selectedClientForTargets || !effectiveFrom) return
+
+    const months = monthOverrides.map(override => override.month)
+    if (months.some(month => !month)) {
+      alert('Pick a month for each override')
+      return
+    }
+    if (new Set(months).size !== months.length) {
+      alert('Each month can only have one override')
+      return
+    }
+
     setSaving(true)
     try {
-      const { error } = await supabase
-        .from('client_targets')
-        .upsert({
-          client: selectedClientForTargets,
-          emails_per_day: emailsPerDay,
-          prospects_per_day: prospectsPerDay,
-          replies_per_day: repliesPerDay,
-          interested_per_day: interestedPerDay,
-          meetings_per_day: meetingsPerDay,
-        } as any, {
-          onConflict: 'client'
-        })
+      const updatedAt = new Date().toISOString()
 
-      if (error) throw error
+      if (removedVersionIds.length > 0) {
+        const { error: removeError } = await supabase.from('client_target_schedules')
+          .delete()
+          .in('id', removedVersionIds)
+
+        if (removeError) throw removeError
+      }
+
+      const version = {
+        emails_per_day: emailsPerDay,
+        prospects_per_day: prospectsPerDay,
+        replies_per_day: repliesPerDay,
+        interested_per_day: interestedPerDay,
+        meetings_per_day: meetingsPerDay,
+        weekend_weight: weekendWeight,
+      }
+
+      // Nothing to save when the version in force on that date already has these
+      // targets, e.g. when only month overrides changed
+      const [year, month, day] = effectiveFrom.split('-').map(Number)
+      const activeVersion = versionOn({ versions: targetVersions, overrides: [] }, new Date(year, month - 1, day))
+      const unchanged = activeVersion !== null
+        && Object.values(TARGET_COLUMNS).every(column => Number(activeVersion[column] || 0) === version[column])
+        && Number(activeVersion.weekend_weight ?? 1) === version.weekend_weight
+
+      if (!unchanged) {
+        // One version per effective date; saving an existing date updates it
+        const { error } = await supabase.from('client_target_schedules')
+          .upsert({
+            ...version,
+            client: selectedClientForTargets,
+            effective_from: effectiveFrom,
+            updated_at: updatedAt,
+          }, {
+            onConflict: 'client,effective_from'
+          })
+
+        if (error) throw error
+      }
+
+      let keptIds: string[] = []
+      if (monthOverrides.length > 0) {
+        const { data, error: overridesError } = await supabase.from('client_target_month_overrides')
+          .upsert(monthOverrides.map(override => {
+            const [year, month] = override.month.split('-').map(Number)
+            return {
+              client: selectedClientForTargets,
+              year,
+              month,
+              ...Object.fromEntries(
+                Object.values(TARGET_COLUMNS).map(column => [column, override.values[column] ?? null])
+              ),
+              updated_at: updatedAt,
+            }
+          }), {
+            onConflict: 'client,year,month'
+          })
+          .select('id')
+
+        if (overridesError) throw overridesError
+        keptIds = (data || []).map(row => row.id!)
+      }
+
+      // Drop overrides removed from the form
+      let deleteQuery = supabase.from('client_target_month_overrides')
+        .delete()
+        .eq('client', selectedClientForTargets)
+      if (keptIds.length > 0) {
+        deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`)
+      }
+      const { error: deleteError } = await deleteQuery
+      if (deleteError) throw deleteError
 
       onSave?.()
       // Don't close, allow configuring more clients
@@ -491,7 +597,7 @@ export default function ConfigureTargetsModal({
             <p className="text-sm text-rillation-text-muted mt-1">
               {mode === 'pipeline' 
                 ? 'Set estimated values (potential MRR) for leads in the pipeline'
-                : 'Configure daily performance targets for this client'}
+                : 'Configure daily performance targets for this client, effective from a date'}
             </p>
           </div>
           <button
@@ -577,6 +683,38 @@ export default function ConfigureTargetsModal({
                 </div>
                 
                 <div className="bg-rillation-bg rounded-xl border border-rillation-border p-6 space-y-6">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-rillation-text mb-2">
+                        Effective From
+                      </label>
+                      <input
+                        type="date"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                        className="w-full px-4 py-2 bg-rillation-card border border-rillation-border rounded-lg text-rillation-text focus:outline-none focus:border-rillation-text"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-rillation-text mb-2">
+                        Weekend Weight
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={weekendWeight}
+                        onChange={(e) => setWeekendWeight(Math.max(0, parseFloat(e.target.value) || 0))}
+                        onFocus={handleFocus}
+                        className="w-full px-4 py-2 bg-rillation-card border border-rillation-border rounded-lg text-rillation-text focus:outline-none focus:border-rillation-text"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-rillation-text-muted -mt-3">
+                    Targets apply from this date until the next version starts, so earlier days keep the targets they had.
+                    Per-day values are weekday targets; Saturdays and Sundays count the weekend weight of them (1 = same as a weekday, 0 = none).
+                  </p>
+
                   <div>
                     <label className="block text-sm font-medium text-rillation-text mb-2">
                       Emails per Day
@@ -652,6 +790,140 @@ export default function ConfigureTargetsModal({
                     />
                   </div>
                 </div>
+
+                {/* Month Overrides */}
+                <div className="bg-rillation-bg rounded-xl border border-rillation-border p-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="text-sm font-semibold text-rillation-text">Month Overrides</h4>
+                      <p className="text-xs text-rillation-text-muted mt-1">
+                        Per-day targets for a single month, e.g. a slow December. Leave a value empty to keep the scheduled one.
+                      </p>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setMonthOverrides(prev => [...prev, { month: '', values: {} }])}
+                    >
+                      <Plus size={12} />
+                      Add Month
+                    </Button>
+                  </div>
+
+                  {monthOverrides.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-rillation-text-muted">
+                            <th className="text-left font-medium py-1.5 pr-2">Month</th>
+                            {PACING_METRICS.map(metric => (
+                              <th key={metric.key} className="text-left font-medium py-1.5 px-1">{metric.label}</th>
+                            ))}
+                            <th className="py-1.5" />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {monthOverrides.map((override, index) => (
+                            <tr key={index} className="border-t border-rillation-border">
+                              <td className="py-1.5 pr-2">
+                                <input
+                                  type="month"
+                                  value={override.month}
+                                  onChange={(e) => updateMonthOverride(index, { month: e.target.value })}
+                                  className="w-full px-2 py-1.5 bg-rillation-card border border-rillation-border rounded-lg text-xs text-rillation-text focus:outline-none focus:border-rillation-text"
+                                />
+                              </td>
+                              {PACING_METRICS.map(metric => {
+                                const column = TARGET_COLUMNS[metric.key]
+                                const value = override.values[column]
+                                return (
+                                  <td key={metric.key} className="py-1.5 px-1">
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      step="1"
+                                      value={value ?? ''}
+                                      onChange={(e) => updateMonthOverride(index, {
+                                        values: { [column]: e.target.value === '' ? null : parseFloat(e.target.value) || 0 },
+                                      })}
+                                      onFocus={handleFocus}
+                                      className="w-full px-2 py-1.5 bg-rillation-card border border-rillation-border rounded-lg text-xs text-rillation-text focus:outline-none focus:border-rillation-text"
+                                    />
+                                  </td>
+                                )
+                              })}
+                              <td className="py-1.5 pl-1 text-right">
+                                <button
+                                  onClick={() => setMonthOverrides(prev => prev.filter((_, i) => i !== index))}
+                                  className="p-1.5 text-rillation-text-muted hover:text-rillation-red transition-colors"
+                                  title="Remove override"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+
+                {/* Version History */}
+                {targetVersions.length > 0 && (
+                  <div className="bg-rillation-bg rounded-xl border border-rillation-border p-6 space-y-3">
+                    <div>
+                      <h4 className="text-sm font-semibold text-rillation-text">Target History</h4>
+                      <p className="text-xs text-rillation-text-muted mt-1">
+                        Each version applies from its date until the next. Select one to edit it.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      {[...targetVersions].reverse().map(version => {
+                        const inForce = versionOn({ versions: targetVersions, overrides: [] }, new Date())?.id === version.id
+                        const isEditing = version.effective_from === effectiveFrom
+                        return (
+                          <div
+                            key={version.id || version.effective_from}
+                            onClick={() => handleEditVersion(version)}
+                            className={`flex items-center justify-between gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-rillation-card-hover ${
+                              isEditing ? 'border-rillation-text/50 bg-rillation-card-hover' : 'border-rillation-border'
+                            }`}
+                          >
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="text-sm font-medium text-rillation-text">
+                                  From {formatEffectiveDate(version.effective_from)}
+                                </span>
+                                {inForce && (
+                                  <span className="px-2 py-0.5 rounded-full border text-[10px] text-rillation-green bg-rillation-green/10 border-rillation-green/30">
+                                    In force
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-xs text-rillation-text-muted mt-1 truncate">
+                                {PACING_METRICS.map(metric =>
+                                  `${formatNumber(Number(version[TARGET_COLUMNS[metric.key]] || 0))} ${metric.label.toLowerCase()}`
+                                ).join(' • ')}
+                                {Number(version.weekend_weight) !== 1 && ` • weekends ×${version.weekend_weight}`}
+                              </p>
+                            </div>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleDeleteVersion(version)
+                              }}
+                              className="p-1.5 text-rillation-text-muted hover:text-rillation-red transition-colors flex-shrink-0"
+                              title="Delete version"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
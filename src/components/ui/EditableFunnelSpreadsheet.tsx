@@ -3,6 +3,7 @@ import { Save, Loader2 } from 'lucide-react'
 import { supabase } from '../../lib/supabase'
 import Button from './Button'
 import AnimatedSelect from './AnimatedSelect'
+import { FUNNEL_METRICS, FUNNEL_METRIC_STAGES, valuesMatch } from '../../lib/funnel-forecast'
 
 interface FunnelForecastRow {
   id?: number
@@ -14,6 +15,8 @@ interface FunnelForecastRow {
   estimate_2: number
   actual: number
   projected: number
+  computed_actual?: number | null
+  actual_override?: boolean
 }
 
 interface EditableFunnelSpreadsheetProps {
@@ -23,30 +26,6 @@ interface EditableFunnelSpreadsheetProps {
   onSave?: () => void
 }
 
-// Metric rows configuration - organized by stage
-const metricRows = [
-  { key: 'total_messages_sent', label: 'Total Messages Sent', format: 'number', stage: 'outreach' },
-  { key: 'total_leads_contacted', label: 'Total Leads Contacted', format: 'number', stage: 'outreach' },
-  { key: 'response_rate', label: 'Response Rate', format: 'percent', stage: 'engagement' },
-  { key: 'total_responses', label: 'Total Responses', format: 'number', stage: 'engagement' },
-  { key: 'positive_response_rate', label: 'Positive Response Rate', format: 'percent', stage: 'engagement' },
-  { key: 'total_pos_response', label: 'Total Positive Responses', format: 'number', stage: 'engagement' },
-  { key: 'booked_rate', label: 'Booked Rate', format: 'percent', stage: 'meetings' },
-  { key: 'total_booked', label: 'Total Booked', format: 'number', stage: 'meetings' },
-  { key: 'meetings_passed', label: 'Meetings Passed', format: 'number', stage: 'meetings' },
-  { key: 'show_up_to_disco_rate', label: 'Show Up Rate', format: 'percent', stage: 'discovery' },
-  { key: 'total_show_up_to_disco', label: 'Total Show Up to Discovery', format: 'number', stage: 'discovery' },
-  { key: 'qualified_rate', label: 'Qualified Rate', format: 'percent', stage: 'discovery' },
-  { key: 'total_qualified', label: 'Total Qualified', format: 'number', stage: 'discovery' },
-  { key: 'close_rate', label: 'Close Rate', format: 'percent', stage: 'closing' },
-  { key: 'total_PILOT_accepted', label: 'Total Pilots Accepted', format: 'number', stage: 'closing' },
-  { key: 'LM_converted_to_close', label: 'LM Converted to Close', format: 'percent', stage: 'closing' },
-  { key: 'total_deals_closed', label: 'Total Deals Closed', format: 'number', stage: 'closing' },
-  { key: 'cost_per_close', label: 'Cost per Close', format: 'currency', stage: 'revenue' },
-  { key: 'AVG_CC_per_client', label: 'Avg CC per Client', format: 'currency', stage: 'revenue' },
-  { key: 'MRR_added', label: 'MRR Added', format: 'currency', stage: 'revenue' },
-]
-
 const monthNames = [
   'January', 'February', 'March', 'April', 'May', 'June',
   'July', 'August', 'September', 'October', 'November', 'December'
@@ -62,12 +41,7 @@ const columnLabels: Record<string, string> = {
 
 const stageFilters = [
   { key: 'all', label: 'All Stages' },
-  { key: 'outreach', label: 'Outreach' },
-  { key: 'engagement', label: 'Engagement' },
-  { key: 'meetings', label: 'Meetings' },
-  { key: 'discovery', label: 'Discovery' },
-  { key: 'closing', label: 'Closing' },
-  { key: 'revenue', label: 'Revenue' },
+  ...FUNNEL_METRIC_STAGES,
 ]
 
 export default function EditableFunnelSpreadsheet({ 
@@ -88,7 +62,7 @@ export default function EditableFunnelSpreadsheet({
       dataMap.set(row.metric_key, { ...row })
     })
     // Fill in missing metrics
-    metricRows.forEach((metric) => {
+    FUNNEL_METRICS.forEach((metric) => {
       if (!dataMap.has(metric.key)) {
         dataMap.set(metric.key, {
           metric_key: metric.key,
@@ -147,6 +121,7 @@ export default function EditableFunnelSpreadsheet({
   const handleSave = async () => {
     setSaving(true)
     try {
+      const formats = new Map(FUNNEL_METRICS.map((metric) => [metric.key, metric.format]))
       const upsertData = Array.from(editedData.values()).map((row) => ({
         id: row.id,
         month,
@@ -159,6 +134,9 @@ export default function EditableFunnelSpreadsheet({
         estimate_2: row.estimate_2,
         actual: row.actual,
         projected: row.projected,
+        // A typed actual that disagrees with the last reconciliation is kept as an override
+        actual_override: row.computed_actual !== null && row.computed_actual !== undefined
+          && !valuesMatch(row.actual, row.computed_actual, formats.get(row.metric_key) || 'number'),
       }))
 
       const { error } = await supabase
@@ -182,8 +160,8 @@ export default function EditableFunnelSpreadsheet({
 
   // Filter metrics by stage
   const filteredMetrics = selectedStage === 'all' 
-    ? metricRows 
-    : metricRows.filter(m => m.stage === selectedStage)
+    ? FUNNEL_METRICS 
+    : FUNNEL_METRICS.filter(m => m.stage === selectedStage)
 
   return (
     <div className="bg-gradient-to-br from-rillation-card to-rillation-bg rounded-lg border border-rillation-border overflow-hidden">
@@ -282,6 +260,9 @@ export default function EditableFunnelSpreadsheet({
                     const cellValue = rowData?.[col as keyof FunnelForecastRow] ?? 0
                     const numValue = typeof cellValue === 'number' ? cellValue : 0
                     const displayValue = formatValueForInput(numValue, row.format)
+                    const computedActual = col === 'actual' ? rowData?.computed_actual : null
+                    const differsFromComputed = computedActual !== null && computedActual !== undefined
+                      && !valuesMatch(numValue, computedActual, row.format)
                     
                     return (
                       <td key={col} className="px-1 py-1">
@@ -302,6 +283,15 @@ export default function EditableFunnelSpreadsheet({
                           `}
                           step={row.format === 'percent' ? '0.01' : '1'}
                         />
+                        {differsFromComputed && (
+                          <span
+                            className="block text-[10px] text-center text-rillation-orange leading-tight mt-0.5"
+                            title={rowData?.actual_override ? 'Kept as an override' : 'Differs from the computed value'}
+                          >
+                            Computed: {formatValueForInput(computedActual, row.format) || '0'}
+                            {rowData?.actual_override && ' (override)'}
+                          </span>
+                        )}
                       </td>
                     )
                   })}
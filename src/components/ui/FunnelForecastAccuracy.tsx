@@ -0,0 +1,237 @@
+import { useState, useMemo } from 'react'
+import { motion } from 'framer-motion'
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
+} from 'recharts'
+import { Target, RefreshCw } from 'lucide-react'
+import { formatNumber, formatPercentage, formatCurrency } from '../../lib/supabase'
+import {
+  FUNNEL_METRICS,
+  MIN_ACCURACY_MONTHS,
+  computeMetricAccuracy,
+  computeStageAccuracy,
+  lastMonths,
+  type FunnelMetricFormat,
+  type ForecastTendency,
+} from '../../lib/funnel-forecast'
+import type { FunnelForecast } from '../../types/database'
+import AnimatedSelect from './AnimatedSelect'
+import Button from './Button'
+
+interface FunnelForecastAccuracyProps {
+  rows: FunnelForecast[]
+  loading: boolean
+  error: string | null
+  months?: number
+  onReconcile?: () => void
+}
+
+const TENDENCY_INFO: Record<ForecastTendency, { label: string; className: string }> = {
+  over: { label: 'Over-estimated', className: 'text-rillation-orange bg-rillation-orange/10 border-rillation-orange/30' },
+  under: { label: 'Under-estimated', className: 'text-rillation-cyan bg-rillation-cyan/10 border-rillation-cyan/30' },
+  mixed: { label: 'No consistent bias', className: 'text-rillation-text-muted bg-rillation-bg border-rillation-border' },
+  insufficient: { label: 'Not enough data', className: 'text-rillation-text-muted/60 bg-rillation-bg border-rillation-border' },
+}
+
+function formatMetricValue(value: number, format: FunnelMetricFormat): string {
+  switch (format) {
+    case 'percent':
+      return formatPercentage(value)
+    case 'currency':
+      return formatCurrency(value)
+    default:
+      return formatNumber(Math.round(value))
+  }
+}
+
+function formatBias(bias: number | null): string {
+  if (bias === null) return '-'
+  return `${bias > 0 ? '+' : ''}${bias.toFixed(1)}%`
+}
+
+const MetricTooltip = ({ active, payload, label, format }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-slate-800 border border-slate-600 rounded-lg p-2 shadow-xl">
+        <p className="text-xs text-slate-400 mb-1">{label}</p>
+        {payload
+          .filter((entry: any) => entry.value !== null && entry.value !== undefined)
+          .map((entry: any) => (
+            <p key={entry.dataKey} className="text-xs font-semibold" style={{ color: entry.color }}>
+              {entry.name}: {formatMetricValue(entry.value, format)}
+            </p>
+          ))}
+      </div>
+    )
+  }
+  return null
+}
+
+export default function FunnelForecastAccuracy({ rows, loading, error, months = 12, onReconcile }: FunnelForecastAccuracyProps) {
+  const [selectedMetric, setSelectedMetric] = useState(FUNNEL_METRICS[0].key)
+
+  const metricAccuracy = useMemo(() => computeMetricAccuracy(rows, lastMonths(months)), [rows, months])
+  const stageAccuracy = useMemo(() => computeStageAccuracy(metricAccuracy), [metricAccuracy])
+
+  const selected = metricAccuracy.find(m => m.metric.key === selectedMetric) || metricAccuracy[0]
+  const chartData = selected.points.map(point => ({
+    label: point.month.label,
+    actual: point.actual,
+    estimate: point.estimate,
+    estimateLow: point.estimateLow,
+    estimateHigh: point.estimateHigh,
+  }))
+
+  if (loading) {
+    return (
+      <div className="bg-rillation-card rounded-xl p-6 border border-rillation-border w-full">
+        <h3 className="text-lg font-semibold text-rillation-text mb-6">Forecast Accuracy</h3>
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-rillation-green border-t-transparent rounded-full animate-spin" />
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-rillation-card rounded-xl p-6 border border-rillation-border w-full">
+        <h3 className="text-lg font-semibold text-rillation-text mb-6">Forecast Accuracy</h3>
+        <div className="text-sm text-red-400">{error}</div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="bg-rillation-card rounded-xl p-4 sm:p-6 border border-rillation-border w-full space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-rillation-text flex items-center gap-2">
+            <Target size={18} className="text-rillation-green" />
+            Forecast Accuracy
+          </h3>
+          <p className="text-xs text-rillation-text-muted mt-1">
+            Funnel targets against actuals over the last {months} months. Bias above zero means we estimated too high.
+          </p>
+        </div>
+        {onReconcile && (
+          <Button variant="secondary" size="sm" onClick={onReconcile}>
+            <RefreshCw size={12} />
+            Reconcile Actuals
+          </Button>
+        )}
+      </div>
+
+      {/* Stage tendencies */}
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        {stageAccuracy.map(stage => {
+          const info = TENDENCY_INFO[stage.tendency]
+          return (
+            <div key={stage.stage} className={`rounded-xl p-3 border ${info.className}`}>
+              <span className="text-[10px] font-medium uppercase tracking-wider block">{stage.label}</span>
+              <span className="text-lg font-bold text-white block">{formatBias(stage.bias)}</span>
+              <span className="text-[10px] block">{info.label}</span>
+              <span className="text-[10px] text-white/50 block">
+                {stage.mape !== null ? `MAPE ${stage.mape.toFixed(1)}%` : 'No MAPE'} • {stage.months} pts
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Selected metric over time */}
+      <div>
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <h4 className="text-sm font-semibold text-white">Target vs. Actual</h4>
+          <div className="min-w-[200px]">
+            <AnimatedSelect
+              value={selected.metric.key}
+              onChange={setSelectedMetric}
+              size="sm"
+              showCheck={false}
+              options={FUNNEL_METRICS.map(metric => ({ value: metric.key, label: metric.label }))}
+            />
+          </div>
+        </div>
+        <ResponsiveContainer width="100%" height={220}>
+          <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="label" stroke="#64748b" tick={{ fontSize: 10 }} />
+            <YAxis stroke="#64748b" tick={{ fontSize: 10 }} />
+            <Tooltip content={<MetricTooltip format={selected.metric.format} />} cursor={{ fill: 'rgba(255,255,255,0.04)' }} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Bar dataKey="actual" name="Actual" fill="#22d3ee" radius={[4, 4, 0, 0]} />
+            <Line dataKey="estimate" name="Target" stroke="#22c55e" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+            <Line dataKey="estimateLow" name="Low" stroke="#64748b" strokeDasharray="4 4" dot={false} connectNulls />
+            <Line dataKey="estimateHigh" name="High" stroke="#64748b" strokeDasharray="4 4" dot={false} connectNulls />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Per-metric error */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-rillation-text-muted">
+              <th className="text-left font-medium py-1.5">Metric</th>
+              <th className="text-left font-medium py-1.5">Stage</th>
+              <th className="text-right font-medium py-1.5">Months</th>
+              <th className="text-right font-medium py-1.5">MAPE</th>
+              <th className="text-right font-medium py-1.5">Bias</th>
+              <th className="text-right font-medium py-1.5">Over / Under</th>
+              <th className="text-right font-medium py-1.5">Tendency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metricAccuracy.map(accuracy => {
+              const info = TENDENCY_INFO[accuracy.tendency]
+              const isSelected = accuracy.metric.key === selected.metric.key
+              return (
+                <tr
+                  key={accuracy.metric.key}
+                  onClick={() => setSelectedMetric(accuracy.metric.key)}
+                  className={`border-t border-rillation-border cursor-pointer transition-colors hover:bg-rillation-card-hover ${
+                    isSelected ? 'bg-rillation-card-hover' : ''
+                  }`}
+                >
+                  <td className="py-1.5 text-rillation-text">{accuracy.metric.label}</td>
+                  <td className="py-1.5 text-rillation-text-muted capitalize">{accuracy.metric.stage}</td>
+                  <td className="py-1.5 text-right text-rillation-text-muted">{accuracy.months}</td>
+                  <td className="py-1.5 text-right text-rillation-text">
+                    {accuracy.mape !== null ? `${accuracy.mape.toFixed(1)}%` : '-'}
+                  </td>
+                  <td className="py-1.5 text-right text-rillation-text">{formatBias(accuracy.bias)}</td>
+                  <td className="py-1.5 text-right text-rillation-text-muted">
+                    {accuracy.overCount} / {accuracy.underCount}
+                  </td>
+                  <td className="py-1.5 text-right">
+                    <span className={`inline-block px-2 py-0.5 rounded-full border text-[10px] ${info.className}`}>
+                      {info.label}
+                    </span>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        <p className="text-[11px] text-rillation-text-muted mt-2">
+          Months count when both a target and a non-zero actual were saved. A metric needs {MIN_ACCURACY_MONTHS}+ months to be flagged.
+        </p>
+      </div>
+    </motion.div>
+  )
+}
@@ -150,7 +150,6 @@ export default function MeetingsBookedEditor({
 
       const { error } = await supabase
         .from('meetings_booked')
-        // @ts-expect-error - updateData matches the table schema
         .update(updateData)
         .eq('id', meeting.id)
 
@@ -53,7 +53,7 @@ export default function MeetingsBookedTable({ client, startDate, endDate }: Meet
         const { data, count, error } = await query
         if (error) throw error
         
-        setMeetingsData(data || [])
+        setMeetingsData((data || []) as MeetingBooked[])
         setMeetingsCount(count || 0)
       } catch (err) {
         console.error('Error fetching meetings data:', err)
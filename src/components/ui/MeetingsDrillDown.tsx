@@ -110,7 +110,7 @@ export default function MeetingsDrillDown({
       const { error: deleteError } = await supabase
         .from('meetings_booked')
         .delete()
-        .eq('id', meetingId)
+        .eq('id', Number(meetingId))
 
       if (deleteError) throw deleteError
 
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { formatNumber, formatPercentage } from '../../lib/supabase'
+import type { PacingResult } from '../../lib/pacing'
 import { TrendingUp, TrendingDown } from 'lucide-react'
 
 interface MetricCardProps {
@@ -11,6 +12,14 @@ interface MetricCardProps {
   trend?: 'up' | 'down' | 'neutral'
   trendValue?: string
   colorClass?: string
+  projection?: Pick<PacingResult, 'projected' | 'monthTarget' | 'status'>
+}
+
+const PROJECTION_COLORS: Record<PacingResult['status'], string> = {
+  ahead: 'text-green-400',
+  on_track: 'text-yellow-400',
+  behind: 'text-red-400',
+  no_target: 'text-white/70',
 }
 
 export default function MetricCard({
@@ -21,6 +30,7 @@ export default function MetricCard({
   trend,
   trendValue,
   colorClass = 'text-white',
+  projection,
 }: MetricCardProps) {
   const [isHovered, setIsHovered] = useState(false)
 
@@ -82,6 +92,13 @@ export default function MetricCard({
           {percentageLabel}
         </p>
       )}
+
+      {/* Projected end of month */}
+      {projection && projection.status !== 'no_target' && (
+        <p className={`relative z-10 text-[10px] mt-1 ${PROJECTION_COLORS[projection.status]}`}>
+          Proj. EOM {formatNumber(projection.projected)} / {formatNumber(projection.monthTarget)}
+        </p>
+      )}
       
       {/* Trend */}
       {trend && trendValue && trendValue !== '-' && (
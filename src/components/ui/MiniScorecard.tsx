@@ -11,6 +11,7 @@ import {
 } from 'recharts'
 import { formatNumber, formatPercentage } from '../../lib/supabase'
 import type { QuickViewMetrics, ChartDataPoint } from '../../types/database'
+import { hasTargets, targetsForDays, targetsForRange, type TargetSchedule } from '../../lib/target-schedule'
 
 export type CampaignStatus = 'active' | 'paused' | 'completed'
 
@@ -18,13 +19,7 @@ interface MiniScorecardProps {
   clientName: string
   metrics: QuickViewMetrics
   chartData: ChartDataPoint[]
-  targets?: {
-    emailsTarget: number
-    prospectsTarget: number
-    repliesTarget: number
-    interestedTarget?: number
-    meetingsTarget: number
-  }
+  targetSchedule?: TargetSchedule
   dateRange?: { start: Date; end: Date }
   onClick?: () => void
   status?: CampaignStatus
@@ -75,39 +70,39 @@ function getTargetColorHex(actual: number, target: number): string {
   return '#ef4444' // red
 }
 
-export default function MiniScorecard({ clientName, metrics, chartData, targets, dateRange, onClick, status }: MiniScorecardProps) {
+export default function MiniScorecard({ clientName, metrics, chartData, targetSchedule, dateRange, onClick, status }: MiniScorecardProps) {
   const [selectedMetric, setSelectedMetric] = useState<MetricType>(null)
 
-  // Calculate number of days for daily target calculation
-  const numDays = useMemo(() => {
-    if (!dateRange) return 1
-    return Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)) + 1
-  }, [dateRange])
-
-  // Calculate daily target averages
-  const dailyTargets = useMemo(() => {
-    if (!targets) return null
+  // Range totals and target lines use the target in force on each day
+  const targets = useMemo(() => {
+    if (!targetSchedule || !hasTargets(targetSchedule)) return null
+    const totals = dateRange
+      ? targetsForRange(targetSchedule, dateRange.start, dateRange.end)
+      : targetsForDays(targetSchedule, chartData.flatMap(point => point.days || []))
     return {
-      emails: targets.emailsTarget / numDays,
-      prospects: targets.prospectsTarget / numDays,
-      replies: targets.repliesTarget / numDays,
-      interested: targets.interestedTarget ? targets.interestedTarget / numDays : null,
-      meetings: targets.meetingsTarget / numDays,
+      emailsTarget: totals.emails,
+      prospectsTarget: totals.prospects,
+      repliesTarget: totals.replies,
+      interestedTarget: totals.interested,
+      meetingsTarget: totals.meetings,
     }
-  }, [targets, numDays])
+  }, [targetSchedule, dateRange, chartData])
 
   // Transform chart data to include target lines
   const chartDataWithTargets = useMemo(() => {
-    if (!dailyTargets) return chartData
-    return chartData.map(point => ({
-      ...point,
-      sentTarget: dailyTargets.emails,
-      prospectsTarget: dailyTargets.prospects,
-      repliesTarget: dailyTargets.replies,
-      interestedTarget: dailyTargets.interested,
-      meetingsTarget: dailyTargets.meetings,
-    }))
-  }, [chartData, dailyTargets])
+    if (!targetSchedule || !targets) return chartData
+    return chartData.map(point => {
+      const pointTargets = targetsForDays(targetSchedule, point.days || [])
+      return {
+        ...point,
+        sentTarget: pointTargets.emails,
+        prospectsTarget: pointTargets.prospects,
+        repliesTarget: pointTargets.replies,
+        interestedTarget: pointTargets.interested,
+        meetingsTarget: pointTargets.meetings,
+      }
+    })
+  }, [chartData, targetSchedule, targets])
 
   // Handle metric click - stop propagation to prevent card click
   const handleMetricClick = (metric: MetricType, e: React.MouseEvent) => {
@@ -310,7 +305,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
-                {dailyTargets && (
+                {targets && (
                   <Line
                     yAxisId="left"
                     type="monotone"
@@ -343,7 +338,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
-                {dailyTargets && (
+                {targets && (
                   <Line
                     yAxisId="left"
                     type="monotone"
@@ -376,7 +371,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
-                {dailyTargets && (
+                {targets && (
                   <Line
                     yAxisId="right"
                     type="monotone"
@@ -409,7 +404,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
-                {dailyTargets && dailyTargets.interested !== null && (
+                {targets && targets.interestedTarget > 0 && (
                   <Line
                     yAxisId="right"
                     type="monotone"
@@ -442,7 +437,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
-                {dailyTargets && (
+                {targets && (
                   <Line
                     yAxisId="right"
                     type="monotone"
@@ -0,0 +1,229 @@
+import { useState, useEffect, useMemo } from 'react'
+import { X, Save, Loader2, RefreshCw } from 'lucide-react'
+import { formatNumber, formatPercentage } from '../../lib/supabase'
+import {
+  lastMonths,
+  monthProgress,
+  runRateProjection,
+  type FunnelMetricFormat,
+} from '../../lib/funnel-forecast'
+import { useFunnelReconciliation, type ReconcileChoice } from '../../hooks/useFunnelReconciliation'
+import ModalPortal from './ModalPortal'
+import Button from './Button'
+import AnimatedSelect from './AnimatedSelect'
+
+interface ReconcileActualsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  client: string
+  onSaved?: () => void
+}
+
+function formatValue(value: number, format: FunnelMetricFormat): string {
+  return format === 'percent' ? formatPercentage(value, 2) : formatNumber(Math.round(value))
+}
+
+function formatDiff(saved: number, computed: number, format: FunnelMetricFormat): string {
+  const diff = saved - computed
+  return `${diff > 0 ? '+' : ''}${format === 'percent' ? `${diff.toFixed(2)} pts` : formatNumber(Math.round(diff))}`
+}
+
+export default function ReconcileActualsModal({ isOpen, onClose, client, onSaved }: ReconcileActualsModalProps) {
+  const monthOptions = useMemo(() => lastMonths(12).reverse(), [])
+  const [monthKey, setMonthKey] = useState(monthOptions[0].key)
+  const selectedMonth = monthOptions.find(m => m.key === monthKey) || monthOptions[0]
+
+  const { lines, loading, saving, error, apply, refetch } = useFunnelReconciliation({
+    client,
+    month: selectedMonth.month,
+    year: selectedMonth.year,
+    enabled: isOpen,
+  })
+  const [choices, setChoices] = useState<Record<string, ReconcileChoice>>({})
+
+  // Overridden rows start out keeping their saved value
+  useEffect(() => {
+    const initial: Record<string, ReconcileChoice> = {}
+    lines.forEach(line => {
+      if (line.status === 'differs') initial[line.metric.key] = line.row?.actual_override ? 'saved' : 'computed'
+    })
+    setChoices(initial)
+  }, [lines])
+
+  const progress = monthProgress(selectedMonth.month, selectedMonth.year)
+  const differing = lines.filter(line => line.status === 'differs')
+
+  const handleSave = async () => {
+    const success = await apply(choices)
+    if (success) onSaved?.()
+  }
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-rillation-card border border-rillation-border rounded-xl w-full max-w-4xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-rillation-border">
+          <div>
+            <h2 className="text-xl font-semibold text-rillation-text">Reconcile Actuals</h2>
+            <p className="text-sm text-rillation-text-muted mt-1">
+              Fill funnel actuals from campaign, reply, meeting and lead data, with a run-rate projection
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-rillation-card-hover rounded-lg transition-colors"
+          >
+            <X size={20} className="text-rillation-text-muted" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 md:p-6 overflow-y-auto flex-1 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-rillation-text-muted">Month:</span>
+              <div className="min-w-[120px]">
+                <AnimatedSelect
+                  value={selectedMonth.key}
+                  onChange={setMonthKey}
+                  size="sm"
+                  showCheck={false}
+                  options={monthOptions.map(m => ({ value: m.key, label: m.label }))}
+                />
+              </div>
+              <button
+                onClick={refetch}
+                disabled={loading}
+                title="Recompute"
+                className="p-1.5 hover:bg-rillation-card-hover rounded-lg transition-colors disabled:opacity-50"
+              >
+                <RefreshCw size={14} className={`text-rillation-text-muted ${loading ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+            <span className="text-xs text-rillation-text-muted">
+              {progress < 1
+                ? `${Math.round(progress * 100)}% of the month elapsed; projected is the month-end run rate`
+                : 'Month complete; projected equals actual'}
+            </span>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-sm text-red-400">{error}</div>
+          )}
+
+          {loading && lines.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-6 h-6 border-2 border-rillation-green border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              {differing.length > 0 && (
+                <p className="text-xs text-rillation-orange">
+                  {differing.length} saved {differing.length === 1 ? 'actual differs' : 'actuals differ'} from the computed value.
+                  Keeping a saved value marks it as an override, so later reconciliations leave it alone.
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-rillation-text-muted">
+                      <th className="text-left font-medium py-1.5">Metric</th>
+                      <th className="text-right font-medium py-1.5">Saved</th>
+                      <th className="text-right font-medium py-1.5">Computed</th>
+                      <th className="text-right font-medium py-1.5">Diff</th>
+                      <th className="text-right font-medium py-1.5">Projected</th>
+                      <th className="text-right font-medium py-1.5">Use</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map(line => {
+                      const choice = choices[line.metric.key]
+                      const actual = line.status === 'differs' && choice === 'saved' && line.saved !== null
+                        ? line.saved
+                        : line.computed
+                      return (
+                        <tr
+                          key={line.metric.key}
+                          className={`border-t border-rillation-border ${line.status === 'differs' ? 'bg-rillation-orange/5' : ''}`}
+                        >
+                          <td className="py-1.5 text-rillation-text">
+                            {line.metric.label}
+                            {line.row?.actual_override && (
+                              <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-rillation-magenta/10 text-rillation-magenta">
+                                Override
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-1.5 text-right text-rillation-text-muted">
+                            {line.saved !== null ? formatValue(line.saved, line.metric.format) : '-'}
+                          </td>
+                          <td className="py-1.5 text-right text-rillation-cyan font-medium">
+                            {formatValue(line.computed, line.metric.format)}
+                          </td>
+                          <td className={`py-1.5 text-right ${line.status === 'differs' ? 'text-rillation-orange' : 'text-rillation-text-muted'}`}>
+                            {line.status === 'differs' && line.saved !== null
+                              ? formatDiff(line.saved, line.computed, line.metric.format)
+                              : line.status === 'match' ? 'Matches' : 'New'}
+                          </td>
+                          <td className="py-1.5 text-right text-rillation-green">
+                            {formatValue(runRateProjection(actual, line.metric.format, progress), line.metric.format)}
+                          </td>
+                          <td className="py-1.5 text-right">
+                            {line.status === 'differs' ? (
+                              <div className="inline-flex p-0.5 gap-0.5 rounded-lg border border-rillation-border">
+                                {(['computed', 'saved'] as const).map(option => (
+                                  <button
+                                    key={option}
+                                    onClick={() => setChoices(prev => ({ ...prev, [line.metric.key]: option }))}
+                                    className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors ${
+                                      choice === option
+                                        ? 'bg-slate-700 text-white'
+                                        : 'text-rillation-text-muted hover:text-rillation-text'
+                                    }`}
+                                  >
+                                    {option === 'computed' ? 'Computed' : 'Keep saved'}
+                                  </button>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-rillation-text-muted">Computed</span>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[11px] text-rillation-text-muted">
+                Cost per close, Avg CC per client and MRR added aren't tracked in live data and keep their saved values.
+              </p>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end p-4 border-t border-rillation-border gap-3">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            disabled={saving || loading || lines.length === 0}
+          >
+            {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+            Save Actuals
+          </Button>
+        </div>
+      </div>
+    </ModalPortal>
+  )
+}
@@ -195,6 +195,7 @@ export function useCampaignScorecardData({ startDate, endDate, client }: UseCamp
         if (!campaign.dailyData.has(dateStr)) {
           campaign.dailyData.set(dateStr, {
             date: formatDateDisplay(dateStr),
+            days: [dateStr],
             sent: 0,
             prospects: 0,
             replied: 0,
@@ -303,6 +304,7 @@ export function useCampaignScorecardData({ startDate, endDate, client }: UseCamp
           if (!campaign.dailyData.has(dateStr)) {
             campaign.dailyData.set(dateStr, {
               date: formatDateDisplay(dateStr),
+              days: [dateStr],
               sent: 0,
               prospects: 0,
               replied: 0,
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { supabase } from '../lib/supabase'
+import { dataCache, DataCache } from '../lib/cache'
+import { lastMonths } from '../lib/funnel-forecast'
+import type { FunnelForecast } from '../types/database'
+
+interface UseFunnelForecastHistoryParams {
+  client?: string
+  months?: number
+}
+
+export function useFunnelForecastHistory({ client, months = 12 }: UseFunnelForecastHistoryParams) {
+  const [rows, setRows] = useState<FunnelForecast[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasInitialData = useRef(false)
+
+  const fetchData = useCallback(async (isBackgroundRefresh = false) => {
+    const cacheKey = DataCache.createKey('funnel-forecast-history', { client: client || '', months })
+
+    // Try to get cached data first
+    if (!isBackgroundRefresh) {
+      const cached = dataCache.get<FunnelForecast[]>(cacheKey)
+      if (cached) {
+        setRows(cached.data)
+        hasInitialData.current = true
+
+        if (!cached.isStale) {
+          setLoading(false)
+          return
+        }
+        setLoading(false)
+      }
+    }
+
+    try {
+      if (!hasInitialData.current && !isBackgroundRefresh) {
+        setLoading(true)
+      }
+      setError(null)
+
+      if (!client) {
+        setRows([])
+        hasInitialData.current = true
+        setLoading(false)
+        return
+      }
+
+      // month and year are separate columns, so fetch the covered years and trim to the range
+      const range = lastMonths(months)
+      const rangeKeys = new Set(range.map(m => `${m.year}-${m.month}`))
+
+      const { data, error: queryError } = await supabase
+        .from('funnel_forecasts')
+        .select('*')
+        .eq('client', client)
+        .gte('year', range[0].year)
+        .lte('year', range[range.length - 1].year)
+
+      if (queryError) throw queryError
+
+      const history = ((data || []) as FunnelForecast[])
+        .filter(row => rangeKeys.has(`${row.year}-${row.month}`))
+
+      setRows(history)
+      hasInitialData.current = true
+
+      // Cache the results
+      dataCache.set(cacheKey, history)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch forecast history')
+    } finally {
+      setLoading(false)
+    }
+  }, [client, months])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const refetch = useCallback(() => {
+    dataCache.invalidate(DataCache.createKey('funnel-forecast-history', { client: client || '', months }))
+    return fetchData(false)
+  }, [fetchData, client, months])
+
+  return { rows, loading, error, refetch }
+}
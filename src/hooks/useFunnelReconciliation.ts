@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
+import {
+  buildReconcileLines,
+  countFunnel,
+  funnelActualValues,
+  monthProgress,
+  runRateProjection,
+  type ReconcileLine,
+} from '../lib/funnel-forecast'
+import type { FunnelForecast } from '../types/database'
+
+interface UseFunnelReconciliationParams {
+  client?: string
+  month: number
+  year: number
+  enabled?: boolean
+}
+
+// Which value to keep where the saved actual and the computed one disagree
+export type ReconcileChoice = 'computed' | 'saved'
+
+const PAGE_SIZE = 1000
+const MAX_PAGES = 100 // Safety limit
+
+// A month of campaign_reporting or replies can run past the 1000-row response limit
+async function fetchAllPages(buildQuery: (from: number, to: number) => any): Promise<any[]> {
+  const rows: any[] = []
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data, error } = await buildQuery(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+/**
+ * Computes a month's funnel actuals from live data and compares them with
+ * what's saved in funnel_forecasts. Not cached: it's only used on demand and
+ * should always reflect the latest data.
+ */
+export function useFunnelReconciliation({ client, month, year, enabled = true }: UseFunnelReconciliationParams) {
+  const [lines, setLines] = useState<ReconcileLine[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchData = useCallback(async () => {
+    if (!client || !enabled) {
+      setLines([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const monthStart = new Date(year, month - 1, 1)
+      const monthEnd = new Date(year, month, 0)
+      const startStr = formatDateForQuery(monthStart)
+      const endStr = formatDateForQuery(monthEnd)
+      const endStrNextDay = formatDateForQueryEndOfDay(monthEnd)
+
+      const [campaignRows, replyRows, meetingRows, engagedLeads, forecastResult] = await Promise.all([
+        fetchAllPages((from, to) => supabase
+          .from('campaign_reporting')
+          .select('emails_sent, total_leads_contacted, interested')
+          .gte('date', startStr)
+          .lte('date', endStr)
+          .eq('client', client)
+          .range(from, to)),
+        fetchAllPages((from, to) => supabase
+          .from('replies')
+          .select('category, lead_id, from_email, campaign_id, client')
+          .gte('date_received', startStr)
+          .lt('date_received', endStrNextDay)
+          .eq('client', client)
+          .range(from, to)),
+        fetchAllPages((from, to) => supabase
+          .from('meetings_booked')
+          .select('id')
+          .gte('created_time', startStr)
+          .lt('created_time', endStrNextDay)
+          .eq('client', client)
+          .range(from, to)),
+        fetchAllPages((from, to) => supabase
+          .from('engaged_leads')
+          .select('showed_up_to_disco, qualified, demo_booked, showed_up_to_demo, proposal_sent, closed')
+          .gte('date_created', startStr)
+          .lte('date_created', endStr)
+          .eq('client', client)
+          .range(from, to)),
+        supabase
+          .from('funnel_forecasts')
+          .select('*')
+          .eq('month', month)
+          .eq('year', year)
+          .eq('client', client),
+      ])
+
+      if (forecastResult.error) throw forecastResult.error
+
+      const actualValues = funnelActualValues(countFunnel(campaignRows, replyRows, meetingRows, engagedLeads))
+      setLines(buildReconcileLines((forecastResult.data || []) as FunnelForecast[], actualValues))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compute actuals')
+    } finally {
+      setLoading(false)
+    }
+  }, [client, month, year, enabled])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  /**
+   * Writes the month: actual becomes the computed value unless the saved one
+   * is kept (which sets actual_override), projected is the run rate of the
+   * resulting actual, and computed_actual records what was computed.
+   * `choices` only matter for lines that differ; overridden rows default to
+   * keeping their value.
+   */
+  const apply = useCallback(async (choices: Record<string, ReconcileChoice>): Promise<boolean> => {
+    if (!client) return false
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const progress = monthProgress(month, year)
+      const reconciledAt = new Date().toISOString()
+
+      const writes = lines.map(line => {
+        const keepSaved = line.status === 'differs' &&
+          (choices[line.metric.key] ?? (line.row?.actual_override ? 'saved' : 'computed')) === 'saved'
+        const actual = keepSaved && line.saved !== null ? line.saved : line.computed
+        const values = {
+          actual,
+          projected: runRateProjection(actual, line.metric.format, progress),
+          computed_actual: line.computed,
+          actual_override: keepSaved,
+          reconciled_at: reconciledAt,
+        }
+
+        const forecastsTable = supabase.from('funnel_forecasts') as any
+        if (line.row?.id !== undefined) {
+          return forecastsTable
+            .update(values)
+            .eq('id', line.row.id)
+        }
+        return forecastsTable
+          .insert({
+            client,
+            month,
+            year,
+            metric_key: line.metric.key,
+            estimate_low: 0,
+            estimate_avg: 0,
+            estimate_high: 0,
+            estimate_1: 0,
+            estimate_2: 0,
+            ...values,
+          })
+      })
+
+      const results = await Promise.all(writes)
+      const failed = results.find((result: any) => result.error)
+      if (failed?.error) throw failed.error
+
+      await fetchData()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save actuals')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }, [client, month, year, lines, fetchData])
+
+  return { lines, loading, saving, error, apply, refetch: fetchData }
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
+import { dataCache, DataCache } from '../lib/cache'
+import {
+  computePacing,
+  pacingPeriod,
+  type PacingMetricKey,
+  type PacingResult,
+} from '../lib/pacing'
+import type { TargetSchedule } from '../lib/target-schedule'
+import { fetchTargetSchedule } from './useTargetSchedule'
+
+interface UsePacingParams {
+  client?: string
+}
+
+interface CachedPacing {
+  schedule: TargetSchedule
+  actuals: Record<PacingMetricKey, number>
+}
+
+const PAGE_SIZE = 1000
+const MAX_PAGES = 100 // Safety limit
+
+/**
+ * Month-to-date pacing for a client against its scheduled targets. Actuals
+ * are campaign_reporting sums plus meetings_booked, through yesterday.
+ */
+export function usePacing({ client }: UsePacingParams) {
+  const [data, setData] = useState<CachedPacing | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasInitialData = useRef(false)
+
+  // Fixed for the life of the view so the cache key stays stable
+  const period = useMemo(() => pacingPeriod(), [])
+
+  const fetchData = useCallback(async (isBackgroundRefresh = false) => {
+    const cacheKey = DataCache.createKey('pacing', { client: client || '', start: period.start, end: period.end })
+
+    // Try to get cached data first
+    if (!isBackgroundRefresh) {
+      const cached = dataCache.get<CachedPacing>(cacheKey)
+      if (cached) {
+        setData(cached.data)
+        hasInitialData.current = true
+
+        if (!cached.isStale) {
+          setLoading(false)
+          return
+        }
+        setLoading(false)
+      }
+    }
+
+    try {
+      if (!hasInitialData.current && !isBackgroundRefresh) {
+        setLoading(true)
+      }
+      setError(null)
+
+      if (!client) {
+        setData(null)
+        hasInitialData.current = true
+        setLoading(false)
+        return
+      }
+
+      const startStr = formatDateForQuery(period.start)
+      const endStr = formatDateForQuery(period.end)
+      const endStrNextDay = formatDateForQueryEndOfDay(period.end)
+
+      const fetchCampaignRows = async () => {
+        const rows: any[] = []
+        for (let page = 0; page < MAX_PAGES; page++) {
+          const { data: pageData, error: pageError } = await supabase
+            .from('campaign_reporting')
+            .select('emails_sent, total_leads_contacted, unique_replies_per_contact, interested')
+            .eq('client', client)
+            .gte('date', startStr)
+            .lte('date', endStr)
+            .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+          if (pageError) throw pageError
+          rows.push(...(pageData || []))
+          if (!pageData || pageData.length < PAGE_SIZE) break
+        }
+        return rows
+      }
+
+      const [schedule, campaignRows, meetingsResult] = await Promise.all([
+        fetchTargetSchedule(client),
+        fetchCampaignRows(),
+        supabase
+          .from('meetings_booked')
+          .select('id', { count: 'exact', head: true })
+          .eq('client', client)
+          .gte('created_time', startStr)
+          .lt('created_time', endStrNextDay),
+      ])
+
+      if (meetingsResult.error) throw meetingsResult.error
+
+      const sum = (column: string) => campaignRows.reduce((total, row) => total + (row[column] || 0), 0)
+      const pacingData: CachedPacing = {
+        schedule,
+        actuals: {
+          emails: sum('emails_sent'),
+          prospects: sum('total_leads_contacted'),
+          replies: sum('unique_replies_per_contact'),
+          interested: sum('interested'),
+          meetings: meetingsResult.count || 0,
+        },
+      }
+
+      setData(pacingData)
+      hasInitialData.current = true
+
+      // Cache the results
+      dataCache.set(cacheKey, pacingData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch pacing')
+    } finally {
+      setLoading(false)
+    }
+  }, [client, period])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const refetch = useCallback(() => {
+    dataCache.invalidate(DataCache.createKey('pacing', { client: client || '', start: period.start, end: period.end }))
+    return fetchData(false)
+  }, [fetchData, client, period])
+
+  const results: PacingResult[] = useMemo(
+    () => data ? computePacing(data.schedule, data.actuals, period) : [],
+    [data, period]
+  )
+
+  return { period, results, loading, error, refetch }
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
 import { dataCache, DataCache } from '../lib/cache'
+import { countFunnel, funnelActualValues } from '../lib/funnel-forecast'
 import type { FunnelStage, FunnelForecast } from '../types/database'
 
 interface UsePipelineDataParams {
@@ -112,54 +113,16 @@ export function usePipelineData({ startDate, endDate, month, year, client }: Use
       const forecastData = forecastResult.data || []
 
       // Calculate funnel stages from actual data
-      const campaignRows = (campaignData || []) as any[]
-      const replyRows = (repliesData || []) as any[]
-      
-      const totalSent = campaignRows.reduce((sum, row) => sum + (row.emails_sent || 0), 0)
-      const uniqueContacts = campaignRows.reduce((sum, row) => sum + (row.total_leads_contacted || 0), 0)
-      
-      // Real replies - count UNIQUE lead+campaign+client combinations (excluding OOO)
-      const realRepliesSet = new Set<string>()
-      replyRows.forEach((r) => {
-        const cat = (r.category || '').toLowerCase()
-        if (!cat.includes('out of office') && !cat.includes('ooo')) {
-          // Use lead_id if available, otherwise use from_email as unique identifier
-          const leadKey = r.lead_id || r.from_email || ''
-          if (leadKey) {
-            // Create unique key combining lead + campaign + client
-            const uniqueKey = `${leadKey}||${r.campaign_id || ''}||${r.client || ''}`
-            realRepliesSet.add(uniqueKey)
-          }
-        }
-      })
-      const realReplies = realRepliesSet.size
-      
-      // Positive replies (Interested) - sum from campaign_reporting.interested
-      const positiveReplies = campaignRows.reduce((sum, row) => sum + (row.interested || 0), 0)
-      
+      const counts = countFunnel(campaignData as any[], repliesData as any[], meetingsData as any[], engagedLeadsData as any[])
+      const { totalSent, uniqueContacts, realReplies, positiveReplies } = counts
+
       // Sales handoff count (from engaged_leads or manual tracking)
-      const salesHandoff = meetingsData.length || 0
-      const meetingsBooked = meetingsData.length || 0
+      const salesHandoff = counts.meetingsBooked
 
       // Count leads CUMULATIVELY - a lead counts in every stage they've reached
       // This shows total pipeline generated at each stage
-      let showedUpToDisco = 0
-      let qualified = 0
-      let demoBooked = 0
-      let showedUpToDemo = 0
-      let proposalSent = 0
-      let closed = 0
+      let { showedUpToDisco, qualified, demoBooked, showedUpToDemo, proposalSent, closed } = counts
 
-      ;(engagedLeadsData || []).forEach((lead: any) => {
-        // Count in each stage the lead has reached (cumulative)
-        if (lead.showed_up_to_disco) showedUpToDisco++
-        if (lead.qualified) qualified++
-        if (lead.demo_booked) demoBooked++
-        if (lead.showed_up_to_demo) showedUpToDemo++
-        if (lead.proposal_sent) proposalSent++
-        if (lead.closed) closed++
-      })
-      
       console.log('Engaged leads counts:', { showedUpToDisco, qualified, demoBooked, showedUpToDemo, proposalSent, closed })
 
       // Don't throw error if forecast table doesn't exist or is empty
@@ -204,31 +167,14 @@ export function usePipelineData({ startDate, endDate, month, year, client }: Use
       ]
 
       // Calculate actual values from tracked data
-      const actualValues: Record<string, number> = {
-        'total_messages_sent': totalSent,
-        'total_leads_contacted': uniqueContacts,
-        'response_rate': uniqueContacts > 0 ? (realReplies / uniqueContacts) * 100 : 0,
-        'total_responses': realReplies,
-        'positive_response_rate': realReplies > 0 ? (positiveReplies / realReplies) * 100 : 0,
-        'total_pos_response': positiveReplies,
-        'booked_rate': positiveReplies > 0 ? (meetingsBooked / positiveReplies) * 100 : 0,
-        'total_booked': meetingsBooked,
-        'meetings_passed': meetingsBooked,
-        'show_up_to_disco_rate': meetingsBooked > 0 ? (showedUpToDisco / meetingsBooked) * 100 : 0,
-        'total_show_up_to_disco': showedUpToDisco,
-        'qualified_rate': showedUpToDisco > 0 ? (qualified / showedUpToDisco) * 100 : 0,
-        'total_qualified': qualified,
-        'close_rate': qualified > 0 ? (closed / qualified) * 100 : 0,
-        'total_PILOT_accepted': proposalSent,
-        'LM_converted_to_close': proposalSent > 0 ? (closed / proposalSent) * 100 : 0,
-        'total_deals_closed': closed,
-      }
+      const actualValues = funnelActualValues({ ...counts, showedUpToDisco, qualified, demoBooked, showedUpToDemo, proposalSent, closed })
       
       // Merge actual values with forecast data
       const mergedSpreadsheetData: FunnelForecast[] = forecastRows.length > 0
         ? forecastRows.map((row: FunnelForecast) => ({
             ...row,
-            actual: actualValues[row.metric_key] !== undefined ? actualValues[row.metric_key] : row.actual,
+            // Overridden actuals were intentionally set apart from the tracked value
+            actual: actualValues[row.metric_key] !== undefined && !row.actual_override ? actualValues[row.metric_key] : row.actual,
           }))
         : Object.keys(actualValues).map((key) => ({
             metric_key: key,
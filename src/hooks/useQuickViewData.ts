@@ -201,6 +201,7 @@ export function useQuickViewData({ startDate, endDate, client, campaigns }: UseQ
         if (!dateMap.has(date)) {
           dateMap.set(date, {
             date: formatDateDisplay(date),
+            days: [date],
             sent: 0,
             prospects: 0,
             replied: 0,
@@ -224,6 +225,7 @@ export function useQuickViewData({ startDate, endDate, client, campaigns }: UseQ
           if (!dateMap.has(dateStr)) {
             dateMap.set(dateStr, {
               date: formatDateDisplay(dateStr),
+              days: [dateStr],
               sent: 0,
               prospects: 0,
               replied: 0,
@@ -258,6 +260,7 @@ export function useQuickViewData({ startDate, endDate, client, campaigns }: UseQ
           if (!dateMap.has(dateStr)) {
             dateMap.set(dateStr, {
               date: formatDateDisplay(dateStr),
+              days: [dateStr],
               sent: 0,
               prospects: 0,
               replied: 0,
@@ -292,6 +295,7 @@ export function useQuickViewData({ startDate, endDate, client, campaigns }: UseQ
             prevEntry.replied += point.replied
             prevEntry.positiveReplies += point.positiveReplies
             prevEntry.meetings += point.meetings
+            prevEntry.days?.push(...(point.days || []))
           }
         } else if (dayOfWeek === 0) {
           // Sunday - find the next Monday and add data there
@@ -309,6 +313,7 @@ export function useQuickViewData({ startDate, endDate, client, campaigns }: UseQ
             nextPoint.replied += point.replied
             nextPoint.positiveReplies += point.positiveReplies
             nextPoint.meetings += point.meetings
+            nextPoint.days?.push(...(point.days || []))
           }
         } else {
           // Weekday - add to smoothed data
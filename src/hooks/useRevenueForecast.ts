@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { supabase } from '../lib/supabase'
+import { dataCache, DataCache } from '../lib/cache'
+import type { ForecastItem, ForecastStageChange } from '../lib/forecast'
+import { DEFAULT_PIPELINE_STAGES } from '../pages/AtomicCRM/types'
+
+export interface UseRevenueForecastParams {
+  client?: string
+}
+
+// Paged reads to get past the 1000-row response limit
+const PAGE_SIZE = 1000
+const MAX_PAGES = 100 // Safety limit
+
+// Portal opportunity stages -> the built-in deal stage with the same meaning,
+// for opportunities that don't have a CRM deal yet
+const OPPORTUNITY_DEAL_STAGE: Record<string, string> = {
+  'Meeting Booked': 'interested',
+  'Showed Up to Disco': 'discovery',
+  'Qualified': 'discovery',
+  'Demo Booked': 'demo',
+  'Showed Up to Demo': 'demo',
+  'Proposal Sent': 'proposal',
+  'Closed': 'closed',
+}
+
+type StageRow = { key: string; probability: number; outcome: 'open' | 'won' | 'lost' }
+
+async function fetchAllRows(table: string, columns: string, client: string, orderBy?: string): Promise<any[]> {
+  const rows: any[] = []
+  for (let page = 0; page < MAX_PAGES; page++) {
+    let query = supabase
+      .from(table)
+      .select(columns)
+      .eq('client', client)
+    if (orderBy) query = query.order(orderBy, { ascending: true })
+    // Pages are only stable under a total order, so id breaks ties
+    query = query.order('id', { ascending: true })
+
+    const { data, error } = await query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+export function useRevenueForecast({ client }: UseRevenueForecastParams) {
+  const [items, setItems] = useState<ForecastItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasInitialData = useRef(false)
+
+  const fetchData = useCallback(async (isBackgroundRefresh = false) => {
+    const cacheKey = DataCache.createKey('revenue-forecast', { client: client || '' })
+
+    // Try to get cached data first
+    if (!isBackgroundRefresh) {
+      const cached = dataCache.get<ForecastItem[]>(cacheKey)
+      if (cached) {
+        setItems(cached.data)
+        hasInitialData.current = true
+
+        if (!cached.isStale) {
+          setLoading(false)
+          return
+        }
+        setLoading(false)
+      }
+    }
+
+    try {
+      if (!hasInitialData.current && !isBackgroundRefresh) {
+        setLoading(true)
+      }
+      setError(null)
+
+      if (!client) {
+        setItems([])
+        hasInitialData.current = true
+        setLoading(false)
+        return
+      }
+
+      const [dealsData, stagesResult, historyData, opportunitiesData, leadsData] = await Promise.all([
+        fetchAllRows(
+          'crm_deals',
+          'id, contact_id, name, stage, amount, probability, expected_close_date, actual_close_date, created_at, deleted_at',
+          client
+        ),
+        supabase
+          .from('crm_pipeline_stages')
+          .select('key, probability, outcome')
+          .eq('client', client),
+        fetchAllRows('crm_deal_stage_history', 'deal_id, to_stage, changed_at', client, 'changed_at'),
+        fetchAllRows('client_opportunities', 'id, opportunity_name, contact_email, stage, value, expected_close_date, updated_at', client),
+        fetchAllRows('engaged_leads', 'id, email', client),
+      ])
+
+      if (stagesResult.error) throw stagesResult.error
+
+      // The client's pipeline, or the built-in one
+      const configuredStages = (stagesResult.data || []) as StageRow[]
+      const stages: StageRow[] = configuredStages.length > 0 ? configuredStages : DEFAULT_PIPELINE_STAGES
+      const stageByKey = new Map(stages.map(s => [s.key, s]))
+      const stageInfo = (key: string): StageRow => stageByKey.get(key) ?? { key, probability: 0, outcome: 'open' }
+
+      const historyByDeal = new Map<string, ForecastStageChange[]>()
+      historyData.forEach((row: any) => {
+        const info = stageInfo(row.to_stage)
+        const changes = historyByDeal.get(row.deal_id) || []
+        changes.push({ at: row.changed_at, probability: info.probability, isOpen: info.outcome === 'open' })
+        historyByDeal.set(row.deal_id, changes)
+      })
+
+      const emailByLead = new Map<string, string>()
+      leadsData.forEach((lead: any) => {
+        if (lead.email) emailByLead.set(String(lead.id), lead.email.toLowerCase())
+      })
+
+      const liveDeals = dealsData.filter((deal: any) => !deal.deleted_at)
+      const dealEmails = new Set<string>()
+      liveDeals.forEach((deal: any) => {
+        const email = deal.contact_id ? emailByLead.get(String(deal.contact_id)) : undefined
+        if (email) dealEmails.add(email)
+      })
+
+      const dealItems: ForecastItem[] = liveDeals.map((deal: any) => {
+        const info = stageInfo(deal.stage)
+        const history = historyByDeal.get(deal.id)
+        return {
+          id: deal.id,
+          source: 'deal',
+          name: deal.name,
+          amount: Number(deal.amount || 0),
+          probability: deal.probability ?? info.probability,
+          isOpen: info.outcome === 'open',
+          isWon: info.outcome === 'won',
+          expectedCloseDate: deal.expected_close_date,
+          actualCloseDate: deal.actual_close_date,
+          // Deals from before stage history was recorded sat in their current stage since creation
+          stageChanges: history && history.length > 0
+            ? history
+            : [{ at: deal.created_at, probability: info.probability, isOpen: info.outcome === 'open' }],
+        }
+      })
+
+      // Pipeline deals mirror their lead's opportunity, so only opportunities
+      // without a deal add to the forecast
+      const opportunityItems: ForecastItem[] = opportunitiesData
+        .filter((opp: any) => !opp.contact_email || !dealEmails.has(opp.contact_email.toLowerCase()))
+        .map((opp: any) => {
+          const info = stageInfo(OPPORTUNITY_DEAL_STAGE[opp.stage] || '')
+          const isClosed = opp.stage === 'Closed'
+          return {
+            id: `opportunity:${opp.id}`,
+            source: 'opportunity',
+            name: opp.opportunity_name,
+            amount: Number(opp.value || 0),
+            probability: isClosed ? 100 : info.probability,
+            isOpen: !isClosed,
+            isWon: isClosed && Number(opp.value || 0) > 0,
+            expectedCloseDate: opp.expected_close_date || null,
+            actualCloseDate: isClosed ? opp.updated_at : null,
+            stageChanges: [],
+          }
+        })
+
+      const forecastItems = [...dealItems, ...opportunityItems]
+      setItems(forecastItems)
+      hasInitialData.current = true
+
+      // Cache the results
+      dataCache.set(cacheKey, forecastItems)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch revenue forecast')
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const refetch = useCallback(() => {
+    dataCache.invalidate(DataCache.createKey('revenue-forecast', { client: client || '' }))
+    return fetchData(false)
+  }, [fetchData, client])
+
+  return { items, loading, error, refetch }
+}
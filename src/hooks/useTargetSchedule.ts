@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { supabase } from '../lib/supabase'
+import { dataCache, DataCache } from '../lib/cache'
+import { EMPTY_TARGET_SCHEDULE, type TargetSchedule } from '../lib/target-schedule'
+import type { ClientTargetSchedule, ClientTargetMonthOverride } from '../types/database'
+
+interface UseTargetScheduleParams {
+  client?: string
+}
+
+// All target versions and month overrides for a client
+export async function fetchTargetSchedule(client: string): Promise<TargetSchedule> {
+  const [versionsResult, overridesResult] = await Promise.all([
+    supabase
+      .from('client_target_schedules')
+      .select('*')
+      .eq('client', client)
+      .order('effective_from', { ascending: true }),
+    supabase
+      .from('client_target_month_overrides')
+      .select('*')
+      .eq('client', client)
+      .order('year', { ascending: true })
+      .order('month', { ascending: true }),
+  ])
+
+  if (versionsResult.error) throw versionsResult.error
+  if (overridesResult.error) throw overridesResult.error
+
+  return {
+    versions: (versionsResult.data || []) as ClientTargetSchedule[],
+    overrides: (overridesResult.data || []) as ClientTargetMonthOverride[],
+  }
+}
+
+export function useTargetSchedule({ client }: UseTargetScheduleParams) {
+  const [schedule, setSchedule] = useState<TargetSchedule>(EMPTY_TARGET_SCHEDULE)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasInitialData = useRef(false)
+
+  const fetchData = useCallback(async (isBackgroundRefresh = false) => {
+    const cacheKey = DataCache.createKey('target-schedule', { client: client || '' })
+
+    // Try to get cached data first
+    if (!isBackgroundRefresh) {
+      const cached = dataCache.get<TargetSchedule>(cacheKey)
+      if (cached) {
+        setSchedule(cached.data)
+        hasInitialData.current = true
+
+        if (!cached.isStale) {
+          setLoading(false)
+          return
+        }
+        setLoading(false)
+      }
+    }
+
+    try {
+      if (!hasInitialData.current && !isBackgroundRefresh) {
+        setLoading(true)
+      }
+      setError(null)
+
+      if (!client) {
+        setSchedule(EMPTY_TARGET_SCHEDULE)
+        hasInitialData.current = true
+        setLoading(false)
+        return
+      }
+
+      const result = await fetchTargetSchedule(client)
+      setSchedule(result)
+      hasInitialData.current = true
+
+      // Cache the results
+      dataCache.set(cacheKey, result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch targets')
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const refetch = useCallback(() => {
+    dataCache.invalidate(DataCache.createKey('target-schedule', { client: client || '' }))
+    return fetchData(false)
+  }, [fetchData, client])
+
+  return { schedule, loading, error, refetch }
+}
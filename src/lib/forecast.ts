@@ -0,0 +1,207 @@
+// Revenue forecast utilities (weighted pipeline by expected close period)
+
+export type ForecastGranularity = 'month' | 'quarter'
+
+export type ForecastCategory = 'commit' | 'bestCase' | 'pipeline'
+
+// Probability thresholds for the forecast categories
+export const COMMIT_PROBABILITY = 70
+export const BEST_CASE_PROBABILITY = 40
+
+export const FORECAST_CATEGORY_INFO: Record<ForecastCategory, { label: string; color: string; description: string }> = {
+  commit: { label: 'Commit', color: '#22c55e', description: `${COMMIT_PROBABILITY}%+ probability` },
+  bestCase: { label: 'Best Case', color: '#fbbf24', description: `${BEST_CASE_PROBABILITY}-${COMMIT_PROBABILITY - 1}% probability` },
+  pipeline: { label: 'Pipeline', color: '#60a5fa', description: `Under ${BEST_CASE_PROBABILITY}% probability` },
+}
+
+// A stage a deal entered, with what that stage was worth
+export interface ForecastStageChange {
+  at: string
+  probability: number
+  isOpen: boolean
+}
+
+export interface ForecastItem {
+  id: string
+  source: 'deal' | 'opportunity'
+  name: string
+  amount: number
+  probability: number // 0-100
+  isOpen: boolean
+  isWon: boolean
+  expectedCloseDate: string | null
+  actualCloseDate: string | null
+  // Deals only, oldest first; used to rebuild what the forecast looked like in the past
+  stageChanges: ForecastStageChange[]
+}
+
+export interface ForecastTotals {
+  amount: number
+  weighted: number
+  count: number
+}
+
+export interface ForecastPeriod {
+  key: string
+  label: string
+  start: Date
+  end: Date // exclusive
+  categories: Record<ForecastCategory, ForecastTotals>
+  total: ForecastTotals
+  pastDueCount: number // Open items expected before this period, rolled into the current one
+}
+
+export interface ForecastActual {
+  key: string
+  label: string
+  forecast: number // Weighted value at the start of the period
+  closedWon: number
+  closedWonCount: number
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+export function forecastCategory(probability: number): ForecastCategory {
+  if (probability >= COMMIT_PROBABILITY) return 'commit'
+  if (probability >= BEST_CASE_PROBABILITY) return 'bestCase'
+  return 'pipeline'
+}
+
+// Dates are stored as YYYY-MM-DD; noon avoids timezone drift
+function parseDate(value: string): Date {
+  return new Date(value.length === 10 ? `${value}T12:00:00` : value)
+}
+
+export function periodStart(date: Date, granularity: ForecastGranularity): Date {
+  const month = granularity === 'quarter' ? Math.floor(date.getMonth() / 3) * 3 : date.getMonth()
+  return new Date(date.getFullYear(), month, 1)
+}
+
+export function addPeriods(start: Date, count: number, granularity: ForecastGranularity): Date {
+  return new Date(start.getFullYear(), start.getMonth() + count * (granularity === 'quarter' ? 3 : 1), 1)
+}
+
+export function periodLabel(start: Date, granularity: ForecastGranularity): string {
+  const year = `'${String(start.getFullYear()).slice(2)}`
+  return granularity === 'quarter'
+    ? `Q${Math.floor(start.getMonth() / 3) + 1} ${year}`
+    : `${MONTH_NAMES[start.getMonth()]} ${year}`
+}
+
+function periodKey(start: Date): string {
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`
+}
+
+function emptyTotals(): ForecastTotals {
+  return { amount: 0, weighted: 0, count: 0 }
+}
+
+function addTo(totals: ForecastTotals, item: ForecastItem) {
+  totals.amount += item.amount
+  totals.weighted += item.amount * item.probability / 100
+  totals.count += 1
+}
+
+/**
+ * Open pipeline bucketed by expected close period, from the current period
+ * forward. Items already past their expected close date count toward the
+ * current period; items with no date are left out (see unscheduledTotals).
+ */
+export function buildForecastPeriods(
+  items: ForecastItem[],
+  granularity: ForecastGranularity,
+  count: number,
+  now = new Date()
+): ForecastPeriod[] {
+  const first = periodStart(now, granularity)
+  const periods: ForecastPeriod[] = Array.from({ length: count }, (_, i) => {
+    const start = addPeriods(first, i, granularity)
+    return {
+      key: periodKey(start),
+      label: periodLabel(start, granularity),
+      start,
+      end: addPeriods(start, 1, granularity),
+      categories: { commit: emptyTotals(), bestCase: emptyTotals(), pipeline: emptyTotals() },
+      total: emptyTotals(),
+      pastDueCount: 0,
+    }
+  })
+
+  items.forEach(item => {
+    if (!item.isOpen || !item.expectedCloseDate) return
+    const expected = parseDate(item.expectedCloseDate)
+    const period = expected < first
+      ? periods[0]
+      : periods.find(p => expected >= p.start && expected < p.end)
+    if (!period) return
+    if (expected < first) period.pastDueCount += 1
+    addTo(period.categories[forecastCategory(item.probability)], item)
+    addTo(period.total, item)
+  })
+
+  return periods
+}
+
+export function unscheduledTotals(items: ForecastItem[]): ForecastTotals {
+  const totals = emptyTotals()
+  items.filter(item => item.isOpen && !item.expectedCloseDate).forEach(item => addTo(totals, item))
+  return totals
+}
+
+// What the item was weighted at on a given date: the probability of the stage
+// it sat in then (0 if it didn't exist yet or was already closed)
+function weightedValueAt(item: ForecastItem, date: Date): number {
+  let current: ForecastStageChange | null = null
+  for (const change of item.stageChanges) {
+    if (parseDate(change.at) > date) break
+    current = change
+  }
+  return current && current.isOpen ? item.amount * current.probability / 100 : 0
+}
+
+/**
+ * Forecast vs. closed for a date range: the weighted value, as of the start
+ * of the range, of the deals expected to close in it, against the deals won
+ * in it (by actual close date). Amounts and expected dates are today's, so
+ * past forecasts are a reconstruction rather than a snapshot.
+ */
+export function compareForecastToActual(items: ForecastItem[], start: Date, end: Date): Omit<ForecastActual, 'key' | 'label'> {
+  let forecast = 0
+  let closedWon = 0
+  let closedWonCount = 0
+
+  items.forEach(item => {
+    if (item.source !== 'deal') return
+    if (item.expectedCloseDate) {
+      const expected = parseDate(item.expectedCloseDate)
+      if (expected >= start && expected < end) forecast += weightedValueAt(item, start)
+    }
+    if (item.isWon && item.actualCloseDate) {
+      const closed = parseDate(item.actualCloseDate)
+      if (closed >= start && closed < end) {
+        closedWon += item.amount
+        closedWonCount += 1
+      }
+    }
+  })
+
+  return { forecast, closedWon, closedWonCount }
+}
+
+/** The last `count` periods, oldest first, ending with the current one. */
+export function buildForecastActuals(
+  items: ForecastItem[],
+  granularity: ForecastGranularity,
+  count: number,
+  now = new Date()
+): ForecastActual[] {
+  const current = periodStart(now, granularity)
+  return Array.from({ length: count }, (_, i) => {
+    const start = addPeriods(current, i - count + 1, granularity)
+    return {
+      key: periodKey(start),
+      label: periodLabel(start, granularity),
+      ...compareForecastToActual(items, start, addPeriods(start, 1, granularity)),
+    }
+  })
+}
@@ -0,0 +1,310 @@
+// Funnel forecast (funnel_forecasts) metrics, accuracy and reconciliation utilities
+import type { FunnelForecast } from '../types/database'
+
+export type FunnelMetricFormat = 'number' | 'percent' | 'currency'
+
+export type FunnelMetricStage = 'outreach' | 'engagement' | 'meetings' | 'discovery' | 'closing' | 'revenue'
+
+export interface FunnelMetric {
+  key: string
+  label: string
+  format: FunnelMetricFormat
+  stage: FunnelMetricStage
+}
+
+// Metric rows, organized by stage
+export const FUNNEL_METRICS: FunnelMetric[] = [
+  { key: 'total_messages_sent', label: 'Total Messages Sent', format: 'number', stage: 'outreach' },
+  { key: 'total_leads_contacted', label: 'Total Leads Contacted', format: 'number', stage: 'outreach' },
+  { key: 'response_rate', label: 'Response Rate', format: 'percent', stage: 'engagement' },
+  { key: 'total_responses', label: 'Total Responses', format: 'number', stage: 'engagement' },
+  { key: 'positive_response_rate', label: 'Positive Response Rate', format: 'percent', stage: 'engagement' },
+  { key: 'total_pos_response', label: 'Total Positive Responses', format: 'number', stage: 'engagement' },
+  { key: 'booked_rate', label: 'Booked Rate', format: 'percent', stage: 'meetings' },
+  { key: 'total_booked', label: 'Total Booked', format: 'number', stage: 'meetings' },
+  { key: 'meetings_passed', label: 'Meetings Passed', format: 'number', stage: 'meetings' },
+  { key: 'show_up_to_disco_rate', label: 'Show Up Rate', format: 'percent', stage: 'discovery' },
+  { key: 'total_show_up_to_disco', label: 'Total Show Up to Discovery', format: 'number', stage: 'discovery' },
+  { key: 'qualified_rate', label: 'Qualified Rate', format: 'percent', stage: 'discovery' },
+  { key: 'total_qualified', label: 'Total Qualified', format: 'number', stage: 'discovery' },
+  { key: 'close_rate', label: 'Close Rate', format: 'percent', stage: 'closing' },
+  { key: 'total_PILOT_accepted', label: 'Total Pilots Accepted', format: 'number', stage: 'closing' },
+  { key: 'LM_converted_to_close', label: 'LM Converted to Close', format: 'percent', stage: 'closing' },
+  { key: 'total_deals_closed', label: 'Total Deals Closed', format: 'number', stage: 'closing' },
+  { key: 'cost_per_close', label: 'Cost per Close', format: 'currency', stage: 'revenue' },
+  { key: 'AVG_CC_per_client', label: 'Avg CC per Client', format: 'currency', stage: 'revenue' },
+  { key: 'MRR_added', label: 'MRR Added', format: 'currency', stage: 'revenue' },
+]
+
+export const FUNNEL_METRIC_STAGES: { key: FunnelMetricStage; label: string }[] = [
+  { key: 'outreach', label: 'Outreach' },
+  { key: 'engagement', label: 'Engagement' },
+  { key: 'meetings', label: 'Meetings' },
+  { key: 'discovery', label: 'Discovery' },
+  { key: 'closing', label: 'Closing' },
+  { key: 'revenue', label: 'Revenue' },
+]
+
+// A metric counts as consistently off when it misses in the same direction in
+// at least this share of its months, by at least BIAS_THRESHOLD on average
+export const MIN_ACCURACY_MONTHS = 3
+export const CONSISTENCY_SHARE = 0.75
+export const BIAS_THRESHOLD = 10 // percent
+
+export type ForecastTendency = 'over' | 'under' | 'mixed' | 'insufficient'
+
+export interface ForecastMonth {
+  key: string // YYYY-MM
+  month: number // 1-12
+  year: number
+  label: string
+}
+
+export interface AccuracyPoint {
+  month: ForecastMonth
+  estimateLow: number | null
+  estimate: number | null // estimate_avg
+  estimateHigh: number | null
+  actual: number | null
+  error: number | null // (estimate - actual) / actual, in percent
+}
+
+export interface AccuracySummary {
+  months: number // Months with both an estimate and a non-zero actual
+  mape: number | null
+  bias: number | null // Positive = over-estimated
+  overCount: number
+  underCount: number
+  tendency: ForecastTendency
+}
+
+export interface MetricAccuracy extends AccuracySummary {
+  metric: FunnelMetric
+  points: AccuracyPoint[]
+}
+
+export interface StageAccuracy extends AccuracySummary {
+  stage: FunnelMetricStage
+  label: string
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** The last `count` months, oldest first, ending with the month of `now`. */
+export function lastMonths(count: number, now = new Date()): ForecastMonth[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - count + 1 + i, 1)
+    const month = date.getMonth() + 1
+    const year = date.getFullYear()
+    return {
+      key: `${year}-${String(month).padStart(2, '0')}`,
+      month,
+      year,
+      label: `${MONTH_NAMES[month - 1]} '${String(year).slice(2)}`,
+    }
+  })
+}
+
+// Unsaved cells are stored as 0, which means "no value" rather than a forecast of zero
+function valueOrNull(value: number | null | undefined): number | null {
+  return value === null || value === undefined || Number(value) === 0 ? null : Number(value)
+}
+
+function summarize(errors: number[]): AccuracySummary {
+  const overCount = errors.filter(e => e > 0).length
+  const underCount = errors.filter(e => e < 0).length
+  const mape = errors.length > 0 ? errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length : null
+  const bias = errors.length > 0 ? errors.reduce((sum, e) => sum + e, 0) / errors.length : null
+
+  let tendency: ForecastTendency = 'insufficient'
+  if (errors.length >= MIN_ACCURACY_MONTHS && bias !== null) {
+    tendency = 'mixed'
+    if (bias >= BIAS_THRESHOLD && overCount >= errors.length * CONSISTENCY_SHARE) tendency = 'over'
+    if (bias <= -BIAS_THRESHOLD && underCount >= errors.length * CONSISTENCY_SHARE) tendency = 'under'
+  }
+
+  return { months: errors.length, mape, bias, overCount, underCount, tendency }
+}
+
+/**
+ * Estimate (estimate_avg) against actual per metric for the given months.
+ * Months without an estimate or with a zero actual have no error, since a
+ * percentage error is undefined there.
+ */
+export function computeMetricAccuracy(rows: FunnelForecast[], months: ForecastMonth[]): MetricAccuracy[] {
+  const rowByKey = new Map<string, FunnelForecast>()
+  rows.forEach(row => rowByKey.set(`${row.metric_key}|${row.year}|${row.month}`, row))
+
+  return FUNNEL_METRICS.map(metric => {
+    const points: AccuracyPoint[] = months.map(month => {
+      const row = rowByKey.get(`${metric.key}|${month.year}|${month.month}`)
+      const estimate = valueOrNull(row?.estimate_avg)
+      const actual = valueOrNull(row?.actual)
+      return {
+        month,
+        estimateLow: valueOrNull(row?.estimate_low),
+        estimate,
+        estimateHigh: valueOrNull(row?.estimate_high),
+        actual,
+        error: estimate !== null && actual !== null ? ((estimate - actual) / actual) * 100 : null,
+      }
+    })
+    const errors = points.map(p => p.error).filter((e): e is number => e !== null)
+    return { metric, points, ...summarize(errors) }
+  })
+}
+
+/** Per-stage accuracy, pooling the monthly errors of the stage's metrics. */
+export function computeStageAccuracy(metrics: MetricAccuracy[]): StageAccuracy[] {
+  return FUNNEL_METRIC_STAGES.map(({ key, label }) => {
+    const errors = metrics
+      .filter(m => m.metric.stage === key)
+      .flatMap(m => m.points.map(p => p.error))
+      .filter((e): e is number => e !== null)
+    return { stage: key, label, ...summarize(errors) }
+  })
+}
+
+// ============================================================================
+// Live actuals and reconciliation
+// ============================================================================
+
+export interface FunnelCounts {
+  totalSent: number
+  uniqueContacts: number
+  realReplies: number
+  positiveReplies: number
+  meetingsBooked: number
+  showedUpToDisco: number
+  qualified: number
+  demoBooked: number
+  showedUpToDemo: number
+  proposalSent: number
+  closed: number
+}
+
+/**
+ * Funnel counts from the raw rows for a period: campaign_reporting, replies,
+ * meetings_booked and engaged_leads (leads count in every stage they reached).
+ */
+export function countFunnel(campaignRows: any[], replyRows: any[], meetingRows: any[], engagedLeads: any[]): FunnelCounts {
+  const totalSent = campaignRows.reduce((sum, row) => sum + (row.emails_sent || 0), 0)
+  const uniqueContacts = campaignRows.reduce((sum, row) => sum + (row.total_leads_contacted || 0), 0)
+
+  // Real replies - count UNIQUE lead+campaign+client combinations (excluding OOO)
+  const realRepliesSet = new Set<string>()
+  replyRows.forEach((r) => {
+    const cat = (r.category || '').toLowerCase()
+    if (!cat.includes('out of office') && !cat.includes('ooo')) {
+      // Use lead_id if available, otherwise use from_email as unique identifier
+      const leadKey = r.lead_id || r.from_email || ''
+      if (leadKey) {
+        realRepliesSet.add(`${leadKey}||${r.campaign_id || ''}||${r.client || ''}`)
+      }
+    }
+  })
+
+  const counts: FunnelCounts = {
+    totalSent,
+    uniqueContacts,
+    realReplies: realRepliesSet.size,
+    // Positive replies (Interested) - sum from campaign_reporting.interested
+    positiveReplies: campaignRows.reduce((sum, row) => sum + (row.interested || 0), 0),
+    meetingsBooked: meetingRows.length,
+    showedUpToDisco: 0,
+    qualified: 0,
+    demoBooked: 0,
+    showedUpToDemo: 0,
+    proposalSent: 0,
+    closed: 0,
+  }
+
+  engagedLeads.forEach((lead) => {
+    if (lead.showed_up_to_disco) counts.showedUpToDisco++
+    if (lead.qualified) counts.qualified++
+    if (lead.demo_booked) counts.demoBooked++
+    if (lead.showed_up_to_demo) counts.showedUpToDemo++
+    if (lead.proposal_sent) counts.proposalSent++
+    if (lead.closed) counts.closed++
+  })
+
+  return counts
+}
+
+/** Actual value per metric_key; the currency metrics aren't tracked and are left out. */
+export function funnelActualValues(counts: FunnelCounts): Record<string, number> {
+  const { totalSent, uniqueContacts, realReplies, positiveReplies, meetingsBooked, showedUpToDisco, qualified, proposalSent, closed } = counts
+  return {
+    'total_messages_sent': totalSent,
+    'total_leads_contacted': uniqueContacts,
+    'response_rate': uniqueContacts > 0 ? (realReplies / uniqueContacts) * 100 : 0,
+    'total_responses': realReplies,
+    'positive_response_rate': realReplies > 0 ? (positiveReplies / realReplies) * 100 : 0,
+    'total_pos_response': positiveReplies,
+    'booked_rate': positiveReplies > 0 ? (meetingsBooked / positiveReplies) * 100 : 0,
+    'total_booked': meetingsBooked,
+    'meetings_passed': meetingsBooked,
+    'show_up_to_disco_rate': meetingsBooked > 0 ? (showedUpToDisco / meetingsBooked) * 100 : 0,
+    'total_show_up_to_disco': showedUpToDisco,
+    'qualified_rate': showedUpToDisco > 0 ? (qualified / showedUpToDisco) * 100 : 0,
+    'total_qualified': qualified,
+    'close_rate': qualified > 0 ? (closed / qualified) * 100 : 0,
+    'total_PILOT_accepted': proposalSent,
+    'LM_converted_to_close': proposalSent > 0 ? (closed / proposalSent) * 100 : 0,
+    'total_deals_closed': closed,
+  }
+}
+
+/** Share of the month that has passed: 1 for past months, 0 for future ones. */
+export function monthProgress(month: number, year: number, now = new Date()): number {
+  const start = new Date(year, month - 1, 1)
+  const end = new Date(year, month, 1)
+  if (now >= end) return 1
+  if (now < start) return 0
+  const daysInMonth = new Date(year, month, 0).getDate()
+  return now.getDate() / daysInMonth
+}
+
+/**
+ * Where a metric ends the month at its current pace. Rates don't accumulate,
+ * so they project as they are.
+ */
+export function runRateProjection(value: number, format: FunnelMetricFormat, progress: number): number {
+  if (format === 'percent' || progress <= 0 || progress >= 1) return value
+  return Math.round(value / progress)
+}
+
+// Counts are whole numbers and rates are shown to two decimals
+export function valuesMatch(a: number, b: number, format: FunnelMetricFormat): boolean {
+  return Math.abs(a - b) < (format === 'percent' ? 0.01 : 0.5)
+}
+
+export type ReconcileStatus = 'new' | 'match' | 'differs'
+
+export interface ReconcileLine {
+  metric: FunnelMetric
+  row: FunnelForecast | null
+  saved: number | null // The actual currently stored (0 counts as empty)
+  computed: number
+  status: ReconcileStatus
+}
+
+/**
+ * Compare the month's saved actuals with the computed ones. A metric with no
+ * saved actual is 'new' and one that agrees is a 'match'; only 'differs'
+ * needs someone to choose between the two.
+ */
+export function buildReconcileLines(rows: FunnelForecast[], actualValues: Record<string, number>): ReconcileLine[] {
+  const rowByKey = new Map(rows.map(row => [row.metric_key, row]))
+  return FUNNEL_METRICS
+    .filter(metric => actualValues[metric.key] !== undefined)
+    .map(metric => {
+      const row = rowByKey.get(metric.key) || null
+      const saved = valueOrNull(row?.actual)
+      const computed = actualValues[metric.key]
+      const status: ReconcileStatus = saved === null
+        ? 'new'
+        : valuesMatch(saved, computed, metric.format) ? 'match' : 'differs'
+      return { metric, row, saved, computed, status }
+    })
+}
@@ -0,0 +1,100 @@
+// Pacing of month-to-date actuals against the scheduled client targets
+import { targetsForRange, type TargetSchedule } from './target-schedule'
+
+export type PacingMetricKey = 'emails' | 'prospects' | 'replies' | 'interested' | 'meetings'
+
+export type PacingStatus = 'ahead' | 'on_track' | 'behind' | 'no_target'
+
+export const PACING_METRICS: { key: PacingMetricKey; label: string }[] = [
+  { key: 'emails', label: 'Emails Sent' },
+  { key: 'prospects', label: 'Prospects' },
+  { key: 'replies', label: 'Replies' },
+  { key: 'interested', label: 'Interested' },
+  { key: 'meetings', label: 'Meetings' },
+]
+
+// A metric is flagged when it's more than this far behind its target to date
+export const PACING_BEHIND_THRESHOLD = 20 // percent
+
+export interface PacingPeriod {
+  start: Date
+  end: Date // Last day counted (inclusive)
+  elapsedDays: number
+  daysInMonth: number
+  label: string
+}
+
+export interface PacingResult {
+  key: PacingMetricKey
+  label: string
+  expected: number // Daily targets summed over the elapsed days
+  actual: number
+  monthTarget: number
+  projected: number // Month-end figure at the current pace
+  pace: number | null // actual / expected, in percent
+  status: PacingStatus
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/**
+ * The month to date, counting completed days only (reporting for today is
+ * still coming in). On the 1st that's the whole previous month, so the
+ * period then shows how last month finished.
+ */
+export function pacingPeriod(now = new Date()): PacingPeriod {
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1)
+  const start = new Date(end.getFullYear(), end.getMonth(), 1)
+  const daysInMonth = new Date(end.getFullYear(), end.getMonth() + 1, 0).getDate()
+  const month = MONTH_NAMES[end.getMonth()]
+  return {
+    start,
+    end,
+    elapsedDays: end.getDate(),
+    daysInMonth,
+    label: end.getDate() === 1 ? `${month} 1` : `${month} 1-${end.getDate()}`,
+  }
+}
+
+/**
+ * Expected and month targets sum the target in force on each day, so a
+ * mid-month target change or weekend weighting is prorated correctly. The
+ * projection scales the month target by the pace to date.
+ */
+export function computePacing(
+  schedule: TargetSchedule,
+  actuals: Record<PacingMetricKey, number>,
+  period: PacingPeriod,
+  threshold = PACING_BEHIND_THRESHOLD
+): PacingResult[] {
+  const monthEnd = new Date(period.start.getFullYear(), period.start.getMonth(), period.daysInMonth)
+  const expectedTargets = targetsForRange(schedule, period.start, period.end)
+  const monthTargets = targetsForRange(schedule, period.start, monthEnd)
+
+  return PACING_METRICS.map(({ key, label }) => {
+    const actual = actuals[key] || 0
+    const expected = expectedTargets[key]
+    const monthTarget = monthTargets[key]
+    const pace = expected > 0 ? (actual / expected) * 100 : null
+
+    let status: PacingStatus = 'no_target'
+    if (pace !== null) {
+      status = pace >= 100 ? 'ahead' : 100 - pace > threshold ? 'behind' : 'on_track'
+    }
+
+    return {
+      key,
+      label,
+      expected,
+      actual,
+      monthTarget,
+      projected: Math.round(
+        pace !== null
+          ? (pace / 100) * monthTarget
+          : (actual / period.elapsedDays) * period.daysInMonth
+      ),
+      pace,
+      status,
+    }
+  })
+}
@@ -0,0 +1,112 @@
+// Versioned client targets (client_target_schedules): the daily target in force on each day
+import type { ClientTargetSchedule, ClientTargetMonthOverride } from '../types/database'
+import type { PacingMetricKey } from './pacing'
+
+export type TargetColumn =
+  | 'emails_per_day'
+  | 'prospects_per_day'
+  | 'replies_per_day'
+  | 'interested_per_day'
+  | 'meetings_per_day'
+
+export const TARGET_COLUMNS: Record<PacingMetricKey, TargetColumn> = {
+  emails: 'emails_per_day',
+  prospects: 'prospects_per_day',
+  replies: 'replies_per_day',
+  interested: 'interested_per_day',
+  meetings: 'meetings_per_day',
+}
+
+export type TargetValues = Record<PacingMetricKey, number>
+
+export interface TargetSchedule {
+  versions: ClientTargetSchedule[] // Oldest first
+  overrides: ClientTargetMonthOverride[]
+}
+
+export const EMPTY_TARGET_SCHEDULE: TargetSchedule = { versions: [], overrides: [] }
+
+export function emptyTargetValues(): TargetValues {
+  return { emails: 0, prospects: 0, replies: 0, interested: 0, meetings: 0 }
+}
+
+// Local calendar date, comparable with effective_from
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function isWeekend(date: Date): boolean {
+  const day = date.getDay()
+  return day === 0 || day === 6
+}
+
+/**
+ * The version in force on a date: the latest one starting on or before it.
+ * Null before the client's first version.
+ */
+export function versionOn(schedule: TargetSchedule, date: Date): ClientTargetSchedule | null {
+  const key = toDateKey(date)
+  let current: ClientTargetSchedule | null = null
+  for (const version of schedule.versions) {
+    if (version.effective_from > key) break
+    current = version
+  }
+  return current
+}
+
+export function overrideFor(schedule: TargetSchedule, date: Date): ClientTargetMonthOverride | null {
+  return schedule.overrides.find(o => o.year === date.getFullYear() && o.month === date.getMonth() + 1) || null
+}
+
+/**
+ * Targets for a single day. A month override replaces the version's per-day
+ * values where it has one, and weekend days get the version's weekend weight.
+ */
+export function dailyTargets(schedule: TargetSchedule, date: Date): TargetValues {
+  const targets = emptyTargetValues()
+  const version = versionOn(schedule, date)
+  const override = overrideFor(schedule, date)
+  if (!version && !override) return targets
+
+  const weight = version && isWeekend(date) ? Number(version.weekend_weight ?? 1) : 1
+  ;(Object.keys(TARGET_COLUMNS) as PacingMetricKey[]).forEach(key => {
+    const column = TARGET_COLUMNS[key]
+    const perDay = override?.[column] ?? version?.[column]
+    targets[key] = Number(perDay || 0) * weight
+  })
+  return targets
+}
+
+// Summed daily targets from start through end (both inclusive)
+export function targetsForRange(schedule: TargetSchedule, start: Date, end: Date): TargetValues {
+  const totals = emptyTargetValues()
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate())
+  while (day <= last) {
+    const targets = dailyTargets(schedule, day)
+    ;(Object.keys(totals) as PacingMetricKey[]).forEach(key => {
+      totals[key] += targets[key]
+    })
+    day.setDate(day.getDate() + 1)
+  }
+  return totals
+}
+
+// Summed daily targets for a list of YYYY-MM-DD days, e.g. a chart point's days
+export function targetsForDays(schedule: TargetSchedule, days: string[]): TargetValues {
+  const totals = emptyTargetValues()
+  days.forEach(dayKey => {
+    const [year, month, day] = dayKey.split('-').map(Number)
+    const targets = dailyTargets(schedule, new Date(year, month - 1, day))
+    ;(Object.keys(totals) as PacingMetricKey[]).forEach(key => {
+      totals[key] += targets[key]
+    })
+  })
+  return totals
+}
+
+export function hasTargets(schedule: TargetSchedule): boolean {
+  return schedule.versions.length > 0 || schedule.overrides.length > 0
+}
@@ -0,0 +1,380 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  StickyNote,
+  Mail,
+  Phone,
+  Calendar,
+  ArrowRightLeft,
+  PlusCircle,
+  Trophy,
+  XCircle,
+  CheckCircle2,
+  AlarmClock,
+  Reply,
+  CalendarCheck,
+  Send,
+  Paperclip,
+  X,
+  Trash2,
+} from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Button, Select, Textarea } from '../shared'
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_NOTE, formatFileSize, validateAttachment } from '../../utils/attachments'
+import { NoteAttachments } from './NoteAttachments'
+import type { Note, NoteType, TimelineItem, TimelineItemKind, TimelineTarget } from '../../types'
+
+const KIND_INFO: Record<TimelineItemKind, { label: string; icon: React.ReactNode; color: string }> = {
+  note: { label: 'Note', icon: <StickyNote size={14} />, color: '#d4d3cf' },
+  email: { label: 'Email', icon: <Mail size={14} />, color: '#60a5fa' },
+  call: { label: 'Call', icon: <Phone size={14} />, color: '#22c55e' },
+  meeting: { label: 'Meeting', icon: <Calendar size={14} />, color: '#a78bfa' },
+  status_change: { label: 'Stage change', icon: <ArrowRightLeft size={14} />, color: '#fbbf24' },
+  deal_created: { label: 'Deal created', icon: <PlusCircle size={14} />, color: '#2dd4bf' },
+  deal_won: { label: 'Deal won', icon: <Trophy size={14} />, color: '#22c55e' },
+  deal_lost: { label: 'Deal lost', icon: <XCircle size={14} />, color: '#f87171' },
+  task_completed: { label: 'Task completed', icon: <CheckCircle2 size={14} />, color: '#22c55e' },
+  task_snoozed: { label: 'Task snoozed', icon: <AlarmClock size={14} />, color: '#fb923c' },
+  reply: { label: 'Reply', icon: <Reply size={14} />, color: '#60a5fa' },
+  meeting_booked: { label: 'Meeting booked', icon: <CalendarCheck size={14} />, color: '#c084fc' },
+}
+
+// Types a user can log by hand; the rest are written automatically
+const NOTE_TYPE_OPTIONS: { value: NoteType; label: string }[] = [
+  { value: 'note', label: 'Note' },
+  { value: 'call', label: 'Call' },
+  { value: 'email', label: 'Email' },
+  { value: 'meeting', label: 'Meeting' },
+]
+
+// Long reply bodies are clipped until expanded
+const PREVIEW_LENGTH = 280
+
+interface ActivityTimelineProps extends TimelineTarget {
+  emptyMessage?: string
+}
+
+export function ActivityTimeline({ contactId, dealId, email, emptyMessage = 'No activity yet' }: ActivityTimelineProps) {
+  const { fetchTimeline, createNote, deleteNote, uploadNoteAttachments, subscribeToNoteChanges, error } = useCRM()
+  const [items, setItems] = useState<TimelineItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [draft, setDraft] = useState('')
+  const [draftType, setDraftType] = useState<NoteType>('note')
+  const [files, setFiles] = useState<File[]>([])
+  const [composerError, setComposerError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    fetchTimeline({ contactId, dealId, email }).then(result => {
+      if (cancelled) return
+      setItems(result)
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [contactId, dealId, email, fetchTimeline])
+
+  const upsertNoteItem = useCallback((item: TimelineItem) => {
+    setItems(prev => {
+      const rest = prev.filter(i => i.id !== item.id)
+      return [item, ...rest].sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime())
+    })
+  }, [])
+
+  // Live updates: auto-recorded activity and teammates' notes
+  useEffect(() => {
+    return subscribeToNoteChanges(({ eventType, note }) => {
+      const id = `note:${note.id}`
+      if (eventType === 'DELETE') {
+        setItems(prev => prev.filter(i => i.id !== id))
+        return
+      }
+      const matches = (contactId && String(note.contact_id) === String(contactId))
+        || (dealId && note.deal_id === dealId)
+      if (!matches || !note.created_at) return
+      upsertNoteItem({
+        id,
+        kind: note.type || 'note',
+        text: note.text || '',
+        detail: null,
+        occurred_at: note.created_at,
+        created_by: note.created_by ?? null,
+        note: note as Note,
+      })
+    })
+  }, [contactId, dealId, subscribeToNoteChanges, upsertNoteItem])
+
+  const handleFilesSelected = (selected: FileList | null) => {
+    if (!selected) return
+    const next = [...files, ...Array.from(selected)]
+    const invalid = next.length > MAX_ATTACHMENTS_PER_NOTE
+      ? `Attach at most ${MAX_ATTACHMENTS_PER_NOTE} files per note`
+      : next.map(validateAttachment).find(Boolean)
+    
+    if (invalid) {
+      setComposerError(invalid)
+    } else {
+      setFiles(next)
+      setComposerError(null)
+    }
+    // Allow re-selecting the same file after removing it
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleAdd = async () => {
+    if (!draft.trim() && files.length === 0) return
+    setSaving(true)
+    setComposerError(null)
+    
+    const attachments = files.length > 0 ? await uploadNoteAttachments(files) : []
+    const created = attachments && await createNote({
+      contact_id: contactId || null,
+      deal_id: dealId || null,
+      type: draftType,
+      text: draft.trim(),
+      attachments,
+    })
+    setSaving(false)
+    
+    if (!created) {
+      setComposerError(error || 'Failed to save note')
+      return
+    }
+    upsertNoteItem({
+      id: `note:${created.id}`,
+      kind: created.type,
+      text: created.text,
+      detail: null,
+      occurred_at: created.created_at,
+      created_by: created.created_by,
+      note: created,
+    })
+    setDraft('')
+    setFiles([])
+  }
+
+  const handleDelete = async (note: Note) => {
+    setDeletingId(note.id)
+    await deleteNote(note)
+    setDeletingId(null)
+  }
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {/* Composer */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Log a note, call or email..."
+          style={{ minHeight: 60 }}
+        />
+        {files.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+            {files.map((file, i) => (
+              <span
+                key={`${file.name}-${i}`}
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: 6,
+                  padding: '3px 8px',
+                  fontSize: theme.fontSize.xs,
+                  color: theme.text.secondary,
+                  backgroundColor: theme.bg.muted,
+                  border: `1px solid ${theme.border.subtle}`,
+                  borderRadius: theme.radius.full,
+                }}
+              >
+                <Paperclip size={12} />
+                {file.name}
+                <span style={{ color: theme.text.muted }}>{formatFileSize(file.size)}</span>
+                <button
+                  type="button"
+                  title="Remove"
+                  onClick={() => setFiles(prev => prev.filter((_, j) => j !== i))}
+                  style={{ display: 'flex', padding: 0, color: theme.text.muted, background: 'none', border: 'none', cursor: 'pointer' }}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        {composerError && (
+          <p style={{ fontSize: theme.fontSize.xs, color: theme.status.error, margin: 0 }}>{composerError}</p>
+        )}
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 8 }}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={(e) => handleFilesSelected(e.target.files)}
+            style={{ display: 'none' }}
+          />
+          <div style={{ marginRight: 'auto' }}>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              icon={<Paperclip size={14} />}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={saving || files.length >= MAX_ATTACHMENTS_PER_NOTE}
+            >
+              Attach
+            </Button>
+          </div>
+          <div style={{ width: 140 }}>
+            <Select
+              options={NOTE_TYPE_OPTIONS}
+              value={draftType}
+              onChange={(v) => setDraftType(v as NoteType)}
+            />
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            icon={<Send size={14} />}
+            onClick={handleAdd}
+            loading={saving}
+            disabled={(!draft.trim() && files.length === 0) || (!contactId && !dealId)}
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      {loading ? (
+        <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>Loading activity...</p>
+      ) : items.length === 0 ? (
+        <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>{emptyMessage}</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          {items.map((item, i) => {
+            const info = KIND_INFO[item.kind] || KIND_INFO.note
+            const isLong = item.text.length > PREVIEW_LENGTH
+            const isExpanded = expanded.has(item.id)
+            const isLast = i === items.length - 1
+
+            return (
+              <div key={item.id} style={{ display: 'flex', gap: 12 }}>
+                {/* Icon + connector */}
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0 }}>
+                  <div
+                    style={{
+                      width: 28,
+                      height: 28,
+                      borderRadius: theme.radius.full,
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      backgroundColor: theme.bg.muted,
+                      border: `1px solid ${theme.border.subtle}`,
+                      color: info.color,
+                    }}
+                  >
+                    {info.icon}
+                  </div>
+                  {!isLast && (
+                    <div style={{ flex: 1, width: 1, minHeight: 12, backgroundColor: theme.border.subtle }} />
+                  )}
+                </div>
+
+                {/* Content */}
+                <div style={{ flex: 1, minWidth: 0, paddingBottom: isLast ? 0 : 16 }}>
+                  <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: 8 }}>
+                    <span style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.medium, color: theme.text.primary }}>
+                      {info.label}
+                    </span>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+                      {formatTimestamp(item.occurred_at)}
+                      {item.note && (
+                        <button
+                          type="button"
+                          title="Delete note"
+                          onClick={() => handleDelete(item.note!)}
+                          disabled={deletingId === item.note.id}
+                          style={{ display: 'flex', padding: 0, color: theme.text.muted, background: 'none', border: 'none', cursor: 'pointer' }}
+                          onMouseEnter={(e) => e.currentTarget.style.color = theme.status.error}
+                          onMouseLeave={(e) => e.currentTarget.style.color = theme.text.muted}
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  {item.detail && (
+                    <p style={{ fontSize: theme.fontSize.xs, color: theme.text.secondary, margin: '2px 0 0 0' }}>
+                      {item.detail}
+                    </p>
+                  )}
+                  {item.text && (
+                    <p
+                      style={{
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.secondary,
+                        margin: '4px 0 0 0',
+                        whiteSpace: 'pre-line',
+                        wordBreak: 'break-word',
+                      }}
+                    >
+                      {isLong && !isExpanded ? `${item.text.slice(0, PREVIEW_LENGTH).trimEnd()}…` : item.text}
+                    </p>
+                  )}
+                  {isLong && (
+                    <button
+                      type="button"
+                      onClick={() => toggleExpanded(item.id)}
+                      style={{
+                        fontSize: theme.fontSize.xs,
+                        color: theme.accent.primaryLight,
+                        background: 'none',
+                        border: 'none',
+                        cursor: 'pointer',
+                        padding: 0,
+                        marginTop: 4,
+                      }}
+                    >
+                      {isExpanded ? 'Show less' : 'Show more'}
+                    </button>
+                  )}
+                  {item.note?.attachments && <NoteAttachments attachments={item.note.attachments} />}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Format timeline timestamp
+function formatTimestamp(value: string): string {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return value
+
+  const sameYear = date.getFullYear() === new Date().getFullYear()
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
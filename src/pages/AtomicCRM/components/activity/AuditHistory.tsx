@@ -0,0 +1,255 @@
+import { useState, useEffect, useMemo } from 'react'
+import { PlusCircle, Pencil, Trash2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useAuth } from '../../../../contexts/AuthContext'
+import { CONTACT_STAGE_INFO } from '../../types'
+import type { AuditAction, AuditEntry, AuditTable, PipelineStage, TimelineTarget } from '../../types'
+import { getStageInfo } from '../../utils/pipelineStages'
+
+const ACTION_INFO: Record<AuditAction, { icon: React.ReactNode; color: string }> = {
+  insert: { icon: <PlusCircle size={14} />, color: '#2dd4bf' },
+  update: { icon: <Pencil size={14} />, color: '#60a5fa' },
+  delete: { icon: <Trash2 size={14} />, color: '#f87171' },
+}
+
+const TABLE_LABELS: Record<AuditTable, string> = {
+  engaged_leads: 'Lead',
+  crm_deals: 'Deal',
+  crm_tasks: 'Task',
+  client_opportunities: 'Opportunity',
+}
+
+// Columns whose names don't read well when humanized
+const FIELD_LABELS: Record<string, string> = {
+  lead_phone: 'Phone',
+  linkedin_url: 'LinkedIn',
+  company_linkedin: 'Company LinkedIn',
+  showed_up_to_disco: 'Disco show',
+  showed_up_to_disco_at: 'Disco show at',
+  showed_up_to_demo: 'Demo show',
+  showed_up_to_demo_at: 'Demo show at',
+  assigned_to: 'Assignee',
+  owner_id: 'Owner',
+  done: 'Completed',
+  done_at: 'Completed at',
+  text: 'Task',
+}
+
+// Long text values (notes, descriptions) are clipped in the history
+const VALUE_PREVIEW_LENGTH = 120
+
+// One save: every field the same actor changed on a record in a single write
+interface AuditEvent {
+  key: string
+  table: AuditTable
+  recordId: string
+  action: AuditAction
+  actor: string | null
+  actorEmail: string | null
+  changedAt: string
+  changes: AuditEntry[]
+}
+
+interface AuditHistoryProps extends TimelineTarget {
+  emptyMessage?: string
+}
+
+export function AuditHistory({ contactId, dealId, email, emptyMessage = 'No changes recorded yet' }: AuditHistoryProps) {
+  const { fetchAuditLog, tasks, pipelineStages } = useCRM()
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    fetchAuditLog({ contactId, dealId, email }).then(result => {
+      if (cancelled) return
+      setEntries(result)
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [contactId, dealId, email, fetchAuditLog])
+
+  // Rows from one UPDATE share a timestamp, so they collapse into one event
+  const events = useMemo(() => {
+    const byKey = new Map<string, AuditEvent>()
+    for (const entry of entries) {
+      const key = `${entry.table_name}:${entry.record_id}:${entry.action}:${entry.actor ?? ''}:${entry.changed_at}`
+      const event = byKey.get(key)
+      if (event) {
+        event.changes.push(entry)
+      } else {
+        byKey.set(key, {
+          key,
+          table: entry.table_name,
+          recordId: entry.record_id,
+          action: entry.action,
+          actor: entry.actor,
+          actorEmail: entry.actor_email,
+          changedAt: entry.changed_at,
+          changes: [entry],
+        })
+      }
+    }
+    return [...byKey.values()]
+  }, [entries])
+
+  const describeRecord = (event: AuditEvent): string => {
+    if (event.table !== 'crm_tasks') return TABLE_LABELS[event.table]
+    const task = tasks.find(t => String(t.id) === event.recordId)
+    return task ? `Task "${task.text}"` : 'Task'
+  }
+
+  const describeActor = (event: AuditEvent): string => {
+    if (event.actor && event.actor === user?.id) return 'You'
+    return event.actorEmail || 'System'
+  }
+
+  if (loading) {
+    return <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>Loading history...</p>
+  }
+
+  if (events.length === 0) {
+    return <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>{emptyMessage}</p>
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column' }}>
+      {events.map((event, i) => {
+        const info = ACTION_INFO[event.action]
+        const isLast = i === events.length - 1
+        const record = describeRecord(event)
+        const headline = event.action === 'insert'
+          ? `${record} created`
+          : event.action === 'delete'
+            ? `${record} deleted`
+            : `${record} updated`
+
+        return (
+          <div key={event.key} style={{ display: 'flex', gap: 12 }}>
+            {/* Icon + connector */}
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0 }}>
+              <div
+                style={{
+                  width: 28,
+                  height: 28,
+                  borderRadius: theme.radius.full,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  backgroundColor: theme.bg.muted,
+                  border: `1px solid ${theme.border.subtle}`,
+                  color: info.color,
+                }}
+              >
+                {info.icon}
+              </div>
+              {!isLast && (
+                <div style={{ flex: 1, width: 1, minHeight: 12, backgroundColor: theme.border.subtle }} />
+              )}
+            </div>
+
+            {/* Content */}
+            <div style={{ flex: 1, minWidth: 0, paddingBottom: isLast ? 0 : 16 }}>
+              <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: 8 }}>
+                <span
+                  style={{
+                    fontSize: theme.fontSize.sm,
+                    fontWeight: theme.fontWeight.medium,
+                    color: theme.text.primary,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {headline}
+                </span>
+                <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+                  {formatTimestamp(event.changedAt)}
+                </span>
+              </div>
+              <p style={{ fontSize: theme.fontSize.xs, color: theme.text.secondary, margin: '2px 0 0 0' }}>
+                by {describeActor(event)}
+              </p>
+
+              {event.action === 'update' && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginTop: 6 }}>
+                  {event.changes.map(change => (
+                    <div
+                      key={change.id}
+                      style={{
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.secondary,
+                        wordBreak: 'break-word',
+                      }}
+                    >
+                      <span style={{ color: theme.text.muted }}>{fieldLabel(change.field)}: </span>
+                      {change.field === 'deleted_at' ? (
+                        change.new_value ? 'Deleted' : 'Restored'
+                      ) : (
+                        <>
+                          <span style={{ textDecoration: 'line-through', color: theme.text.muted }}>
+                            {formatValue(event.table, change.field, change.old_value, pipelineStages)}
+                          </span>
+                          {' → '}
+                          <span style={{ color: theme.text.primary }}>
+                            {formatValue(event.table, change.field, change.new_value, pipelineStages)}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function fieldLabel(field: string | null): string {
+  if (!field) return ''
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field]
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Render a stored JSON value the way the CRM shows it
+function formatValue(table: AuditTable, field: string | null, value: unknown, stages: PipelineStage[]): string {
+  if (value === null || value === undefined || value === '') return 'empty'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') return value.toLocaleString()
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none'
+  if (typeof value === 'object') return clip(JSON.stringify(value))
+
+  const text = String(value)
+  if (field === 'stage') {
+    const info = table === 'crm_deals' ? getStageInfo(stages, text) : CONTACT_STAGE_INFO[text]
+    if (info) return info.label
+  }
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) return formatTimestamp(text)
+  return clip(text)
+}
+
+function clip(text: string): string {
+  return text.length > VALUE_PREVIEW_LENGTH ? `${text.slice(0, VALUE_PREVIEW_LENGTH).trimEnd()}…` : text
+}
+
+// Format history timestamp
+function formatTimestamp(value: string): string {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return value
+
+  const sameYear = date.getFullYear() === new Date().getFullYear()
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react'
+import { FileText, Paperclip, ExternalLink, Eye, EyeOff } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { formatFileSize, isImageAttachment, isPdfAttachment } from '../../utils/attachments'
+import type { Attachment } from '../../types'
+
+interface NoteAttachmentsProps {
+  attachments: Attachment[]
+}
+
+export function NoteAttachments({ attachments }: NoteAttachmentsProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginTop: 8 }}>
+      {attachments.map((attachment, i) => (
+        <AttachmentItem key={attachment.path || `${attachment.url}-${i}`} attachment={attachment} />
+      ))}
+    </div>
+  )
+}
+
+function AttachmentItem({ attachment }: { attachment: Attachment }) {
+  const { getAttachmentUrl } = useCRM()
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+  const [showPdf, setShowPdf] = useState(false)
+  const isImage = isImageAttachment(attachment)
+  const isPdf = isPdfAttachment(attachment)
+
+  useEffect(() => {
+    let cancelled = false
+    getAttachmentUrl(attachment).then(signed => {
+      if (cancelled) return
+      setUrl(signed)
+      setFailed(!signed)
+    })
+    return () => { cancelled = true }
+  }, [attachment, getAttachmentUrl])
+
+  // Images preview inline; clicking opens the full file
+  if (isImage && url) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" title={attachment.name} style={{ alignSelf: 'flex-start' }}>
+        <img
+          src={url}
+          alt={attachment.name}
+          style={{
+            display: 'block',
+            maxWidth: 240,
+            maxHeight: 160,
+            objectFit: 'cover',
+            borderRadius: theme.radius.md,
+            border: `1px solid ${theme.border.subtle}`,
+          }}
+        />
+      </a>
+    )
+  }
+
+  return (
+    <div
+      style={{
+        backgroundColor: theme.bg.muted,
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.md,
+        overflow: 'hidden',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 10px' }}>
+        {isPdf ? (
+          <FileText size={14} style={{ color: theme.status.error, flexShrink: 0 }} />
+        ) : (
+          <Paperclip size={14} style={{ color: theme.text.muted, flexShrink: 0 }} />
+        )}
+        <span
+          style={{
+            flex: 1,
+            minWidth: 0,
+            fontSize: theme.fontSize.sm,
+            color: theme.text.primary,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {attachment.name}
+        </span>
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, flexShrink: 0 }}>
+          {failed ? 'Unavailable' : formatFileSize(attachment.size)}
+        </span>
+        {isPdf && url && (
+          <IconAction
+            title={showPdf ? 'Hide preview' : 'Preview'}
+            onClick={() => setShowPdf(!showPdf)}
+            icon={showPdf ? <EyeOff size={14} /> : <Eye size={14} />}
+          />
+        )}
+        {url && (
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title="Open"
+            style={{ display: 'flex', color: theme.text.muted }}
+          >
+            <ExternalLink size={14} />
+          </a>
+        )}
+      </div>
+      {isPdf && url && showPdf && (
+        <iframe
+          src={url}
+          title={attachment.name}
+          style={{
+            display: 'block',
+            width: '100%',
+            height: 360,
+            border: 'none',
+            borderTop: `1px solid ${theme.border.subtle}`,
+            backgroundColor: theme.bg.card,
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function IconAction({ title, onClick, icon }: { title: string; onClick: () => void; icon: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      style={{
+        display: 'flex',
+        padding: 0,
+        color: theme.text.muted,
+        background: 'none',
+        border: 'none',
+        cursor: 'pointer',
+      }}
+    >
+      {icon}
+    </button>
+  )
+}
@@ -0,0 +1,570 @@
+import { useState, useMemo } from 'react'
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Users, Share2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Button, LoadingSkeleton } from '../shared'
+import { TaskModal } from '../tasks/TaskModal'
+import { ContactModal } from '../contacts/ContactModal'
+import { CalendarFeedModal } from './CalendarFeedModal'
+import type { Task, Contact } from '../../types'
+import { TASK_TYPE_INFO } from '../../types'
+import { WEEKDAY_LABELS } from '../../utils/recurrence'
+
+type CalendarView = 'month' | 'week' | 'day'
+
+// Something shown on the calendar: a task on its due date or a contact's booked meeting
+type CalendarItem =
+  | { kind: 'task'; id: string; day: string; label: string; color: string; done: boolean; task: Task }
+  | { kind: 'meeting'; id: string; day: string; label: string; color: string; done: boolean; contact: Contact }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days are handled as "YYYY-MM-DD" keys. Stored due dates are UTC midnight,
+// so the key is simply the date part of the ISO string.
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function fromDayKey(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`)
+}
+
+function addDays(key: string, days: number): string {
+  return toDayKey(new Date(fromDayKey(key).getTime() + days * DAY_MS))
+}
+
+function todayKey(): string {
+  const now = new Date()
+  return toDayKey(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())))
+}
+
+function startOfWeek(key: string): string {
+  return addDays(key, -fromDayKey(key).getUTCDay())
+}
+
+function addMonths(key: string, months: number): string {
+  const date = fromDayKey(key)
+  return toDayKey(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)))
+}
+
+// The days shown for a view, always whole weeks for the month grid
+function getVisibleDays(view: CalendarView, cursor: string): string[] {
+  if (view === 'day') return [cursor]
+  if (view === 'week') {
+    const start = startOfWeek(cursor)
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i))
+  }
+  const start = startOfWeek(cursor.slice(0, 8) + '01')
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i))
+}
+
+function formatRange(view: CalendarView, cursor: string): string {
+  const date = fromDayKey(cursor)
+  if (view === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+  }
+  if (view === 'day') {
+    return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+  }
+  const start = fromDayKey(startOfWeek(cursor))
+  const end = fromDayKey(addDays(startOfWeek(cursor), 6))
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+  const endLabel = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+  return `${startLabel} – ${endLabel}`
+}
+
+export function CRMCalendar() {
+  const { tasks, contacts, loading, updateTask, updateContact } = useCRM()
+  const [view, setView] = useState<CalendarView>('month')
+  const [cursor, setCursor] = useState(todayKey)
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+  const [isTaskModalOpen, setIsTaskModalOpen] = useState(false)
+  const [selectedContact, setSelectedContact] = useState<Contact | null>(null)
+  const [isContactModalOpen, setIsContactModalOpen] = useState(false)
+  const [isFeedModalOpen, setIsFeedModalOpen] = useState(false)
+
+  const days = useMemo(() => getVisibleDays(view, cursor), [view, cursor])
+
+  // Items grouped by day key
+  const itemsByDay = useMemo(() => {
+    const map = new Map<string, CalendarItem[]>()
+    const add = (item: CalendarItem) => {
+      const list = map.get(item.day) || []
+      list.push(item)
+      map.set(item.day, list)
+    }
+
+    contacts.forEach(contact => {
+      if (!contact.meeting_date) return
+      add({
+        kind: 'meeting',
+        id: contact.id,
+        day: contact.meeting_date.slice(0, 10),
+        label: contact.full_name || contact.company || 'Meeting',
+        color: TASK_TYPE_INFO.meeting.color,
+        done: !!contact.showed_up_to_disco,
+        contact,
+      })
+    })
+
+    tasks.forEach(task => {
+      if (!task.due_date) return
+      add({
+        kind: 'task',
+        id: task.id,
+        day: task.due_date.slice(0, 10),
+        label: task.text,
+        color: TASK_TYPE_INFO[task.type].color,
+        done: task.done,
+        task,
+      })
+    })
+
+    // Meetings first, then open tasks before completed ones
+    map.forEach(list => list.sort((a, b) => {
+      if (a.kind !== b.kind) return a.kind === 'meeting' ? -1 : 1
+      if (a.done !== b.done) return a.done ? 1 : -1
+      return 0
+    }))
+    return map
+  }, [tasks, contacts])
+
+  const visibleCounts = useMemo(() => {
+    let taskCount = 0
+    let meetingCount = 0
+    days.forEach(day => itemsByDay.get(day)?.forEach(item => {
+      if (item.kind === 'task') taskCount++
+      else meetingCount++
+    }))
+    return { taskCount, meetingCount }
+  }, [days, itemsByDay])
+
+  const navigate = (direction: -1 | 1) => {
+    if (view === 'month') setCursor(addMonths(cursor, direction))
+    else setCursor(addDays(cursor, direction * (view === 'week' ? 7 : 1)))
+  }
+
+  const handleOpenItem = (item: CalendarItem) => {
+    if (item.kind === 'task') {
+      setSelectedTask(item.task)
+      setIsTaskModalOpen(true)
+    } else {
+      setSelectedContact(item.contact)
+      setIsContactModalOpen(true)
+    }
+  }
+
+  const handleCreateTask = () => {
+    setSelectedTask(null)
+    setIsTaskModalOpen(true)
+  }
+
+  const handleMoveItem = (itemKey: string, day: string) => {
+    const separator = itemKey.indexOf(':')
+    const kind = itemKey.slice(0, separator)
+    const id = itemKey.slice(separator + 1)
+    if (kind === 'task') {
+      const task = tasks.find(t => t.id === id)
+      if (!task || task.due_date?.slice(0, 10) === day) return
+      updateTask(id, { due_date: fromDayKey(day).toISOString() })
+    } else if (kind === 'meeting') {
+      const contact = contacts.find(c => String(c.id) === id)
+      if (!contact?.meeting_date || contact.meeting_date.slice(0, 10) === day) return
+      // Keep the meeting's time of day, only the date moves
+      updateContact(contact.id, { meeting_date: day + contact.meeting_date.slice(10) })
+    }
+  }
+
+  const handleShowDay = (day: string) => {
+    setCursor(day)
+    setView('day')
+  }
+
+  if (loading.tasks || loading.contacts) {
+    return <LoadingSkeleton rows={8} />
+  }
+
+  const today = todayKey()
+  const currentMonth = cursor.slice(0, 7)
+
+  return (
+    <div style={{ padding: 20, display: 'flex', flexDirection: 'column', height: '100%', boxSizing: 'border-box' }}>
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: 20,
+          gap: 16,
+          flexWrap: 'wrap',
+        }}
+      >
+        <div>
+          <h1
+            style={{
+              fontSize: theme.fontSize['2xl'],
+              fontWeight: theme.fontWeight.bold,
+              color: theme.text.primary,
+              margin: 0,
+              display: 'flex',
+              alignItems: 'center',
+              gap: 12,
+            }}
+          >
+            <CalendarDays size={24} style={{ color: theme.entity.task }} />
+            Calendar
+          </h1>
+          <p
+            style={{
+              fontSize: theme.fontSize.sm,
+              color: theme.text.muted,
+              margin: '4px 0 0 0',
+            }}
+          >
+            {visibleCounts.taskCount} {visibleCounts.taskCount === 1 ? 'task' : 'tasks'} • {visibleCounts.meetingCount} {visibleCounts.meetingCount === 1 ? 'meeting' : 'meetings'}
+          </p>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+          {/* View Tabs */}
+          <div
+            style={{
+              display: 'flex',
+              gap: 4,
+              padding: 4,
+              backgroundColor: theme.bg.card,
+              borderRadius: theme.radius.lg,
+            }}
+          >
+            {(['month', 'week', 'day'] as CalendarView[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                style={{
+                  padding: '6px 14px',
+                  backgroundColor: view === key ? theme.bg.elevated : 'transparent',
+                  color: view === key ? theme.text.primary : theme.text.muted,
+                  border: 'none',
+                  borderRadius: theme.radius.md,
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: theme.fontWeight.medium,
+                  cursor: 'pointer',
+                  textTransform: 'capitalize',
+                  transition: `all ${theme.transition.fast}`,
+                }}
+              >
+                {key}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="secondary"
+            icon={<Share2 size={16} />}
+            onClick={() => setIsFeedModalOpen(true)}
+          >
+            Export
+          </Button>
+          <Button icon={<Plus size={16} />} onClick={handleCreateTask}>
+            Add Task
+          </Button>
+        </div>
+      </div>
+
+      {/* Navigation */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+        <NavButton onClick={() => navigate(-1)} title="Previous">
+          <ChevronLeft size={16} />
+        </NavButton>
+        <NavButton onClick={() => navigate(1)} title="Next">
+          <ChevronRight size={16} />
+        </NavButton>
+        <Button variant="secondary" size="sm" onClick={() => setCursor(today)}>
+          Today
+        </Button>
+        <span
+          style={{
+            marginLeft: 8,
+            fontSize: theme.fontSize.lg,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+          }}
+        >
+          {formatRange(view, cursor)}
+        </span>
+      </div>
+
+      {/* Weekday Headings */}
+      {view !== 'day' && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', gap: 4, marginBottom: 4 }}>
+          {days.slice(0, 7).map(day => (
+            <div
+              key={day}
+              style={{
+                padding: '4px 8px',
+                fontSize: theme.fontSize.xs,
+                fontWeight: theme.fontWeight.medium,
+                color: theme.text.muted,
+                textTransform: 'uppercase',
+              }}
+            >
+              {WEEKDAY_LABELS[fromDayKey(day).getUTCDay()].slice(0, 3)}
+              {view === 'week' && ` ${fromDayKey(day).getUTCDate()}`}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Grid */}
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: view === 'day' ? '1fr' : 'repeat(7, minmax(0, 1fr))',
+          gridAutoRows: view === 'month' ? 'minmax(110px, 1fr)' : 'minmax(420px, 1fr)',
+          gap: 4,
+          flex: 1,
+        }}
+      >
+        {days.map(day => (
+          <DayCell
+            key={day}
+            day={day}
+            items={itemsByDay.get(day) || []}
+            maxItems={view === 'month' ? 3 : undefined}
+            showDate={view === 'month'}
+            isToday={day === today}
+            isOutsideMonth={view === 'month' && day.slice(0, 7) !== currentMonth}
+            onOpenItem={handleOpenItem}
+            onMoveItem={handleMoveItem}
+            onShowDay={() => handleShowDay(day)}
+          />
+        ))}
+      </div>
+
+      <TaskModal
+        isOpen={isTaskModalOpen}
+        onClose={() => setIsTaskModalOpen(false)}
+        task={selectedTask}
+      />
+
+      <ContactModal
+        isOpen={isContactModalOpen}
+        onClose={() => setIsContactModalOpen(false)}
+        contact={selectedContact}
+      />
+
+      <CalendarFeedModal
+        isOpen={isFeedModalOpen}
+        onClose={() => setIsFeedModalOpen(false)}
+      />
+    </div>
+  )
+}
+
+// Nav Button
+interface NavButtonProps {
+  onClick: () => void
+  title: string
+  children: React.ReactNode
+}
+
+function NavButton({ onClick, title, children }: NavButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: 30,
+        height: 30,
+        color: theme.text.secondary,
+        backgroundColor: theme.bg.card,
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.md,
+        cursor: 'pointer',
+        transition: `all ${theme.transition.fast}`,
+      }}
+      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = theme.bg.card}
+    >
+      {children}
+    </button>
+  )
+}
+
+// Day Cell
+interface DayCellProps {
+  day: string
+  items: CalendarItem[]
+  maxItems?: number // Items shown before collapsing the rest into "+N more"
+  showDate: boolean
+  isToday: boolean
+  isOutsideMonth: boolean
+  onOpenItem: (item: CalendarItem) => void
+  onMoveItem: (itemKey: string, day: string) => void
+  onShowDay: () => void
+}
+
+function DayCell({
+  day,
+  items,
+  maxItems,
+  showDate,
+  isToday,
+  isOutsideMonth,
+  onOpenItem,
+  onMoveItem,
+  onShowDay,
+}: DayCellProps) {
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  const shown = maxItems ? items.slice(0, maxItems) : items
+  const overflow = items.length - shown.length
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setIsDragOver(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Only reset when leaving the cell itself, not a child
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setIsDragOver(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    const itemKey = e.dataTransfer.getData('calendarItem')
+    if (itemKey) onMoveItem(itemKey, day)
+  }
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 3,
+        minWidth: 0,
+        padding: 6,
+        backgroundColor: isDragOver ? theme.accent.primaryBg : theme.bg.card,
+        border: `1px solid ${isDragOver ? theme.accent.primary : theme.border.subtle}`,
+        borderRadius: theme.radius.lg,
+        opacity: isOutsideMonth ? 0.5 : 1,
+        overflowY: 'auto',
+        transition: `all ${theme.transition.fast}`,
+      }}
+    >
+      {showDate && (
+        <button
+          onClick={onShowDay}
+          title="Open day"
+          style={{
+            alignSelf: 'flex-start',
+            minWidth: 22,
+            height: 22,
+            padding: '0 6px',
+            marginBottom: 2,
+            fontSize: theme.fontSize.xs,
+            fontWeight: isToday ? theme.fontWeight.semibold : theme.fontWeight.medium,
+            color: isToday ? theme.text.inverse : theme.text.secondary,
+            backgroundColor: isToday ? theme.accent.primary : 'transparent',
+            border: 'none',
+            borderRadius: theme.radius.full,
+            cursor: 'pointer',
+          }}
+        >
+          {fromDayKey(day).getUTCDate()}
+        </button>
+      )}
+
+      {shown.map(item => (
+        <CalendarItemChip
+          key={`${item.kind}:${item.id}`}
+          item={item}
+          onClick={() => onOpenItem(item)}
+        />
+      ))}
+
+      {overflow > 0 && (
+        <button
+          onClick={onShowDay}
+          style={{
+            alignSelf: 'flex-start',
+            padding: '0 4px',
+            fontSize: theme.fontSize.xs,
+            color: theme.text.muted,
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.color = theme.text.primary}
+          onMouseLeave={(e) => e.currentTarget.style.color = theme.text.muted}
+        >
+          +{overflow} more
+        </button>
+      )}
+    </div>
+  )
+}
+
+// Calendar Item Chip
+interface CalendarItemChipProps {
+  item: CalendarItem
+  onClick: () => void
+}
+
+function CalendarItemChip({ item, onClick }: CalendarItemChipProps) {
+  const [isDragging, setIsDragging] = useState(false)
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData('calendarItem', `${item.kind}:${item.id}`)
+    e.dataTransfer.effectAllowed = 'move'
+    setIsDragging(true)
+  }
+
+  return (
+    <div
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={() => setIsDragging(false)}
+      onClick={onClick}
+      title={item.kind === 'meeting' ? `Meeting with ${item.label}` : item.label}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        padding: '3px 6px',
+        fontSize: theme.fontSize.xs,
+        color: item.done ? theme.text.muted : theme.text.primary,
+        backgroundColor: `${item.color}1a`,
+        borderLeft: `3px solid ${item.color}`,
+        borderRadius: theme.radius.sm,
+        cursor: 'grab',
+        opacity: isDragging ? 0.5 : 1,
+        transition: `all ${theme.transition.fast}`,
+      }}
+      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = `${item.color}33`}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = `${item.color}1a`}
+    >
+      {item.kind === 'meeting' && <Users size={11} style={{ color: item.color, flexShrink: 0 }} />}
+      <span
+        style={{
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          textDecoration: item.kind === 'task' && item.done ? 'line-through' : 'none',
+        }}
+      >
+        {item.label}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react'
+import { Download, Link2, Copy, Check, RefreshCw, User } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useAuth } from '../../../../contexts/AuthContext'
+import { useFilters } from '../../../../contexts/FilterContext'
+import { Modal, ModalFooter, Button, Input } from '../shared'
+import type { CalendarFeed } from '../../types'
+import { downloadCalendarFile, getCalendarFeedUrl, getCalendarSubscribeUrl } from '../../utils/calendarFeed'
+
+interface CalendarFeedModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function CalendarFeedModal({ isOpen, onClose }: CalendarFeedModalProps) {
+  const { fetchCalendarFeed, createCalendarFeed, deleteCalendarFeed, error } = useCRM()
+  const { session } = useAuth()
+  const { selectedClient } = useFilters()
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [assignee, setAssignee] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [downloading, setDownloading] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // Load the user's subscribe link each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+    setFormError(null)
+    setCopied(false)
+    fetchCalendarFeed().then(existing => {
+      setFeed(existing)
+      setAssignee(existing?.assignee || '')
+    })
+  }, [isOpen, fetchCalendarFeed])
+
+  const handleDownload = async () => {
+    if (!session || !selectedClient) return
+    setDownloading(true)
+    setFormError(null)
+    try {
+      await downloadCalendarFile(session.access_token, selectedClient, assignee.trim() || null)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to export calendar')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  // Resetting replaces the token, so anyone holding the old link loses access
+  const handleCreate = async () => {
+    setLoading(true)
+    setFormError(null)
+    try {
+      if (feed && !(await deleteCalendarFeed(feed.id))) {
+        setFormError(error || 'Failed to reset link')
+        return
+      }
+      const created = await createCalendarFeed(assignee.trim() || null)
+      setFeed(created)
+      if (!created) setFormError(error || 'Failed to create link')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleTurnOff = async () => {
+    if (!feed) return
+    setLoading(true)
+    try {
+      if (await deleteCalendarFeed(feed.id)) setFeed(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feed) return
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(feed.token))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      // Clipboard can be blocked (e.g. insecure context) - the URL is still selectable
+    }
+  }
+
+  const assigneeChanged = !!feed && (feed.assignee || '') !== assignee.trim()
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Calendar Export" size="md">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+        <p style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary, margin: 0 }}>
+          Open tasks with a due date and booked meetings, as an iCalendar (.ics) file for Google Calendar, Outlook or Apple Calendar.
+        </p>
+
+        <div>
+          <Input
+            label="Only include items assigned to"
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="Everyone"
+            icon={<User size={14} />}
+          />
+          {assigneeChanged && (
+            <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '6px 0 0 0' }}>
+              Your subscribe link still uses {feed?.assignee ? `"${feed.assignee}"` : 'everyone'}. Reset it to apply this filter.
+            </p>
+          )}
+        </div>
+
+        {/* Download */}
+        <Section
+          title="Download"
+          description="A one-time snapshot. Importing it again updates the same events instead of duplicating them."
+        >
+          <Button
+            variant="secondary"
+            icon={<Download size={16} />}
+            onClick={handleDownload}
+            loading={downloading}
+            disabled={!session || !selectedClient}
+          >
+            Download .ics
+          </Button>
+        </Section>
+
+        {/* Subscribe */}
+        <Section
+          title="Subscribe"
+          description="Your calendar app checks this link for changes, usually every few hours. Anyone with the link can see these events."
+        >
+          {feed ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <input
+                  readOnly
+                  value={getCalendarFeedUrl(feed.token)}
+                  onFocus={(e) => e.currentTarget.select()}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    padding: '8px 10px',
+                    fontSize: theme.fontSize.xs,
+                    fontFamily: 'monospace',
+                    color: theme.text.secondary,
+                    backgroundColor: theme.bg.elevated,
+                    border: `1px solid ${theme.border.default}`,
+                    borderRadius: theme.radius.md,
+                    outline: 'none',
+                  }}
+                />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon={copied ? <Check size={14} /> : <Copy size={14} />}
+                  onClick={handleCopy}
+                >
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <a
+                  href={getCalendarSubscribeUrl(feed.token)}
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 6,
+                    fontSize: theme.fontSize.sm,
+                    color: theme.accent.primaryLight,
+                    textDecoration: 'none',
+                  }}
+                >
+                  <Link2 size={14} />
+                  Open in calendar app
+                </a>
+                <span style={{ marginLeft: 'auto', fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                  {feed.last_accessed_at
+                    ? `Last synced ${new Date(feed.last_accessed_at).toLocaleString()}`
+                    : 'Not synced yet'}
+                </span>
+              </div>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <Button variant="ghost" size="sm" icon={<RefreshCw size={14} />} onClick={handleCreate} loading={loading}>
+                  Reset link
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleTurnOff} disabled={loading}>
+                  Turn off
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button icon={<Link2 size={16} />} onClick={handleCreate} loading={loading}>
+              Create subscribe link
+            </Button>
+          )}
+        </Section>
+
+        {formError && (
+          <div
+            style={{
+              padding: 12,
+              backgroundColor: theme.status.errorBg,
+              borderRadius: theme.radius.lg,
+              border: `1px solid ${theme.status.error}`,
+            }}
+          >
+            <p style={{ fontSize: theme.fontSize.sm, color: theme.status.error, margin: 0 }}>
+              {formError}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Done
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+// Section
+interface SectionProps {
+  title: string
+  description: string
+  children: React.ReactNode
+}
+
+function Section({ title, description, children }: SectionProps) {
+  return (
+    <div
+      style={{
+        padding: 16,
+        backgroundColor: theme.bg.card,
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <h3
+        style={{
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.semibold,
+          color: theme.text.primary,
+          margin: 0,
+        }}
+      >
+        {title}
+      </h3>
+      <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '4px 0 12px 0' }}>
+        {description}
+      </p>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,528 @@
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, GitBranch, User, Tag, Download, Trash2, Plus, Minus, Check, AlertCircle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { CONTACT_STAGE_INFO, type Contact, type BulkOperationResult } from '../../types'
+
+// Pipeline flags in funnel order - setting a step marks every earlier step too
+const PIPELINE_FLAGS = [
+  'meeting_booked',
+  'showed_up_to_disco',
+  'qualified',
+  'demo_booked',
+  'showed_up_to_demo',
+  'proposal_sent',
+  'closed',
+] as const
+
+type PipelineFlag = typeof PIPELINE_FLAGS[number]
+type BulkMenu = 'stage' | 'assignee' | 'tags' | 'delete' | null
+
+interface BulkActionBarProps {
+  selectedContacts: Contact[]
+  matchingCount: number // Contacts matching the current filters
+  onSelectAllMatching: () => void
+  onClearSelection: () => void
+  onExport: () => void
+  onComplete: (result: BulkOperationResult) => void
+}
+
+// Build the update for moving a contact to a pipeline step (null = back to New)
+function buildPipelineUpdate(contact: Contact, step: PipelineFlag | null): Partial<Contact> {
+  const stepIndex = step ? PIPELINE_FLAGS.indexOf(step) : -1
+  const now = new Date().toISOString()
+  const update: Record<string, boolean | string> = {}
+
+  PIPELINE_FLAGS.forEach((flag, i) => {
+    const reached = i <= stepIndex
+    update[flag] = reached
+    // Only stamp steps that weren't already reached so existing dates are kept
+    if (reached && !contact[`${flag}_at` as keyof Contact]) {
+      update[`${flag}_at`] = now
+    }
+  })
+
+  return update as Partial<Contact>
+}
+
+export function BulkActionBar({
+  selectedContacts,
+  matchingCount,
+  onSelectAllMatching,
+  onClearSelection,
+  onExport,
+  onComplete,
+}: BulkActionBarProps) {
+  const { contacts, tags, bulkUpdateContacts, bulkDeleteContacts } = useCRM()
+  const [openMenu, setOpenMenu] = useState<BulkMenu>(null)
+  const [assigneeInput, setAssigneeInput] = useState('')
+  const [tagInput, setTagInput] = useState('')
+  const [progress, setProgress] = useState<{ label: string; completed: number; total: number } | null>(null)
+  const [lastResult, setLastResult] = useState<{ label: string; result: BulkOperationResult } | null>(null)
+  const barRef = useRef<HTMLDivElement>(null)
+
+  const count = selectedContacts.length
+  const isRunning = progress !== null
+
+  // Close menus on click outside
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (barRef.current && !barRef.current.contains(e.target as Node)) {
+        setOpenMenu(null)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  // Suggestions from values already used in this client's CRM
+  const knownAssignees = useMemo(() => {
+    const values = new Set<string>()
+    contacts.forEach(c => c.assignee && values.add(c.assignee))
+    return [...values].sort((a, b) => a.localeCompare(b))
+  }, [contacts])
+
+  const knownTags = useMemo(() => {
+    const values = new Set<string>()
+    tags.filter(t => t.entity_type === 'contact').forEach(t => values.add(t.name))
+    contacts.forEach(c => c.tags?.forEach(tag => values.add(tag)))
+    return [...values].sort((a, b) => a.localeCompare(b))
+  }, [contacts, tags])
+
+  const selectedTags = useMemo(() => {
+    const values = new Set<string>()
+    selectedContacts.forEach(c => c.tags?.forEach(tag => values.add(tag)))
+    return [...values].sort((a, b) => a.localeCompare(b))
+  }, [selectedContacts])
+
+  const run = async (label: string, action: (onProgress: (completed: number, total: number) => void) => Promise<BulkOperationResult>) => {
+    setOpenMenu(null)
+    setLastResult(null)
+    setProgress({ label, completed: 0, total: count })
+    try {
+      const result = await action((completed, total) => setProgress({ label, completed, total }))
+      setLastResult({ label, result })
+      onComplete(result)
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleSetStage = (step: PipelineFlag | null) => {
+    const label = step ? CONTACT_STAGE_INFO[step].label : 'New'
+    run(`Moving to ${label}`, onProgress =>
+      bulkUpdateContacts(selectedContacts, c => buildPipelineUpdate(c, step), onProgress)
+    )
+  }
+
+  const handleSetAssignee = (assignee: string | null) => {
+    run(assignee ? `Assigning to ${assignee}` : 'Clearing assignee', onProgress =>
+      bulkUpdateContacts(selectedContacts, () => ({ assignee }), onProgress)
+    )
+    setAssigneeInput('')
+  }
+
+  const handleTag = (tag: string, mode: 'add' | 'remove') => {
+    const value = tag.trim()
+    if (!value) return
+    // Skip contacts that already match so we don't send no-op updates
+    const targets = selectedContacts.filter(c =>
+      mode === 'add' ? !c.tags?.includes(value) : c.tags?.includes(value)
+    )
+    if (targets.length === 0) {
+      setOpenMenu(null)
+      return
+    }
+    run(mode === 'add' ? `Tagging "${value}"` : `Removing "${value}"`, onProgress =>
+      bulkUpdateContacts(
+        targets,
+        c => ({
+          tags: mode === 'add'
+            ? [...(c.tags || []), value]
+            : (c.tags || []).filter(t => t !== value),
+        }),
+        onProgress
+      )
+    )
+    setTagInput('')
+  }
+
+  const handleDelete = () => {
+    run('Deleting', onProgress =>
+      bulkDeleteContacts(selectedContacts.map(c => c.id), onProgress)
+    )
+  }
+
+  const contactLabel = (id: string) => {
+    const contact = contacts.find(c => c.id === id) || selectedContacts.find(c => c.id === id)
+    if (!contact) return id
+    return contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.email || id
+  }
+
+  if (count === 0 && !lastResult) return null
+
+  return (
+    <motion.div
+      ref={barRef}
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 16 }}
+      style={{
+        position: 'fixed',
+        bottom: 24,
+        left: '50%',
+        x: '-50%',
+        zIndex: theme.z.sticky,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        minWidth: 560,
+        padding: '10px 12px',
+        backgroundColor: theme.bg.elevated,
+        border: `1px solid ${theme.border.default}`,
+        borderRadius: theme.radius.xl,
+        boxShadow: theme.shadow.dropdown,
+      }}
+    >
+      {/* Result of the last action */}
+      {lastResult && !isRunning && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'flex-start',
+            gap: 8,
+            padding: '8px 10px',
+            borderRadius: theme.radius.md,
+            backgroundColor: lastResult.result.failed.length > 0 ? theme.status.warningBg : theme.status.successBg,
+            fontSize: theme.fontSize.sm,
+            color: theme.text.secondary,
+          }}
+        >
+          {lastResult.result.failed.length > 0
+            ? <AlertCircle size={14} style={{ color: theme.status.warning, marginTop: 2, flexShrink: 0 }} />
+            : <Check size={14} style={{ color: theme.status.success, marginTop: 2, flexShrink: 0 }} />}
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div>
+              {lastResult.label}: {lastResult.result.succeeded.length} succeeded
+              {lastResult.result.failed.length > 0 && `, ${lastResult.result.failed.length} failed (still selected)`}
+            </div>
+            {lastResult.result.failed.length > 0 && (
+              <div style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, marginTop: 2 }}>
+                {lastResult.result.failed.slice(0, 5).map(f => contactLabel(f.id)).join(', ')}
+                {lastResult.result.failed.length > 5 && ` and ${lastResult.result.failed.length - 5} more`}
+              </div>
+            )}
+          </div>
+          <button onClick={() => setLastResult(null)} style={iconButtonStyle} title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {count > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <span style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.semibold, color: theme.text.primary, padding: '0 6px' }}>
+            {count} selected
+          </span>
+          {count < matchingCount && !isRunning && (
+            <button
+              onClick={onSelectAllMatching}
+              style={{ ...linkButtonStyle }}
+            >
+              Select all {matchingCount} matching
+            </button>
+          )}
+
+          <div style={{ flex: 1 }} />
+
+          {isRunning ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10, minWidth: 240 }}>
+              <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+                {progress.label}... {progress.completed}/{progress.total}
+              </span>
+              <div style={{ flex: 1, height: 4, backgroundColor: theme.bg.muted, borderRadius: theme.radius.full, overflow: 'hidden' }}>
+                <div
+                  style={{
+                    width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%`,
+                    height: '100%',
+                    backgroundColor: theme.accent.primary,
+                    transition: `width ${theme.transition.normal}`,
+                  }}
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Pipeline stage */}
+              <BarAction
+                icon={<GitBranch size={14} />}
+                label="Stage"
+                isOpen={openMenu === 'stage'}
+                onToggle={() => setOpenMenu(openMenu === 'stage' ? null : 'stage')}
+              >
+                <MenuItem label={CONTACT_STAGE_INFO.new.label} color={CONTACT_STAGE_INFO.new.color} onClick={() => handleSetStage(null)} />
+                {PIPELINE_FLAGS.map(flag => (
+                  <MenuItem
+                    key={flag}
+                    label={CONTACT_STAGE_INFO[flag].label}
+                    color={CONTACT_STAGE_INFO[flag].color}
+                    onClick={() => handleSetStage(flag)}
+                  />
+                ))}
+              </BarAction>
+
+              {/* Assignee */}
+              <BarAction
+                icon={<User size={14} />}
+                label="Assignee"
+                isOpen={openMenu === 'assignee'}
+                onToggle={() => setOpenMenu(openMenu === 'assignee' ? null : 'assignee')}
+              >
+                <MenuInput
+                  value={assigneeInput}
+                  onChange={setAssigneeInput}
+                  placeholder="Assign to..."
+                  onSubmit={() => assigneeInput.trim() && handleSetAssignee(assigneeInput.trim())}
+                />
+                {knownAssignees
+                  .filter(a => a.toLowerCase().includes(assigneeInput.toLowerCase()))
+                  .slice(0, 8)
+                  .map(a => (
+                    <MenuItem key={a} label={a} onClick={() => handleSetAssignee(a)} />
+                  ))}
+                <MenuItem label="Unassign" muted onClick={() => handleSetAssignee(null)} />
+              </BarAction>
+
+              {/* Tags */}
+              <BarAction
+                icon={<Tag size={14} />}
+                label="Tags"
+                isOpen={openMenu === 'tags'}
+                onToggle={() => setOpenMenu(openMenu === 'tags' ? null : 'tags')}
+              >
+                <MenuInput
+                  value={tagInput}
+                  onChange={setTagInput}
+                  placeholder="Add tag..."
+                  onSubmit={() => handleTag(tagInput, 'add')}
+                />
+                {knownTags
+                  .filter(t => t.toLowerCase().includes(tagInput.toLowerCase()))
+                  .slice(0, 6)
+                  .map(t => (
+                    <MenuItem key={`add-${t}`} icon={<Plus size={12} />} label={t} onClick={() => handleTag(t, 'add')} />
+                  ))}
+                {selectedTags.length > 0 && (
+                  <>
+                    <MenuDivider label="Remove from selected" />
+                    {selectedTags.map(t => (
+                      <MenuItem key={`remove-${t}`} icon={<Minus size={12} />} label={t} onClick={() => handleTag(t, 'remove')} />
+                    ))}
+                  </>
+                )}
+              </BarAction>
+
+              <BarAction icon={<Download size={14} />} label="Export" onToggle={onExport} />
+
+              {/* Delete with inline confirm */}
+              <BarAction
+                icon={<Trash2 size={14} />}
+                label="Delete"
+                danger
+                isOpen={openMenu === 'delete'}
+                onToggle={() => setOpenMenu(openMenu === 'delete' ? null : 'delete')}
+              >
+                <div style={{ padding: '8px 10px', fontSize: theme.fontSize.sm, color: theme.text.secondary, maxWidth: 220 }}>
+                  Delete {count} {count === 1 ? 'lead' : 'leads'}? They will be hidden from the CRM.
+                </div>
+                <MenuItem label={`Delete ${count}`} danger onClick={handleDelete} />
+              </BarAction>
+
+              <button onClick={onClearSelection} style={iconButtonStyle} title="Clear selection">
+                <X size={16} />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  padding: 4,
+  background: 'none',
+  border: 'none',
+  borderRadius: theme.radius.sm,
+  color: theme.text.muted,
+  cursor: 'pointer',
+}
+
+const linkButtonStyle: React.CSSProperties = {
+  fontSize: theme.fontSize.xs,
+  color: theme.accent.primaryLight,
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  padding: 0,
+}
+
+interface BarActionProps {
+  icon: React.ReactNode
+  label: string
+  isOpen?: boolean
+  danger?: boolean
+  onToggle: () => void
+  children?: React.ReactNode
+}
+
+function BarAction({ icon, label, isOpen = false, danger = false, onToggle, children }: BarActionProps) {
+  const color = danger ? theme.status.error : theme.text.secondary
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={onToggle}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '6px 10px',
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.medium,
+          color,
+          backgroundColor: isOpen ? theme.bg.hover : 'transparent',
+          border: `1px solid ${theme.border.default}`,
+          borderRadius: theme.radius.md,
+          cursor: 'pointer',
+          transition: `all ${theme.transition.fast}`,
+        }}
+        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = isOpen ? theme.bg.hover : 'transparent'}
+      >
+        {icon}
+        <span>{label}</span>
+      </button>
+      <AnimatePresence>
+        {isOpen && children && (
+          <motion.div
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 4 }}
+            transition={{ duration: 0.12 }}
+            style={{
+              position: 'absolute',
+              bottom: 'calc(100% + 8px)',
+              left: 0,
+              minWidth: 200,
+              maxHeight: 320,
+              overflowY: 'auto',
+              padding: 4,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.lg,
+              boxShadow: theme.shadow.dropdown,
+              zIndex: theme.z.dropdown,
+            }}
+          >
+            {children}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+interface MenuItemProps {
+  label: string
+  onClick: () => void
+  icon?: React.ReactNode
+  color?: string
+  muted?: boolean
+  danger?: boolean
+}
+
+function MenuItem({ label, onClick, icon, color, muted = false, danger = false }: MenuItemProps) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        width: '100%',
+        padding: '7px 10px',
+        fontSize: theme.fontSize.sm,
+        color: danger ? theme.status.error : muted ? theme.text.muted : theme.text.primary,
+        backgroundColor: 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.md,
+        cursor: 'pointer',
+        textAlign: 'left',
+      }}
+      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = danger ? theme.status.errorBg : theme.bg.hover}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+    >
+      {color && <span style={{ width: 8, height: 8, borderRadius: theme.radius.full, backgroundColor: color, flexShrink: 0 }} />}
+      {icon}
+      {label}
+    </button>
+  )
+}
+
+function MenuDivider({ label }: { label: string }) {
+  return (
+    <div
+      style={{
+        padding: '8px 10px 4px',
+        marginTop: 4,
+        borderTop: `1px solid ${theme.border.subtle}`,
+        fontSize: theme.fontSize.xs,
+        color: theme.text.muted,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+      }}
+    >
+      {label}
+    </div>
+  )
+}
+
+interface MenuInputProps {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: () => void
+  placeholder: string
+}
+
+function MenuInput({ value, onChange, onSubmit, placeholder }: MenuInputProps) {
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          onSubmit()
+        }
+      }}
+      placeholder={placeholder}
+      style={{
+        width: '100%',
+        boxSizing: 'border-box',
+        padding: '7px 10px',
+        marginBottom: 4,
+        fontSize: theme.fontSize.sm,
+        color: theme.text.primary,
+        backgroundColor: theme.bg.card,
+        border: `1px solid ${theme.border.default}`,
+        borderRadius: theme.radius.md,
+        outline: 'none',
+      }}
+    />
+  )
+}
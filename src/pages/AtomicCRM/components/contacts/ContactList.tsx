@@ -1,14 +1,24 @@
 import { useState, useMemo, useRef, useEffect, useId } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Users, Plus, Mail, Phone, Building2, Linkedin, ChevronDown, Check, Filter, X, Trash2, GripVertical, User, Briefcase, Tag, Clock, Factory, MapPin, DollarSign, Calendar, AtSign, Hash, TrendingUp } from 'lucide-react'
+import { Users, Plus, Mail, Phone, Building2, Linkedin, ChevronDown, Check, Filter, X, Trash2, GripVertical, User, Briefcase, Tag, Clock, Factory, MapPin, DollarSign, Calendar, AtSign, Hash, TrendingUp, Upload, Download, Columns3, List, Table2, Merge } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
 import { useDropdown } from '../../../../contexts/DropdownContext'
-import { Card, SearchInput, EmptyState, LoadingSkeleton, StageDropdown, FilterSelect } from '../shared'
+import { useAuth } from '../../../../contexts/AuthContext'
+import { Card, SearchInput, EmptyState, LoadingSkeleton, StageDropdown, FilterSelect, ExportModal, PresenceAvatars } from '../shared'
 import { ContactModal } from './ContactModal'
+import { ImportContactsModal } from './ImportContactsModal'
+import { DuplicatesModal } from './DuplicatesModal'
+import { TagChips } from '../tags/TagChip'
+import { TagManagerModal } from '../tags/TagManagerModal'
+import { BulkActionBar } from './BulkActionBar'
+import { SelectionCheckbox } from './SelectionCheckbox'
+import { SavedViewsMenu } from './SavedViewsMenu'
 import { SortDropdown, type SortRule } from './SortDropdown'
-import type { Contact } from '../../types'
+import { ContactGrid } from './grid/ContactGrid'
+import type { Contact, BulkOperationResult, SavedView, ViewMode } from '../../types'
+import { CONTACT_EXPORT_COLUMNS } from '../../utils/export'
 
 // Filter field definitions with icons - matching Contact type from engaged_leads
 const FILTER_FIELDS = [
@@ -55,6 +65,8 @@ const FILTER_FIELDS = [
     { value: 'true', label: 'Yes' },
     { value: 'false', label: 'No' },
   ]},
+  // Options come from the client's tags at render time
+  { key: 'tags', label: 'Tags', type: 'select', icon: Tag, options: [] },
   // Sales & Pipeline
   { key: 'epv', label: 'EPV', type: 'text', icon: DollarSign },
   { key: 'assignee', label: 'Assignee', type: 'text', icon: User },
@@ -109,6 +121,45 @@ interface FilterGroup {
   type: 'and' | 'or'
 }
 
+// Table columns - Name is always shown, the rest can be hidden (and saved in views)
+// CRM scanning flow: identity → company → status → role → recency → action
+const TABLE_COLUMNS = [
+  { key: 'name', label: 'Name', width: 'minmax(10px, 1.2fr)', exportKey: 'name', locked: true },
+  { key: 'company', label: 'Company', width: 'minmax(10px, 1fr)', exportKey: 'company' },
+  { key: 'stage', label: 'Stage', width: '400px', exportKey: 'stage' },
+  { key: 'pipeline', label: 'Pipeline', width: '300px', exportKey: 'pipeline' },
+  { key: 'title', label: 'Title', width: 'minmax(10px, 1fr)', exportKey: 'job_title' },
+  { key: 'tags', label: 'Tags', width: 'minmax(10px, 1fr)', exportKey: 'tags' },
+  { key: 'last_activity', label: 'Last Activity', width: '150px', exportKey: 'updated_at' },
+  { key: 'actions', label: 'Actions', width: '100px', exportKey: 'email' },
+] as const
+
+const DEFAULT_VISIBLE_COLUMNS: string[] = TABLE_COLUMNS.map(c => c.key)
+
+// What a saved contact view stores in crm_saved_views.config
+interface ContactViewConfig {
+  search: string
+  filters: StackedFilter[]
+  filterGroups: FilterGroup[]
+  sorts: SortRule[]
+  visibleColumns: string[]
+  viewMode: ViewMode
+}
+
+// Fill in defaults so views saved before a field existed still load cleanly
+function normalizeViewConfig(config: Record<string, unknown>): ContactViewConfig {
+  const visible = Array.isArray(config.visibleColumns) ? config.visibleColumns as string[] : DEFAULT_VISIBLE_COLUMNS
+  return {
+    search: typeof config.search === 'string' ? config.search : '',
+    filters: Array.isArray(config.filters) ? config.filters as StackedFilter[] : [],
+    filterGroups: Array.isArray(config.filterGroups) ? config.filterGroups as FilterGroup[] : [],
+    sorts: Array.isArray(config.sorts) ? config.sorts as SortRule[] : [],
+    // Keep table order and always include locked columns
+    visibleColumns: TABLE_COLUMNS.filter(c => ('locked' in c && c.locked) || visible.includes(c.key)).map(c => c.key),
+    viewMode: config.viewMode === 'grid' ? 'grid' : 'list',
+  }
+}
+
 // Format relative time like "2d ago" or "Jan 21"
 function formatRelativeTime(dateStr: string | null | undefined): string {
   if (!dateStr) return '—'
@@ -134,13 +185,23 @@ function formatRelativeTime(dateStr: string | null | undefined): string {
 }
 
 export function ContactList() {
-  const { contacts, loading, updateContact } = useCRM()
+  const { contacts, tags, loading, updateContact, deleteContact, fetchSavedViews, createSavedView, updateSavedView, deleteSavedView, presenceUsers } = useCRM()
+  const { user } = useAuth()
   const [searchParams, setSearchParams] = useSearchParams()
   const [searchQuery, setSearchQuery] = useState('')
   const [debouncedQuery, setDebouncedQuery] = useState('')
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isCreating, setIsCreating] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false)
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false)
+  const [exportScope, setExportScope] = useState<'all' | 'selected'>('all')
+  
+  // Bulk selection (checkbox column)
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set())
+  const lastCheckedIdRef = useRef<string | null>(null)
   
   // Handle contactId URL parameter to open specific contact
   useEffect(() => {
@@ -166,6 +227,113 @@ export function ContactList() {
   // Sort state - Airtable-style multi-sort
   const [sorts, setSorts] = useState<SortRule[]>([])
   
+  // Column visibility
+  const [visibleColumns, setVisibleColumns] = useState<string[]>(DEFAULT_VISIBLE_COLUMNS)
+  
+  // List or spreadsheet grid
+  const [viewMode, setViewMode] = useState<ViewMode>('list')
+  
+  // Saved views - the active view lives in the URL (?view=<id>) so it can be linked
+  const [savedViews, setSavedViews] = useState<SavedView[]>([])
+  const activeViewId = searchParams.get('view')
+  const activeView = savedViews.find(v => v.id === activeViewId) || null
+  const appliedViewIdRef = useRef<string | null>(null)
+  
+  useEffect(() => {
+    fetchSavedViews('contact').then(setSavedViews)
+  }, [fetchSavedViews])
+  
+  const applyViewConfig = (config: ContactViewConfig) => {
+    setSearchQuery(config.search)
+    setDebouncedQuery(config.search)
+    setFilters(config.filters)
+    setFilterGroups(config.filterGroups)
+    setSorts(config.sorts)
+    setVisibleColumns(config.visibleColumns)
+    setViewMode(config.viewMode)
+  }
+  
+  // Apply the view from the URL once it's loaded (also handles back/forward navigation)
+  useEffect(() => {
+    if (!activeViewId) {
+      appliedViewIdRef.current = null
+      return
+    }
+    if (!activeView || appliedViewIdRef.current === activeViewId) return
+    appliedViewIdRef.current = activeViewId
+    applyViewConfig(normalizeViewConfig(activeView.config))
+  }, [activeViewId, activeView]) // eslint-disable-line react-hooks/exhaustive-deps
+  
+  const currentViewConfig = useMemo<ContactViewConfig>(() => ({
+    search: searchQuery,
+    filters,
+    filterGroups,
+    sorts,
+    visibleColumns,
+    viewMode,
+  }), [searchQuery, filters, filterGroups, sorts, visibleColumns, viewMode])
+  
+  const isViewDirty = activeView
+    ? JSON.stringify(normalizeViewConfig(activeView.config)) !== JSON.stringify(normalizeViewConfig({ ...currentViewConfig }))
+    : false
+  
+  const setViewParam = (viewId: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      if (viewId) next.set('view', viewId)
+      else next.delete('view')
+      return next
+    })
+  }
+  
+  const handleSelectView = (view: SavedView | null) => {
+    if (view) {
+      // Re-apply even when re-selecting the active view, to discard unsaved edits
+      appliedViewIdRef.current = view.id
+      applyViewConfig(normalizeViewConfig(view.config))
+    } else {
+      appliedViewIdRef.current = null
+      applyViewConfig(normalizeViewConfig({}))
+    }
+    setViewParam(view?.id || null)
+  }
+  
+  const handleSaveNewView = async (name: string, isShared: boolean) => {
+    const created = await createSavedView({
+      entity_type: 'contact',
+      name,
+      is_shared: isShared,
+      config: { ...currentViewConfig },
+    })
+    if (created) {
+      setSavedViews(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)))
+      appliedViewIdRef.current = created.id
+      setViewParam(created.id)
+    }
+  }
+  
+  const handleSaveViewChanges = async () => {
+    if (!activeView) return
+    const config = { ...currentViewConfig }
+    if (await updateSavedView(activeView.id, { config })) {
+      setSavedViews(prev => prev.map(v => v.id === activeView.id ? { ...v, config } : v))
+    }
+  }
+  
+  const handleToggleViewShared = async (view: SavedView) => {
+    if (await updateSavedView(view.id, { is_shared: !view.is_shared })) {
+      setSavedViews(prev => prev.map(v => v.id === view.id ? { ...v, is_shared: !view.is_shared } : v))
+    }
+  }
+  
+  const handleDeleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"?`)) return
+    if (await deleteSavedView(view.id)) {
+      setSavedViews(prev => prev.filter(v => v.id !== view.id))
+      if (view.id === activeViewId) setViewParam(null)
+    }
+  }
+  
   // Close filter popover when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -256,6 +424,18 @@ export function ContactList() {
   }, [searchQuery])
   
   // Filter and sort contacts using stacked filters
+  // Value options for the Tags filter: managed tags plus any other names on contacts
+  const tagFilterOptions = useMemo(() => {
+    const names = new Map<string, string>()
+    tags.filter(t => t.entity_type === 'contact').forEach(t => names.set(t.name.toLowerCase(), t.name))
+    contacts.forEach(c => c.tags?.forEach(name => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name)
+    }))
+    return [...names.values()]
+      .sort((a, b) => a.localeCompare(b))
+      .map(name => ({ value: name, label: name }))
+  }, [tags, contacts])
+
   const filteredContacts = useMemo(() => {
     let result = [...contacts]
     
@@ -354,6 +534,7 @@ export function ContactList() {
           qualified: (c) => c.qualified ? 'true' : 'false',
           closed: (c) => c.closed ? 'true' : 'false',
           is_hiring: (c) => c.is_hiring ? 'true' : 'false',
+          tags: (c) => c.tags || [],
         }
         return fieldMap[field]?.(c) ?? null
       }
@@ -363,10 +544,12 @@ export function ContactList() {
       
       // Handle select fields
       if (fieldDef?.type === 'select') {
+        // Multi-value fields (tags) match when the list contains the value
+        const matches = Array.isArray(fieldValue) ? fieldValue.includes(filter.value) : fieldValue === filter.value
         if (filter.operator === 'has_any_of' || filter.operator === 'is') {
-          return fieldValue === filter.value
+          return matches
         } else if (filter.operator === 'has_none_of' || filter.operator === 'is_not') {
-          return fieldValue !== filter.value
+          return !matches
         }
       }
       
@@ -547,15 +730,68 @@ export function ContactList() {
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [isModalOpen, isCreating, selectedContact, filteredContacts])
   
+  // Bulk actions only ever apply to checked rows that match the current filters
+  const checkedContacts = useMemo(
+    () => filteredContacts.filter(c => checkedIds.has(c.id)),
+    [filteredContacts, checkedIds]
+  )
+  const allChecked = filteredContacts.length > 0 && checkedContacts.length === filteredContacts.length
+  
+  // Shift-click selects the range between the last clicked row and this one
+  const handleToggleChecked = (contactId: string, shiftKey: boolean) => {
+    const lastId = lastCheckedIdRef.current
+    setCheckedIds(prev => {
+      const next = new Set(prev)
+      const shouldCheck = !prev.has(contactId)
+      const lastIndex = lastId ? filteredContacts.findIndex(c => c.id === lastId) : -1
+      const index = filteredContacts.findIndex(c => c.id === contactId)
+      
+      if (shiftKey && lastIndex !== -1 && index !== -1) {
+        const [start, end] = lastIndex < index ? [lastIndex, index] : [index, lastIndex]
+        filteredContacts.slice(start, end + 1).forEach(c => {
+          if (shouldCheck) next.add(c.id)
+          else next.delete(c.id)
+        })
+      } else if (shouldCheck) {
+        next.add(contactId)
+      } else {
+        next.delete(contactId)
+      }
+      return next
+    })
+    lastCheckedIdRef.current = contactId
+  }
+  
+  const handleToggleAll = () => {
+    setCheckedIds(allChecked ? new Set() : new Set(filteredContacts.map(c => c.id)))
+    lastCheckedIdRef.current = null
+  }
+  
+  // Deleting from the grid can be undone from the toast or with Ctrl+Z
+  const handleGridDelete = async (contactId: string) => {
+    if (!(await deleteContact(contactId))) return
+    setCheckedIds(prev => {
+      const next = new Set(prev)
+      next.delete(contactId)
+      return next
+    })
+  }
+  
+  // Keep failed rows selected so the action can be retried
+  const handleBulkComplete = (result: BulkOperationResult) => {
+    setCheckedIds(new Set(result.failed.map(f => f.id)))
+    lastCheckedIdRef.current = null
+  }
+  
   if (loading.contacts) {
     return <LoadingSkeleton rows={8} />
   }
 
-  // Grid column widths - CRM scanning flow: identity → company → status → role → recency → action
-  // Name, Company, Stage, Pipeline, Title, Last Activity, Actions
+  // Grid column widths - selection checkbox, then the visible TABLE_COLUMNS
   // Compact layout for better data density
-  const gridColumns = 'minmax(10px, 1.2fr) minmax(10px, 1fr) 400px 300px minmax(10px, 1fr) 150px 100px'
-  const minTableWidth = 810
+  const shownColumns = TABLE_COLUMNS.filter(c => visibleColumns.includes(c.key))
+  const gridColumns = ['16px', ...shownColumns.map(c => c.width)].join(' ')
+  const minTableWidth = 846
   
   return (
     <div style={{ 
@@ -591,15 +827,18 @@ export function ContactList() {
           <Users size={24} style={{ color: theme.entity.contact }} />
           Contacts
         </h1>
-        <p
-          style={{
-            fontSize: '1.02rem', // 20% larger than sm (0.85rem)
-            color: theme.text.muted,
-            margin: 0,
-          }}
-        >
-          {filteredContacts.length} of {contacts.length} {contacts.length === 1 ? 'lead' : 'leads'}
-        </p>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+          <PresenceAvatars users={presenceUsers} />
+          <p
+            style={{
+              fontSize: '1.02rem', // 20% larger than sm (0.85rem)
+              color: theme.text.muted,
+              margin: 0,
+            }}
+          >
+            {filteredContacts.length} of {contacts.length} {contacts.length === 1 ? 'lead' : 'leads'}
+          </p>
+        </div>
       </div>
       
       {/* Search & Filter/Sort Bar */}
@@ -616,6 +855,18 @@ export function ContactList() {
       >
         {/* Top row: Search + Sort indicator + Filter/Sort buttons */}
         <div style={{ display: 'flex', alignItems: 'center', gap: 14 }}>
+          <SavedViewsMenu
+            views={savedViews}
+            activeView={activeView}
+            isDirty={isViewDirty}
+            currentUserId={user?.id || null}
+            onSelect={handleSelectView}
+            onSaveNew={handleSaveNewView}
+            onSaveChanges={handleSaveViewChanges}
+            onToggleShared={handleToggleViewShared}
+            onDelete={handleDeleteView}
+          />
+          
           <SearchInput
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
@@ -632,6 +883,16 @@ export function ContactList() {
             />
           </div>
           
+          <ViewModeToggle value={viewMode} onChange={setViewMode} />
+          
+          {/* Column visibility - the grid always shows every field */}
+          {viewMode === 'list' && (
+            <ColumnsMenu
+              visibleColumns={visibleColumns}
+              onChange={setVisibleColumns}
+            />
+          )}
+          
           {/* Filter Popover Button */}
           <div style={{ position: 'relative' }} ref={filterPopoverRef}>
             <button
@@ -828,7 +1089,9 @@ export function ContactList() {
                                     <FilterSelect
                                       options={[
                                         { value: '', label: 'Select...' },
-                                        ...fieldDef.options.map(opt => ({ value: opt.value, label: opt.label }))
+                                        ...(fieldDef.key === 'tags'
+                                          ? tagFilterOptions
+                                          : fieldDef.options.map(opt => ({ value: opt.value, label: opt.label })))
                                       ]}
                                       value={filter.value}
                                       onChange={(value) => updateFilter(filter.id, value)}
@@ -1042,6 +1305,105 @@ export function ContactList() {
             </AnimatePresence>
           </div>
           
+          {/* Duplicates Button */}
+          <button
+            onClick={() => setIsDuplicatesOpen(true)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.secondary,
+              backgroundColor: 'transparent',
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            <Merge size={14} />
+            <span>Duplicates</span>
+          </button>
+          
+          {/* Tag Manager Button */}
+          <button
+            onClick={() => setIsTagManagerOpen(true)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.secondary,
+              backgroundColor: 'transparent',
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            <Tag size={14} />
+            <span>Tags</span>
+          </button>
+          
+          {/* Export Button */}
+          <button
+            onClick={() => {
+              setExportScope('all')
+              setIsExportOpen(true)
+            }}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.secondary,
+              backgroundColor: 'transparent',
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            <Download size={14} />
+            <span>Export</span>
+          </button>
+          
+          {/* Import Button */}
+          <button
+            onClick={() => setIsImportOpen(true)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.secondary,
+              backgroundColor: 'transparent',
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            <Upload size={14} />
+            <span>Import</span>
+          </button>
+          
           {/* Add Lead Button */}
           <button
             onClick={handleCreateContact}
@@ -1085,6 +1447,28 @@ export function ContactList() {
               : undefined
           }
         />
+      ) : viewMode === 'grid' ? (
+        <Card padding="none" style={{ width: '100%', overflow: 'hidden', flex: 1, display: 'flex', flexDirection: 'column' }}>
+          <div style={{
+            overflow: 'auto',
+            width: '100%',
+            flex: 1,
+            scrollbarWidth: 'thin',
+            scrollbarColor: `${theme.border.default} transparent`,
+          }}>
+            <ContactGrid
+              contacts={filteredContacts}
+              checkedIds={checkedIds}
+              allChecked={allChecked}
+              someChecked={checkedContacts.length > 0}
+              onToggleChecked={handleToggleChecked}
+              onToggleAll={handleToggleAll}
+              onOpenContact={handleOpenContact}
+              onUpdate={updateContact}
+              onDelete={handleGridDelete}
+            />
+          </div>
+        </Card>
       ) : (
         <Card padding="none" style={{ width: '100%', overflow: 'hidden', flex: 1, display: 'flex', flexDirection: 'column' }}>
           <div style={{ 
@@ -1112,13 +1496,15 @@ export function ContactList() {
                 zIndex: 10,
               }}
             >
-              <TableHeader>Name</TableHeader>
-              <TableHeader>Company</TableHeader>
-              <TableHeader>Stage</TableHeader>
-              <TableHeader>Pipeline</TableHeader>
-              <TableHeader>Title</TableHeader>
-              <TableHeader>Last Activity</TableHeader>
-              <TableHeader>Actions</TableHeader>
+              <SelectionCheckbox
+                checked={allChecked}
+                indeterminate={checkedContacts.length > 0 && !allChecked}
+                onToggle={handleToggleAll}
+                label="Select all matching leads"
+              />
+              {shownColumns.map(column => (
+                <TableHeader key={column.key}>{column.label}</TableHeader>
+              ))}
             </div>
             
             {/* Table Rows - no animation for instant search */}
@@ -1127,6 +1513,9 @@ export function ContactList() {
                 key={contact.id}
                 contact={contact}
                 isSelected={selectedContact?.id === contact.id}
+                isChecked={checkedIds.has(contact.id)}
+                onToggleChecked={(shiftKey) => handleToggleChecked(contact.id, shiftKey)}
+                visibleColumns={visibleColumns}
                 gridColumns={gridColumns}
                 minWidth={minTableWidth}
                 onClick={() => handleOpenContact(contact)}
@@ -1144,6 +1533,45 @@ export function ContactList() {
         onClose={handleCloseModal}
         contact={isCreating ? null : selectedContact}
       />
+
+      <BulkActionBar
+        selectedContacts={checkedContacts}
+        matchingCount={filteredContacts.length}
+        onSelectAllMatching={() => setCheckedIds(new Set(filteredContacts.map(c => c.id)))}
+        onClearSelection={() => setCheckedIds(new Set())}
+        onExport={() => {
+          setExportScope('selected')
+          setIsExportOpen(true)
+        }}
+        onComplete={handleBulkComplete}
+      />
+
+      <ImportContactsModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        title={exportScope === 'selected' ? 'Export Selected Leads' : 'Export Leads'}
+        rows={exportScope === 'selected' ? checkedContacts : filteredContacts}
+        columns={CONTACT_EXPORT_COLUMNS}
+        fileName="leads"
+        entityLabel="leads"
+        initialColumns={shownColumns.map(c => c.exportKey)}
+      />
+
+      <TagManagerModal
+        isOpen={isTagManagerOpen}
+        onClose={() => setIsTagManagerOpen(false)}
+        defaultEntity="contact"
+      />
+
+      <DuplicatesModal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+      />
     </div>
   )
 }
@@ -1166,9 +1594,193 @@ function TableHeader({ children }: { children: React.ReactNode }) {
   )
 }
 
+// List / grid switch for the contacts table
+interface ViewModeToggleProps {
+  value: ViewMode
+  onChange: (mode: ViewMode) => void
+}
+
+const VIEW_MODE_OPTIONS = [
+  { value: 'list', label: 'List', icon: List },
+  { value: 'grid', label: 'Grid', icon: Table2 },
+] as const
+
+function ViewModeToggle({ value, onChange }: ViewModeToggleProps) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="View mode"
+      style={{
+        display: 'flex',
+        padding: 2,
+        gap: 2,
+        border: `1px solid ${theme.border.default}`,
+        borderRadius: theme.radius.md,
+      }}
+    >
+      {VIEW_MODE_OPTIONS.map(option => {
+        const Icon = option.icon
+        const isActive = value === option.value
+        return (
+          <button
+            key={option.value}
+            role="radio"
+            aria-checked={isActive}
+            title={`${option.label} view`}
+            onClick={() => onChange(option.value)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '5px 10px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: isActive ? theme.text.primary : theme.text.muted,
+              backgroundColor: isActive ? theme.bg.active : 'transparent',
+              border: 'none',
+              borderRadius: theme.radius.sm,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+          >
+            <Icon size={14} />
+            <span>{option.label}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+// Column visibility popover for the contacts table
+interface ColumnsMenuProps {
+  visibleColumns: string[]
+  onChange: (columns: string[]) => void
+}
+
+function ColumnsMenu({ visibleColumns, onChange }: ColumnsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+  
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+  
+  const hiddenCount = TABLE_COLUMNS.length - visibleColumns.length
+  
+  const toggleColumn = (key: string) => {
+    const next = visibleColumns.includes(key)
+      ? visibleColumns.filter(k => k !== key)
+      : [...visibleColumns, key]
+    // Keep table order regardless of click order
+    onChange(TABLE_COLUMNS.filter(c => next.includes(c.key)).map(c => c.key))
+  }
+  
+  return (
+    <div ref={menuRef} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '8px 12px',
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.medium,
+          color: theme.text.secondary,
+          backgroundColor: isOpen ? theme.bg.hover : 'transparent',
+          border: `1px solid ${theme.border.default}`,
+          borderRadius: theme.radius.md,
+          cursor: 'pointer',
+          transition: `all ${theme.transition.fast}`,
+        }}
+        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = isOpen ? theme.bg.hover : 'transparent'}
+      >
+        <Columns3 size={14} />
+        <span>Columns</span>
+        {hiddenCount > 0 && (
+          <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+            ({hiddenCount} hidden)
+          </span>
+        )}
+      </button>
+      
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8, scale: 0.96 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -8, scale: 0.96 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              position: 'absolute',
+              top: '100%',
+              right: 0,
+              marginTop: 8,
+              minWidth: 200,
+              padding: 4,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: 12,
+              boxShadow: theme.shadow.dropdown,
+              zIndex: 9999,
+            }}
+          >
+            {TABLE_COLUMNS.map(column => {
+              const isLocked = 'locked' in column && column.locked
+              const isVisible = visibleColumns.includes(column.key)
+              return (
+                <button
+                  key={column.key}
+                  onClick={() => !isLocked && toggleColumn(column.key)}
+                  disabled={isLocked}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    width: '100%',
+                    padding: '7px 10px',
+                    fontSize: theme.fontSize.sm,
+                    color: isVisible ? theme.text.primary : theme.text.muted,
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    borderRadius: 6,
+                    cursor: isLocked ? 'default' : 'pointer',
+                    opacity: isLocked ? 0.6 : 1,
+                    textAlign: 'left',
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!isLocked) e.currentTarget.style.backgroundColor = theme.bg.hover
+                  }}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  <span style={{ width: 14, display: 'flex', color: theme.accent.primaryLight }}>
+                    {isVisible && <Check size={14} />}
+                  </span>
+                  {column.label}
+                </button>
+              )
+            })}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
 interface ContactRowProps {
   contact: Contact
   isSelected: boolean
+  isChecked: boolean
+  onToggleChecked: (shiftKey: boolean) => void
+  visibleColumns: string[]
   gridColumns: string
   minWidth: number
   onClick: () => void
@@ -1198,7 +1810,7 @@ const STAGE_COLORS: Record<string, string> = {
   disqualified: '#6b7280',
 }
 
-function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpdateStage, onUpdatePipelineStep }: ContactRowProps) {
+function ContactRow({ contact, isSelected, isChecked, onToggleChecked, visibleColumns, gridColumns, minWidth, onClick, onUpdateStage, onUpdatePipelineStep }: ContactRowProps) {
   const displayName = contact.full_name || 
     [contact.first_name, contact.last_name].filter(Boolean).join(' ') || 
     'Unknown'
@@ -1216,7 +1828,7 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
         alignItems: 'center',
         padding: '10px 16px',
         borderBottom: `1px solid ${theme.border.subtle}`,
-        backgroundColor: isSelected ? theme.bg.hover : 'transparent',
+        backgroundColor: isSelected ? theme.bg.hover : isChecked ? theme.accent.primaryBg : 'transparent',
         cursor: 'pointer',
         minWidth: minWidth,
         boxShadow: isSelected ? `inset 3px 0 0 0 ${theme.accent.primary}` : 'none',
@@ -1228,9 +1840,15 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
         }
       }}
       onMouseLeave={(e) => {
-        e.currentTarget.style.backgroundColor = isSelected ? theme.bg.hover : 'transparent'
+        e.currentTarget.style.backgroundColor = isSelected ? theme.bg.hover : isChecked ? theme.accent.primaryBg : 'transparent'
       }}
     >
+      <SelectionCheckbox
+        checked={isChecked}
+        onToggle={(e) => onToggleChecked(e.shiftKey)}
+        label="Select lead"
+      />
+      
       {/* Name with stage-colored left border */}
       <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
         {/* Stage color vertical line */}
@@ -1260,108 +1878,131 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
       </div>
       
       {/* Company */}
-      <div style={{ display: 'flex', alignItems: 'center', gap: 6, minWidth: 0 }}>
-        {contact.company ? (
-          <>
-            <Building2 size={14} style={{ color: theme.text.muted, flexShrink: 0 }} />
-            <div style={{ minWidth: 0, flex: 1 }}>
-              <span
-                style={{
-                  fontSize: '14px', // 10% bigger than xs (12px)
-                  color: theme.text.secondary,
-                  overflow: 'hidden',
-                  textOverflow: 'ellipsis',
-                  whiteSpace: 'nowrap',
-                  display: 'block',
-                }}
-              >
-                {contact.company}
-              </span>
-            </div>
-          </>
-        ) : (
-          <span style={{ fontSize: '14px', color: theme.text.muted }}>—</span>
-        )}
-      </div>
+      {visibleColumns.includes('company') && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, minWidth: 0 }}>
+          {contact.company ? (
+            <>
+              <Building2 size={14} style={{ color: theme.text.muted, flexShrink: 0 }} />
+              <div style={{ minWidth: 0, flex: 1 }}>
+                <span
+                  style={{
+                    fontSize: '14px', // 10% bigger than xs (12px)
+                    color: theme.text.secondary,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    display: 'block',
+                  }}
+                >
+                  {contact.company}
+                </span>
+              </div>
+            </>
+          ) : (
+            <span style={{ fontSize: '14px', color: theme.text.muted }}>—</span>
+          )}
+        </div>
+      )}
       
       {/* Stage */}
-      <div 
-        style={{ display: 'flex', alignItems: 'center' }} 
-        onClick={(e) => e.stopPropagation()}
-        onMouseDown={(e) => e.stopPropagation()}
-      >
-        <StageDropdown
-          value={contact.stage}
-          onChange={(stage) => {
-            onUpdateStage(stage)
-          }}
-        />
-      </div>
+      {visibleColumns.includes('stage') && (
+        <div 
+          style={{ display: 'flex', alignItems: 'center' }} 
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <StageDropdown
+            value={contact.stage}
+            onChange={(stage) => {
+              onUpdateStage(stage)
+            }}
+          />
+        </div>
+      )}
       
       {/* Pipeline Progress Dropdown */}
-      <div 
-        onClick={(e) => e.stopPropagation()}
-        onMouseDown={(e) => e.stopPropagation()}
-      >
-        <PipelineProgressDropdown
-          contact={contact}
-          onUpdateStep={onUpdatePipelineStep}
-        />
-      </div>
+      {visibleColumns.includes('pipeline') && (
+        <div 
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <PipelineProgressDropdown
+            contact={contact}
+            onUpdateStep={onUpdatePipelineStep}
+          />
+        </div>
+      )}
       
       {/* Title */}
-      <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
-        <span
-          style={{
-            fontSize: theme.fontSize.xs,
-            color: contact.job_title ? theme.text.secondary : theme.text.muted,
-            overflow: 'hidden',
-            textOverflow: 'ellipsis',
-            whiteSpace: 'nowrap',
-          }}
-        >
-          {contact.job_title || '—'}
-        </span>
-      </div>
+      {visibleColumns.includes('title') && (
+        <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+          <span
+            style={{
+              fontSize: theme.fontSize.xs,
+              color: contact.job_title ? theme.text.secondary : theme.text.muted,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {contact.job_title || '—'}
+          </span>
+        </div>
+      )}
+      
+      {/* Tags */}
+      {visibleColumns.includes('tags') && (
+        <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+          {contact.tags && contact.tags.length > 0 ? (
+            <TagChips names={contact.tags} entityType="contact" max={2} />
+          ) : (
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>—</span>
+          )}
+        </div>
+      )}
       
       {/* Last Activity */}
-      <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
-        <span
-          style={{
-            fontSize: theme.fontSize.xs,
-            color: theme.text.muted,
-          }}
-          title={contact.updated_at ? new Date(contact.updated_at).toLocaleString() : undefined}
-        >
-          {formatRelativeTime(contact.updated_at)}
-        </span>
-      </div>
+      {visibleColumns.includes('last_activity') && (
+        <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+          <span
+            style={{
+              fontSize: theme.fontSize.xs,
+              color: theme.text.muted,
+            }}
+            title={contact.updated_at ? new Date(contact.updated_at).toLocaleString() : undefined}
+          >
+            {formatRelativeTime(contact.updated_at)}
+          </span>
+        </div>
+      )}
       
       {/* Actions */}
-      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-start', gap: 4 }}>
-        {contact.email && (
-          <ActionButton
-            href={`mailto:${contact.email}`}
-            icon={<Mail size={14} />}
-            label="Email"
-          />
-        )}
-        {contact.lead_phone && (
-          <ActionButton
-            href={`tel:${contact.lead_phone}`}
-            icon={<Phone size={14} />}
-            label="Call"
-          />
-        )}
-        {contact.linkedin_url && (
-          <ActionButton
-            href={contact.linkedin_url}
-            icon={<Linkedin size={14} />}
-            label="LinkedIn"
-            external
-          />
-        )}
-      </div>
+      {visibleColumns.includes('actions') && (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-start', gap: 4 }}>
+          {contact.email && (
+            <ActionButton
+              href={`mailto:${contact.email}`}
+              icon={<Mail size={14} />}
+              label="Email"
+            />
+          )}
+          {contact.lead_phone && (
+            <ActionButton
+              href={`tel:${contact.lead_phone}`}
+              icon={<Phone size={14} />}
+              label="Call"
+            />
+          )}
+          {contact.linkedin_url && (
+            <ActionButton
+              href={contact.linkedin_url}
+              icon={<Linkedin size={14} />}
+              label="LinkedIn"
+              external
+            />
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -1,9 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { User, Mail, Phone, Briefcase, Linkedin, Trash2, MessageSquare, Building2, DollarSign, Calendar, Globe, ChevronDown, ChevronRight } from 'lucide-react'
+import { User, Mail, Phone, Briefcase, Linkedin, Trash2, MessageSquare, Building2, DollarSign, Calendar, Globe, ChevronDown, ChevronRight, History, ClipboardList } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { SlidePanel, PanelFooter, Button, Input, Select, Textarea, Avatar } from '../shared'
+import { SlidePanel, PanelFooter, PanelTabs, Button, Input, Select, Textarea, Avatar, PresenceAvatars, RemoteChangeNotice } from '../shared'
+import { ActivityTimeline } from '../activity/ActivityTimeline'
+import { AuditHistory } from '../activity/AuditHistory'
+import { TagPicker } from '../tags/TagPicker'
 import type { Contact } from '../../types'
 
 interface ContactModalProps {
@@ -12,7 +15,7 @@ interface ContactModalProps {
   contact: Contact | null
 }
 
-const STAGE_OPTIONS = [
+export const STAGE_OPTIONS = [
   { value: 'interested', label: 'Interested', color: '#60a5fa' },
   { value: 'engaged', label: 'Engaged', color: '#8b5cf6' },
   { value: 'qualified', label: 'Qualified', color: '#f59e0b' },
@@ -22,7 +25,7 @@ const STAGE_OPTIONS = [
   { value: 'closed', label: 'Closed Won', color: '#22c55e' },
 ]
 
-const LEAD_SOURCE_OPTIONS = [
+export const LEAD_SOURCE_OPTIONS = [
   { value: 'email_campaign', label: 'Email Campaign' },
   { value: 'linkedin', label: 'LinkedIn' },
   { value: 'cold_call', label: 'Cold Call' },
@@ -47,11 +50,29 @@ const PIPELINE_STEPS = [
   { key: 'closed', label: 'Closed Won', color: '#22c55e' },
 ] as const
 
+type PanelTab = 'details' | 'history'
+
+const PANEL_TABS: { value: PanelTab; label: string; icon: React.ReactNode }[] = [
+  { value: 'details', label: 'Details', icon: <User size={14} /> },
+  { value: 'history', label: 'History', icon: <ClipboardList size={14} /> },
+]
+
 export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
-  const { createContact, updateContact, deleteContact, error } = useCRM()
+  const {
+    contacts,
+    createContact,
+    updateContact,
+    deleteContact,
+    error,
+    presenceUsers,
+    setPresenceViewing,
+    remoteChanges,
+    clearRemoteChange,
+  } = useCRM()
   const [loading, setLoading] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState<PanelTab>('details')
   
   // Collapsible section states
   const [openSections, setOpenSections] = useState({
@@ -59,6 +80,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
     company: true,
     pipeline: true,
     notes: false,
+    activity: true,
   })
   
   const toggleSection = (section: keyof typeof openSections) => {
@@ -99,6 +121,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
     lead_source: '',
     notes: '',
     assignee: '',
+    tags: [] as string[],
     
     // Pipeline Progress (boolean flags)
     meeting_booked: false,
@@ -119,8 +142,8 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
     campaign_id: '',
   })
   
-  // Reset form when contact changes
-  useEffect(() => {
+  // Fill the form from a contact record, or blank for a new lead
+  const resetForm = useCallback((contact: Contact | null) => {
     if (contact) {
       setFormData({
         first_name: contact.first_name || '',
@@ -151,6 +174,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
         lead_source: contact.lead_source || '',
         notes: contact.notes || '',
         assignee: contact.assignee || '',
+        tags: contact.tags || [],
         meeting_booked: contact.meeting_booked || false,
         showed_up_to_disco: contact.showed_up_to_disco || false,
         qualified: contact.qualified || false,
@@ -194,6 +218,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
         lead_source: '',
         notes: '',
         assignee: '',
+        tags: [],
         meeting_booked: false,
         showed_up_to_disco: false,
         qualified: false,
@@ -208,9 +233,40 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
         campaign_id: '',
       })
     }
+  }, [])
+  
+  // Reset form when contact changes
+  useEffect(() => {
+    resetForm(contact)
     setShowDeleteConfirm(false)
     setFormError(null)
-  }, [contact, isOpen])
+  }, [contact, isOpen, resetForm])
+  
+  // Each lead opens on its details; saves re-render the contact, so key on the id
+  const contactId = contact?.id
+  useEffect(() => {
+    setActiveTab('details')
+  }, [contactId, isOpen])
+  
+  // Tell teammates which lead is open; edits made before opening don't count as conflicts
+  useEffect(() => {
+    if (!isOpen || !contact) return
+    clearRemoteChange(`contact:${contact.id}`)
+    setPresenceViewing({ type: 'contact', id: String(contact.id) })
+    return () => setPresenceViewing(null)
+  }, [isOpen, contact, clearRemoteChange, setPresenceViewing])
+  
+  const changeKey = contact ? `contact:${contact.id}` : null
+  const remoteChangedAt = changeKey ? remoteChanges[changeKey] : undefined
+  const latestContact = contact ? contacts.find(c => String(c.id) === String(contact.id)) : undefined
+  const viewers = contact
+    ? presenceUsers.filter(p => p.viewing?.type === 'contact' && p.viewing.id === String(contact.id))
+    : []
+  
+  const reloadRemoteChanges = () => {
+    if (latestContact) resetForm(latestContact)
+    if (changeKey) clearRemoteChange(changeKey)
+  }
   
   // Check if form can be submitted
   const canSubmit = formData.first_name.trim() || formData.email.trim()
@@ -315,6 +371,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
           </p>
         )}
       </div>
+      <PresenceAvatars users={viewers} size="sm" label="Also viewing" />
     </div>
   )
   
@@ -325,369 +382,407 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
       header={panelHeader}
       width={760}
     >
-      <form onSubmit={onFormSubmit} style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
-        {/* Contact Info Section */}
-        <CollapsibleSection
-          icon={<User size={18} />}
-          title="Contact Info"
-          isOpen={openSections.contact}
-          onToggle={() => toggleSection('contact')}
-        >
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
-            <Input
-              label="First Name"
-              value={formData.first_name}
-              onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
-              placeholder="John"
-            />
-            <Input
-              label="Last Name"
-              value={formData.last_name}
-              onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
-              placeholder="Doe"
-            />
-          </div>
-          <Input
-            label="Email"
-            value={formData.email}
-            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-            placeholder="john@example.com"
-            icon={<Mail size={14} />}
-            type="email"
-          />
-          <Input
-            label="Phone"
-            value={formData.lead_phone}
-            onChange={(e) => setFormData({ ...formData, lead_phone: e.target.value })}
-            placeholder="+1 (555) 000-0000"
-            icon={<Phone size={14} />}
-          />
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
-            <Input
-              label="Job Title"
-              value={formData.job_title}
-              onChange={(e) => setFormData({ ...formData, job_title: e.target.value })}
-              placeholder="CEO"
-              icon={<Briefcase size={14} />}
-            />
-            <Input
-              label="Seniority Level"
-              value={formData.seniority_level}
-              onChange={(e) => setFormData({ ...formData, seniority_level: e.target.value })}
-              placeholder="Executive"
+      {contact && (
+        <div style={{ marginBottom: 24 }}>
+          <PanelTabs tabs={PANEL_TABS} value={activeTab} onChange={setActiveTab} />
+        </div>
+      )}
+      
+      {contact && activeTab === 'history' ? (
+        <AuditHistory contactId={String(contact.id)} email={contact.email} />
+      ) : (
+        <form onSubmit={onFormSubmit} style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          {remoteChangedAt && (
+            <RemoteChangeNotice
+              message={latestContact
+                ? `A teammate updated this lead at ${new Date(remoteChangedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}. Reload to see their changes, or save to overwrite them.`
+                : 'A teammate deleted this lead.'}
+              onReload={latestContact ? reloadRemoteChanges : undefined}
+              onDismiss={() => changeKey && clearRemoteChange(changeKey)}
             />
-          </div>
-          <Input
-            label="LinkedIn Profile"
-            value={formData.linkedin_url}
-            onChange={(e) => setFormData({ ...formData, linkedin_url: e.target.value })}
-            placeholder="https://linkedin.com/in/..."
-            icon={<Linkedin size={14} />}
-          />
-        </CollapsibleSection>
+          )}
         
-        {/* Company Info Section */}
-        <CollapsibleSection
-          icon={<Building2 size={18} />}
-          title="Company Info"
-          isOpen={openSections.company}
-          onToggle={() => toggleSection('company')}
-        >
-          <Input
-            label="Company Name"
-            value={formData.company}
-            onChange={(e) => setFormData({ ...formData, company: e.target.value })}
-            placeholder="Acme Inc"
-            icon={<Building2 size={14} />}
-          />
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
-            <Input
-              label="Company Domain"
-              value={formData.company_domain}
-              onChange={(e) => setFormData({ ...formData, company_domain: e.target.value })}
-              placeholder="acme.com"
-              icon={<Globe size={14} />}
-            />
+          {/* Contact Info Section */}
+          <CollapsibleSection
+            icon={<User size={18} />}
+            title="Contact Info"
+            isOpen={openSections.contact}
+            onToggle={() => toggleSection('contact')}
+          >
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="First Name"
+                value={formData.first_name}
+                onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
+                placeholder="John"
+              />
+              <Input
+                label="Last Name"
+                value={formData.last_name}
+                onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
+                placeholder="Doe"
+              />
+            </div>
             <Input
-              label="Industry"
-              value={formData.industry}
-              onChange={(e) => setFormData({ ...formData, industry: e.target.value })}
-              placeholder="Technology"
+              label="Email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              placeholder="john@example.com"
+              icon={<Mail size={14} />}
+              type="email"
             />
-          </div>
-          <Input
-            label="Website"
-            value={formData.company_website}
-            onChange={(e) => setFormData({ ...formData, company_website: e.target.value })}
-            placeholder="https://acme.com"
-          />
-          <Input
-            label="Company LinkedIn"
-            value={formData.company_linkedin}
-            onChange={(e) => setFormData({ ...formData, company_linkedin: e.target.value })}
-            placeholder="https://linkedin.com/company/..."
-            icon={<Linkedin size={14} />}
-          />
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
             <Input
-              label="Company Phone"
-              value={formData.company_phone}
-              onChange={(e) => setFormData({ ...formData, company_phone: e.target.value })}
+              label="Phone"
+              value={formData.lead_phone}
+              onChange={(e) => setFormData({ ...formData, lead_phone: e.target.value })}
               placeholder="+1 (555) 000-0000"
               icon={<Phone size={14} />}
             />
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="Job Title"
+                value={formData.job_title}
+                onChange={(e) => setFormData({ ...formData, job_title: e.target.value })}
+                placeholder="CEO"
+                icon={<Briefcase size={14} />}
+              />
+              <Input
+                label="Seniority Level"
+                value={formData.seniority_level}
+                onChange={(e) => setFormData({ ...formData, seniority_level: e.target.value })}
+                placeholder="Executive"
+              />
+            </div>
             <Input
-              label="Company Size"
-              value={formData.company_size}
-              onChange={(e) => setFormData({ ...formData, company_size: e.target.value })}
-              placeholder="11-50"
+              label="LinkedIn Profile"
+              value={formData.linkedin_url}
+              onChange={(e) => setFormData({ ...formData, linkedin_url: e.target.value })}
+              placeholder="https://linkedin.com/in/..."
+              icon={<Linkedin size={14} />}
             />
-          </div>
-          <Input
-            label="Annual Revenue"
-            value={formData.annual_revenue}
-            onChange={(e) => setFormData({ ...formData, annual_revenue: e.target.value })}
-            placeholder="$1M-$10M"
-          />
-          
-          {/* Location */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16 }}>
+          </CollapsibleSection>
+        
+          {/* Company Info Section */}
+          <CollapsibleSection
+            icon={<Building2 size={18} />}
+            title="Company Info"
+            isOpen={openSections.company}
+            onToggle={() => toggleSection('company')}
+          >
             <Input
-              label="City"
-              value={formData.company_hq_city}
-              onChange={(e) => setFormData({ ...formData, company_hq_city: e.target.value })}
-              placeholder="San Francisco"
+              label="Company Name"
+              value={formData.company}
+              onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+              placeholder="Acme Inc"
+              icon={<Building2 size={14} />}
             />
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="Company Domain"
+                value={formData.company_domain}
+                onChange={(e) => setFormData({ ...formData, company_domain: e.target.value })}
+                placeholder="acme.com"
+                icon={<Globe size={14} />}
+              />
+              <Input
+                label="Industry"
+                value={formData.industry}
+                onChange={(e) => setFormData({ ...formData, industry: e.target.value })}
+                placeholder="Technology"
+              />
+            </div>
             <Input
-              label="State"
-              value={formData.company_hq_state}
-              onChange={(e) => setFormData({ ...formData, company_hq_state: e.target.value })}
-              placeholder="CA"
+              label="Website"
+              value={formData.company_website}
+              onChange={(e) => setFormData({ ...formData, company_website: e.target.value })}
+              placeholder="https://acme.com"
             />
             <Input
-              label="Country"
-              value={formData.company_hq_country}
-              onChange={(e) => setFormData({ ...formData, company_hq_country: e.target.value })}
-              placeholder="USA"
+              label="Company LinkedIn"
+              value={formData.company_linkedin}
+              onChange={(e) => setFormData({ ...formData, company_linkedin: e.target.value })}
+              placeholder="https://linkedin.com/company/..."
+              icon={<Linkedin size={14} />}
             />
-          </div>
-          
-          {/* Business Details */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="Company Phone"
+                value={formData.company_phone}
+                onChange={(e) => setFormData({ ...formData, company_phone: e.target.value })}
+                placeholder="+1 (555) 000-0000"
+                icon={<Phone size={14} />}
+              />
+              <Input
+                label="Company Size"
+                value={formData.company_size}
+                onChange={(e) => setFormData({ ...formData, company_size: e.target.value })}
+                placeholder="11-50"
+              />
+            </div>
             <Input
-              label="Year Founded"
-              value={formData.year_founded}
-              onChange={(e) => setFormData({ ...formData, year_founded: e.target.value })}
-              placeholder="2015"
-              type="number"
+              label="Annual Revenue"
+              value={formData.annual_revenue}
+              onChange={(e) => setFormData({ ...formData, annual_revenue: e.target.value })}
+              placeholder="$1M-$10M"
             />
+          
+            {/* Location */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16 }}>
+              <Input
+                label="City"
+                value={formData.company_hq_city}
+                onChange={(e) => setFormData({ ...formData, company_hq_city: e.target.value })}
+                placeholder="San Francisco"
+              />
+              <Input
+                label="State"
+                value={formData.company_hq_state}
+                onChange={(e) => setFormData({ ...formData, company_hq_state: e.target.value })}
+                placeholder="CA"
+              />
+              <Input
+                label="Country"
+                value={formData.company_hq_country}
+                onChange={(e) => setFormData({ ...formData, company_hq_country: e.target.value })}
+                placeholder="USA"
+              />
+            </div>
+          
+            {/* Business Details */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="Year Founded"
+                value={formData.year_founded}
+                onChange={(e) => setFormData({ ...formData, year_founded: e.target.value })}
+                placeholder="2015"
+                type="number"
+              />
+              <Input
+                label="Business Model"
+                value={formData.business_model}
+                onChange={(e) => setFormData({ ...formData, business_model: e.target.value })}
+                placeholder="B2B SaaS"
+              />
+            </div>
             <Input
-              label="Business Model"
-              value={formData.business_model}
-              onChange={(e) => setFormData({ ...formData, business_model: e.target.value })}
-              placeholder="B2B SaaS"
+              label="Funding Stage"
+              value={formData.funding_stage}
+              onChange={(e) => setFormData({ ...formData, funding_stage: e.target.value })}
+              placeholder="Series A"
             />
-          </div>
-          <Input
-            label="Funding Stage"
-            value={formData.funding_stage}
-            onChange={(e) => setFormData({ ...formData, funding_stage: e.target.value })}
-            placeholder="Series A"
-          />
-        </CollapsibleSection>
+          </CollapsibleSection>
         
-        {/* Pipeline & Sales Section */}
-        <CollapsibleSection
-          icon={<DollarSign size={18} />}
-          title="Pipeline & Sales"
-          isOpen={openSections.pipeline}
-          onToggle={() => toggleSection('pipeline')}
-        >
-          {/* Pipeline Progress Dropdown */}
-          <PipelineProgressMultiSelect
-            steps={PIPELINE_STEPS}
-            formData={formData}
-            onToggle={(key: string, checked: boolean) => setFormData({ ...formData, [key]: checked })}
-          />
-
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
-            <Select
-              label="Stage"
-              options={STAGE_OPTIONS}
-              value={formData.stage}
-              onChange={(v) => setFormData({ ...formData, stage: v })}
+          {/* Pipeline & Sales Section */}
+          <CollapsibleSection
+            icon={<DollarSign size={18} />}
+            title="Pipeline & Sales"
+            isOpen={openSections.pipeline}
+            onToggle={() => toggleSection('pipeline')}
+          >
+            {/* Pipeline Progress Dropdown */}
+            <PipelineProgressMultiSelect
+              steps={PIPELINE_STEPS}
+              formData={formData}
+              onToggle={(key: string, checked: boolean) => setFormData({ ...formData, [key]: checked })}
             />
-            <Input
-              label="Assignee"
-              value={formData.assignee}
-              onChange={(e) => setFormData({ ...formData, assignee: e.target.value })}
-              placeholder="John Doe"
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Select
+                label="Stage"
+                options={STAGE_OPTIONS}
+                value={formData.stage}
+                onChange={(v) => setFormData({ ...formData, stage: v })}
+              />
+              <Input
+                label="Assignee"
+                value={formData.assignee}
+                onChange={(e) => setFormData({ ...formData, assignee: e.target.value })}
+                placeholder="John Doe"
+              />
+            </div>
+            <TagPicker
+              label="Tags"
+              entityType="contact"
+              value={formData.tags}
+              onChange={(tags) => setFormData({ ...formData, tags })}
             />
-          </div>
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="EPV (Estimated Pipeline Value)"
+                value={formData.epv}
+                onChange={(e) => setFormData({ ...formData, epv: e.target.value })}
+                placeholder="10000"
+                type="number"
+                icon={<DollarSign size={14} />}
+              />
+              <Select
+                label="Lead Source"
+                options={LEAD_SOURCE_OPTIONS}
+                value={formData.lead_source}
+                onChange={(v) => setFormData({ ...formData, lead_source: v })}
+                placeholder="Select source..."
+              />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              <Input
+                label="Next Touchpoint"
+                value={formData.next_touchpoint}
+                onChange={(e) => setFormData({ ...formData, next_touchpoint: e.target.value })}
+                type="date"
+                icon={<Calendar size={14} />}
+              />
+              <Input
+                label="Meeting Date"
+                value={formData.meeting_date}
+                onChange={(e) => setFormData({ ...formData, meeting_date: e.target.value })}
+                type="date"
+                icon={<Calendar size={14} />}
+              />
+            </div>
             <Input
-              label="EPV (Estimated Pipeline Value)"
-              value={formData.epv}
-              onChange={(e) => setFormData({ ...formData, epv: e.target.value })}
-              placeholder="10000"
-              type="number"
-              icon={<DollarSign size={14} />}
-            />
-            <Select
-              label="Lead Source"
-              options={LEAD_SOURCE_OPTIONS}
-              value={formData.lead_source}
-              onChange={(v) => setFormData({ ...formData, lead_source: v })}
-              placeholder="Select source..."
+              label="Meeting Link"
+              value={formData.meeting_link}
+              onChange={(e) => setFormData({ ...formData, meeting_link: e.target.value })}
+              placeholder="https://zoom.us/..."
             />
-          </div>
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
-            <Input
-              label="Next Touchpoint"
-              value={formData.next_touchpoint}
-              onChange={(e) => setFormData({ ...formData, next_touchpoint: e.target.value })}
-              type="date"
-              icon={<Calendar size={14} />}
+          </CollapsibleSection>
+        
+          {/* Context & Notes Section */}
+          <CollapsibleSection
+            icon={<MessageSquare size={18} />}
+            title="Context & Notes"
+            isOpen={openSections.notes}
+            onToggle={() => toggleSection('notes')}
+          >
+            <Textarea
+              label="Context"
+              value={formData.context}
+              onChange={(e) => setFormData({ ...formData, context: e.target.value })}
+              placeholder="Conversation context, key points discussed..."
+              style={{ minHeight: 80 }}
             />
-            <Input
-              label="Meeting Date"
-              value={formData.meeting_date}
-              onChange={(e) => setFormData({ ...formData, meeting_date: e.target.value })}
-              type="date"
-              icon={<Calendar size={14} />}
+            <Textarea
+              label="Notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="Additional notes..."
+              style={{ minHeight: 60 }}
             />
-          </div>
-          <Input
-            label="Meeting Link"
-            value={formData.meeting_link}
-            onChange={(e) => setFormData({ ...formData, meeting_link: e.target.value })}
-            placeholder="https://zoom.us/..."
-          />
-        </CollapsibleSection>
+          </CollapsibleSection>
         
-        {/* Context & Notes Section */}
-        <CollapsibleSection
-          icon={<MessageSquare size={18} />}
-          title="Context & Notes"
-          isOpen={openSections.notes}
-          onToggle={() => toggleSection('notes')}
-        >
-          <Textarea
-            label="Context"
-            value={formData.context}
-            onChange={(e) => setFormData({ ...formData, context: e.target.value })}
-            placeholder="Conversation context, key points discussed..."
-            style={{ minHeight: 80 }}
-          />
-          <Textarea
-            label="Notes"
-            value={formData.notes}
-            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-            placeholder="Additional notes..."
-            style={{ minHeight: 60 }}
-          />
-        </CollapsibleSection>
+          {/* Activity Section */}
+          {contact && (
+            <CollapsibleSection
+              icon={<History size={18} />}
+              title="Activity"
+              isOpen={openSections.activity}
+              onToggle={() => toggleSection('activity')}
+            >
+              <ActivityTimeline contactId={String(contact.id)} email={contact.email} />
+            </CollapsibleSection>
+          )}
         
-        {/* Error Message */}
-        {formError && (
-          <div
-            style={{
-              padding: 12,
-              backgroundColor: theme.status.errorBg,
-              borderRadius: theme.radius.lg,
-              border: `1px solid ${theme.status.error}`,
-            }}
-          >
-            <p
+          {/* Error Message */}
+          {formError && (
+            <div
               style={{
-                fontSize: theme.fontSize.sm,
-                color: theme.status.error,
-                margin: 0,
+                padding: 12,
+                backgroundColor: theme.status.errorBg,
+                borderRadius: theme.radius.lg,
+                border: `1px solid ${theme.status.error}`,
               }}
             >
-              {formError}
-            </p>
-          </div>
-        )}
+              <p
+                style={{
+                  fontSize: theme.fontSize.sm,
+                  color: theme.status.error,
+                  margin: 0,
+                }}
+              >
+                {formError}
+              </p>
+            </div>
+          )}
       
-        {/* Delete Confirmation */}
-        {showDeleteConfirm && contact && (
-          <div
-            style={{
-              padding: 16,
-              backgroundColor: theme.status.errorBg,
-              borderRadius: theme.radius.lg,
-              border: `1px solid ${theme.status.error}`,
-            }}
-          >
-            <p
+          {/* Delete Confirmation */}
+          {showDeleteConfirm && contact && (
+            <div
               style={{
-                fontSize: theme.fontSize.sm,
-                color: theme.status.error,
-                margin: 0,
-                marginBottom: 12,
+                padding: 16,
+                backgroundColor: theme.status.errorBg,
+                borderRadius: theme.radius.lg,
+                border: `1px solid ${theme.status.error}`,
               }}
             >
-              Are you sure you want to delete this lead? This action cannot be undone.
-            </p>
-            <div style={{ display: 'flex', gap: 8 }}>
-              <Button type="button" variant="danger" size="sm" onClick={handleDelete} loading={loading}>
-                Yes, Delete
-              </Button>
-              <Button type="button" variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(false)}>
-                Cancel
-              </Button>
+              <p
+                style={{
+                  fontSize: theme.fontSize.sm,
+                  color: theme.status.error,
+                  margin: 0,
+                  marginBottom: 12,
+                }}
+              >
+                Are you sure you want to delete this lead? This action cannot be undone.
+              </p>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <Button type="button" variant="danger" size="sm" onClick={handleDelete} loading={loading}>
+                  Yes, Delete
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(false)}>
+                  Cancel
+                </Button>
+              </div>
             </div>
-          </div>
-        )}
+          )}
       
-        <PanelFooter>
-          {contact && !showDeleteConfirm && (
-            <button
-              type="button"
-              onClick={() => setShowDeleteConfirm(true)}
-              style={{
-                marginRight: 'auto',
-                display: 'flex',
-                alignItems: 'center',
-                gap: 6,
-                padding: '8px 12px',
-                fontSize: theme.fontSize.sm,
-                fontWeight: theme.fontWeight.medium,
-                color: theme.text.muted,
-                backgroundColor: 'transparent',
-                border: `1px solid ${theme.border.subtle}`,
-                borderRadius: theme.radius.md,
-                cursor: 'pointer',
-                transition: `all ${theme.transition.fast}`,
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.color = theme.status.error
-                e.currentTarget.style.borderColor = theme.status.error
-                e.currentTarget.style.backgroundColor = theme.status.errorBg
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.color = theme.text.muted
-                e.currentTarget.style.borderColor = theme.border.subtle
-                e.currentTarget.style.backgroundColor = 'transparent'
-              }}
+          <PanelFooter>
+            {contact && !showDeleteConfirm && (
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(true)}
+                style={{
+                  marginRight: 'auto',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 6,
+                  padding: '8px 12px',
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: theme.fontWeight.medium,
+                  color: theme.text.muted,
+                  backgroundColor: 'transparent',
+                  border: `1px solid ${theme.border.subtle}`,
+                  borderRadius: theme.radius.md,
+                  cursor: 'pointer',
+                  transition: `all ${theme.transition.fast}`,
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.color = theme.status.error
+                  e.currentTarget.style.borderColor = theme.status.error
+                  e.currentTarget.style.backgroundColor = theme.status.errorBg
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.color = theme.text.muted
+                  e.currentTarget.style.borderColor = theme.border.subtle
+                  e.currentTarget.style.backgroundColor = 'transparent'
+                }}
+              >
+                <Trash2 size={14} />
+                Delete
+              </button>
+            )}
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              loading={loading}
+              disabled={!formData.first_name.trim() && !formData.email.trim()}
             >
-              <Trash2 size={14} />
-              Delete
-            </button>
-          )}
-          <Button type="button" variant="secondary" onClick={onClose}>
-            Cancel
-          </Button>
-          <Button
-            type="submit"
-            loading={loading}
-            disabled={!formData.first_name.trim() && !formData.email.trim()}
-          >
-            {contact ? 'Save Changes' : 'Create Lead'}
-          </Button>
-        </PanelFooter>
-      </form>
+              {contact ? 'Save Changes' : 'Create Lead'}
+            </Button>
+          </PanelFooter>
+        </form>
+      )}
     </SlidePanel>
   )
 }
@@ -0,0 +1,467 @@
+import { useState, useMemo, useEffect } from 'react'
+import { ArrowLeft, Check, CheckCircle2, Copy, Merge } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, ModalFooter, Button, Badge, Avatar } from '../shared'
+import { findDuplicateClusters, mergePipelineFlags, pickPrimaryContact } from '../../utils/duplicates'
+import { CONTACT_STAGE_INFO, FOLLOW_UP_TRIGGER_STAGES } from '../../types'
+import type { Contact, DuplicateCluster, DuplicateReason } from '../../types'
+
+interface DuplicatesModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  name_company: 'Same name & company',
+  linkedin: 'Same LinkedIn',
+}
+
+const PIPELINE_LABELS: Record<typeof FOLLOW_UP_TRIGGER_STAGES[number], string> = {
+  meeting_booked: 'Meeting Booked',
+  showed_up_to_disco: 'Disco Show',
+  qualified: 'Qualified',
+  demo_booked: 'Demo Booked',
+  showed_up_to_demo: 'Demo Show',
+  proposal_sent: 'Proposal Sent',
+  closed: 'Closed',
+}
+
+// Fields the user picks a winner for; pipeline flags and tags are always combined
+const MERGE_FIELDS: { key: keyof Contact; label: string }[] = [
+  { key: 'first_name', label: 'First Name' },
+  { key: 'last_name', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'lead_phone', label: 'Phone' },
+  { key: 'job_title', label: 'Job Title' },
+  { key: 'seniority_level', label: 'Seniority' },
+  { key: 'linkedin_url', label: 'LinkedIn' },
+  { key: 'company', label: 'Company' },
+  { key: 'company_domain', label: 'Company Domain' },
+  { key: 'company_website', label: 'Company Website' },
+  { key: 'company_linkedin', label: 'Company LinkedIn' },
+  { key: 'company_phone', label: 'Company Phone' },
+  { key: 'company_size', label: 'Company Size' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'annual_revenue', label: 'Annual Revenue' },
+  { key: 'company_hq_city', label: 'HQ City' },
+  { key: 'company_hq_state', label: 'HQ State' },
+  { key: 'company_hq_country', label: 'HQ Country' },
+  { key: 'campaign_name', label: 'Campaign' },
+  { key: 'lead_source', label: 'Lead Source' },
+  { key: 'stage', label: 'Stage' },
+  { key: 'epv', label: 'EPV' },
+  { key: 'assignee', label: 'Assignee' },
+  { key: 'next_touchpoint', label: 'Next Touchpoint' },
+  { key: 'meeting_date', label: 'Meeting Date' },
+  { key: 'meeting_link', label: 'Meeting Link' },
+  { key: 'context', label: 'Context' },
+  { key: 'notes', label: 'Notes' },
+]
+
+// Width of the field-name column in the side-by-side view
+const LABEL_COLUMN_WIDTH = 140
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === ''
+}
+
+function displayValue(key: keyof Contact, value: unknown): string {
+  if (isEmpty(value)) return '—'
+  if (key === 'stage') return CONTACT_STAGE_INFO[String(value)]?.label || String(value)
+  return String(value)
+}
+
+function contactName(contact: Contact): string {
+  return contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.email || 'Unnamed lead'
+}
+
+// Default winner per field: the primary's value, else the first record that has one
+function defaultChoices(contacts: Contact[], primary: Contact): Partial<Record<keyof Contact, string>> {
+  const choices: Partial<Record<keyof Contact, string>> = {}
+  for (const field of MERGE_FIELDS) {
+    const source = isEmpty(primary[field.key])
+      ? contacts.find(c => !isEmpty(c[field.key])) || primary
+      : primary
+    choices[field.key] = source.id
+  }
+  return choices
+}
+
+export function DuplicatesModal({ isOpen, onClose }: DuplicatesModalProps) {
+  const { contacts, mergeContacts, error } = useCRM()
+  const [activeKey, setActiveKey] = useState<string | null>(null)
+  const [primaryId, setPrimaryId] = useState<string | null>(null)
+  const [choices, setChoices] = useState<Partial<Record<keyof Contact, string>>>({})
+  const [merging, setMerging] = useState(false)
+  const [localError, setLocalError] = useState<string | null>(null)
+  const [mergedMessage, setMergedMessage] = useState<string | null>(null)
+
+  const clusters = useMemo(
+    () => isOpen ? findDuplicateClusters(contacts) : [],
+    [isOpen, contacts]
+  )
+  const duplicateCount = clusters.reduce((sum, cluster) => sum + cluster.contacts.length, 0)
+
+  // Start on the list each time the finder opens
+  useEffect(() => {
+    if (!isOpen) return
+    setActiveKey(null)
+    setLocalError(null)
+    setMergedMessage(null)
+  }, [isOpen])
+
+  const activeCluster = activeKey ? clusters.find(c => c.key === activeKey) ?? null : null
+  const primary = activeCluster?.contacts.find(c => c.id === primaryId) ?? null
+
+  // A teammate's edit can reshape the cluster under us - fall back to the list
+  useEffect(() => {
+    if (activeKey && !activeCluster && !merging) setActiveKey(null)
+  }, [activeKey, activeCluster, merging])
+
+  const openCluster = (cluster: DuplicateCluster) => {
+    const defaultPrimary = pickPrimaryContact(cluster.contacts)
+    setActiveKey(cluster.key)
+    setPrimaryId(defaultPrimary.id)
+    setChoices(defaultChoices(cluster.contacts, defaultPrimary))
+    setLocalError(null)
+    setMergedMessage(null)
+  }
+
+  const handlePrimaryChange = (contact: Contact) => {
+    if (!activeCluster) return
+    setPrimaryId(contact.id)
+    setChoices(defaultChoices(activeCluster.contacts, contact))
+  }
+
+  // Only fields where the records disagree need a decision
+  const conflictingFields = useMemo(() => {
+    if (!activeCluster) return []
+    return MERGE_FIELDS.filter(field => {
+      const values = new Set(
+        activeCluster.contacts
+          .map(c => c[field.key])
+          .filter(v => !isEmpty(v))
+          .map(v => String(v).trim().toLowerCase())
+      )
+      return values.size > 1 || (values.size === 1 && activeCluster.contacts.some(c => isEmpty(c[field.key])))
+    })
+  }, [activeCluster])
+
+  const combinedPipeline = activeCluster ? mergePipelineFlags(activeCluster.contacts) : {}
+  const combinedTags = activeCluster ? [...new Set(activeCluster.contacts.flatMap(c => c.tags || []))] : []
+
+  const handleMerge = async () => {
+    if (!activeCluster || !primary) return
+    const fields: Partial<Contact> = {}
+    for (const field of MERGE_FIELDS) {
+      const source = activeCluster.contacts.find(c => c.id === choices[field.key])
+      if (source && source.id !== primary.id) {
+        (fields as Record<string, unknown>)[field.key] = source[field.key]
+      }
+    }
+    const duplicateIds = activeCluster.contacts.filter(c => c.id !== primary.id).map(c => c.id)
+
+    setMerging(true)
+    setLocalError(null)
+    const ok = await mergeContacts(primary.id, duplicateIds, fields)
+    setMerging(false)
+
+    if (!ok) {
+      setLocalError(error || 'Failed to merge leads')
+      return
+    }
+    setMergedMessage(`Merged ${duplicateIds.length + 1} records into ${contactName({ ...primary, ...fields } as Contact)}`)
+    setActiveKey(null)
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Duplicate Leads" size="xl">
+      {activeCluster && primary ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+            {activeCluster.reasons.map(reason => (
+              <Badge key={reason} color={theme.status.warning} bgColor={theme.status.warningBg}>
+                {REASON_LABELS[reason]}
+              </Badge>
+            ))}
+            <span style={{ fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+              Pick the record to keep and the value to keep for each field that differs.
+            </span>
+          </div>
+
+          <div style={{ overflowX: 'auto', border: `1px solid ${theme.border.subtle}`, borderRadius: theme.radius.lg }}>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: `${LABEL_COLUMN_WIDTH}px repeat(${activeCluster.contacts.length}, minmax(180px, 1fr))`,
+                minWidth: LABEL_COLUMN_WIDTH + activeCluster.contacts.length * 180,
+              }}
+            >
+              {/* Record headers - choosing one makes it the record that's kept */}
+              <HeaderCell>Keep record</HeaderCell>
+              {activeCluster.contacts.map(contact => {
+                const isPrimary = contact.id === primary.id
+                return (
+                  <button
+                    key={contact.id}
+                    type="button"
+                    onClick={() => handlePrimaryChange(contact)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      padding: '10px 12px',
+                      textAlign: 'left',
+                      backgroundColor: isPrimary ? theme.accent.primaryBg : 'transparent',
+                      border: 'none',
+                      borderBottom: `1px solid ${theme.border.subtle}`,
+                      borderLeft: `1px solid ${theme.border.subtle}`,
+                      cursor: 'pointer',
+                      minWidth: 0,
+                    }}
+                  >
+                    <Avatar name={contactName(contact)} size="sm" />
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.medium, color: theme.text.primary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {contactName(contact)}
+                      </div>
+                      <div style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                        Added {new Date(contact.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </div>
+                    </div>
+                    {isPrimary && <Check size={14} style={{ color: theme.accent.primaryLight, flexShrink: 0 }} />}
+                  </button>
+                )
+              })}
+
+              {conflictingFields.map(field => (
+                <FieldRow
+                  key={field.key}
+                  label={field.label}
+                  contacts={activeCluster.contacts}
+                  chosenId={choices[field.key]}
+                  render={contact => displayValue(field.key, contact[field.key])}
+                  onChoose={contact => setChoices(prev => ({ ...prev, [field.key]: contact.id }))}
+                />
+              ))}
+            </div>
+          </div>
+
+          {conflictingFields.length === 0 && (
+            <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>
+              All fields match - nothing to choose.
+            </p>
+          )}
+
+          {/* What's combined automatically */}
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 8,
+              padding: 12,
+              backgroundColor: theme.bg.muted,
+              borderRadius: theme.radius.lg,
+              fontSize: theme.fontSize.sm,
+              color: theme.text.secondary,
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+              <span style={{ color: theme.text.muted }}>Pipeline:</span>
+              {FOLLOW_UP_TRIGGER_STAGES.filter(step => combinedPipeline[step]).map(step => (
+                <Badge key={step} color={theme.status.success} bgColor={theme.status.successBg}>
+                  {PIPELINE_LABELS[step]}
+                </Badge>
+              ))}
+              {!FOLLOW_UP_TRIGGER_STAGES.some(step => combinedPipeline[step]) && <span>No steps reached</span>}
+            </div>
+            {combinedTags.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+                <span style={{ color: theme.text.muted }}>Tags:</span>
+                {combinedTags.map(tag => <Badge key={tag}>{tag}</Badge>)}
+              </div>
+            )}
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+              Tasks, notes and deals move to the kept record. The other {activeCluster.contacts.length - 1 === 1 ? 'record is' : 'records are'} deleted.
+            </span>
+          </div>
+
+          {localError && (
+            <p style={{ fontSize: theme.fontSize.sm, color: theme.status.error, margin: 0 }}>{localError}</p>
+          )}
+
+          <ModalFooter>
+            <div style={{ marginRight: 'auto' }}>
+              <Button variant="ghost" icon={<ArrowLeft size={14} />} onClick={() => setActiveKey(null)} disabled={merging}>
+                Back
+              </Button>
+            </div>
+            <Button icon={<Merge size={14} />} onClick={handleMerge} loading={merging}>
+              Merge {activeCluster.contacts.length} leads
+            </Button>
+          </ModalFooter>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {mergedMessage && (
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '10px 12px',
+                fontSize: theme.fontSize.sm,
+                color: theme.status.success,
+                backgroundColor: theme.status.successBg,
+                borderRadius: theme.radius.lg,
+              }}
+            >
+              <CheckCircle2 size={16} />
+              {mergedMessage}
+            </div>
+          )}
+
+          {clusters.length === 0 ? (
+            <div style={{ padding: '32px 0', textAlign: 'center', fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+              No duplicate leads found.
+            </div>
+          ) : (
+            <>
+              <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>
+                {clusters.length} {clusters.length === 1 ? 'group' : 'groups'} of possible duplicates ({duplicateCount} leads), matched by email, name and company domain, or LinkedIn URL.
+              </p>
+              {clusters.map(cluster => (
+                <ClusterRow key={cluster.key} cluster={cluster} onReview={() => openCluster(cluster)} />
+              ))}
+            </>
+          )}
+
+          <ModalFooter>
+            <Button variant="secondary" onClick={onClose}>
+              Done
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+function ClusterRow({ cluster, onReview }: { cluster: DuplicateCluster; onReview: () => void }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12,
+        padding: '12px 14px',
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <Copy size={16} style={{ color: theme.text.muted, flexShrink: 0 }} />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.medium, color: theme.text.primary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {[...new Set(cluster.contacts.map(contactName))].join(', ')}
+        </div>
+        <div style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, marginTop: 2, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {cluster.contacts.length} records
+          {' · '}
+          {[...new Set(cluster.contacts.map(c => c.campaign_name).filter(Boolean))].join(', ') || 'No campaign'}
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: 4, flexShrink: 0 }}>
+        {cluster.reasons.map(reason => (
+          <Badge key={reason} color={theme.status.warning} bgColor={theme.status.warningBg}>
+            {REASON_LABELS[reason]}
+          </Badge>
+        ))}
+      </div>
+      <Button size="sm" variant="secondary" onClick={onReview}>
+        Review
+      </Button>
+    </div>
+  )
+}
+
+interface FieldRowProps {
+  label: string
+  contacts: Contact[]
+  chosenId: string | undefined
+  render: (contact: Contact) => string
+  onChoose: (contact: Contact) => void
+}
+
+function FieldRow({ label, contacts, chosenId, render, onChoose }: FieldRowProps) {
+  return (
+    <>
+      <HeaderCell>{label}</HeaderCell>
+      {contacts.map(contact => {
+        const value = render(contact)
+        const isChosen = contact.id === chosenId
+        return (
+          <button
+            key={contact.id}
+            type="button"
+            onClick={() => onChoose(contact)}
+            style={{
+              display: 'flex',
+              alignItems: 'flex-start',
+              gap: 8,
+              padding: '8px 12px',
+              textAlign: 'left',
+              fontSize: theme.fontSize.sm,
+              color: value === '—' ? theme.text.disabled : theme.text.secondary,
+              backgroundColor: isChosen ? theme.accent.primaryBg : 'transparent',
+              border: 'none',
+              borderBottom: `1px solid ${theme.border.subtle}`,
+              borderLeft: `1px solid ${theme.border.subtle}`,
+              cursor: 'pointer',
+              minWidth: 0,
+            }}
+            onMouseEnter={(e) => { if (!isChosen) e.currentTarget.style.backgroundColor = theme.bg.hover }}
+            onMouseLeave={(e) => { if (!isChosen) e.currentTarget.style.backgroundColor = 'transparent' }}
+          >
+            <span
+              style={{
+                flex: 1,
+                minWidth: 0,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                display: '-webkit-box',
+                WebkitLineClamp: 3,
+                WebkitBoxOrient: 'vertical',
+                wordBreak: 'break-word',
+              }}
+            >
+              {value}
+            </span>
+            {isChosen && <Check size={14} style={{ color: theme.accent.primaryLight, flexShrink: 0, marginTop: 2 }} />}
+          </button>
+        )
+      })}
+    </>
+  )
+}
+
+function HeaderCell({ children }: { children: React.ReactNode }) {
+  return (
+    <span
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        padding: '8px 12px',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.text.muted,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+        borderBottom: `1px solid ${theme.border.subtle}`,
+      }}
+    >
+      {children}
+    </span>
+  )
+}
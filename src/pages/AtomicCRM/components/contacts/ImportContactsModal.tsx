@@ -0,0 +1,798 @@
+import { useState, useMemo, useRef } from 'react'
+import { Upload, FileText, CheckCircle2, AlertCircle, Copy, ArrowRight } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, ModalFooter, Button, FilterSelect } from '../shared'
+import { parseCSV, type ParsedCSV } from '../../utils/csv'
+import type { Contact, ContactImportResult } from '../../types'
+
+interface ImportContactsModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'results'
+type ImportFieldType = 'text' | 'email' | 'number' | 'integer' | 'boolean' | 'date' | 'list'
+type DedupeMode = 'email' | 'company_domain' | 'either'
+
+interface ImportField {
+  key: keyof Contact
+  label: string
+  type: ImportFieldType
+  aliases?: string[]
+}
+
+// Contact fields a CSV column can be mapped onto (engaged_leads column names)
+const IMPORT_FIELDS: ImportField[] = [
+  { key: 'first_name', label: 'First Name', type: 'text', aliases: ['first', 'firstname', 'given name'] },
+  { key: 'last_name', label: 'Last Name', type: 'text', aliases: ['last', 'lastname', 'surname'] },
+  { key: 'full_name', label: 'Full Name', type: 'text', aliases: ['name', 'lead name', 'contact name'] },
+  { key: 'email', label: 'Email', type: 'email', aliases: ['email address', 'work email'] },
+  { key: 'lead_phone', label: 'Phone', type: 'text', aliases: ['phone', 'phone number', 'mobile'] },
+  { key: 'job_title', label: 'Job Title', type: 'text', aliases: ['title', 'position'] },
+  { key: 'seniority_level', label: 'Seniority Level', type: 'text', aliases: ['seniority'] },
+  { key: 'linkedin_url', label: 'LinkedIn URL', type: 'text', aliases: ['linkedin', 'linkedin profile', 'profile url'] },
+  { key: 'company', label: 'Company', type: 'text', aliases: ['company name', 'organization', 'account'] },
+  { key: 'company_domain', label: 'Company Domain', type: 'text', aliases: ['domain'] },
+  { key: 'company_website', label: 'Company Website', type: 'text', aliases: ['website'] },
+  { key: 'company_linkedin', label: 'Company LinkedIn', type: 'text' },
+  { key: 'company_phone', label: 'Company Phone', type: 'text' },
+  { key: 'company_size', label: 'Company Size', type: 'text', aliases: ['employees', 'headcount'] },
+  { key: 'industry', label: 'Industry', type: 'text' },
+  { key: 'annual_revenue', label: 'Annual Revenue', type: 'text', aliases: ['revenue'] },
+  { key: 'company_hq_city', label: 'HQ City', type: 'text', aliases: ['city'] },
+  { key: 'company_hq_state', label: 'HQ State', type: 'text', aliases: ['state'] },
+  { key: 'company_hq_country', label: 'HQ Country', type: 'text', aliases: ['country'] },
+  { key: 'year_founded', label: 'Year Founded', type: 'integer', aliases: ['founded'] },
+  { key: 'business_model', label: 'Business Model', type: 'text' },
+  { key: 'funding_stage', label: 'Funding Stage', type: 'text' },
+  { key: 'tech_stack', label: 'Tech Stack', type: 'list' },
+  { key: 'is_hiring', label: 'Is Hiring', type: 'boolean' },
+  { key: 'num_locations', label: 'Locations', type: 'integer' },
+  { key: 'main_product_service', label: 'Main Product/Service', type: 'text' },
+  { key: 'campaign_name', label: 'Campaign Name', type: 'text', aliases: ['campaign'] },
+  { key: 'lead_source', label: 'Lead Source', type: 'text', aliases: ['source'] },
+  { key: 'stage', label: 'Stage', type: 'text' },
+  { key: 'epv', label: 'EPV', type: 'number' },
+  { key: 'assignee', label: 'Assignee', type: 'text', aliases: ['owner'] },
+  { key: 'tags', label: 'Tags', type: 'list', aliases: ['labels'] },
+  { key: 'next_touchpoint', label: 'Next Touchpoint', type: 'date' },
+  { key: 'meeting_date', label: 'Meeting Date', type: 'date' },
+  { key: 'meeting_link', label: 'Meeting Link', type: 'text' },
+  { key: 'context', label: 'Context', type: 'text' },
+  { key: 'notes', label: 'Notes', type: 'text' },
+]
+
+// Mapping target that stores the column in custom_variables_jsonb
+const CUSTOM_TARGET = '__custom__'
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
+const PREVIEW_ROW_LIMIT = 100
+
+const DEDUPE_OPTIONS: { value: DedupeMode; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'company_domain', label: 'Company domain' },
+  { value: 'either', label: 'Email or company domain' },
+]
+
+const TARGET_OPTIONS = [
+  { value: '', label: "Don't import" },
+  ...IMPORT_FIELDS.map(f => ({ value: f.key, label: f.label })),
+  { value: CUSTOM_TARGET, label: 'Custom variable' },
+]
+
+interface PreparedRow {
+  rowNumber: number // Line the record starts on in the CSV (header is line 1)
+  data: Partial<Contact>
+  errors: string[]
+  duplicateReason: string | null
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function toCustomKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column'
+}
+
+function normalizeDomain(value: string): string {
+  return value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0]
+}
+
+// Guess a target field for each CSV header by key, label or alias
+function autoMapHeaders(headers: string[]): Record<number, string> {
+  const mapping: Record<number, string> = {}
+  const used = new Set<string>()
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header)
+    const match = IMPORT_FIELDS.find(field =>
+      !used.has(field.key) && (
+        normalizeHeader(field.key) === normalized ||
+        normalizeHeader(field.label) === normalized ||
+        field.aliases?.some(alias => normalizeHeader(alias) === normalized)
+      )
+    )
+    if (match) {
+      mapping[index] = match.key
+      used.add(match.key)
+    } else {
+      mapping[index] = ''
+    }
+  })
+
+  return mapping
+}
+
+// Coerce a raw cell into the field's type, returning an error message on failure
+function coerceValue(field: ImportField, raw: string): { value: unknown; error?: string } {
+  const value = raw.trim()
+
+  switch (field.type) {
+    case 'email':
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+        return { value: null, error: `${field.label}: "${value}" is not a valid email` }
+      }
+      return { value: value.toLowerCase() }
+    case 'number': {
+      const num = parseFloat(value.replace(/[$,\s]/g, ''))
+      if (isNaN(num)) return { value: null, error: `${field.label}: "${value}" is not a number` }
+      return { value: num }
+    }
+    case 'integer': {
+      const num = parseInt(value.replace(/[,\s]/g, ''), 10)
+      if (isNaN(num)) return { value: null, error: `${field.label}: "${value}" is not a whole number` }
+      return { value: num }
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase()
+      if (['true', 'yes', 'y', '1'].includes(lower)) return { value: true }
+      if (['false', 'no', 'n', '0'].includes(lower)) return { value: false }
+      return { value: null, error: `${field.label}: "${value}" should be yes/no` }
+    }
+    case 'date': {
+      // ISO dates are kept as written; Date would read them as UTC midnight
+      const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|[T\s])/)
+      const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(value)
+      // Out-of-range parts (2025-02-30) roll over rather than failing
+      const rolledOver = iso && (date.getMonth() !== Number(iso[2]) - 1 || date.getDate() !== Number(iso[3]))
+      if (isNaN(date.getTime()) || rolledOver) {
+        return { value: null, error: `${field.label}: "${value}" is not a valid date` }
+      }
+      // Built from the local date so the day doesn't shift ahead of UTC
+      const month = String(date.getMonth() + 1).padStart(2, '0')
+      const day = String(date.getDate()).padStart(2, '0')
+      return { value: `${date.getFullYear()}-${month}-${day}` }
+    }
+    case 'list':
+      return { value: value.split(/[;,|]/).map(v => v.trim()).filter(Boolean) }
+    default:
+      if (field.key === 'company_domain') return { value: normalizeDomain(value) }
+      return { value }
+  }
+}
+
+export function ImportContactsModal({ isOpen, onClose }: ImportContactsModalProps) {
+  const { contacts, bulkCreateContacts } = useCRM()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [parsed, setParsed] = useState<ParsedCSV | null>(null)
+  const [mapping, setMapping] = useState<Record<number, string>>({})
+  const [dedupeMode, setDedupeMode] = useState<DedupeMode>('email')
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [results, setResults] = useState<{ row: PreparedRow; result: ContactImportResult }[]>([])
+
+  const resetState = () => {
+    setStep('upload')
+    setFileName(null)
+    setParsed(null)
+    setMapping({})
+    setDedupeMode('email')
+    setFileError(null)
+    setImportError(null)
+    setImporting(false)
+    setProgress({ completed: 0, total: 0 })
+    setResults([])
+  }
+
+  const handleClose = () => {
+    if (importing) return
+    resetState()
+    onClose()
+  }
+
+  const handleFile = async (file: File) => {
+    setFileError(null)
+
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      setFileError('Please choose a .csv file')
+      return
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setFileError('File is larger than 5MB. Split it into smaller files and import them separately.')
+      return
+    }
+
+    try {
+      const result = parseCSV(await file.text())
+      if (result.headers.length === 0 || result.rows.length === 0) {
+        setFileError('The file has no data rows. The first row must contain column headers.')
+        return
+      }
+      setFileName(file.name)
+      setParsed(result)
+      setMapping(autoMapHeaders(result.headers))
+      setStep('map')
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Failed to read file')
+    }
+  }
+
+  const mappedFieldCount = Object.values(mapping).filter(Boolean).length
+  const hasIdentityColumn = Object.values(mapping).some(target =>
+    target === 'email' || target === 'first_name' || target === 'full_name'
+  )
+
+  // Build contact payloads, validate and flag duplicates
+  const preparedRows = useMemo<PreparedRow[]>(() => {
+    if (!parsed) return []
+
+    const existingEmails = new Set<string>()
+    const existingDomains = new Set<string>()
+    contacts.forEach(c => {
+      if (c.email) existingEmails.add(c.email.toLowerCase())
+      if (c.company_domain) existingDomains.add(normalizeDomain(c.company_domain))
+    })
+    const fileEmails = new Map<string, number>()
+    const fileDomains = new Map<string, number>()
+
+    return parsed.rows.map((cells, rowIndex) => {
+      const rowNumber = parsed.lineNumbers[rowIndex]
+      const data: Partial<Contact> = {}
+      const custom: Record<string, unknown> = {}
+      const errors: string[] = []
+
+      parsed.headers.forEach((header, colIndex) => {
+        const target = mapping[colIndex]
+        const raw = cells[colIndex] ?? ''
+        if (!target || raw.trim() === '') return
+
+        if (target === CUSTOM_TARGET) {
+          custom[toCustomKey(header)] = raw.trim()
+          return
+        }
+
+        const field = IMPORT_FIELDS.find(f => f.key === target)
+        if (!field) return
+        const { value, error } = coerceValue(field, raw)
+        if (error) {
+          errors.push(error)
+        } else {
+          ;(data as Record<string, unknown>)[field.key] = value
+        }
+      })
+
+      if (Object.keys(custom).length > 0) {
+        data.custom_variables_jsonb = custom
+      }
+      if (!data.full_name && (data.first_name || data.last_name)) {
+        data.full_name = [data.first_name, data.last_name].filter(Boolean).join(' ')
+      }
+      if (!data.first_name && !data.full_name && !data.email) {
+        errors.push('Row needs at least a name or an email')
+      }
+
+      // Duplicate detection against the CRM and earlier rows in this file
+      let duplicateReason: string | null = null
+      const email = data.email?.toLowerCase()
+      const domain = data.company_domain ? normalizeDomain(data.company_domain) : null
+      const checkEmail = dedupeMode === 'email' || dedupeMode === 'either'
+      const checkDomain = dedupeMode === 'company_domain' || dedupeMode === 'either'
+
+      if (checkEmail && email) {
+        if (existingEmails.has(email)) duplicateReason = 'Email already exists in CRM'
+        else if (fileEmails.has(email)) duplicateReason = `Same email as row ${fileEmails.get(email)}`
+      }
+      if (!duplicateReason && checkDomain && domain) {
+        if (existingDomains.has(domain)) duplicateReason = 'Company domain already exists in CRM'
+        else if (fileDomains.has(domain)) duplicateReason = `Same company domain as row ${fileDomains.get(domain)}`
+      }
+
+      if (errors.length === 0 && !duplicateReason) {
+        if (email && !fileEmails.has(email)) fileEmails.set(email, rowNumber)
+        if (domain && !fileDomains.has(domain)) fileDomains.set(domain, rowNumber)
+      }
+
+      return { rowNumber, data, errors, duplicateReason }
+    })
+  }, [parsed, mapping, contacts, dedupeMode])
+
+  const summary = useMemo(() => ({
+    ready: preparedRows.filter(r => r.errors.length === 0 && !r.duplicateReason).length,
+    invalid: preparedRows.filter(r => r.errors.length > 0).length,
+    duplicate: preparedRows.filter(r => r.errors.length === 0 && r.duplicateReason).length,
+  }), [preparedRows])
+
+  const handleImport = async () => {
+    const readyRows = preparedRows.filter(r => r.errors.length === 0 && !r.duplicateReason)
+    if (readyRows.length === 0) return
+
+    setImporting(true)
+    setImportError(null)
+    setProgress({ completed: 0, total: readyRows.length })
+    try {
+      const importResults = await bulkCreateContacts(
+        readyRows.map(r => r.data),
+        (completed, total) => setProgress({ completed, total })
+      )
+      const byIndex = new Map(importResults.map(r => [r.index, r]))
+
+      // Report every row in the file, including those we never sent
+      let readyIndex = 0
+      setResults(preparedRows.map(row => {
+        if (row.errors.length > 0) {
+          return { row, result: { index: -1, status: 'skipped', error: row.errors.join('; ') } }
+        }
+        if (row.duplicateReason) {
+          return { row, result: { index: -1, status: 'skipped', error: row.duplicateReason } }
+        }
+        const result = byIndex.get(readyIndex) || { index: readyIndex, status: 'failed', error: 'No response for this row' }
+        readyIndex++
+        return { row, result }
+      }))
+      setStep('results')
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import contacts')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const resultCounts = {
+    created: results.filter(r => r.result.status === 'created').length,
+    failed: results.filter(r => r.result.status === 'failed').length,
+    skipped: results.filter(r => r.result.status === 'skipped').length,
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Leads from CSV" size="xl">
+      <StepIndicator step={step} />
+
+      {/* Step 1: Upload */}
+      {step === 'upload' && (
+        <div>
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragOver(true)
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setIsDragOver(false)
+              const file = e.dataTransfer.files[0]
+              if (file) handleFile(file)
+            }}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: 12,
+              padding: '48px 24px',
+              border: `2px dashed ${isDragOver ? theme.accent.primary : theme.border.strong}`,
+              borderRadius: theme.radius.xl,
+              backgroundColor: isDragOver ? theme.accent.primaryBg : theme.bg.card,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+          >
+            <Upload size={32} style={{ color: theme.accent.primary }} />
+            <p style={{ fontSize: theme.fontSize.base, color: theme.text.primary, margin: 0 }}>
+              Drop a CSV file here or click to browse
+            </p>
+            <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>
+              The first row must contain column headers. Max 5MB.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
+          {fileError && <ErrorBanner message={fileError} />}
+        </div>
+      )}
+
+      {/* Step 2: Column mapping */}
+      {step === 'map' && parsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12 }}>
+            <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0, display: 'flex', alignItems: 'center', gap: 6 }}>
+              <FileText size={14} />
+              {fileName} • {parsed.rows.length} rows • {mappedFieldCount} of {parsed.headers.length} columns mapped
+            </p>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <span style={{ fontSize: theme.fontSize.sm, color: theme.text.muted }}>Skip duplicates by</span>
+              <FilterSelect
+                options={DEDUPE_OPTIONS}
+                value={dedupeMode}
+                onChange={(v) => setDedupeMode(v as DedupeMode)}
+                minWidth={180}
+              />
+            </div>
+          </div>
+
+          <div style={{ border: `1px solid ${theme.border.subtle}`, borderRadius: theme.radius.lg, overflow: 'hidden' }}>
+            <div style={{ ...gridRowStyle, backgroundColor: theme.bg.muted }}>
+              <HeaderCell>CSV Column</HeaderCell>
+              <HeaderCell>Sample</HeaderCell>
+              <HeaderCell>Import As</HeaderCell>
+            </div>
+            {parsed.headers.map((header, colIndex) => {
+              const sample = parsed.rows.find(r => r[colIndex]?.trim())?.[colIndex] || '—'
+              const target = mapping[colIndex]
+              return (
+                <div key={colIndex} style={gridRowStyle}>
+                  <span style={{ fontSize: theme.fontSize.sm, color: theme.text.primary, fontWeight: theme.fontWeight.medium }}>
+                    {header || `Column ${colIndex + 1}`}
+                  </span>
+                  <span style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {sample}
+                  </span>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <FilterSelect
+                      options={TARGET_OPTIONS}
+                      value={target || ''}
+                      onChange={(v) => setMapping(prev => ({ ...prev, [colIndex]: v }))}
+                      minWidth={200}
+                    />
+                    {target === CUSTOM_TARGET && (
+                      <code style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, fontFamily: theme.font.mono }}>
+                        {toCustomKey(header)}
+                      </code>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {!hasIdentityColumn && (
+            <ErrorBanner message="Map at least an Email, First Name or Full Name column so each lead can be identified." />
+          )}
+
+          <ModalFooter>
+            <div style={{ marginRight: 'auto' }}>
+              <Button variant="ghost" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+            </div>
+            <Button variant="secondary" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => setStep('preview')}
+              disabled={!hasIdentityColumn}
+              icon={<ArrowRight size={16} />}
+              iconPosition="right"
+            >
+              Preview
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+
+      {/* Step 3: Preview & validation */}
+      {step === 'preview' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12 }}>
+            <SummaryTile label="Ready to import" value={summary.ready} color={theme.status.success} />
+            <SummaryTile label="Duplicates (skipped)" value={summary.duplicate} color={theme.status.warning} />
+            <SummaryTile label="Invalid (skipped)" value={summary.invalid} color={theme.status.error} />
+          </div>
+
+          <RowTable
+            rows={preparedRows.slice(0, PREVIEW_ROW_LIMIT).map(row => ({
+              row,
+              status: row.errors.length > 0 ? 'invalid' : row.duplicateReason ? 'duplicate' : 'ready',
+              message: row.errors.length > 0 ? row.errors.join('; ') : row.duplicateReason || '',
+            }))}
+          />
+          {preparedRows.length > PREVIEW_ROW_LIMIT && (
+            <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: 0 }}>
+              Showing the first {PREVIEW_ROW_LIMIT} of {preparedRows.length} rows. All rows are validated.
+            </p>
+          )}
+
+          {importing && (
+            <ProgressBar completed={progress.completed} total={progress.total} />
+          )}
+          {importError && <ErrorBanner message={importError} />}
+
+          <ModalFooter>
+            <div style={{ marginRight: 'auto' }}>
+              <Button variant="ghost" onClick={() => setStep('map')} disabled={importing}>
+                Back
+              </Button>
+            </div>
+            <Button variant="secondary" onClick={handleClose} disabled={importing}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} loading={importing} disabled={summary.ready === 0}>
+              Import {summary.ready} {summary.ready === 1 ? 'lead' : 'leads'}
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+
+      {/* Step 4: Per-row report */}
+      {step === 'results' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12 }}>
+            <SummaryTile label="Created" value={resultCounts.created} color={theme.status.success} />
+            <SummaryTile label="Skipped" value={resultCounts.skipped} color={theme.status.warning} />
+            <SummaryTile label="Failed" value={resultCounts.failed} color={theme.status.error} />
+          </div>
+
+          <RowTable
+            rows={results.map(({ row, result }) => ({
+              row,
+              status: result.status === 'created' ? 'created' : result.status === 'failed' ? 'invalid' : 'duplicate',
+              message: result.status === 'created' ? 'Imported' : result.error || '',
+            }))}
+          />
+
+          <ModalFooter>
+            <div style={{ marginRight: 'auto' }}>
+              <Button variant="secondary" onClick={resetState}>
+                Import another file
+              </Button>
+            </div>
+            <Button onClick={handleClose}>Done</Button>
+          </ModalFooter>
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+const gridRowStyle: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '1fr 1fr 1.4fr',
+  gap: 12,
+  alignItems: 'center',
+  padding: '8px 12px',
+  borderBottom: `1px solid ${theme.border.subtle}`,
+}
+
+function HeaderCell({ children }: { children: React.ReactNode }) {
+  return (
+    <span
+      style={{
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.text.muted,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+      }}
+    >
+      {children}
+    </span>
+  )
+}
+
+const IMPORT_STEPS: { key: ImportStep; label: string }[] = [
+  { key: 'upload', label: 'Upload' },
+  { key: 'map', label: 'Map Columns' },
+  { key: 'preview', label: 'Preview' },
+  { key: 'results', label: 'Results' },
+]
+
+function StepIndicator({ step }: { step: ImportStep }) {
+  const currentIndex = IMPORT_STEPS.findIndex(s => s.key === step)
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 20 }}>
+      {IMPORT_STEPS.map((s, i) => (
+        <div key={s.key} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              width: 22,
+              height: 22,
+              borderRadius: theme.radius.full,
+              fontSize: theme.fontSize.xs,
+              fontWeight: theme.fontWeight.semibold,
+              backgroundColor: i <= currentIndex ? theme.accent.primary : theme.bg.muted,
+              color: i <= currentIndex ? '#fff' : theme.text.muted,
+            }}
+          >
+            {i + 1}
+          </span>
+          <span
+            style={{
+              fontSize: theme.fontSize.sm,
+              color: i === currentIndex ? theme.text.primary : theme.text.muted,
+              fontWeight: i === currentIndex ? theme.fontWeight.medium : theme.fontWeight.normal,
+            }}
+          >
+            {s.label}
+          </span>
+          {i < IMPORT_STEPS.length - 1 && (
+            <div style={{ width: 24, height: 1, backgroundColor: theme.border.strong }} />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function SummaryTile({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div
+      style={{
+        padding: '12px 16px',
+        backgroundColor: theme.bg.card,
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <p style={{ fontSize: theme.fontSize['2xl'], fontWeight: theme.fontWeight.bold, color, margin: 0 }}>
+        {value}
+      </p>
+      <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '2px 0 0 0' }}>
+        {label}
+      </p>
+    </div>
+  )
+}
+
+type RowStatus = 'ready' | 'created' | 'duplicate' | 'invalid'
+
+const ROW_STATUS_INFO: Record<RowStatus, { label: string; color: string; bg: string; icon: React.ReactNode }> = {
+  ready: { label: 'Ready', color: theme.status.success, bg: theme.status.successBg, icon: <CheckCircle2 size={12} /> },
+  created: { label: 'Created', color: theme.status.success, bg: theme.status.successBg, icon: <CheckCircle2 size={12} /> },
+  duplicate: { label: 'Skipped', color: theme.status.warning, bg: theme.status.warningBg, icon: <Copy size={12} /> },
+  invalid: { label: 'Error', color: theme.status.error, bg: theme.status.errorBg, icon: <AlertCircle size={12} /> },
+}
+
+interface RowTableProps {
+  rows: { row: PreparedRow; status: RowStatus; message: string }[]
+}
+
+function RowTable({ rows }: RowTableProps) {
+  const columns = '60px 1.2fr 1.2fr 1fr 110px 1.6fr'
+  return (
+    <div
+      style={{
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.lg,
+        maxHeight: 360,
+        overflowY: 'auto',
+      }}
+    >
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: columns,
+          gap: 12,
+          padding: '8px 12px',
+          backgroundColor: theme.bg.muted,
+          position: 'sticky',
+          top: 0,
+        }}
+      >
+        <HeaderCell>Row</HeaderCell>
+        <HeaderCell>Name</HeaderCell>
+        <HeaderCell>Email</HeaderCell>
+        <HeaderCell>Company</HeaderCell>
+        <HeaderCell>Status</HeaderCell>
+        <HeaderCell>Details</HeaderCell>
+      </div>
+      {rows.map(({ row, status, message }) => {
+        const info = ROW_STATUS_INFO[status]
+        return (
+          <div
+            key={row.rowNumber}
+            style={{
+              display: 'grid',
+              gridTemplateColumns: columns,
+              gap: 12,
+              alignItems: 'center',
+              padding: '8px 12px',
+              borderTop: `1px solid ${theme.border.subtle}`,
+              fontSize: theme.fontSize.sm,
+            }}
+          >
+            <span style={{ color: theme.text.muted }}>{row.rowNumber}</span>
+            <span style={cellTextStyle}>{row.data.full_name || row.data.first_name || '—'}</span>
+            <span style={cellTextStyle}>{row.data.email || '—'}</span>
+            <span style={cellTextStyle}>{row.data.company || row.data.company_domain || '—'}</span>
+            <span
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: 4,
+                width: 'fit-content',
+                padding: '2px 8px',
+                borderRadius: theme.radius.full,
+                backgroundColor: info.bg,
+                color: info.color,
+                fontSize: theme.fontSize.xs,
+                fontWeight: theme.fontWeight.medium,
+              }}
+            >
+              {info.icon}
+              {info.label}
+            </span>
+            <span style={{ ...cellTextStyle, color: theme.text.muted, fontSize: theme.fontSize.xs }} title={message}>
+              {message}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+const cellTextStyle: React.CSSProperties = {
+  color: theme.text.secondary,
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+}
+
+function ProgressBar({ completed, total }: { completed: number; total: number }) {
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0
+  return (
+    <div>
+      <div style={{ height: 6, backgroundColor: theme.bg.muted, borderRadius: theme.radius.full, overflow: 'hidden' }}>
+        <div
+          style={{
+            width: `${percent}%`,
+            height: '100%',
+            backgroundColor: theme.accent.primary,
+            transition: `width ${theme.transition.normal}`,
+          }}
+        />
+      </div>
+      <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '6px 0 0 0' }}>
+        Importing {completed} of {total}...
+      </p>
+    </div>
+  )
+}
+
+function ErrorBanner({ message }: { message: string }) {
+  return (
+    <div
+      style={{
+        marginTop: 12,
+        padding: 12,
+        backgroundColor: theme.status.errorBg,
+        borderRadius: theme.radius.lg,
+        border: `1px solid ${theme.status.error}`,
+      }}
+    >
+      <p style={{ fontSize: theme.fontSize.sm, color: theme.status.error, margin: 0 }}>
+        {message}
+      </p>
+    </div>
+  )
+}
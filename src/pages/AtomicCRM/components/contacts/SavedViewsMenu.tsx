@@ -0,0 +1,410 @@
+import { useState, useRef, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Bookmark, ChevronDown, Check, Users, Lock, Trash2, Save, Plus, Link2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import type { SavedView } from '../../types'
+
+interface SavedViewsMenuProps {
+  views: SavedView[]
+  activeView: SavedView | null
+  isDirty: boolean // Current filters/sorts/columns differ from the active view
+  currentUserId: string | null
+  onSelect: (view: SavedView | null) => void
+  onSaveNew: (name: string, isShared: boolean) => Promise<void>
+  onSaveChanges: () => Promise<void>
+  onToggleShared: (view: SavedView) => Promise<void>
+  onDelete: (view: SavedView) => Promise<void>
+}
+
+export function SavedViewsMenu({
+  views,
+  activeView,
+  isDirty,
+  currentUserId,
+  onSelect,
+  onSaveNew,
+  onSaveChanges,
+  onToggleShared,
+  onDelete,
+}: SavedViewsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isNaming, setIsNaming] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newShared, setNewShared] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close on click outside
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+        setIsNaming(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const isOwner = (view: SavedView) => !view.created_by || view.created_by === currentUserId
+  const myViews = views.filter(v => isOwner(v))
+  const sharedViews = views.filter(v => !isOwner(v))
+
+  const handleSaveNew = async () => {
+    const name = newName.trim()
+    if (!name) return
+    setSaving(true)
+    try {
+      await onSaveNew(name, newShared)
+      setNewName('')
+      setNewShared(false)
+      setIsNaming(false)
+      setIsOpen(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveChanges = async () => {
+    setSaving(true)
+    try {
+      await onSaveChanges()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // The URL already carries ?view=<id>, so the current location is the share link
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      // Clipboard can be blocked (e.g. insecure context) - nothing else to do
+    }
+  }
+
+  return (
+    <div ref={menuRef} style={{ position: 'relative', display: 'flex', alignItems: 'center', gap: 6 }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '8px 12px',
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.medium,
+          color: theme.text.primary,
+          backgroundColor: isOpen ? theme.bg.hover : 'transparent',
+          border: `1px solid ${theme.border.default}`,
+          borderRadius: theme.radius.md,
+          cursor: 'pointer',
+          maxWidth: 220,
+          transition: `all ${theme.transition.fast}`,
+        }}
+        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = isOpen ? theme.bg.hover : 'transparent'}
+      >
+        <Bookmark size={14} style={{ color: activeView ? theme.accent.primaryLight : theme.text.muted, flexShrink: 0 }} />
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {activeView ? activeView.name : 'All leads'}
+        </span>
+        {isDirty && (
+          <span
+            title="Unsaved changes"
+            style={{ width: 6, height: 6, borderRadius: theme.radius.full, backgroundColor: theme.status.warning, flexShrink: 0 }}
+          />
+        )}
+        <ChevronDown size={14} style={{ color: theme.text.muted, flexShrink: 0 }} />
+      </button>
+
+      {activeView && (
+        <button
+          onClick={handleCopyLink}
+          title="Copy link to this view"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            padding: 8,
+            color: copied ? theme.status.success : theme.text.muted,
+            backgroundColor: 'transparent',
+            border: 'none',
+            borderRadius: theme.radius.md,
+            cursor: 'pointer',
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+          onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+        >
+          {copied ? <Check size={14} /> : <Link2 size={14} />}
+        </button>
+      )}
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8, scale: 0.96 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -8, scale: 0.96 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              position: 'absolute',
+              top: '100%',
+              left: 0,
+              marginTop: 8,
+              width: 300,
+              padding: 6,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: 12,
+              boxShadow: theme.shadow.dropdown,
+              zIndex: 9999,
+            }}
+          >
+            <ViewItem
+              label="All leads"
+              isActive={!activeView}
+              onClick={() => {
+                onSelect(null)
+                setIsOpen(false)
+              }}
+            />
+
+            {myViews.length > 0 && <GroupLabel>My views</GroupLabel>}
+            {myViews.map(view => (
+              <ViewItem
+                key={view.id}
+                label={view.name}
+                isActive={activeView?.id === view.id}
+                icon={view.is_shared ? <Users size={12} /> : <Lock size={12} />}
+                onClick={() => {
+                  onSelect(view)
+                  setIsOpen(false)
+                }}
+                actions={
+                  <>
+                    <ItemAction
+                      title={view.is_shared ? 'Make private' : 'Share with team'}
+                      onClick={() => onToggleShared(view)}
+                    >
+                      {view.is_shared ? <Lock size={12} /> : <Users size={12} />}
+                    </ItemAction>
+                    <ItemAction title="Delete view" danger onClick={() => onDelete(view)}>
+                      <Trash2 size={12} />
+                    </ItemAction>
+                  </>
+                }
+              />
+            ))}
+
+            {sharedViews.length > 0 && <GroupLabel>Shared with team</GroupLabel>}
+            {sharedViews.map(view => (
+              <ViewItem
+                key={view.id}
+                label={view.name}
+                isActive={activeView?.id === view.id}
+                icon={<Users size={12} />}
+                onClick={() => {
+                  onSelect(view)
+                  setIsOpen(false)
+                }}
+              />
+            ))}
+
+            <div style={{ borderTop: `1px solid ${theme.border.subtle}`, marginTop: 6, paddingTop: 6 }}>
+              {activeView && isDirty && isOwner(activeView) && (
+                <MenuButton icon={<Save size={14} />} onClick={handleSaveChanges} disabled={saving}>
+                  Save changes to "{activeView.name}"
+                </MenuButton>
+              )}
+
+              {isNaming ? (
+                <div style={{ padding: 6, display: 'flex', flexDirection: 'column', gap: 8 }}>
+                  <input
+                    autoFocus
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveNew()
+                      if (e.key === 'Escape') setIsNaming(false)
+                    }}
+                    placeholder="View name"
+                    style={{
+                      width: '100%',
+                      boxSizing: 'border-box',
+                      padding: '7px 10px',
+                      fontSize: theme.fontSize.sm,
+                      color: theme.text.primary,
+                      backgroundColor: theme.bg.card,
+                      border: `1px solid ${theme.border.default}`,
+                      borderRadius: theme.radius.md,
+                      outline: 'none',
+                    }}
+                  />
+                  <label
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      fontSize: theme.fontSize.xs,
+                      color: theme.text.muted,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={newShared}
+                      onChange={(e) => setNewShared(e.target.checked)}
+                    />
+                    Share with my team
+                  </label>
+                  <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6 }}>
+                    <MenuButton onClick={() => setIsNaming(false)} compact>
+                      Cancel
+                    </MenuButton>
+                    <MenuButton onClick={handleSaveNew} disabled={!newName.trim() || saving} compact primary>
+                      Save view
+                    </MenuButton>
+                  </div>
+                </div>
+              ) : (
+                <MenuButton icon={<Plus size={14} />} onClick={() => setIsNaming(true)}>
+                  Save current view as...
+                </MenuButton>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+function GroupLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        padding: '10px 10px 4px',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.text.muted,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
+interface ViewItemProps {
+  label: string
+  isActive: boolean
+  onClick: () => void
+  icon?: React.ReactNode
+  actions?: React.ReactNode
+}
+
+function ViewItem({ label, isActive, onClick, icon, actions }: ViewItemProps) {
+  return (
+    <div
+      onClick={onClick}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '7px 10px',
+        borderRadius: theme.radius.md,
+        fontSize: theme.fontSize.sm,
+        color: isActive ? theme.accent.primaryLight : theme.text.primary,
+        backgroundColor: isActive ? theme.accent.primaryBg : 'transparent',
+        cursor: 'pointer',
+      }}
+      onMouseEnter={(e) => {
+        if (!isActive) e.currentTarget.style.backgroundColor = theme.bg.hover
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.backgroundColor = isActive ? theme.accent.primaryBg : 'transparent'
+      }}
+    >
+      {icon && <span style={{ display: 'flex', color: theme.text.muted }}>{icon}</span>}
+      <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{label}</span>
+      {isActive && <Check size={14} />}
+      {actions && (
+        <div style={{ display: 'flex', gap: 2 }} onClick={(e) => e.stopPropagation()}>
+          {actions}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ItemAction({ title, onClick, danger = false, children }: { title: string; onClick: () => void; danger?: boolean; children: React.ReactNode }) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      style={{
+        display: 'flex',
+        padding: 4,
+        color: theme.text.muted,
+        backgroundColor: 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.sm,
+        cursor: 'pointer',
+      }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.color = danger ? theme.status.error : theme.text.primary
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.color = theme.text.muted
+      }}
+    >
+      {children}
+    </button>
+  )
+}
+
+interface MenuButtonProps {
+  children: React.ReactNode
+  onClick: () => void
+  icon?: React.ReactNode
+  disabled?: boolean
+  compact?: boolean
+  primary?: boolean
+}
+
+function MenuButton({ children, onClick, icon, disabled = false, compact = false, primary = false }: MenuButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        width: compact ? 'auto' : '100%',
+        padding: compact ? '5px 10px' : '7px 10px',
+        fontSize: theme.fontSize.sm,
+        color: primary ? '#fff' : theme.text.secondary,
+        backgroundColor: primary ? theme.accent.primary : 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.md,
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        opacity: disabled ? 0.5 : 1,
+        textAlign: 'left',
+      }}
+      onMouseEnter={(e) => {
+        if (!disabled) e.currentTarget.style.backgroundColor = primary ? theme.accent.primaryHover : theme.bg.hover
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.backgroundColor = primary ? theme.accent.primary : 'transparent'
+      }}
+    >
+      {icon}
+      {children}
+    </button>
+  )
+}
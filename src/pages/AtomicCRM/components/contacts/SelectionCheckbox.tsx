@@ -0,0 +1,46 @@
+import { Check } from 'lucide-react'
+import { theme } from '../../config/theme'
+
+// Row/header checkbox - stops propagation so it never opens the contact panel
+interface SelectionCheckboxProps {
+  checked: boolean
+  indeterminate?: boolean
+  onToggle: (e: React.MouseEvent) => void
+  label: string
+}
+
+export function SelectionCheckbox({ checked, indeterminate = false, onToggle, label }: SelectionCheckboxProps) {
+  const isActive = checked || indeterminate
+  return (
+    <button
+      type="button"
+      role="checkbox"
+      aria-checked={indeterminate ? 'mixed' : checked}
+      aria-label={label}
+      onClick={(e) => {
+        e.stopPropagation()
+        onToggle(e)
+      }}
+      onMouseDown={(e) => {
+        // Prevent shift-click from selecting page text
+        if (e.shiftKey) e.preventDefault()
+        e.stopPropagation()
+      }}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: 16,
+        height: 16,
+        padding: 0,
+        borderRadius: theme.radius.sm,
+        border: `1px solid ${isActive ? theme.accent.primary : theme.border.strong}`,
+        backgroundColor: isActive ? theme.accent.primary : 'transparent',
+        cursor: 'pointer',
+      }}
+    >
+      {checked && <Check size={12} color="#fff" />}
+      {indeterminate && !checked && <span style={{ width: 8, height: 2, backgroundColor: '#fff', borderRadius: 1 }} />}
+    </button>
+  )
+}
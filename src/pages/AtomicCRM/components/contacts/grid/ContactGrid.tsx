@@ -0,0 +1,690 @@
+import { useState, useCallback, useMemo, useRef, useEffect, memo } from 'react'
+import { Maximize2, Trash2 } from 'lucide-react'
+import { theme } from '../../../config/theme'
+import { SelectionCheckbox } from '../SelectionCheckbox'
+import {
+  GRID_COLUMNS,
+  GRID_LAYOUT,
+  STICKY_SHADOW,
+  type GridColumn,
+  type CellMove,
+  type CellPosition,
+} from './gridColumns'
+import { ResizableColumnHeader } from './ResizableColumnHeader'
+import { TextCell, DateCell, CurrencyCell, PhoneCell, UrlCell } from './cells'
+import { SelectCell } from './SelectCell'
+import { PipelineCell } from './PipelineCell'
+import { parseTsv, toTsv, cellToText, parseCellText } from './gridClipboard'
+import { useCRM, type HistoryGroup } from '../../../context/CRMContext'
+import type { Contact } from '../../../types'
+
+interface ContactGridProps {
+  contacts: Contact[]
+  checkedIds: Set<string>
+  allChecked: boolean
+  someChecked: boolean
+  onToggleChecked: (id: string, shiftKey: boolean) => void
+  onToggleAll: () => void
+  onOpenContact: (contact: Contact) => void
+  onUpdate: (id: string, updates: Partial<Contact>, group?: HistoryGroup) => Promise<boolean>
+  onDelete: (id: string) => void
+}
+
+// Active cell plus the opposite corner of the selected range
+interface GridSelection {
+  active: CellPosition | null
+  rangeEnd: CellPosition | null
+  editing: boolean
+  seed: string | null
+}
+
+interface GridRange {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+const LAST_COL = GRID_COLUMNS.length - 1
+
+// Cells that open an input when you start typing on them
+const TYPEABLE_TYPES = new Set(['text', 'phone', 'url', 'currency'])
+
+function isWritable(column: GridColumn): boolean {
+  return !column.readOnly && column.key !== 'pipeline'
+}
+
+// Spreadsheet view of the contacts list. Arrow keys move between cells, Enter or F2
+// edits, and ranges copy and paste as TSV so they round-trip with Google Sheets.
+export function ContactGrid({
+  contacts,
+  checkedIds,
+  allChecked,
+  someChecked,
+  onToggleChecked,
+  onToggleAll,
+  onOpenContact,
+  onUpdate,
+  onDelete,
+}: ContactGridProps) {
+  const { withHistoryGroup } = useCRM()
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const isDraggingRef = useRef(false)
+  const [selection, setSelection] = useState<GridSelection>({ active: null, rangeEnd: null, editing: false, seed: null })
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>(() =>
+    Object.fromEntries(GRID_COLUMNS.map(c => [c.key, c.width]))
+  )
+
+  const handleColumnResize = useCallback((key: string) => (width: number) => {
+    setColumnWidths(prev => ({ ...prev, [key]: width }))
+  }, [])
+
+  // Stable per-column handlers so the memoized headers don't re-render on every drag frame
+  const resizeHandlers = useMemo(
+    () => Object.fromEntries(GRID_COLUMNS.map(c => [c.key, handleColumnResize(c.key)])),
+    [handleColumnResize]
+  )
+
+  const totalWidth = useMemo(
+    () => Object.values(columnWidths).reduce((sum, w) => sum + w, 0)
+      + GRID_LAYOUT.checkboxColumnWidth
+      + GRID_LAYOUT.actionColumnWidth,
+    [columnWidths]
+  )
+
+  // Filtering can shrink the list under the selection - keep it on real rows
+  const lastRow = contacts.length - 1
+  const clamp = useCallback((pos: CellPosition): CellPosition => ({
+    row: Math.max(0, Math.min(lastRow, pos.row)),
+    col: Math.max(0, Math.min(LAST_COL, pos.col)),
+  }), [lastRow])
+
+  const active = selection.active && lastRow >= 0 ? clamp(selection.active) : null
+  const rangeEnd = selection.rangeEnd && lastRow >= 0 ? clamp(selection.rangeEnd) : active
+  const range: GridRange | null = active && rangeEnd ? {
+    top: Math.min(active.row, rangeEnd.row),
+    bottom: Math.max(active.row, rangeEnd.row),
+    left: Math.min(active.col, rangeEnd.col),
+    right: Math.max(active.col, rangeEnd.col),
+  } : null
+
+  const focusGrid = () => wrapperRef.current?.focus({ preventScroll: true })
+
+  // Keep the active cell visible when moving with the keyboard
+  useEffect(() => {
+    if (!selection.active) return
+    const { row, col } = selection.active
+    wrapperRef.current
+      ?.querySelector(`[data-cell="${row}:${col}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+  }, [selection.active])
+
+  // ============================================
+  // APPLYING CHANGES
+  // ============================================
+  // A paste, fill or clear is a single undo step, however many cells it touched
+  const applyChanges = (label: string, changes: Map<string, Partial<Contact>>) => {
+    if (changes.size === 0) return
+    withHistoryGroup(
+      label,
+      group => Promise.all([...changes].map(([id, updates]) => onUpdate(id, updates, group))),
+      { destructive: changes.size > 1 }
+    )
+  }
+
+  const setChange = (changes: Map<string, Partial<Contact>>, contact: Contact, column: GridColumn, value: unknown) => {
+    const key = column.key as keyof Contact
+    if (contact[key] === value) return
+    changes.set(contact.id, { ...changes.get(contact.id), [key]: value })
+  }
+
+  const handleClear = (target: GridRange) => {
+    const changes = new Map<string, Partial<Contact>>()
+    for (let row = target.top; row <= target.bottom; row++) {
+      for (let col = target.left; col <= target.right; col++) {
+        const column = GRID_COLUMNS[col]
+        if (isWritable(column)) setChange(changes, contacts[row], column, null)
+      }
+    }
+    applyChanges(`Cleared ${countLabel(changes)}`, changes)
+  }
+
+  // Copies the first selected row down the range, or the row above into a single row
+  const handleFillDown = (target: GridRange) => {
+    const sourceRow = target.top === target.bottom ? target.top - 1 : target.top
+    if (sourceRow < 0) return
+    const source = contacts[sourceRow]
+    const changes = new Map<string, Partial<Contact>>()
+    for (let row = sourceRow + 1; row <= target.bottom; row++) {
+      for (let col = target.left; col <= target.right; col++) {
+        const column = GRID_COLUMNS[col]
+        if (isWritable(column)) setChange(changes, contacts[row], column, source[column.key as keyof Contact])
+      }
+    }
+    applyChanges(`Filled down ${countLabel(changes)}`, changes)
+  }
+
+  // A single copied value fills the whole selection; a block pastes from the top-left cell
+  const handlePaste = (text: string, target: GridRange) => {
+    const block = parseTsv(text)
+    const isSingleValue = block.length === 1 && block[0].length === 1
+    const bottom = isSingleValue ? target.bottom : Math.min(lastRow, target.top + block.length - 1)
+    const right = isSingleValue
+      ? target.right
+      : Math.min(LAST_COL, target.left + Math.max(...block.map(r => r.length)) - 1)
+
+    const changes = new Map<string, Partial<Contact>>()
+    for (let row = target.top; row <= bottom; row++) {
+      for (let col = target.left; col <= right; col++) {
+        const cellText = isSingleValue ? block[0][0] : block[row - target.top][col - target.left]
+        if (cellText === undefined) continue
+        const column = GRID_COLUMNS[col]
+        const value = parseCellText(column, cellText)
+        if (value !== undefined) setChange(changes, contacts[row], column, value)
+      }
+    }
+    applyChanges(`Pasted into ${countLabel(changes)}`, changes)
+
+    // Select what was pasted so it's easy to see (and copy again)
+    setSelection(prev => ({
+      ...prev,
+      active: { row: target.top, col: target.left },
+      rangeEnd: { row: bottom, col: right },
+    }))
+  }
+
+  // Copy and paste land on the document when a non-editable element has focus
+  useEffect(() => {
+    const isGridFocused = () => !!wrapperRef.current?.contains(document.activeElement) && !selection.editing
+
+    function handleCopy(e: ClipboardEvent) {
+      if (!isGridFocused() || !range || !e.clipboardData) return
+      const rows: string[][] = []
+      for (let row = range.top; row <= range.bottom; row++) {
+        rows.push(GRID_COLUMNS.slice(range.left, range.right + 1).map(column => cellToText(contacts[row], column)))
+      }
+      e.clipboardData.setData('text/plain', toTsv(rows))
+      e.preventDefault()
+    }
+
+    function handlePasteEvent(e: ClipboardEvent) {
+      if (!isGridFocused() || !range || !e.clipboardData) return
+      const text = e.clipboardData.getData('text/plain')
+      if (!text) return
+      e.preventDefault()
+      handlePaste(text, range)
+    }
+
+    document.addEventListener('copy', handleCopy)
+    document.addEventListener('paste', handlePasteEvent)
+    return () => {
+      document.removeEventListener('copy', handleCopy)
+      document.removeEventListener('paste', handlePasteEvent)
+    }
+  })
+
+  // ============================================
+  // KEYBOARD
+  // ============================================
+  const startEditing = (seed: string | null = null) => {
+    setSelection(prev => ({ ...prev, rangeEnd: prev.active, editing: true, seed }))
+  }
+
+  const moveTo = (pos: CellPosition, extend: boolean) => {
+    const next = clamp(pos)
+    setSelection(prev => extend
+      ? { ...prev, rangeEnd: next }
+      : { active: next, rangeEnd: next, editing: false, seed: null })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Open menus and inputs handle their own keys, and buttons keep Enter/Space
+    if (e.target !== e.currentTarget || selection.editing || !active || !range) return
+    const mod = e.metaKey || e.ctrlKey
+    const key = e.key.toLowerCase()
+    const column = GRID_COLUMNS[active.col]
+    // Shift+arrow moves the far corner of the range, not the active cell
+    const from = e.shiftKey && rangeEnd ? rangeEnd : active
+
+    if (mod && key === 'd') {
+      e.preventDefault()
+      handleFillDown(range)
+      return
+    }
+    if (mod && key === 'a') {
+      e.preventDefault()
+      setSelection(prev => ({ ...prev, active: { row: 0, col: 0 }, rangeEnd: { row: lastRow, col: LAST_COL } }))
+      return
+    }
+
+    switch (e.key) {
+      case 'ArrowUp':
+        e.preventDefault()
+        moveTo({ row: mod ? 0 : from.row - 1, col: from.col }, e.shiftKey)
+        return
+      case 'ArrowDown':
+        e.preventDefault()
+        moveTo({ row: mod ? lastRow : from.row + 1, col: from.col }, e.shiftKey)
+        return
+      case 'ArrowLeft':
+        e.preventDefault()
+        moveTo({ row: from.row, col: mod ? 0 : from.col - 1 }, e.shiftKey)
+        return
+      case 'ArrowRight':
+        e.preventDefault()
+        moveTo({ row: from.row, col: mod ? LAST_COL : from.col + 1 }, e.shiftKey)
+        return
+      case 'Home':
+        e.preventDefault()
+        moveTo({ row: mod ? 0 : from.row, col: 0 }, e.shiftKey)
+        return
+      case 'End':
+        e.preventDefault()
+        moveTo({ row: mod ? lastRow : from.row, col: LAST_COL }, e.shiftKey)
+        return
+      case 'Tab':
+        e.preventDefault()
+        moveTo(stepAcross(active, e.shiftKey ? 'left' : 'right', lastRow), false)
+        return
+      case 'Enter':
+      case 'F2':
+        e.preventDefault()
+        if (isWritable(column) || column.key === 'pipeline') startEditing()
+        return
+      case 'Escape':
+        setSelection(prev => ({ ...prev, rangeEnd: prev.active }))
+        return
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault()
+        handleClear(range)
+        return
+    }
+
+    // Typing replaces the cell's value, like a spreadsheet
+    if (e.key.length === 1 && !mod && !e.altKey && isWritable(column) && TYPEABLE_TYPES.has(column.type)) {
+      e.preventDefault()
+      startEditing(e.key)
+    }
+  }
+
+  // ============================================
+  // MOUSE
+  // ============================================
+  // Clicking the active cell again starts editing; shift-click and drag select a range
+  const handleCellMouseDown = useCallback((row: number, col: number, e: React.MouseEvent) => {
+    if (e.button !== 0) return
+    // Commit an open input first - preventing the default below would otherwise keep it from blurring
+    const focused = document.activeElement
+    if (focused instanceof HTMLInputElement && wrapperRef.current?.contains(focused)) focused.blur()
+    if (!(e.target as HTMLElement).closest('a')) e.preventDefault()
+    wrapperRef.current?.focus({ preventScroll: true })
+    setSelection(prev => {
+      const isActive = prev.active?.row === row && prev.active?.col === col
+      if (isActive && prev.editing) return prev
+      if (e.shiftKey && prev.active) return { ...prev, rangeEnd: { row, col }, editing: false, seed: null }
+      const isSingleCell = !prev.rangeEnd || (prev.rangeEnd.row === row && prev.rangeEnd.col === col)
+      if (isActive && isSingleCell && GRID_COLUMNS[col].readOnly !== true) {
+        return { ...prev, editing: true, seed: null }
+      }
+      isDraggingRef.current = true
+      return { active: { row, col }, rangeEnd: { row, col }, editing: false, seed: null }
+    })
+  }, [])
+
+  const handleCellMouseEnter = useCallback((row: number, col: number) => {
+    if (!isDraggingRef.current) return
+    setSelection(prev => ({ ...prev, rangeEnd: { row, col } }))
+  }, [])
+
+  const handleCellDoubleClick = useCallback((row: number, col: number) => {
+    if (GRID_COLUMNS[col].readOnly) return
+    setSelection({ active: { row, col }, rangeEnd: { row, col }, editing: true, seed: null })
+  }, [])
+
+  useEffect(() => {
+    const stopDragging = () => { isDraggingRef.current = false }
+    document.addEventListener('mouseup', stopDragging)
+    return () => document.removeEventListener('mouseup', stopDragging)
+  }, [])
+
+  const handleEndEdit = useCallback((move: CellMove) => {
+    setSelection(prev => {
+      if (!prev.active) return prev
+      const next = move ? stepAcross(prev.active, move, lastRow) : prev.active
+      return { active: next, rangeEnd: next, editing: false, seed: null }
+    })
+    focusGrid()
+  }, [lastRow])
+
+  return (
+    <div
+      ref={wrapperRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      style={{ outline: 'none' }}
+    >
+      <table style={{ width: '100%', minWidth: totalWidth, borderCollapse: 'separate', borderSpacing: 0, tableLayout: 'fixed' }}>
+        <thead style={{ position: 'sticky', top: 0, zIndex: 2 }}>
+          <tr style={{ height: GRID_LAYOUT.headerHeight }}>
+            <th
+              style={{
+                position: 'sticky',
+                left: 0,
+                zIndex: 3,
+                width: GRID_LAYOUT.checkboxColumnWidth,
+                minWidth: GRID_LAYOUT.checkboxColumnWidth,
+                padding: 0,
+                backgroundColor: theme.bg.elevated,
+                borderBottom: `1px solid ${theme.border.default}`,
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <SelectionCheckbox
+                  checked={allChecked}
+                  indeterminate={someChecked && !allChecked}
+                  onToggle={onToggleAll}
+                  label="Select all matching leads"
+                />
+              </div>
+            </th>
+            {GRID_COLUMNS.map((column, index) => (
+              <ResizableColumnHeader
+                key={column.key}
+                label={column.label}
+                width={columnWidths[column.key]}
+                onResize={resizeHandlers[column.key]}
+                isSticky={index === 0}
+                stickyLeft={GRID_LAYOUT.checkboxColumnWidth}
+              />
+            ))}
+            <th
+              style={{
+                width: GRID_LAYOUT.actionColumnWidth,
+                minWidth: GRID_LAYOUT.actionColumnWidth,
+                padding: 0,
+                backgroundColor: theme.bg.elevated,
+                borderBottom: `1px solid ${theme.border.default}`,
+              }}
+            />
+          </tr>
+        </thead>
+        <tbody>
+          {contacts.map((contact, rowIndex) => {
+            const inRange = !!range && rowIndex >= range.top && rowIndex <= range.bottom
+            const isActiveRow = active?.row === rowIndex
+            return (
+              <ContactGridRow
+                key={contact.id}
+                contact={contact}
+                rowIndex={rowIndex}
+                columnWidths={columnWidths}
+                isChecked={checkedIds.has(contact.id)}
+                activeCol={isActiveRow ? active.col : -1}
+                isEditing={isActiveRow && selection.editing}
+                seed={isActiveRow ? selection.seed : null}
+                rangeLeft={inRange && range ? range.left : -1}
+                rangeRight={inRange && range ? range.right : -1}
+                onCellMouseDown={handleCellMouseDown}
+                onCellMouseEnter={handleCellMouseEnter}
+                onCellDoubleClick={handleCellDoubleClick}
+                onEndEdit={handleEndEdit}
+                onToggleChecked={onToggleChecked}
+                onOpenContact={onOpenContact}
+                onUpdate={onUpdate}
+                onDelete={onDelete}
+              />
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// "3 leads" for undo labels
+function countLabel(changes: Map<string, Partial<Contact>>): string {
+  return `${changes.size} ${changes.size === 1 ? 'lead' : 'leads'}`
+}
+
+// Next cell in a direction; Tab wraps onto the next or previous row
+function stepAcross(pos: CellPosition, move: Exclude<CellMove, null>, lastRow: number): CellPosition {
+  switch (move) {
+    case 'up':
+      return { row: Math.max(0, pos.row - 1), col: pos.col }
+    case 'down':
+      return { row: Math.min(lastRow, pos.row + 1), col: pos.col }
+    case 'left':
+      if (pos.col > 0) return { row: pos.row, col: pos.col - 1 }
+      return pos.row > 0 ? { row: pos.row - 1, col: LAST_COL } : pos
+    case 'right':
+      if (pos.col < LAST_COL) return { row: pos.row, col: pos.col + 1 }
+      return pos.row < lastRow ? { row: pos.row + 1, col: 0 } : pos
+  }
+}
+
+// Row
+interface ContactGridRowProps {
+  contact: Contact
+  rowIndex: number
+  columnWidths: Record<string, number>
+  isChecked: boolean
+  activeCol: number // -1 when the active cell is in another row
+  isEditing: boolean
+  seed: string | null
+  rangeLeft: number // -1 when the row is outside the selected range
+  rangeRight: number
+  onCellMouseDown: (row: number, col: number, e: React.MouseEvent) => void
+  onCellMouseEnter: (row: number, col: number) => void
+  onCellDoubleClick: (row: number, col: number) => void
+  onEndEdit: (move: CellMove) => void
+  onToggleChecked: (id: string, shiftKey: boolean) => void
+  onOpenContact: (contact: Contact) => void
+  onUpdate: (id: string, updates: Partial<Contact>) => void
+  onDelete: (id: string) => void
+}
+
+const ContactGridRow = memo(function ContactGridRow({
+  contact,
+  rowIndex,
+  columnWidths,
+  isChecked,
+  activeCol,
+  isEditing,
+  seed,
+  rangeLeft,
+  rangeRight,
+  onCellMouseDown,
+  onCellMouseEnter,
+  onCellDoubleClick,
+  onEndEdit,
+  onToggleChecked,
+  onOpenContact,
+  onUpdate,
+  onDelete,
+}: ContactGridRowProps) {
+  const [isHovered, setIsHovered] = useState(false)
+  const rowBg = isChecked ? theme.accent.primaryBg : isHovered ? theme.bg.hover : theme.bg.card
+
+  const cellBorder = `1px solid ${theme.border.subtle}`
+
+  const renderCell = (column: GridColumn, colIndex: number) => {
+    const edit = {
+      isEditing: isEditing && colIndex === activeCol,
+      onEndEdit,
+    }
+
+    if (column.key === 'pipeline') {
+      return <PipelineCell contact={contact} onUpdate={(updates) => onUpdate(contact.id, updates)} {...edit} />
+    }
+
+    const key = column.key
+    const save = (value: unknown) => onUpdate(contact.id, { [key]: value } as Partial<Contact>)
+    const value = contact[key]
+    const typed = { ...edit, seed: colIndex === activeCol ? seed : null }
+
+    switch (column.type) {
+      case 'select':
+        return <SelectCell value={value as string | null} options={column.options || []} onChange={save} {...edit} />
+      case 'date':
+        return <DateCell value={value as string | null} onChange={save} {...typed} />
+      case 'currency':
+        return <CurrencyCell value={value as number | null} onChange={save} {...typed} />
+      case 'phone':
+        return <PhoneCell value={value as string | null} onChange={save} {...typed} />
+      case 'url':
+        return <UrlCell value={value as string | null} onChange={save} {...typed} />
+      default:
+        return (
+          <TextCell
+            value={value as string | null}
+            onChange={save}
+            isPrimary={key === 'full_name'}
+            {...typed}
+          />
+        )
+    }
+  }
+
+  return (
+    <tr
+      data-contact-id={contact.id}
+      style={{ height: GRID_LAYOUT.rowHeight }}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <td
+        style={{
+          position: 'sticky',
+          left: 0,
+          zIndex: 1,
+          padding: 0,
+          backgroundColor: rowBg,
+          borderBottom: cellBorder,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <SelectionCheckbox
+            checked={isChecked}
+            onToggle={(e) => onToggleChecked(contact.id, e.shiftKey)}
+            label={`Select ${contact.full_name || 'lead'}`}
+          />
+        </div>
+      </td>
+      {GRID_COLUMNS.map((column, colIndex) => {
+        const isSticky = colIndex === 0
+        const isActive = colIndex === activeCol
+        const isInRange = colIndex >= rangeLeft && colIndex <= rangeRight
+        const width = columnWidths[column.key]
+        const shadows = [
+          isSticky ? STICKY_SHADOW : null,
+          isActive ? `inset 0 0 0 2px ${theme.accent.primary}` : null,
+        ].filter(Boolean)
+        return (
+          <td
+            key={column.key}
+            data-cell={`${rowIndex}:${colIndex}`}
+            onMouseDown={(e) => onCellMouseDown(rowIndex, colIndex, e)}
+            onMouseEnter={() => onCellMouseEnter(rowIndex, colIndex)}
+            onDoubleClick={() => onCellDoubleClick(rowIndex, colIndex)}
+            style={{
+              width,
+              minWidth: width,
+              maxWidth: width,
+              padding: 0,
+              overflow: 'hidden',
+              backgroundColor: rowBg,
+              // Tint over the row color so sticky cells stay opaque
+              backgroundImage: isInRange && !isActive
+                ? `linear-gradient(${theme.accent.primaryBg}, ${theme.accent.primaryBg})`
+                : undefined,
+              borderBottom: cellBorder,
+              boxShadow: shadows.length > 0 ? shadows.join(', ') : undefined,
+              // Scroll active cells out from under the sticky header and first column
+              scrollMarginTop: GRID_LAYOUT.headerHeight,
+              scrollMarginLeft: isSticky ? 0 : GRID_LAYOUT.checkboxColumnWidth + columnWidths[GRID_COLUMNS[0].key],
+              ...(isSticky ? {
+                position: 'sticky' as const,
+                left: GRID_LAYOUT.checkboxColumnWidth,
+                zIndex: 1,
+                borderRight: cellBorder,
+              } : {}),
+            }}
+          >
+            {renderCell(column, colIndex)}
+          </td>
+        )
+      })}
+      <td style={{ padding: 0, backgroundColor: rowBg, borderBottom: cellBorder }}>
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 2,
+            opacity: isHovered ? 1 : 0,
+            transition: `opacity ${theme.transition.fast}`,
+          }}
+        >
+          <RowActionButton label="Open lead" onClick={() => onOpenContact(contact)}>
+            <Maximize2 size={13} />
+          </RowActionButton>
+          <RowActionButton
+            label="Delete lead"
+            danger
+            onClick={() => {
+              if (window.confirm(`Delete ${contact.full_name || 'this lead'}?`)) onDelete(contact.id)
+            }}
+          >
+            <Trash2 size={13} />
+          </RowActionButton>
+        </div>
+      </td>
+    </tr>
+  )
+})
+
+interface RowActionButtonProps {
+  label: string
+  danger?: boolean
+  onClick: () => void
+  children: React.ReactNode
+}
+
+function RowActionButton({ label, danger = false, onClick, children }: RowActionButtonProps) {
+  const hoverColor = danger ? theme.status.error : theme.text.primary
+  return (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick()
+      }}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: 26,
+        height: 26,
+        padding: 0,
+        color: theme.text.muted,
+        backgroundColor: 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.md,
+        cursor: 'pointer',
+      }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.color = hoverColor
+        e.currentTarget.style.backgroundColor = danger ? theme.status.errorBg : theme.bg.active
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.color = theme.text.muted
+        e.currentTarget.style.backgroundColor = 'transparent'
+      }}
+    >
+      {children}
+    </button>
+  )
+}
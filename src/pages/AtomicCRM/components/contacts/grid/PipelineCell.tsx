@@ -0,0 +1,261 @@
+import { useState, useRef, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Check, Calendar } from 'lucide-react'
+import { theme } from '../../../config/theme'
+import { GRID_LAYOUT, type CellMove } from './gridColumns'
+import type { Contact } from '../../../types'
+
+// Pipeline flags in funnel order, each with the timestamp recorded when it's checked
+const PIPELINE_STEPS = [
+  { key: 'meeting_booked', dateKey: 'meeting_booked_at', label: 'Meeting Booked' },
+  { key: 'showed_up_to_disco', dateKey: 'showed_up_to_disco_at', label: 'Disco Show' },
+  { key: 'qualified', dateKey: 'qualified_at', label: 'Qualified' },
+  { key: 'demo_booked', dateKey: 'demo_booked_at', label: 'Demo Booked' },
+  { key: 'showed_up_to_demo', dateKey: 'showed_up_to_demo_at', label: 'Demo Show' },
+  { key: 'proposal_sent', dateKey: 'proposal_sent_at', label: 'Proposal Sent' },
+  { key: 'closed', dateKey: 'closed_at', label: 'Closed' },
+] as const
+
+interface PipelineCellProps {
+  contact: Contact
+  onUpdate: (updates: Partial<Contact>) => void
+  isEditing: boolean // Menu is open
+  onEndEdit: (move: CellMove) => void
+}
+
+function formatReachedAt(value: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ''
+  return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} at ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+}
+
+export function PipelineCell({ contact, onUpdate, isEditing, onEndEdit }: PipelineCellProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dropdownRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState({ top: 0, left: 0 })
+  const [highlighted, setHighlighted] = useState(0)
+
+  const completedCount = PIPELINE_STEPS.filter(step => contact[step.key]).length
+  const progress = (completedCount / PIPELINE_STEPS.length) * 100
+
+  // Flag and timestamp go out as one update so they can't drift apart
+  const handleToggleStep = (step: typeof PIPELINE_STEPS[number]) => {
+    const next = !contact[step.key]
+    onUpdate({
+      [step.key]: next,
+      [step.dateKey]: next ? new Date().toISOString() : null,
+    })
+  }
+
+  useEffect(() => {
+    if (isEditing && containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect()
+      const menuHeight = PIPELINE_STEPS.length * 48 + 60
+      const openUpward = window.innerHeight - rect.bottom < menuHeight && rect.top > menuHeight
+      setPosition({
+        top: openUpward ? rect.top - menuHeight - 4 : rect.bottom + 4,
+        left: rect.left,
+      })
+      setHighlighted(0)
+    }
+  }, [isEditing])
+
+  // Close on click outside; arrows move, Enter/Space toggle, Escape closes
+  useEffect(() => {
+    if (!isEditing) return
+    function handleClickOutside(e: MouseEvent) {
+      const target = e.target as Node
+      if (containerRef.current?.contains(target) || dropdownRef.current?.contains(target)) return
+      onEndEdit(null)
+    }
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setHighlighted(i => (i + step + PIPELINE_STEPS.length) % PIPELINE_STEPS.length)
+      } else if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault()
+        handleToggleStep(PIPELINE_STEPS[highlighted])
+      } else if (e.key === 'Tab') {
+        e.preventDefault()
+        onEndEdit(e.shiftKey ? 'left' : 'right')
+      } else if (e.key === 'Escape') {
+        e.preventDefault()
+        onEndEdit(null)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  })
+
+  return (
+    <div ref={containerRef} style={{ width: '100%' }}>
+      <div
+        style={{
+          width: '100%',
+          height: GRID_LAYOUT.rowHeight,
+          padding: `0 ${GRID_LAYOUT.cellPaddingX}px`,
+          boxSizing: 'border-box',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 10,
+          cursor: 'default',
+        }}
+      >
+        <div
+          style={{
+            flex: 1,
+            height: 5,
+            borderRadius: theme.radius.full,
+            backgroundColor: theme.bg.muted,
+            overflow: 'hidden',
+          }}
+        >
+          <motion.div
+            initial={{ width: 0 }}
+            animate={{ width: `${progress}%` }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            style={{
+              height: '100%',
+              borderRadius: theme.radius.full,
+              backgroundColor: theme.accent.primary,
+            }}
+          />
+        </div>
+        <span
+          style={{
+            fontSize: theme.fontSize.xs,
+            color: theme.text.muted,
+            fontVariantNumeric: 'tabular-nums',
+            minWidth: 24,
+            textAlign: 'right',
+          }}
+        >
+          {completedCount}/{PIPELINE_STEPS.length}
+        </span>
+      </div>
+
+      {createPortal(
+        <AnimatePresence>
+          {isEditing && (
+            <motion.div
+              ref={dropdownRef}
+              initial={{ opacity: 0, y: -4, scale: 0.98 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -4, scale: 0.98 }}
+              transition={{ duration: 0.12, ease: 'easeOut' }}
+              style={{
+                position: 'fixed',
+                top: position.top,
+                left: position.left,
+                minWidth: 240,
+                backgroundColor: theme.bg.elevated,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.xl,
+                boxShadow: theme.shadow.dropdown,
+                zIndex: 9999,
+              }}
+            >
+              <div style={{ padding: '12px 14px', borderBottom: `1px solid ${theme.border.subtle}` }}>
+                <div
+                  style={{
+                    fontSize: theme.fontSize.xs,
+                    fontWeight: theme.fontWeight.semibold,
+                    color: theme.text.muted,
+                    textTransform: 'uppercase',
+                    letterSpacing: '0.05em',
+                  }}
+                >
+                  Pipeline Progress
+                </div>
+                <div style={{ marginTop: 4, fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+                  {completedCount} of {PIPELINE_STEPS.length} stages
+                </div>
+              </div>
+
+              <div style={{ padding: '6px 0' }}>
+                {PIPELINE_STEPS.map((step, index) => {
+                  const isCompleted = contact[step.key]
+                  const reachedAt = formatReachedAt(contact[step.dateKey])
+                  return (
+                    <div
+                      key={step.key}
+                      onMouseDown={(e) => {
+                        e.preventDefault()
+                        e.stopPropagation()
+                        handleToggleStep(step)
+                      }}
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 12,
+                        padding: '10px 14px',
+                        cursor: 'pointer',
+                        backgroundColor: index === highlighted ? theme.bg.hover : 'transparent',
+                      }}
+                      onMouseEnter={() => setHighlighted(index)}
+                    >
+                      <div
+                        style={{
+                          width: 20,
+                          height: 20,
+                          borderRadius: theme.radius.md,
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          backgroundColor: isCompleted ? theme.accent.primary : theme.bg.muted,
+                          border: isCompleted ? 'none' : `1px solid ${theme.border.strong}`,
+                        }}
+                      >
+                        {isCompleted ? (
+                          <Check size={12} strokeWidth={2.5} style={{ color: theme.text.inverse }} />
+                        ) : (
+                          <span style={{ fontSize: theme.fontSize.xs, color: theme.text.disabled }}>
+                            {index + 1}
+                          </span>
+                        )}
+                      </div>
+                      <div style={{ flex: 1 }}>
+                        <div
+                          style={{
+                            fontSize: theme.fontSize.sm,
+                            color: isCompleted ? theme.text.primary : theme.text.muted,
+                            fontWeight: isCompleted ? theme.fontWeight.medium : theme.fontWeight.normal,
+                          }}
+                        >
+                          {step.label}
+                        </div>
+                        {isCompleted && reachedAt && (
+                          <div
+                            style={{
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: 4,
+                              marginTop: 2,
+                              fontSize: theme.fontSize.xs,
+                              color: theme.text.disabled,
+                            }}
+                          >
+                            <Calendar size={10} />
+                            {reachedAt}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>,
+        document.body
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState, useCallback, useRef, useEffect, memo } from 'react'
+import { theme } from '../../../config/theme'
+import { GRID_LAYOUT, STICKY_SHADOW } from './gridColumns'
+
+interface ResizableColumnHeaderProps {
+  label: string
+  width: number
+  onResize: (width: number) => void
+  isSticky?: boolean
+  stickyLeft?: number
+}
+
+function ResizableColumnHeaderBase({
+  label,
+  width,
+  onResize,
+  isSticky = false,
+  stickyLeft = 0,
+}: ResizableColumnHeaderProps) {
+  const [isResizing, setIsResizing] = useState(false)
+  const [isHovering, setIsHovering] = useState(false)
+  const startXRef = useRef(0)
+  const startWidthRef = useRef(0)
+  const rafRef = useRef<number | null>(null)
+
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsResizing(true)
+    startXRef.current = e.clientX
+    startWidthRef.current = width
+  }, [width])
+
+  // Track the drag on the document so it keeps working when the pointer leaves the header
+  useEffect(() => {
+    if (!isResizing) return
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current)
+      rafRef.current = requestAnimationFrame(() => {
+        const diff = e.clientX - startXRef.current
+        onResize(Math.max(GRID_LAYOUT.minColumnWidth, Math.min(GRID_LAYOUT.maxColumnWidth, startWidthRef.current + diff)))
+      })
+    }
+
+    const handleMouseUp = () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current)
+      setIsResizing(false)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+    document.body.style.cursor = 'col-resize'
+    document.body.style.userSelect = 'none'
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+      document.body.style.cursor = ''
+      document.body.style.userSelect = ''
+      if (rafRef.current) cancelAnimationFrame(rafRef.current)
+    }
+  }, [isResizing, onResize])
+
+  return (
+    <th
+      style={{
+        width,
+        minWidth: width,
+        maxWidth: width,
+        position: isSticky ? 'sticky' : 'relative',
+        left: isSticky ? stickyLeft : undefined,
+        zIndex: isSticky ? 3 : undefined,
+        backgroundColor: theme.bg.elevated,
+        borderBottom: `1px solid ${theme.border.default}`,
+        borderRight: isSticky ? `1px solid ${theme.border.subtle}` : undefined,
+        boxShadow: isSticky ? STICKY_SHADOW : undefined,
+        textAlign: 'left',
+        userSelect: 'none',
+        whiteSpace: 'nowrap',
+        padding: 0,
+      }}
+      onMouseEnter={() => setIsHovering(true)}
+      onMouseLeave={() => !isResizing && setIsHovering(false)}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          height: GRID_LAYOUT.headerHeight,
+          padding: `0 20px 0 ${GRID_LAYOUT.cellPaddingX}px`, // Extra right space for the handle
+        }}
+      >
+        <span
+          style={{
+            fontSize: theme.fontSize.xs,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.text.muted,
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+          }}
+        >
+          {label}
+        </span>
+      </div>
+
+      {/* Resize handle */}
+      <div
+        onMouseDown={handleMouseDown}
+        style={{
+          position: 'absolute',
+          top: 0,
+          right: 0,
+          width: 12,
+          height: '100%',
+          cursor: 'col-resize',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <div
+          style={{
+            width: 2,
+            height: 16,
+            borderRadius: 1,
+            backgroundColor: isResizing
+              ? theme.accent.primary
+              : isHovering
+                ? theme.border.strong
+                : 'transparent',
+            transition: theme.transition.fast,
+          }}
+        />
+      </div>
+    </th>
+  )
+}
+
+export const ResizableColumnHeader = memo(ResizableColumnHeaderBase)
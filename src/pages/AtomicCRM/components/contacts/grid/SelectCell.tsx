@@ -0,0 +1,183 @@
+import { useState, useRef, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Check, ChevronDown } from 'lucide-react'
+import { theme } from '../../../config/theme'
+import { GRID_LAYOUT, type CellMove } from './gridColumns'
+
+interface SelectCellProps {
+  value: string | null
+  options: { value: string; label: string; color?: string }[]
+  onChange: (value: string) => void
+  isEditing: boolean // Menu is open
+  onEndEdit: (move: CellMove) => void
+}
+
+// Colored pill for an option, falling back to plain text for values outside the list
+function OptionPill({ label, color }: { label: string; color?: string }) {
+  if (!color) {
+    return <span style={{ fontSize: theme.fontSize.sm, color: theme.text.primary }}>{label}</span>
+  }
+  return (
+    <span
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        padding: '3px 8px',
+        borderRadius: theme.radius.full,
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+        color,
+        backgroundColor: `${color}20`,
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {label}
+    </span>
+  )
+}
+
+export function SelectCell({ value, options, onChange, isEditing, onEndEdit }: SelectCellProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dropdownRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState({ top: 0, left: 0, width: 0 })
+  const [highlighted, setHighlighted] = useState(0)
+
+  // The table scrolls, so the menu is portaled and positioned against the viewport
+  useEffect(() => {
+    if (isEditing && containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect()
+      const menuHeight = Math.min(options.length * 36 + 8, 280)
+      const openUpward = window.innerHeight - rect.bottom < menuHeight && rect.top > menuHeight
+      setPosition({
+        top: openUpward ? rect.top - menuHeight - 4 : rect.bottom + 4,
+        left: rect.left,
+        width: Math.max(rect.width, 160),
+      })
+      setHighlighted(Math.max(0, options.findIndex(o => o.value === value)))
+    }
+  }, [isEditing]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const choose = (optionValue: string, move: CellMove) => {
+    if (optionValue !== value) onChange(optionValue)
+    onEndEdit(move)
+  }
+
+  // Close on click outside; arrows, Enter, Tab and Escape drive the open menu
+  useEffect(() => {
+    if (!isEditing) return
+    function handleClickOutside(e: MouseEvent) {
+      const target = e.target as Node
+      if (containerRef.current?.contains(target) || dropdownRef.current?.contains(target)) return
+      onEndEdit(null)
+    }
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setHighlighted(i => (i + step + options.length) % options.length)
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        const option = options[highlighted]
+        const move: CellMove = e.key === 'Tab' ? (e.shiftKey ? 'left' : 'right') : null
+        if (option) choose(option.value, move)
+        else onEndEdit(move)
+      } else if (e.key === 'Escape') {
+        e.preventDefault()
+        onEndEdit(null)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  })
+
+  const selected = options.find(o => o.value === value)
+
+  return (
+    <div ref={containerRef} style={{ width: '100%' }}>
+      <div
+        style={{
+          width: '100%',
+          height: GRID_LAYOUT.rowHeight,
+          padding: `0 ${GRID_LAYOUT.cellPaddingX}px`,
+          boxSizing: 'border-box',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 6,
+          cursor: 'default',
+          overflow: 'hidden',
+        }}
+      >
+        {value ? (
+          <OptionPill label={selected?.label || value} color={selected?.color} />
+        ) : (
+          <span style={{ fontSize: theme.fontSize.sm, color: theme.text.disabled }}>—</span>
+        )}
+        <ChevronDown size={12} style={{ color: theme.text.disabled, flexShrink: 0 }} />
+      </div>
+
+      {createPortal(
+        <AnimatePresence>
+          {isEditing && (
+            <motion.div
+              ref={dropdownRef}
+              initial={{ opacity: 0, y: -4, scale: 0.98 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -4, scale: 0.98 }}
+              transition={{ duration: 0.12, ease: 'easeOut' }}
+              style={{
+                position: 'fixed',
+                top: position.top,
+                left: position.left,
+                minWidth: position.width,
+                maxHeight: 280,
+                overflowY: 'auto',
+                padding: 4,
+                backgroundColor: theme.bg.elevated,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.lg,
+                boxShadow: theme.shadow.dropdown,
+                zIndex: 9999,
+              }}
+            >
+              {options.map((option, index) => {
+                const isSelected = option.value === value
+                return (
+                  <div
+                    key={option.value}
+                    onMouseDown={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      choose(option.value, null)
+                    }}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      padding: '7px 10px',
+                      borderRadius: theme.radius.md,
+                      backgroundColor: index === highlighted ? theme.bg.hover : 'transparent',
+                      cursor: 'pointer',
+                    }}
+                    onMouseEnter={() => setHighlighted(index)}
+                  >
+                    <span style={{ width: 14, display: 'flex', justifyContent: 'center' }}>
+                      {isSelected && <Check size={12} style={{ color: theme.accent.primaryLight }} />}
+                    </span>
+                    <OptionPill label={option.label} color={option.color} />
+                  </div>
+                )
+              })}
+            </motion.div>
+          )}
+        </AnimatePresence>,
+        document.body
+      )}
+    </div>
+  )
+}
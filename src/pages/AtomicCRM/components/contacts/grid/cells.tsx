@@ -0,0 +1,277 @@
+import { useState, useRef, useEffect } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { theme } from '../../../config/theme'
+import { GRID_LAYOUT, type CellMove } from './gridColumns'
+import {
+  formatDate,
+  formatDateForInput,
+  formatCurrency,
+  parseCurrency,
+  formatPhone,
+  extractDomain,
+  ensureProtocol,
+} from '../../../utils/formatters'
+
+const EMPTY = <span style={{ color: theme.text.disabled }}>—</span>
+
+// ============================================
+// EDITABLE CELL
+// ============================================
+// The grid decides when a cell is editing. Enter and Tab commit and move on,
+// Escape cancels, and clicking away commits in place.
+interface EditableCellProps {
+  value: string // Raw value shown in the input
+  onSave: (value: string) => void
+  isEditing: boolean
+  seed?: string | null // Key typed on the selected cell - replaces the value, like a spreadsheet
+  onEndEdit: (move: CellMove) => void
+  inputType?: 'text' | 'tel' | 'url' | 'date'
+  numeric?: boolean
+  placeholder?: string
+  align?: 'left' | 'right'
+  fontSize?: string
+  fontWeight?: number
+  children: React.ReactNode // Display when not editing
+}
+
+function EditableCell({
+  value,
+  onSave,
+  isEditing,
+  seed = null,
+  onEndEdit,
+  inputType = 'text',
+  numeric = false,
+  placeholder,
+  align = 'left',
+  fontSize = theme.fontSize.sm,
+  fontWeight = theme.fontWeight.normal,
+  children,
+}: EditableCellProps) {
+  const [editValue, setEditValue] = useState(value)
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Enter/Tab/Escape end the edit before the input blurs - don't save twice
+  const endedRef = useRef(false)
+
+  useEffect(() => {
+    if (!isEditing) return
+    endedRef.current = false
+    // Date inputs can't hold a partial typed value, so they always start from the current date
+    let startValue = value
+    if (seed !== null && inputType !== 'date') {
+      startValue = numeric && !/^[0-9.]$/.test(seed) ? '' : seed
+    }
+    setEditValue(startValue)
+    const input = inputRef.current
+    if (!input) return
+    input.focus()
+    if (inputType === 'date') return
+    if (seed !== null) {
+      input.setSelectionRange(startValue.length, startValue.length)
+    } else {
+      input.select()
+    }
+  }, [isEditing]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const finish = (save: boolean, move: CellMove) => {
+    if (endedRef.current) return
+    endedRef.current = true
+    if (save && editValue !== value) {
+      onSave(editValue)
+    }
+    onEndEdit(move)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep navigation keys away from the grid while typing
+    e.stopPropagation()
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      finish(true, e.shiftKey ? 'up' : 'down')
+    } else if (e.key === 'Tab') {
+      e.preventDefault()
+      finish(true, e.shiftKey ? 'left' : 'right')
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      finish(false, null)
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <input
+        ref={inputRef}
+        type={inputType}
+        inputMode={numeric ? 'numeric' : undefined}
+        value={editValue}
+        onChange={(e) => {
+          const next = e.target.value
+          if (!numeric || next === '' || /^[0-9]*\.?[0-9]*$/.test(next)) setEditValue(next)
+        }}
+        onBlur={() => finish(true, null)}
+        onKeyDown={handleKeyDown}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+        onCopy={(e) => e.stopPropagation()}
+        onPaste={(e) => e.stopPropagation()}
+        placeholder={placeholder}
+        style={{
+          width: '100%',
+          height: GRID_LAYOUT.rowHeight,
+          padding: `0 ${GRID_LAYOUT.cellPaddingX}px`,
+          boxSizing: 'border-box',
+          backgroundColor: theme.bg.elevated,
+          color: theme.text.primary,
+          fontSize,
+          fontWeight,
+          fontVariantNumeric: numeric ? 'tabular-nums' : undefined,
+          textAlign: align,
+          border: 'none',
+          outline: 'none',
+          boxShadow: `inset 0 0 0 2px ${theme.accent.primary}`,
+        }}
+      />
+    )
+  }
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: GRID_LAYOUT.rowHeight,
+        padding: `0 ${GRID_LAYOUT.cellPaddingX}px`,
+        boxSizing: 'border-box',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: align === 'right' ? 'flex-end' : 'flex-start',
+        cursor: 'default',
+        overflow: 'hidden',
+        whiteSpace: 'nowrap',
+        fontSize,
+        fontWeight,
+        fontVariantNumeric: numeric ? 'tabular-nums' : undefined,
+        color: theme.text.primary,
+      }}
+    >
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{children}</span>
+    </div>
+  )
+}
+
+// ============================================
+// TYPED CELLS
+// ============================================
+export interface CellProps<T> {
+  value: T | null
+  onChange: (value: T | null) => void
+  isEditing: boolean
+  seed?: string | null
+  onEndEdit: (move: CellMove) => void
+}
+
+export function TextCell({ value, onChange, isPrimary = false, ...edit }: CellProps<string> & { isPrimary?: boolean }) {
+  return (
+    <EditableCell
+      value={value || ''}
+      onSave={(next) => onChange(next.trim() || null)}
+      {...edit}
+      fontSize={isPrimary ? theme.fontSize.base : theme.fontSize.sm}
+      fontWeight={isPrimary ? theme.fontWeight.medium : theme.fontWeight.normal}
+    >
+      {value || EMPTY}
+    </EditableCell>
+  )
+}
+
+export function DateCell({ value, onChange, ...edit }: CellProps<string>) {
+  const display = formatDate(value)
+  return (
+    <EditableCell
+      value={formatDateForInput(value)}
+      onSave={(next) => onChange(next || null)}
+      inputType="date"
+      {...edit}
+    >
+      {display === '-' ? EMPTY : <span style={{ color: theme.text.muted }}>{display}</span>}
+    </EditableCell>
+  )
+}
+
+export function CurrencyCell({ value, onChange, ...edit }: CellProps<number>) {
+  const isLarge = value !== null && value >= 10000
+  return (
+    <EditableCell
+      value={value?.toString() || ''}
+      onSave={(next) => onChange(parseCurrency(next))}
+      numeric
+      placeholder="0"
+      align="right"
+      {...edit}
+      fontWeight={isLarge ? theme.fontWeight.medium : theme.fontWeight.normal}
+    >
+      {value === null ? EMPTY : (
+        <span style={{ color: isLarge ? theme.accent.primaryLight : theme.text.muted }}>
+          {formatCurrency(value)}
+        </span>
+      )}
+    </EditableCell>
+  )
+}
+
+export function PhoneCell({ value, onChange, ...edit }: CellProps<string>) {
+  return (
+    <EditableCell
+      value={value || ''}
+      onSave={(next) => onChange(next.trim() || null)}
+      inputType="tel"
+      placeholder="(555) 555-5555"
+      {...edit}
+    >
+      {value ? (
+        <a
+          href={`tel:${value}`}
+          onClick={(e) => e.stopPropagation()}
+          style={{ color: theme.text.muted, textDecoration: 'none' }}
+          onMouseEnter={(e) => e.currentTarget.style.textDecoration = 'underline'}
+          onMouseLeave={(e) => e.currentTarget.style.textDecoration = 'none'}
+        >
+          {formatPhone(value)}
+        </a>
+      ) : EMPTY}
+    </EditableCell>
+  )
+}
+
+export function UrlCell({ value, onChange, ...edit }: CellProps<string>) {
+  return (
+    <EditableCell
+      value={value || ''}
+      onSave={(next) => onChange(next.trim() || null)}
+      inputType="url"
+      placeholder="https://..."
+      {...edit}
+    >
+      {value ? (
+        <a
+          href={ensureProtocol(value)}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 4,
+            color: theme.status.info,
+            textDecoration: 'none',
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.textDecoration = 'underline'}
+          onMouseLeave={(e) => e.currentTarget.style.textDecoration = 'none'}
+        >
+          {extractDomain(value)}
+          <ExternalLink size={11} style={{ opacity: 0.6 }} />
+        </a>
+      ) : EMPTY}
+    </EditableCell>
+  )
+}
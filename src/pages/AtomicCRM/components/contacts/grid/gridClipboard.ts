@@ -0,0 +1,102 @@
+import type { Contact } from '../../../types'
+import type { GridColumn } from './gridColumns'
+import { formatDateForInput, parseCurrency } from '../../../utils/formatters'
+
+// Clipboard helpers for the contacts grid. Copies are written as TSV so they
+// paste straight into Google Sheets or Excel, and pastes from either parse back.
+
+/**
+ * Split TSV into rows of cells. Sheets quotes cells that contain tabs, newlines
+ * or quotes ("a ""b""" -> a "b"), so quoted cells may span lines.
+ */
+export function parseTsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let i = 0
+
+  // Drop the single trailing newline spreadsheets add after the last row
+  const input = text.replace(/\r\n?/g, '\n').replace(/\n$/, '')
+
+  while (i < input.length) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i += 2
+        continue
+      }
+      if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === '\t') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n') {
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+    i++
+  }
+
+  row.push(cell)
+  rows.push(row)
+  return rows
+}
+
+export function toTsv(rows: string[][]): string {
+  return rows
+    .map(row => row.map(cell => /[\t\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join('\t'))
+    .join('\n')
+}
+
+/** Plain-text value of a cell, as it's copied to the clipboard. */
+export function cellToText(contact: Contact, column: GridColumn): string {
+  if (column.key === 'pipeline') return ''
+  const value = contact[column.key]
+  if (value === null || value === undefined) return ''
+
+  switch (column.type) {
+    case 'select':
+      return column.options?.find(o => o.value === value)?.label || String(value)
+    case 'date':
+      return formatDateForInput(String(value))
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Value to store for pasted text, or undefined when the text doesn't fit the
+ * column (unknown option, unparseable date) and the cell should be left alone.
+ */
+export function parseCellText(column: GridColumn, text: string): unknown {
+  const trimmed = text.trim()
+  if (column.key === 'pipeline' || column.readOnly) return undefined
+  if (!trimmed) return null
+
+  switch (column.type) {
+    case 'select': {
+      const lower = trimmed.toLowerCase()
+      const match = column.options?.find(o => o.value.toLowerCase() === lower || o.label.toLowerCase() === lower)
+      return match ? match.value : undefined
+    }
+    case 'date':
+      return formatDateForInput(trimmed) || undefined
+    case 'currency': {
+      const amount = parseCurrency(trimmed)
+      return amount === null ? undefined : amount
+    }
+    default:
+      return trimmed
+  }
+}
@@ -0,0 +1,54 @@
+import type { Contact } from '../../../types'
+import { STAGE_OPTIONS, LEAD_SOURCE_OPTIONS } from '../ContactModal'
+
+export type GridColumnType = 'text' | 'select' | 'date' | 'currency' | 'phone' | 'url' | 'pipeline'
+
+export interface GridColumn {
+  key: keyof Contact | 'pipeline'
+  label: string
+  type: GridColumnType
+  width: number
+  options?: { value: string; label: string; color?: string }[]
+  readOnly?: boolean
+}
+
+// Spreadsheet columns for the contacts grid view. The first column stays pinned while scrolling.
+export const GRID_COLUMNS: GridColumn[] = [
+  { key: 'full_name', label: 'Lead Name', type: 'text', width: 180 },
+  { key: 'company', label: 'Organization', type: 'text', width: 160 },
+  { key: 'stage', label: 'Stage', type: 'select', width: 140, options: STAGE_OPTIONS },
+  { key: 'pipeline', label: 'Pipeline', type: 'pipeline', width: 140 },
+  { key: 'lead_source', label: 'Source', type: 'select', width: 130, options: LEAD_SOURCE_OPTIONS },
+  { key: 'meeting_date', label: 'Meeting Date', type: 'date', width: 130 },
+  { key: 'epv', label: 'Est. Value', type: 'currency', width: 110 },
+  { key: 'lead_phone', label: 'Lead Phone', type: 'phone', width: 140 },
+  { key: 'company_phone', label: 'Company Phone', type: 'phone', width: 140 },
+  { key: 'linkedin_url', label: 'LinkedIn', type: 'url', width: 130 },
+  { key: 'email', label: 'Email', type: 'text', width: 200 },
+  { key: 'context', label: 'Context', type: 'text', width: 200 },
+  { key: 'next_touchpoint', label: 'Next Touch', type: 'date', width: 130 },
+  { key: 'industry', label: 'Industry', type: 'text', width: 130 },
+  { key: 'assignee', label: 'Assignee', type: 'text', width: 120 },
+  { key: 'created_at', label: 'Created', type: 'date', width: 120, readOnly: true },
+]
+
+export const GRID_LAYOUT = {
+  rowHeight: 44,
+  headerHeight: 40,
+  cellPaddingX: 12,
+  checkboxColumnWidth: 44,
+  actionColumnWidth: 72,
+  minColumnWidth: 80,
+  maxColumnWidth: 500,
+} as const
+
+// Shadow on the pinned column's right edge
+export const STICKY_SHADOW = '4px 0 8px -2px rgba(0, 0, 0, 0.4)'
+
+// Where the active cell goes after an edit is committed (null stays put)
+export type CellMove = 'up' | 'down' | 'left' | 'right' | null
+
+export interface CellPosition {
+  row: number
+  col: number
+}
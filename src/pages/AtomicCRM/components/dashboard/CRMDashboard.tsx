@@ -8,10 +8,10 @@ import {
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
 import { Card, CardHeader, Badge, LoadingSkeleton } from '../shared'
-import { DEAL_STAGE_INFO, type DealStage } from '../../types'
+import { boardStage, getStageInfo, isOpenDeal } from '../../utils/pipelineStages'
 
 export function CRMDashboard() {
-  const { contacts, deals, tasks, loading, initialLoadComplete } = useCRM()
+  const { contacts, deals, tasks, pipelineStages, loading, initialLoadComplete } = useCRM()
   
   // Skip animations after initial load for instant tab switching
   const animationDuration = initialLoadComplete ? 0 : 0.3
@@ -26,13 +26,13 @@ export function CRMDashboard() {
     const uniqueCompanies = new Set(contacts.map(c => c.company).filter(Boolean)).size
     
     // Deal stats
-    const activeDeals = deals.filter(d => d.stage !== 'closed' && d.stage !== 'lost')
+    const activeDeals = deals.filter(d => isOpenDeal(pipelineStages, d))
     const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.amount || 0), 0)
     const weightedPipeline = activeDeals.reduce(
       (sum, d) => sum + ((d.amount || 0) * (d.probability || 0) / 100), 
       0
     )
-    const wonDeals = deals.filter(d => d.stage === 'closed')
+    const wonDeals = deals.filter(d => getStageInfo(pipelineStages, d.stage).outcome === 'won')
     const wonValue = wonDeals.reduce((sum, d) => sum + (d.amount || 0), 0)
     
     // Task stats
@@ -58,7 +58,7 @@ export function CRMDashboard() {
       overdueTasks: overdueTasks.length,
       todayTasks: todayTasks.length,
     }
-  }, [contacts, deals, tasks])
+  }, [contacts, deals, tasks, pipelineStages])
   
   // Recent deals with contact info
   const recentDeals = useMemo(() => {
@@ -81,13 +81,15 @@ export function CRMDashboard() {
   
   // Deal stage breakdown
   const stageBreakdown = useMemo(() => {
-    const stages: DealStage[] = ['interested', 'discovery', 'demo', 'negotiation', 'proposal']
-    return stages.map(stage => ({
-      stage,
-      count: deals.filter(d => d.stage === stage).length,
-      value: deals.filter(d => d.stage === stage).reduce((sum, d) => sum + (d.amount || 0), 0),
-    }))
-  }, [deals])
+    return pipelineStages.filter(s => s.outcome === 'open').map(({ key: stage }) => {
+      const stageDeals = deals.filter(d => boardStage(pipelineStages, d.stage) === stage)
+      return {
+        stage,
+        count: stageDeals.length,
+        value: stageDeals.reduce((sum, d) => sum + (d.amount || 0), 0),
+      }
+    })
+  }, [deals, pipelineStages])
   
   if (loading.deals || loading.tasks || loading.contacts) {
     return (
@@ -224,7 +226,7 @@ export function CRMDashboard() {
             <CardHeader title="Pipeline by Stage" subtitle="Active opportunities" />
             <div style={{ display: 'flex', flexDirection: 'column', gap: 12, flex: 1 }}>
               {stageBreakdown.map(({ stage, count, value }, index) => {
-                const info = DEAL_STAGE_INFO[stage]
+                const info = getStageInfo(pipelineStages, stage)
                 const maxValue = Math.max(...stageBreakdown.map(s => s.value))
                 const percentage = maxValue > 0 ? (value / maxValue) * 100 : 0
                 
@@ -328,7 +330,7 @@ export function CRMDashboard() {
               <div style={{ display: 'flex', flexDirection: 'column', gap: 12, flex: 1 }}>
                 <AnimatePresence>
                   {recentDeals.map((deal, index) => {
-                    const info = DEAL_STAGE_INFO[deal.stage]
+                    const info = getStageInfo(pipelineStages, deal.stage)
                     return (
                       <motion.div
                         key={deal.id}
@@ -372,7 +374,7 @@ export function CRMDashboard() {
                             {deal.contact?.company || deal.contact?.full_name || 'No contact'}
                           </p>
                         </div>
-                        <Badge color={info.color} bgColor={info.bgColor}>
+                        <Badge color={info.color} bgColor={info.bg_color}>
                           {info.label}
                         </Badge>
                         <span
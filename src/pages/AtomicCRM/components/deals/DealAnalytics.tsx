@@ -0,0 +1,223 @@
+import { useState, useEffect, useMemo } from 'react'
+import { AlertCircle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Badge, LoadingSkeleton } from '../shared'
+import type { Deal, DealStageChange } from '../../types'
+import { buildSpansByDeal, computeStageAnalytics, findStalledDeals, formatDuration } from '../../utils/dealStages'
+import { getStageInfo } from '../../utils/pipelineStages'
+
+const STALLED_DAY_OPTIONS = [7, 14, 30, 60]
+
+interface DealAnalyticsProps {
+  deals: Deal[]
+  onOpenDeal: (deal: Deal) => void
+}
+
+// Time-in-stage, stage conversion and stalled deals for the deals on the board
+export function DealAnalytics({ deals, onOpenDeal }: DealAnalyticsProps) {
+  const { fetchDealStageHistory, pipelineStages } = useCRM()
+  const [changes, setChanges] = useState<DealStageChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [stalledDays, setStalledDays] = useState(14)
+
+  // Moves (ours or a teammate's) add history rows, so refetch when any stage changes
+  const stageSignature = useMemo(() => deals.map(d => `${d.id}:${d.stage}`).sort().join(','), [deals])
+  useEffect(() => {
+    let cancelled = false
+    fetchDealStageHistory().then(result => {
+      if (cancelled) return
+      setChanges(result)
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [stageSignature, fetchDealStageHistory])
+
+  const spansByDeal = useMemo(() => buildSpansByDeal(deals, changes), [deals, changes])
+  const analytics = useMemo(() => computeStageAnalytics(deals, spansByDeal, pipelineStages), [deals, spansByDeal, pipelineStages])
+  const stalled = useMemo(
+    () => findStalledDeals(deals, spansByDeal, stalledDays, pipelineStages),
+    [deals, spansByDeal, stalledDays, pipelineStages]
+  )
+
+  if (loading) {
+    return <LoadingSkeleton rows={6} />
+  }
+
+  const byStage = new Map(analytics.map(a => [a.stage, a]))
+  const openStageStats = pipelineStages.filter(s => s.outcome === 'open').map(s => byStage.get(s.key)!)
+  // Conversion is shown for each forward step that has a next step
+  const funnel = pipelineStages.filter(s => s.outcome !== 'lost')
+  const countByOutcome = (outcome: 'won' | 'lost') => pipelineStages
+    .filter(s => s.outcome === outcome)
+    .reduce((sum, s) => sum + byStage.get(s.key)!.current_count, 0)
+  const longestAverage = Math.max(0, ...openStageStats.map(a => a.average_ms ?? 0))
+
+  return (
+    <div style={{ flex: 1, overflowY: 'auto', padding: 20 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(420px, 1fr))', gap: 20 }}>
+        {/* Time in stage */}
+        <Card padding="lg">
+          <CardHeader title="Time in Stage" subtitle="Average stay for deals that have moved on" />
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 14 }}>
+            {openStageStats.map(stat => {
+              const info = getStageInfo(pipelineStages, stat.stage)
+              return (
+                <div key={stat.stage}>
+                  <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: 8, marginBottom: 6 }}>
+                    <span style={{ fontSize: theme.fontSize.sm, color: theme.text.primary }}>{info.label}</span>
+                    <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+                      {stat.average_ms !== null ? formatDuration(stat.average_ms) : '-'}
+                      <span style={{ color: theme.text.muted }}>
+                        {' '}• {stat.stays} {stat.stays === 1 ? 'stay' : 'stays'} • {stat.current_count} now
+                      </span>
+                    </span>
+                  </div>
+                  <div style={{ height: 6, borderRadius: theme.radius.full, backgroundColor: theme.bg.muted, overflow: 'hidden' }}>
+                    <div
+                      style={{
+                        height: '100%',
+                        width: longestAverage > 0 ? `${((stat.average_ms ?? 0) / longestAverage) * 100}%` : 0,
+                        backgroundColor: info.color,
+                        borderRadius: theme.radius.full,
+                      }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </Card>
+
+        {/* Stage-to-stage conversion */}
+        <Card padding="lg">
+          <CardHeader title="Stage Conversion" subtitle="Deals that reached a stage and got past it" />
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 14 }}>
+            {funnel.slice(0, -1).map(({ key: stage, label }, i) => {
+              const stat = byStage.get(stage)!
+              const next = funnel[i + 1]
+              const rate = stat.reached > 0 ? stat.converted / stat.reached : null
+              return (
+                <div key={stage} style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+                  <span style={{ flex: 1, fontSize: theme.fontSize.sm, color: theme.text.primary }}>
+                    {label}
+                    <span style={{ color: theme.text.muted }}> → {next.label}</span>
+                  </span>
+                  <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                    {stat.converted} of {stat.reached}
+                  </span>
+                  <span
+                    style={{
+                      width: 48,
+                      textAlign: 'right',
+                      fontSize: theme.fontSize.sm,
+                      fontWeight: theme.fontWeight.semibold,
+                      color: rate === null ? theme.text.muted : theme.text.primary,
+                    }}
+                  >
+                    {rate === null ? '-' : `${Math.round(rate * 100)}%`}
+                  </span>
+                </div>
+              )
+            })}
+            <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: 0 }}>
+              {countByOutcome('won')} won • {countByOutcome('lost')} lost
+            </p>
+          </div>
+        </Card>
+      </div>
+
+      {/* Stalled deals */}
+      <Card padding="lg" style={{ marginTop: 20 }}>
+        <CardHeader
+          title="Stalled Deals"
+          subtitle={`Open deals in the same stage for over ${stalledDays} days`}
+          action={
+            <div role="radiogroup" aria-label="Stalled after" style={{ display: 'flex', gap: 4 }}>
+              {STALLED_DAY_OPTIONS.map(days => {
+                const isActive = days === stalledDays
+                return (
+                  <button
+                    key={days}
+                    role="radio"
+                    aria-checked={isActive}
+                    onClick={() => setStalledDays(days)}
+                    style={{
+                      padding: '4px 10px',
+                      fontSize: theme.fontSize.xs,
+                      fontWeight: theme.fontWeight.medium,
+                      color: isActive ? theme.text.primary : theme.text.muted,
+                      backgroundColor: isActive ? theme.bg.active : 'transparent',
+                      border: `1px solid ${isActive ? theme.border.strong : theme.border.default}`,
+                      borderRadius: theme.radius.md,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {days}d
+                  </button>
+                )
+              })}
+            </div>
+          }
+        />
+        {stalled.length === 0 ? (
+          <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>
+            No open deals have been stuck that long.
+          </p>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            {stalled.map(({ deal, since, duration_ms }) => {
+              const info = getStageInfo(pipelineStages, deal.stage)
+              return (
+                <button
+                  key={deal.id}
+                  onClick={() => onOpenDeal(deal)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 12,
+                    padding: '10px 8px',
+                    background: 'transparent',
+                    border: 'none',
+                    borderBottom: `1px solid ${theme.border.subtle}`,
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                    transition: `background-color ${theme.transition.fast}`,
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  <AlertCircle size={14} style={{ color: theme.status.warning, flexShrink: 0 }} />
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div
+                      style={{
+                        fontSize: theme.fontSize.sm,
+                        fontWeight: theme.fontWeight.medium,
+                        color: theme.text.primary,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {deal.name}
+                    </div>
+                    {deal.contact?.company && (
+                      <div style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>{deal.contact.company}</div>
+                    )}
+                  </div>
+                  <Badge color={info.color} bgColor={info.bg_color}>{info.label}</Badge>
+                  <span
+                    title={`Since ${new Date(since).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                    style={{ width: 72, textAlign: 'right', fontSize: theme.fontSize.sm, color: theme.status.warning }}
+                  >
+                    {formatDuration(duration_ms)}
+                  </span>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -1,10 +1,23 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { DollarSign, Users, Calendar, Percent, FileText, Trash2, ExternalLink } from 'lucide-react'
+import { DollarSign, Users, Calendar, Percent, FileText, Trash2, ExternalLink, History, ClipboardList, Timer } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { SlidePanel, PanelFooter, Button, Input, Select, Textarea } from '../shared'
-import { DEAL_STAGES, DEAL_STAGE_INFO, type Deal, type DealStage } from '../../types'
+import { SlidePanel, PanelFooter, PanelTabs, Button, Input, Select, Textarea, PresenceAvatars, RemoteChangeNotice } from '../shared'
+import { ActivityTimeline } from '../activity/ActivityTimeline'
+import { AuditHistory } from '../activity/AuditHistory'
+import { DealStageTimeline } from './DealStageTimeline'
+import { TagPicker } from '../tags/TagPicker'
+import type { Deal, DealStage } from '../../types'
+import { firstOpenStage, getStageInfo } from '../../utils/pipelineStages'
+
+type PanelTab = 'details' | 'stages' | 'history'
+
+const PANEL_TABS: { value: PanelTab; label: string; icon: React.ReactNode }[] = [
+  { value: 'details', label: 'Details', icon: <DollarSign size={14} /> },
+  { value: 'stages', label: 'Stages', icon: <Timer size={14} /> },
+  { value: 'history', label: 'History', icon: <ClipboardList size={14} /> },
+]
 
 interface DealModalProps {
   isOpen: boolean
@@ -14,21 +27,35 @@ interface DealModalProps {
 }
 
 export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProps) {
-  const { contacts, createDeal, updateDeal, deleteDeal, error } = useCRM()
+  const {
+    contacts,
+    deals,
+    pipelineStages,
+    createDeal,
+    updateDeal,
+    deleteDeal,
+    error,
+    presenceUsers,
+    setPresenceViewing,
+    remoteChanges,
+    clearRemoteChange,
+  } = useCRM()
   const navigate = useNavigate()
   const [loading, setLoading] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState<PanelTab>('details')
   const originalAmountRef = useRef<number | null>(null)
   
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     contact_id: '',
-    stage: 'lead' as DealStage,
+    stage: '' as DealStage,
     amount: '',
     probability: '',
     expected_close_date: '',
+    tags: [] as string[],
   })
   
   // Build contact options with company name
@@ -40,13 +67,14 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
     }))
   ]
   
-  const stageOptions = DEAL_STAGES.map(stage => ({
-    value: stage,
-    label: DEAL_STAGE_INFO[stage].label,
-  }))
+  // A deal in a stage the pipeline no longer has keeps it listed until it's moved
+  const stageOptions = pipelineStages.map(stage => ({ value: stage.key, label: stage.label }))
+  if (formData.stage && !pipelineStages.some(s => s.key === formData.stage)) {
+    stageOptions.push({ value: formData.stage, label: getStageInfo(pipelineStages, formData.stage).label })
+  }
   
-  // Reset form when deal changes
-  useEffect(() => {
+  // Fill the form from a deal record, or defaults for a new deal
+  const resetForm = useCallback((deal: Deal | null) => {
     if (deal) {
       // Store original amount to check if it was null/0
       originalAmountRef.current = deal.amount ?? null
@@ -54,33 +82,68 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
         name: deal.name || '',
         description: deal.description || '',
         contact_id: deal.contact_id || '',
-        stage: deal.stage || 'lead',
+        stage: deal.stage || firstOpenStage(pipelineStages),
         amount: (deal.amount && deal.amount > 0) ? deal.amount.toString() : '',
         probability: deal.probability?.toString() || '',
         expected_close_date: deal.expected_close_date || '',
+        tags: deal.tags || [],
       })
     } else {
       originalAmountRef.current = null
+      const stage = defaultStage || firstOpenStage(pipelineStages)
       setFormData({
         name: '',
         description: '',
         contact_id: '',
-        stage: defaultStage || 'interested',
+        stage,
         amount: '',
-        probability: DEAL_STAGE_INFO[defaultStage || 'interested'].probability.toString(),
+        probability: getStageInfo(pipelineStages, stage).probability.toString(),
         expected_close_date: '',
+        tags: [],
       })
     }
+  }, [defaultStage, pipelineStages])
+  
+  // Reset form when deal changes
+  useEffect(() => {
+    resetForm(deal)
     setShowDeleteConfirm(false)
     setFormError(null)
-  }, [deal, isOpen, defaultStage])
+  }, [deal, isOpen, resetForm])
+  
+  // Each deal opens on its details; saves re-render the deal, so key on the id
+  const dealId = deal?.id
+  useEffect(() => {
+    setActiveTab('details')
+  }, [dealId, isOpen])
+  
+  // Tell teammates which deal is open; edits made before opening don't count as conflicts
+  useEffect(() => {
+    if (!isOpen || !deal) return
+    clearRemoteChange(`deal:${deal.id}`)
+    setPresenceViewing({ type: 'deal', id: deal.id })
+    return () => setPresenceViewing(null)
+  }, [isOpen, deal, clearRemoteChange, setPresenceViewing])
+  
+  const changeKey = deal ? `deal:${deal.id}` : null
+  const remoteChangedAt = changeKey ? remoteChanges[changeKey] : undefined
+  const latestDeal = deal ? deals.find(d => d.id === deal.id) : undefined
+  const viewers = deal
+    ? presenceUsers.filter(p => p.viewing?.type === 'deal' && p.viewing.id === deal.id)
+    : []
+  const viewerNames = [...new Set(viewers.map(v => v.name))]
+  
+  const reloadRemoteChanges = () => {
+    if (latestDeal) resetForm(latestDeal)
+    if (changeKey) clearRemoteChange(changeKey)
+  }
   
   // Auto-update probability when stage changes
   const handleStageChange = (stage: DealStage) => {
     setFormData({
       ...formData,
       stage,
-      probability: DEAL_STAGE_INFO[stage].probability.toString(),
+      probability: getStageInfo(pipelineStages, stage).probability.toString(),
     })
   }
   
@@ -107,6 +170,7 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
         amount: parseFloat(formData.amount) || 0,
         probability: parseInt(formData.probability) || 0,
         expected_close_date: formData.expected_close_date || null,
+        tags: formData.tags,
       }
       
       if (deal) {
@@ -166,6 +230,7 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
   const amount = parseFloat(formData.amount) || 0
   const probability = parseInt(formData.probability) || 0
   const weightedValue = amount * (probability / 100)
+  const stageInfo = getStageInfo(pipelineStages, formData.stage)
   
   return (
     <SlidePanel
@@ -174,292 +239,343 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
       title={deal ? 'Edit Deal' : 'New Deal'}
       width={520}
     >
-      <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }} onKeyDown={handleKeyDown}>
-        {/* Deal Summary */}
-        {(amount > 0 || formData.name) && (
-          <div
-            style={{
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              padding: 16,
-              backgroundColor: theme.bg.muted,
-              borderRadius: theme.radius.lg,
-            }}
-          >
-            <div>
-              <p
-                style={{
-                  fontSize: theme.fontSize.lg,
-                  fontWeight: theme.fontWeight.semibold,
-                  color: theme.text.primary,
-                  margin: 0,
-                }}
-              >
-                {formData.name || 'New Deal'}
-              </p>
-              {selectedContact && (
-                <p
-                  style={{
-                    fontSize: theme.fontSize.sm,
-                    color: theme.text.secondary,
-                    margin: '4px 0',
-                  }}
-                >
-                  {selectedContact.full_name || selectedContact.email}
-                  {selectedContact.company && ` @ ${selectedContact.company}`}
-                </p>
-              )}
+      {deal && (
+        <div style={{ marginBottom: 20 }}>
+          <PanelTabs tabs={PANEL_TABS} value={activeTab} onChange={setActiveTab} />
+        </div>
+      )}
+      
+      {deal && activeTab === 'stages' ? (
+        <DealStageTimeline deal={latestDeal || deal} />
+      ) : deal && activeTab === 'history' ? (
+        <AuditHistory dealId={deal.id} />
+      ) : (
+        <>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }} onKeyDown={handleKeyDown}>
+            {viewerNames.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+                <PresenceAvatars users={viewers} label="Also viewing" />
+                {viewerNames.join(', ')} {viewerNames.length === 1 ? 'is' : 'are'} also viewing this deal
+              </div>
+            )}
+        
+            {remoteChangedAt && (
+              <RemoteChangeNotice
+                message={latestDeal
+                  ? `A teammate updated this deal at ${new Date(remoteChangedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}. Reload to see their changes, or save to overwrite them.`
+                  : 'A teammate deleted this deal.'}
+                onReload={latestDeal ? reloadRemoteChanges : undefined}
+                onDismiss={() => changeKey && clearRemoteChange(changeKey)}
+              />
+            )}
+        
+            {/* Deal Summary */}
+            {(amount > 0 || formData.name) && (
               <div
                 style={{
                   display: 'flex',
                   alignItems: 'center',
-                  gap: 8,
-                  marginTop: 4,
+                  justifyContent: 'space-between',
+                  padding: 16,
+                  backgroundColor: theme.bg.muted,
+                  borderRadius: theme.radius.lg,
                 }}
               >
-                <span
-                  style={{
-                    display: 'inline-flex',
-                    alignItems: 'center',
-                    gap: 4,
-                    padding: '2px 8px',
-                    borderRadius: theme.radius.full,
-                    backgroundColor: DEAL_STAGE_INFO[formData.stage].bgColor,
-                    color: DEAL_STAGE_INFO[formData.stage].color,
-                    fontSize: theme.fontSize.xs,
-                    fontWeight: theme.fontWeight.medium,
+                <div>
+                  <p
+                    style={{
+                      fontSize: theme.fontSize.lg,
+                      fontWeight: theme.fontWeight.semibold,
+                      color: theme.text.primary,
+                      margin: 0,
+                    }}
+                  >
+                    {formData.name || 'New Deal'}
+                  </p>
+                  {selectedContact && (
+                    <p
+                      style={{
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.secondary,
+                        margin: '4px 0',
+                      }}
+                    >
+                      {selectedContact.full_name || selectedContact.email}
+                      {selectedContact.company && ` @ ${selectedContact.company}`}
+                    </p>
+                  )}
+                  <div
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      marginTop: 4,
+                    }}
+                  >
+                    <span
+                      style={{
+                        display: 'inline-flex',
+                        alignItems: 'center',
+                        gap: 4,
+                        padding: '2px 8px',
+                        borderRadius: theme.radius.full,
+                        backgroundColor: stageInfo.bg_color,
+                        color: stageInfo.color,
+                        fontSize: theme.fontSize.xs,
+                        fontWeight: theme.fontWeight.medium,
+                      }}
+                    >
+                      {stageInfo.label}
+                    </span>
+                  </div>
+                </div>
+            
+                {amount > 0 && (
+                  <div style={{ textAlign: 'right' }}>
+                    <p
+                      style={{
+                        fontSize: theme.fontSize['2xl'],
+                        fontWeight: theme.fontWeight.bold,
+                        color: theme.status.success,
+                        margin: 0,
+                      }}
+                    >
+                      ${amount.toLocaleString()}
+                    </p>
+                    <p
+                      style={{
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.muted,
+                        margin: '2px 0 0 0',
+                      }}
+                    >
+                      ${weightedValue.toLocaleString()} weighted
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+        
+            {/* Deal Details Section */}
+            <div>
+              <SectionHeader icon={<DollarSign size={16} />} title="Deal Details" />
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+                <Input
+                  label="Deal Name *"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Enterprise Contract - Acme"
+                  style={{ gridColumn: '1 / -1' }}
+                />
+                <Select
+                  label="Stage"
+                  options={stageOptions}
+                  value={formData.stage}
+                  onChange={(v) => handleStageChange(v as DealStage)}
+                />
+                <Input
+                  label="Amount"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  onFocus={(e) => {
+                    // Clear field if original amount was null or 0
+                    const input = e.target as HTMLInputElement
+                    const currentValue = parseFloat(input.value) || 0
+                    if (currentValue === 0 && (originalAmountRef.current === null || originalAmountRef.current === 0)) {
+                      setFormData({ ...formData, amount: '' })
+                      // Use setTimeout to ensure the value is cleared before selecting
+                      setTimeout(() => input.select(), 0)
+                    }
                   }}
-                >
-                  {DEAL_STAGE_INFO[formData.stage].label}
-                </span>
+                  placeholder="50000"
+                  type="number"
+                  icon={<DollarSign size={14} />}
+                />
+                <Input
+                  label="Probability %"
+                  value={formData.probability}
+                  onChange={(e) => setFormData({ ...formData, probability: e.target.value })}
+                  placeholder="50"
+                  type="number"
+                  icon={<Percent size={14} />}
+                />
+                <Input
+                  label="Expected Close Date"
+                  value={formData.expected_close_date}
+                  onChange={(e) => setFormData({ ...formData, expected_close_date: e.target.value })}
+                  type="date"
+                  icon={<Calendar size={14} />}
+                />
+              </div>
+              <div style={{ marginTop: 16 }}>
+                <TagPicker
+                  label="Tags"
+                  entityType="deal"
+                  value={formData.tags}
+                  onChange={(tags) => setFormData({ ...formData, tags })}
+                />
               </div>
             </div>
-            
-            {amount > 0 && (
-              <div style={{ textAlign: 'right' }}>
-                <p
-                  style={{
-                    fontSize: theme.fontSize['2xl'],
-                    fontWeight: theme.fontWeight.bold,
-                    color: theme.status.success,
-                    margin: 0,
-                  }}
-                >
-                  ${amount.toLocaleString()}
-                </p>
+        
+            {/* Contact Section */}
+            <div>
+              <SectionHeader icon={<Users size={16} />} title="Related Contact" />
+              <Select
+                label="Contact"
+                options={contactOptions}
+                value={formData.contact_id}
+                onChange={(v) => setFormData({ ...formData, contact_id: v })}
+              />
+              {selectedContact && (
+                <div style={{ marginTop: 8 }}>
+                  {selectedContact.company && (
+                    <p
+                      style={{
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.muted,
+                        margin: '0 0 8px 0',
+                      }}
+                    >
+                      Company: {selectedContact.company}
+                      {selectedContact.industry && ` • ${selectedContact.industry}`}
+                    </p>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (selectedContact.id) {
+                        navigate(`/crm/contacts?contactId=${selectedContact.id}`)
+                        onClose()
+                      }
+                    }}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 6,
+                      padding: '6px 12px',
+                      backgroundColor: 'transparent',
+                      border: `1px solid ${theme.border.subtle}`,
+                      borderRadius: theme.radius.md,
+                      color: theme.text.secondary,
+                      fontSize: theme.fontSize.sm,
+                      cursor: 'pointer',
+                      transition: `all ${theme.transition.fast}`,
+                    }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.backgroundColor = theme.bg.hover
+                      e.currentTarget.style.color = theme.text.primary
+                      e.currentTarget.style.borderColor = theme.accent.primary
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.backgroundColor = 'transparent'
+                      e.currentTarget.style.color = theme.text.secondary
+                      e.currentTarget.style.borderColor = theme.border.subtle
+                    }}
+                  >
+                    <ExternalLink size={14} />
+                    View Contact
+                  </button>
+                </div>
+              )}
+            </div>
+        
+            {/* Description Section */}
+            <div>
+              <SectionHeader icon={<FileText size={16} />} title="Description" />
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Add notes about this deal..."
+                style={{ minHeight: 80 }}
+              />
+            </div>
+        
+            {/* Activity Section */}
+            {deal && (
+              <div>
+                <SectionHeader icon={<History size={16} />} title="Activity" />
+                <ActivityTimeline
+                  contactId={deal.contact_id}
+                  dealId={deal.id}
+                  email={deal.contact?.email || contacts.find(c => String(c.id) === String(deal.contact_id))?.email}
+                />
+              </div>
+            )}
+        
+            {/* Error Message */}
+            {formError && (
+              <div
+                style={{
+                  padding: 12,
+                  backgroundColor: theme.status.errorBg,
+                  borderRadius: theme.radius.lg,
+                  border: `1px solid ${theme.status.error}`,
+                }}
+              >
                 <p
                   style={{
                     fontSize: theme.fontSize.sm,
-                    color: theme.text.muted,
-                    margin: '2px 0 0 0',
+                    color: theme.status.error,
+                    margin: 0,
                   }}
                 >
-                  ${weightedValue.toLocaleString()} weighted
+                  {formError}
                 </p>
               </div>
             )}
           </div>
-        )}
-        
-        {/* Deal Details Section */}
-        <div>
-          <SectionHeader icon={<DollarSign size={16} />} title="Deal Details" />
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
-            <Input
-              label="Deal Name *"
-              value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-              placeholder="Enterprise Contract - Acme"
-              style={{ gridColumn: '1 / -1' }}
-            />
-            <Select
-              label="Stage"
-              options={stageOptions}
-              value={formData.stage}
-              onChange={(v) => handleStageChange(v as DealStage)}
-            />
-            <Input
-              label="Amount"
-              value={formData.amount}
-              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-              onFocus={(e) => {
-                // Clear field if original amount was null or 0
-                const input = e.target as HTMLInputElement
-                const currentValue = parseFloat(input.value) || 0
-                if (currentValue === 0 && (originalAmountRef.current === null || originalAmountRef.current === 0)) {
-                  setFormData({ ...formData, amount: '' })
-                  // Use setTimeout to ensure the value is cleared before selecting
-                  setTimeout(() => input.select(), 0)
-                }
+      
+          {/* Delete Confirmation */}
+          {showDeleteConfirm && deal && (
+            <div
+              style={{
+                marginTop: 20,
+                padding: 16,
+                backgroundColor: theme.status.errorBg,
+                borderRadius: theme.radius.lg,
+                border: `1px solid ${theme.status.error}`,
               }}
-              placeholder="50000"
-              type="number"
-              icon={<DollarSign size={14} />}
-            />
-            <Input
-              label="Probability %"
-              value={formData.probability}
-              onChange={(e) => setFormData({ ...formData, probability: e.target.value })}
-              placeholder="50"
-              type="number"
-              icon={<Percent size={14} />}
-            />
-            <Input
-              label="Expected Close Date"
-              value={formData.expected_close_date}
-              onChange={(e) => setFormData({ ...formData, expected_close_date: e.target.value })}
-              type="date"
-              icon={<Calendar size={14} />}
-            />
-          </div>
-        </div>
-        
-        {/* Contact Section */}
-        <div>
-          <SectionHeader icon={<Users size={16} />} title="Related Contact" />
-          <Select
-            label="Contact"
-            options={contactOptions}
-            value={formData.contact_id}
-            onChange={(v) => setFormData({ ...formData, contact_id: v })}
-          />
-          {selectedContact && (
-            <div style={{ marginTop: 8 }}>
-              {selectedContact.company && (
-                <p
-                  style={{
-                    fontSize: theme.fontSize.sm,
-                    color: theme.text.muted,
-                    margin: '0 0 8px 0',
-                  }}
-                >
-                  Company: {selectedContact.company}
-                  {selectedContact.industry && ` • ${selectedContact.industry}`}
-                </p>
-              )}
-              <button
-                onClick={() => {
-                  if (selectedContact.id) {
-                    navigate(`/crm/contacts?contactId=${selectedContact.id}`)
-                    onClose()
-                  }
-                }}
+            >
+              <p
                 style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: 6,
-                  padding: '6px 12px',
-                  backgroundColor: 'transparent',
-                  border: `1px solid ${theme.border.subtle}`,
-                  borderRadius: theme.radius.md,
-                  color: theme.text.secondary,
                   fontSize: theme.fontSize.sm,
-                  cursor: 'pointer',
-                  transition: `all ${theme.transition.fast}`,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = theme.bg.hover
-                  e.currentTarget.style.color = theme.text.primary
-                  e.currentTarget.style.borderColor = theme.accent.primary
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = 'transparent'
-                  e.currentTarget.style.color = theme.text.secondary
-                  e.currentTarget.style.borderColor = theme.border.subtle
+                  color: theme.status.error,
+                  margin: 0,
+                  marginBottom: 12,
                 }}
               >
-                <ExternalLink size={14} />
-                View Contact
-              </button>
+                Are you sure you want to delete this deal? This action cannot be undone.
+              </p>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <Button variant="danger" size="sm" onClick={handleDelete} loading={loading}>
+                  Yes, Delete
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(false)}>
+                  Cancel
+                </Button>
+              </div>
             </div>
           )}
-        </div>
-        
-        {/* Description Section */}
-        <div>
-          <SectionHeader icon={<FileText size={16} />} title="Description" />
-          <Textarea
-            value={formData.description}
-            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-            placeholder="Add notes about this deal..."
-            style={{ minHeight: 80 }}
-          />
-        </div>
-        
-        {/* Error Message */}
-        {formError && (
-          <div
-            style={{
-              padding: 12,
-              backgroundColor: theme.status.errorBg,
-              borderRadius: theme.radius.lg,
-              border: `1px solid ${theme.status.error}`,
-            }}
-          >
-            <p
-              style={{
-                fontSize: theme.fontSize.sm,
-                color: theme.status.error,
-                margin: 0,
-              }}
-            >
-              {formError}
-            </p>
-          </div>
-        )}
-      </div>
       
-      {/* Delete Confirmation */}
-      {showDeleteConfirm && deal && (
-        <div
-          style={{
-            marginTop: 20,
-            padding: 16,
-            backgroundColor: theme.status.errorBg,
-            borderRadius: theme.radius.lg,
-            border: `1px solid ${theme.status.error}`,
-          }}
-        >
-          <p
-            style={{
-              fontSize: theme.fontSize.sm,
-              color: theme.status.error,
-              margin: 0,
-              marginBottom: 12,
-            }}
-          >
-            Are you sure you want to delete this deal? This action cannot be undone.
-          </p>
-          <div style={{ display: 'flex', gap: 8 }}>
-            <Button variant="danger" size="sm" onClick={handleDelete} loading={loading}>
-              Yes, Delete
-            </Button>
-            <Button variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(false)}>
+          <PanelFooter>
+            {deal && !showDeleteConfirm && (
+              <Button
+                variant="ghost"
+                icon={<Trash2 size={16} />}
+                onClick={() => setShowDeleteConfirm(true)}
+                style={{ marginRight: 'auto' }}
+              >
+                Delete
+              </Button>
+            )}
+            <Button variant="secondary" onClick={onClose}>
               Cancel
             </Button>
-          </div>
-        </div>
+            <Button onClick={handleSubmit} loading={loading} disabled={!formData.name.trim()}>
+              {deal ? 'Save Changes' : 'Create Deal'}
+            </Button>
+          </PanelFooter>
+        </>
       )}
-      
-      <PanelFooter>
-        {deal && !showDeleteConfirm && (
-          <Button
-            variant="ghost"
-            icon={<Trash2 size={16} />}
-            onClick={() => setShowDeleteConfirm(true)}
-            style={{ marginRight: 'auto' }}
-          >
-            Delete
-          </Button>
-        )}
-        <Button variant="secondary" onClick={onClose}>
-          Cancel
-        </Button>
-        <Button onClick={handleSubmit} loading={loading} disabled={!formData.name.trim()}>
-          {deal ? 'Save Changes' : 'Create Deal'}
-        </Button>
-      </PanelFooter>
     </SlidePanel>
   )
 }
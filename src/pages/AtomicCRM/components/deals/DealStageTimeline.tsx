@@ -0,0 +1,130 @@
+import { useState, useEffect, useMemo } from 'react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import type { Deal, DealStageChange } from '../../types'
+import { buildStageSpans, formatDuration } from '../../utils/dealStages'
+import { getStageInfo } from '../../utils/pipelineStages'
+
+interface DealStageTimelineProps {
+  deal: Deal
+}
+
+// Every stage the deal has been in, with how long it stayed
+export function DealStageTimeline({ deal }: DealStageTimelineProps) {
+  const { fetchDealStageHistory, pipelineStages } = useCRM()
+  const [changes, setChanges] = useState<DealStageChange[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Refetch after a move so the new stage shows up
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    fetchDealStageHistory(deal.id).then(result => {
+      if (cancelled) return
+      setChanges(result)
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [deal.id, deal.stage, fetchDealStageHistory])
+
+  const spans = useMemo(() => buildStageSpans(deal, changes), [deal, changes])
+  const totalMs = spans.reduce((sum, span) => sum + span.duration_ms, 0)
+
+  if (loading) {
+    return <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>Loading stages...</p>
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+      {/* Share of the deal's life spent in each stage */}
+      {totalMs > 0 && (
+        <div>
+          <div
+            style={{
+              display: 'flex',
+              height: 8,
+              borderRadius: theme.radius.full,
+              overflow: 'hidden',
+              backgroundColor: theme.bg.muted,
+            }}
+          >
+            {spans.map((span, i) => (
+              <div
+                key={`${span.stage}-${i}`}
+                title={`${getStageInfo(pipelineStages, span.stage).label}: ${formatDuration(span.duration_ms)}`}
+                style={{
+                  width: `${(span.duration_ms / totalMs) * 100}%`,
+                  backgroundColor: getStageInfo(pipelineStages, span.stage).color,
+                }}
+              />
+            ))}
+          </div>
+          <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '6px 0 0 0' }}>
+            {formatDuration(totalMs)} since created
+          </p>
+        </div>
+      )}
+
+      {/* Newest stage first */}
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        {[...spans].reverse().map((span, i, ordered) => {
+          const info = getStageInfo(pipelineStages, span.stage)
+          const isCurrent = !span.exited_at
+          const isLast = i === ordered.length - 1
+          return (
+            <div key={`${span.stage}-${span.entered_at}`} style={{ display: 'flex', gap: 12 }}>
+              <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0, paddingTop: 4 }}>
+                <div
+                  style={{
+                    width: 10,
+                    height: 10,
+                    borderRadius: theme.radius.full,
+                    backgroundColor: info.color,
+                    boxShadow: isCurrent ? `0 0 0 3px ${info.bg_color}` : 'none',
+                  }}
+                />
+                {!isLast && (
+                  <div style={{ flex: 1, width: 1, minHeight: 12, marginTop: 4, backgroundColor: theme.border.subtle }} />
+                )}
+              </div>
+
+              <div style={{ flex: 1, minWidth: 0, paddingBottom: isLast ? 0 : 16 }}>
+                <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: 8 }}>
+                  <span style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.medium, color: theme.text.primary }}>
+                    {info.label}
+                    {isCurrent && (
+                      <span style={{ marginLeft: 8, fontSize: theme.fontSize.xs, color: theme.text.muted, fontWeight: theme.fontWeight.normal }}>
+                        current
+                      </span>
+                    )}
+                  </span>
+                  <span style={{ fontSize: theme.fontSize.sm, color: isCurrent ? info.color : theme.text.secondary, whiteSpace: 'nowrap' }}>
+                    {formatDuration(span.duration_ms)}
+                  </span>
+                </div>
+                <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '2px 0 0 0' }}>
+                  {formatTimestamp(span.entered_at)}
+                  {span.exited_at ? ` → ${formatTimestamp(span.exited_at)}` : ' → now'}
+                </p>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return value
+
+  const sameYear = date.getFullYear() === new Date().getFullYear()
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
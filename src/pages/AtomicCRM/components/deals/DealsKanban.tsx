@@ -1,11 +1,16 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { DollarSign, Plus, Building2, Calendar, MoreHorizontal, Trash2, Edit2, ArrowUpDown, Filter } from 'lucide-react'
+import { DollarSign, Plus, Building2, Calendar, MoreHorizontal, Trash2, Edit2, ArrowUpDown, Filter, Download, Check, Tag, Columns3, BarChart3 } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { SearchInput, Avatar, LoadingSkeleton } from '../shared'
+import { SearchInput, Avatar, LoadingSkeleton, ExportModal, PresenceAvatars } from '../shared'
 import { DealModal } from './DealModal'
-import { DEAL_STAGES, DEAL_STAGE_INFO, type Deal, type DealStage } from '../../types'
+import { DealAnalytics } from './DealAnalytics'
+import { TagChips, getTagColor } from '../tags/TagChip'
+import { TagManagerModal } from '../tags/TagManagerModal'
+import type { Deal, DealStage, PipelineStageDraft } from '../../types'
+import { boardStage, getStageInfo, isOpenDeal } from '../../utils/pipelineStages'
+import { dealExportColumns } from '../../utils/export'
 
 // Sort types for deals
 type SortDirection = 'asc' | 'desc'
@@ -23,8 +28,15 @@ const DEAL_SORT_FIELDS = [
   { key: 'company', label: 'Company' },
 ] as const
 
+type DealsView = 'board' | 'analytics'
+
+const DEALS_VIEW_OPTIONS = [
+  { value: 'board', label: 'Board', icon: Columns3 },
+  { value: 'analytics', label: 'Analytics', icon: BarChart3 },
+] as const
+
 export function DealsKanban() {
-  const { deals, loading, moveDealToStage, deleteDeal } = useCRM()
+  const { deals, tags, pipelineStages, loading, moveDealToStage, deleteDeal, presenceUsers } = useCRM()
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null)
   // Track selected deal index for keyboard navigation
@@ -38,7 +50,11 @@ export function DealsKanban() {
   const [sortRule, setSortRule] = useState<DealSortRule | null>(null)
   const [showSortMenu, setShowSortMenu] = useState(false)
   const [stageFilter, setStageFilter] = useState<DealStage | 'all'>('all')
+  const [tagFilter, setTagFilter] = useState<string[]>([]) // Deals with any of these tags
   const [showFilterMenu, setShowFilterMenu] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false)
+  const [view, setView] = useState<DealsView>('board')
   const sortRef = useRef<HTMLDivElement>(null)
   const filterRef = useRef<HTMLDivElement>(null)
   
@@ -62,7 +78,12 @@ export function DealsKanban() {
     
     // Apply stage filter
     if (stageFilter !== 'all') {
-      result = result.filter(d => d.stage === stageFilter)
+      result = result.filter(d => boardStage(pipelineStages, d.stage) === stageFilter)
+    }
+    
+    // Apply tag filter
+    if (tagFilter.length > 0) {
+      result = result.filter(d => d.tags?.some(tag => tagFilter.includes(tag)))
     }
     
     // Apply search filter
@@ -101,58 +122,72 @@ export function DealsKanban() {
     }
     
     return result
-  }, [deals, searchQuery, stageFilter, sortRule])
+  }, [deals, pipelineStages, searchQuery, stageFilter, tagFilter, sortRule])
+  
+  // Tag filter options: managed deal tags plus any other names on deals
+  const dealTagNames = useMemo(() => {
+    const names = new Map<string, string>()
+    tags.filter(t => t.entity_type === 'deal').forEach(t => names.set(t.name.toLowerCase(), t.name))
+    deals.forEach(d => d.tags?.forEach(name => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name)
+    }))
+    return [...names.values()].sort((a, b) => a.localeCompare(b))
+  }, [tags, deals])
+  
+  const activeFilterCount = (stageFilter !== 'all' ? 1 : 0) + tagFilter.length
+  
+  const exportColumns = useMemo(() => dealExportColumns(pipelineStages), [pipelineStages])
+  
+  const toggleTagFilter = (name: string) => {
+    setTagFilter(prev => prev.includes(name) ? prev.filter(t => t !== name) : [...prev, name])
+  }
+  
+  // Open stages are the board's columns; won and lost stages stack on the right
+  const activeStages = useMemo(() => pipelineStages.filter(s => s.outcome === 'open'), [pipelineStages])
+  const closedStages = useMemo(() => pipelineStages.filter(s => s.outcome !== 'open'), [pipelineStages])
+  const stageOrder = useMemo(() => [...activeStages, ...closedStages].map(s => s.key), [activeStages, closedStages])
   
   // Group deals by stage
   const dealsByStage = useMemo(() => {
-    const grouped: Record<DealStage, Deal[]> = {
-      interested: [],
-      discovery: [],
-      demo: [],
-      negotiation: [],
-      proposal: [],
-      closed: [],
-      lost: [],
-    }
+    const grouped: Record<DealStage, Deal[]> = {}
+    stageOrder.forEach(stage => {
+      grouped[stage] = []
+    })
     
     filteredDeals.forEach(deal => {
-      if (deal.stage in grouped) {
-        grouped[deal.stage].push(deal)
-      }
+      grouped[boardStage(pipelineStages, deal.stage)]?.push(deal)
     })
     
     // Sort by index within each stage
     Object.keys(grouped).forEach(stage => {
-      grouped[stage as DealStage].sort((a, b) => a.index - b.index)
+      grouped[stage].sort((a, b) => a.index - b.index)
     })
     
     return grouped
-  }, [filteredDeals])
+  }, [filteredDeals, pipelineStages, stageOrder])
   
   // Calculate stage totals
   const stageTotals = useMemo(() => {
-    const totals: Record<DealStage, number> = {} as Record<DealStage, number>
-    DEAL_STAGES.forEach(stage => {
+    const totals: Record<DealStage, number> = {}
+    stageOrder.forEach(stage => {
       totals[stage] = dealsByStage[stage].reduce((sum, d) => sum + (d.amount || 0), 0)
     })
     return totals
-  }, [dealsByStage])
+  }, [dealsByStage, stageOrder])
   
   // Flatten all deals for keyboard navigation (sorted by stage and index)
   const allDealsFlat = useMemo(() => {
-    const stageOrder: DealStage[] = ['interested', 'discovery', 'demo', 'negotiation', 'proposal', 'closed', 'lost']
     const flat: Deal[] = []
     stageOrder.forEach(stage => {
       flat.push(...dealsByStage[stage])
     })
     return flat
-  }, [dealsByStage])
+  }, [dealsByStage, stageOrder])
   
   // Create a 2D grid structure for navigation: [stage][index]
   const dealsGrid = useMemo(() => {
-    const stageOrder: DealStage[] = ['interested', 'discovery', 'demo', 'negotiation', 'proposal', 'closed', 'lost']
     return stageOrder.map(stage => dealsByStage[stage])
-  }, [dealsByStage])
+  }, [dealsByStage, stageOrder])
   
   // Find current deal position in grid
   const findDealPosition = useCallback((dealId: string | undefined) => {
@@ -174,6 +209,9 @@ export function DealsKanban() {
       const target = e.target as HTMLElement
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return
       
+      // Arrow keys move around the board only
+      if (view !== 'board') return
+      
       // Don't handle if no deals available
       if (allDealsFlat.length === 0) return
       
@@ -291,7 +329,7 @@ export function DealsKanban() {
     
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedDeal, allDealsFlat, dealsGrid, findDealPosition, isModalOpen])
+  }, [view, selectedDeal, allDealsFlat, dealsGrid, findDealPosition, isModalOpen])
   
   // Update selected index when deal changes (instant, no delay)
   useEffect(() => {
@@ -328,10 +366,6 @@ export function DealsKanban() {
     return <LoadingSkeleton rows={6} />
   }
   
-  // Only show active stages (not closed/lost by default for cleaner view)
-  const activeStages = DEAL_STAGES.filter(s => s !== 'closed' && s !== 'lost')
-  const closedStages = ['closed', 'lost'] as DealStage[]
-  
   return (
     <div 
       ref={containerRef}
@@ -363,16 +397,20 @@ export function DealsKanban() {
           <DollarSign size={24} style={{ color: theme.entity.deal }} />
           Deals Pipeline
         </h1>
-        <p
-          style={{
-            fontSize: '1.02rem',
-            color: theme.text.muted,
-            margin: 0,
-          }}
-        >
-          {filteredDeals.length} of {deals.length} {deals.length === 1 ? 'deal' : 'deals'} • 
-          ${formatCurrency(filteredDeals.filter(d => d.stage !== 'lost').reduce((sum, d) => sum + (d.amount || 0), 0))} pipeline value
-        </p>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+          <PresenceAvatars users={presenceUsers} />
+          <DealsViewToggle value={view} onChange={setView} />
+          <p
+            style={{
+              fontSize: '1.02rem',
+              color: theme.text.muted,
+              margin: 0,
+            }}
+          >
+            {filteredDeals.length} of {deals.length} {deals.length === 1 ? 'deal' : 'deals'} • 
+            ${formatCurrency(filteredDeals.filter(d => isOpenDeal(pipelineStages, d)).reduce((sum, d) => sum + (d.amount || 0), 0))} pipeline value
+          </p>
+        </div>
       </div>
       
       {/* Search & Filter/Sort Bar */}
@@ -545,7 +583,7 @@ export function DealsKanban() {
           >
             <Filter size={14} />
             <span>Filter</span>
-            {stageFilter !== 'all' && (
+            {activeFilterCount > 0 && (
               <span style={{ 
                 backgroundColor: 'rgba(255, 255, 255, 0.25)', 
                 color: '#fff', 
@@ -554,7 +592,7 @@ export function DealsKanban() {
                 fontSize: theme.fontSize.xs,
                 fontWeight: theme.fontWeight.semibold,
               }}>
-                1
+                {activeFilterCount}
               </span>
             )}
           </button>
@@ -606,7 +644,7 @@ export function DealsKanban() {
                   >
                     All Stages
                   </button>
-                  {DEAL_STAGES.map(stage => (
+                  {pipelineStages.map(({ key: stage, label, color }) => (
                     <button
                       key={stage}
                       onClick={() => {
@@ -633,18 +671,139 @@ export function DealsKanban() {
                           width: 8,
                           height: 8,
                           borderRadius: '50%',
-                          backgroundColor: DEAL_STAGE_INFO[stage].color,
+                          backgroundColor: color,
                         }}
                       />
-                      {DEAL_STAGE_INFO[stage].label}
+                      {label}
                     </button>
                   ))}
                 </div>
+                
+                {/* Tags - multi-select, so the menu stays open */}
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    padding: '12px 16px',
+                    borderTop: `1px solid ${theme.border.subtle}`,
+                    borderBottom: `1px solid ${theme.border.subtle}`,
+                  }}
+                >
+                  <span style={{ fontSize: 14, fontWeight: 600, color: theme.text.primary }}>Filter by Tag</span>
+                  {tagFilter.length > 0 && (
+                    <button
+                      onClick={() => setTagFilter([])}
+                      style={{
+                        fontSize: theme.fontSize.xs,
+                        color: theme.accent.primaryLight,
+                        background: 'none',
+                        border: 'none',
+                        cursor: 'pointer',
+                        padding: 0,
+                      }}
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <div style={{ padding: 8, maxHeight: 200, overflowY: 'auto' }}>
+                  {dealTagNames.length === 0 && (
+                    <div style={{ padding: '8px 12px', fontSize: 13, color: theme.text.muted }}>
+                      No deal tags yet
+                    </div>
+                  )}
+                  {dealTagNames.map(name => {
+                    const isActive = tagFilter.includes(name)
+                    return (
+                      <button
+                        key={name}
+                        onClick={() => toggleTagFilter(name)}
+                        style={{
+                          width: '100%',
+                          padding: '8px 12px',
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: 8,
+                          fontSize: 13,
+                          color: isActive ? theme.accent.primary : theme.text.primary,
+                          backgroundColor: isActive ? theme.accent.primaryBg : 'transparent',
+                          border: 'none',
+                          borderRadius: 6,
+                          cursor: 'pointer',
+                          textAlign: 'left',
+                        }}
+                      >
+                        <div
+                          style={{
+                            width: 8,
+                            height: 8,
+                            borderRadius: '50%',
+                            backgroundColor: getTagColor(tags, 'deal', name),
+                          }}
+                        />
+                        <span style={{ flex: 1 }}>{name}</span>
+                        {isActive && <Check size={14} />}
+                      </button>
+                    )
+                  })}
+                </div>
+                <div style={{ padding: 8, borderTop: `1px solid ${theme.border.subtle}` }}>
+                  <button
+                    onClick={() => {
+                      setShowFilterMenu(false)
+                      setIsTagManagerOpen(true)
+                    }}
+                    style={{
+                      width: '100%',
+                      padding: '8px 12px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      fontSize: 13,
+                      color: theme.text.secondary,
+                      backgroundColor: 'transparent',
+                      border: 'none',
+                      borderRadius: 6,
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                    }}
+                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                  >
+                    <Tag size={14} />
+                    Manage tags
+                  </button>
+                </div>
               </motion.div>
             )}
           </AnimatePresence>
         </div>
         
+        {/* Export Button */}
+        <button
+          onClick={() => setIsExportOpen(true)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            padding: '8px 16px',
+            fontSize: theme.fontSize.sm,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.text.secondary,
+            backgroundColor: 'transparent',
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.md,
+            cursor: 'pointer',
+            transition: `all ${theme.transition.fast}`,
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+          onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+        >
+          <Download size={14} />
+          <span>Export</span>
+        </button>
+        
         {/* Add Deal Button */}
         <button
           onClick={() => handleCreateDeal()}
@@ -670,51 +829,31 @@ export function DealsKanban() {
         </button>
       </div>
       
-      {/* Kanban Board */}
-      <div
-        style={{
-          flex: 1,
-          overflowX: 'auto',
-          overflowY: 'hidden',
-          padding: 20,
-        }}
-      >
+      {view === 'analytics' ? (
+        <DealAnalytics deals={filteredDeals} onOpenDeal={handleOpenDeal} />
+      ) : (
+        /* Kanban Board */
         <div
           style={{
-            display: 'flex',
-            gap: 16,
-            height: '100%',
-            width: '100%',
+            flex: 1,
+            overflowX: 'auto',
+            overflowY: 'hidden',
+            padding: 20,
           }}
         >
-          {activeStages.map(stage => (
-            <KanbanColumn
-              key={stage}
-              stage={stage}
-              deals={dealsByStage[stage]}
-              total={stageTotals[stage]}
-              onOpenDeal={handleOpenDeal}
-              onCreateDeal={() => handleCreateDeal(stage)}
-              onDragEnd={handleDragEnd}
-              onDeleteDeal={deleteDeal}
-              selectedDealId={selectedDeal?.id}
-            />
-          ))}
-          
-          {/* Closed Deals Section */}
           <div
             style={{
               display: 'flex',
-              flexDirection: 'column',
-              gap: 8,
-              flex: 1,
-              minWidth: 320,
+              gap: 16,
+              height: '100%',
+              width: '100%',
             }}
           >
-            {closedStages.map(stage => (
+            {activeStages.map(({ key: stage }) => (
               <KanbanColumn
                 key={stage}
                 stage={stage}
+                info={getStageInfo(pipelineStages, stage)}
                 deals={dealsByStage[stage]}
                 total={stageTotals[stage]}
                 onOpenDeal={handleOpenDeal}
@@ -722,12 +861,39 @@ export function DealsKanban() {
                 onDragEnd={handleDragEnd}
                 onDeleteDeal={deleteDeal}
                 selectedDealId={selectedDeal?.id}
-                compact
               />
             ))}
+          
+            {/* Closed Deals Section */}
+            <div
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+                flex: 1,
+                minWidth: 320,
+              }}
+            >
+              {closedStages.map(({ key: stage }) => (
+                <KanbanColumn
+                  key={stage}
+                  stage={stage}
+                  info={getStageInfo(pipelineStages, stage)}
+                  deals={dealsByStage[stage]}
+                  total={stageTotals[stage]}
+                  onOpenDeal={handleOpenDeal}
+                  onCreateDeal={() => handleCreateDeal(stage)}
+                  onDragEnd={handleDragEnd}
+                  onDeleteDeal={deleteDeal}
+                  selectedDealId={selectedDeal?.id}
+                  compact
+                />
+              ))}
+            </div>
           </div>
         </div>
-      </div>
+      
+      )}
       
       {/* Deal Modal */}
       <DealModal
@@ -739,6 +905,76 @@ export function DealsKanban() {
         deal={isCreating ? null : selectedDeal}
         defaultStage={createForStage}
       />
+
+      {/* Export Modal - explicit sort wins, otherwise board order (stage, then position) */}
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        title="Export Deals"
+        rows={sortRule ? filteredDeals : allDealsFlat}
+        columns={exportColumns}
+        fileName="deals"
+        entityLabel="deals"
+      />
+      
+      <TagManagerModal
+        isOpen={isTagManagerOpen}
+        onClose={() => setIsTagManagerOpen(false)}
+        defaultEntity="deal"
+      />
+    </div>
+  )
+}
+
+// Board / analytics switch for the deals page
+interface DealsViewToggleProps {
+  value: DealsView
+  onChange: (view: DealsView) => void
+}
+
+function DealsViewToggle({ value, onChange }: DealsViewToggleProps) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Deals view"
+      style={{
+        display: 'flex',
+        padding: 2,
+        gap: 2,
+        border: `1px solid ${theme.border.default}`,
+        borderRadius: theme.radius.md,
+      }}
+    >
+      {DEALS_VIEW_OPTIONS.map(option => {
+        const Icon = option.icon
+        const isActive = value === option.value
+        return (
+          <button
+            key={option.value}
+            role="radio"
+            aria-checked={isActive}
+            title={`${option.label} view`}
+            onClick={() => onChange(option.value)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '5px 10px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: isActive ? theme.text.primary : theme.text.muted,
+              backgroundColor: isActive ? theme.bg.active : 'transparent',
+              border: 'none',
+              borderRadius: theme.radius.sm,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+          >
+            <Icon size={14} />
+            <span>{option.label}</span>
+          </button>
+        )
+      })}
     </div>
   )
 }
@@ -746,6 +982,7 @@ export function DealsKanban() {
 // Kanban Column
 interface KanbanColumnProps {
   stage: DealStage
+  info: PipelineStageDraft
   deals: Deal[]
   total: number
   onOpenDeal: (deal: Deal) => void
@@ -758,6 +995,7 @@ interface KanbanColumnProps {
 
 function KanbanColumn({
   stage,
+  info,
   deals,
   total,
   onOpenDeal,
@@ -767,7 +1005,6 @@ function KanbanColumn({
   selectedDealId,
   compact = false,
 }: KanbanColumnProps) {
-  const info = DEAL_STAGE_INFO[stage]
   const [isDragOver, setIsDragOver] = useState(false)
   
   const handleDragOver = (e: React.DragEvent) => {
@@ -1121,6 +1358,10 @@ function DealCard({ deal, onClick, onDelete, compact = false, isSelected = false
               </span>
             </div>
           )}
+          
+          {deal.tags && deal.tags.length > 0 && (
+            <TagChips names={deal.tags} entityType="deal" wrap />
+          )}
         </div>
       )}
       
@@ -1,11 +1,39 @@
-import { ReactNode } from 'react'
+import { ReactNode, useEffect } from 'react'
 import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { UndoToast } from '../shared'
 
 interface CRMLayoutProps {
   children: ReactNode
 }
 
+// Text fields keep the browser's own undo
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
 export function CRMLayout({ children }: CRMLayoutProps) {
+  const { undo, redo } = useCRM()
+
+  // Ctrl/Cmd+Z undoes the last CRM change, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes it
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntryTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+      } else if (key === 'y' && e.ctrlKey) {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
   return (
     <div
       style={{
@@ -27,6 +55,8 @@ export function CRMLayout({ children }: CRMLayoutProps) {
           {children}
         </div>
       </main>
+
+      <UndoToast />
     </div>
   )
 }
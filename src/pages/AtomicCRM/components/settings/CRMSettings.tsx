@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { SlidersHorizontal, Plus, Zap, ArrowRight } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, Button, EmptyState } from '../shared'
+import { FollowUpRuleModal } from './FollowUpRuleModal'
+import { PipelineStagesSection } from './PipelineStagesSection'
+import type { FollowUpRule } from '../../types'
+import { CONTACT_STAGE_INFO, TASK_TYPE_INFO } from '../../types'
+
+export function CRMSettings() {
+  return (
+    <div style={{ padding: 20, maxWidth: 900 }}>
+      {/* Header */}
+      <div style={{ marginBottom: 24 }}>
+        <h1
+          style={{
+            fontSize: theme.fontSize['2xl'],
+            fontWeight: theme.fontWeight.bold,
+            color: theme.text.primary,
+            margin: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 12,
+          }}
+        >
+          <SlidersHorizontal size={24} style={{ color: theme.accent.primary }} />
+          CRM Settings
+        </h1>
+        <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: '4px 0 0 0' }}>
+          Automation and defaults for this client's CRM
+        </p>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 32 }}>
+        <PipelineStagesSection />
+        <FollowUpRulesSection />
+      </div>
+    </div>
+  )
+}
+
+// ============================================
+// FOLLOW-UP RULES
+// ============================================
+function FollowUpRulesSection() {
+  const { followUpRules, updateFollowUpRule } = useCRM()
+  const [selectedRule, setSelectedRule] = useState<FollowUpRule | null>(null)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+
+  const handleOpenRule = (rule: FollowUpRule | null) => {
+    setSelectedRule(rule)
+    setIsModalOpen(true)
+  }
+
+  return (
+    <section>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 16,
+          marginBottom: 12,
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: theme.fontSize.lg,
+              fontWeight: theme.fontWeight.semibold,
+              color: theme.text.primary,
+              margin: 0,
+            }}
+          >
+            Follow-up rules
+          </h2>
+          <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: '4px 0 0 0' }}>
+            Create a task automatically when a contact reaches a pipeline step, or its deal is moved there.
+          </p>
+        </div>
+        <Button icon={<Plus size={16} />} onClick={() => handleOpenRule(null)}>
+          Add Rule
+        </Button>
+      </div>
+
+      {followUpRules.length === 0 ? (
+        <EmptyState
+          icon={<Zap size={32} />}
+          title="No follow-up rules yet"
+          description="For example: when a contact reaches Proposal Sent, create a call task due in 3 days"
+          action={{ label: 'Add Rule', onClick: () => handleOpenRule(null), icon: <Plus size={16} /> }}
+        />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {followUpRules.map(rule => (
+            <FollowUpRuleRow
+              key={rule.id}
+              rule={rule}
+              onClick={() => handleOpenRule(rule)}
+              onToggleActive={() => updateFollowUpRule(rule.id, { is_active: !rule.is_active })}
+            />
+          ))}
+        </div>
+      )}
+
+      <FollowUpRuleModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        rule={selectedRule}
+      />
+    </section>
+  )
+}
+
+interface FollowUpRuleRowProps {
+  rule: FollowUpRule
+  onClick: () => void
+  onToggleActive: () => void
+}
+
+function FollowUpRuleRow({ rule, onClick, onToggleActive }: FollowUpRuleRowProps) {
+  const stage = CONTACT_STAGE_INFO[rule.trigger_stage]
+  const typeInfo = TASK_TYPE_INFO[rule.task_type]
+  const due = rule.due_in_days === 0 ? 'due today' : `due in ${rule.due_in_days} ${rule.due_in_days === 1 ? 'day' : 'days'}`
+
+  return (
+    <Card padding="none" hover onClick={onClick} style={{ opacity: rule.is_active ? 1 : 0.6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '12px 16px' }}>
+        <span
+          style={{
+            padding: '2px 8px',
+            fontSize: theme.fontSize.xs,
+            fontWeight: theme.fontWeight.medium,
+            color: stage.color,
+            backgroundColor: stage.bgColor,
+            borderRadius: theme.radius.full,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {stage.label}
+        </span>
+        <ArrowRight size={14} style={{ color: theme.text.muted, flexShrink: 0 }} />
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <p
+            style={{
+              fontSize: theme.fontSize.base,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.primary,
+              margin: 0,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {rule.task_text}
+          </p>
+          <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: '2px 0 0 0' }}>
+            <span style={{ color: typeInfo.color }}>{typeInfo.label}</span> • {due} • assigned to the contact's assignee
+          </p>
+        </div>
+
+        {/* Active toggle */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onToggleActive()
+          }}
+          title={rule.is_active ? 'Pause rule' : 'Turn rule on'}
+          style={{
+            position: 'relative',
+            width: 36,
+            height: 20,
+            flexShrink: 0,
+            padding: 0,
+            borderRadius: theme.radius.full,
+            backgroundColor: rule.is_active ? theme.status.success : theme.bg.muted,
+            border: `1px solid ${rule.is_active ? theme.status.success : theme.border.default}`,
+            cursor: 'pointer',
+            transition: `all ${theme.transition.fast}`,
+          }}
+        >
+          <span
+            style={{
+              position: 'absolute',
+              top: 2,
+              left: rule.is_active ? 18 : 2,
+              width: 14,
+              height: 14,
+              borderRadius: theme.radius.full,
+              backgroundColor: '#fff',
+              transition: `left ${theme.transition.fast}`,
+            }}
+          />
+        </button>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Trash2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, ModalFooter, Button, Input, Select } from '../shared'
+import type { FollowUpRule, FollowUpTriggerStage, TaskType } from '../../types'
+import { CONTACT_STAGE_INFO, FOLLOW_UP_TRIGGER_STAGES, TASK_TYPE_INFO } from '../../types'
+
+interface FollowUpRuleModalProps {
+  isOpen: boolean
+  onClose: () => void
+  rule: FollowUpRule | null
+}
+
+const STAGE_OPTIONS = FOLLOW_UP_TRIGGER_STAGES.map(stage => ({
+  value: stage,
+  label: CONTACT_STAGE_INFO[stage].label,
+  color: CONTACT_STAGE_INFO[stage].color,
+}))
+
+const TYPE_OPTIONS: { value: TaskType; label: string }[] = Object.entries(TASK_TYPE_INFO).map(
+  ([value, info]) => ({ value: value as TaskType, label: info.label })
+)
+
+export function FollowUpRuleModal({ isOpen, onClose, rule }: FollowUpRuleModalProps) {
+  const { createFollowUpRule, updateFollowUpRule, deleteFollowUpRule, error } = useCRM()
+  const [loading, setLoading] = useState(false)
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const [formData, setFormData] = useState({
+    trigger_stage: 'meeting_booked' as FollowUpTriggerStage,
+    task_type: 'follow_up' as TaskType,
+    task_text: '',
+    due_in_days: '1',
+  })
+
+  // Reset form when rule changes
+  useEffect(() => {
+    if (rule) {
+      setFormData({
+        trigger_stage: rule.trigger_stage,
+        task_type: rule.task_type,
+        task_text: rule.task_text,
+        due_in_days: rule.due_in_days.toString(),
+      })
+    } else {
+      setFormData({
+        trigger_stage: 'meeting_booked',
+        task_type: 'follow_up',
+        task_text: 'Follow up with {name}',
+        due_in_days: '1',
+      })
+    }
+    setShowDeleteConfirm(false)
+    setFormError(null)
+  }, [rule, isOpen])
+
+  const handleSubmit = useCallback(async () => {
+    if (!formData.task_text.trim()) {
+      setFormError('Please provide the task text')
+      return
+    }
+
+    setLoading(true)
+    setFormError(null)
+    try {
+      const data = {
+        trigger_stage: formData.trigger_stage,
+        task_type: formData.task_type,
+        task_text: formData.task_text.trim(),
+        due_in_days: Math.max(0, parseInt(formData.due_in_days) || 0),
+      }
+
+      const success = rule
+        ? await updateFollowUpRule(rule.id, data)
+        : !!(await createFollowUpRule({ ...data, is_active: true }))
+      if (success) {
+        onClose()
+      } else {
+        setFormError(error || 'Failed to save rule')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [formData, rule, updateFollowUpRule, createFollowUpRule, onClose, error])
+
+  const handleDelete = async () => {
+    if (!rule) return
+
+    setLoading(true)
+    try {
+      await deleteFollowUpRule(rule.id)
+      onClose()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={rule ? 'Edit Follow-up Rule' : 'New Follow-up Rule'} size="md">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <Select
+          label="When a contact reaches"
+          options={STAGE_OPTIONS}
+          value={formData.trigger_stage}
+          onChange={(v) => setFormData({ ...formData, trigger_stage: v as FollowUpTriggerStage })}
+        />
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+          <Select
+            label="Create a task of type"
+            options={TYPE_OPTIONS}
+            value={formData.task_type}
+            onChange={(v) => setFormData({ ...formData, task_type: v as TaskType })}
+          />
+          <Input
+            label="Due in (days)"
+            value={formData.due_in_days}
+            onChange={(e) => setFormData({ ...formData, due_in_days: e.target.value })}
+            type="number"
+            min={0}
+          />
+        </div>
+
+        <div>
+          <Input
+            label="Task text"
+            value={formData.task_text}
+            onChange={(e) => setFormData({ ...formData, task_text: e.target.value })}
+            placeholder="Follow up with {name}"
+          />
+          <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '6px 0 0 0' }}>
+            Use {'{name}'}, {'{company}'} and {'{stage}'} to fill in the contact's details.
+            The task is assigned to the contact's assignee.
+          </p>
+        </div>
+
+        {formError && (
+          <div
+            style={{
+              padding: 12,
+              backgroundColor: theme.status.errorBg,
+              borderRadius: theme.radius.lg,
+              border: `1px solid ${theme.status.error}`,
+            }}
+          >
+            <p style={{ fontSize: theme.fontSize.sm, color: theme.status.error, margin: 0 }}>
+              {formError}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation */}
+      {showDeleteConfirm && rule && (
+        <div
+          style={{
+            marginTop: 20,
+            padding: 16,
+            backgroundColor: theme.status.errorBg,
+            borderRadius: theme.radius.lg,
+            border: `1px solid ${theme.status.error}`,
+          }}
+        >
+          <p
+            style={{
+              fontSize: theme.fontSize.sm,
+              color: theme.status.error,
+              margin: 0,
+              marginBottom: 12,
+            }}
+          >
+            Delete this rule? Tasks it already created are kept.
+          </p>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <Button variant="danger" size="sm" onClick={handleDelete} loading={loading}>
+              Yes, Delete
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ModalFooter>
+        {rule && !showDeleteConfirm && (
+          <div style={{ marginRight: 'auto' }}>
+            <Button variant="ghost" icon={<Trash2 size={16} />} onClick={() => setShowDeleteConfirm(true)}>
+              Delete
+            </Button>
+          </div>
+        )}
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} loading={loading} disabled={!formData.task_text.trim()}>
+          {rule ? 'Save Changes' : 'Create Rule'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Plus, ChevronUp, ChevronDown, Trash2, RotateCcw } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Button, IconButton, Select } from '../shared'
+import type { DealStageOutcome, PipelineStageDraft } from '../../types'
+import { DEFAULT_PIPELINE_STAGES, PIPELINE_STAGE_COLORS } from '../../types'
+import { isDefaultPipeline, stageKeyFromLabel } from '../../utils/pipelineStages'
+
+const OUTCOME_OPTIONS: { value: DealStageOutcome; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+]
+
+// Editor for the client's deal stages; nothing is written until Save
+export function PipelineStagesSection() {
+  const { pipelineStages, deals, savePipelineStages } = useCRM()
+  const [drafts, setDrafts] = useState<PipelineStageDraft[]>([])
+  const [colorPickerIndex, setColorPickerIndex] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const savedDrafts = useMemo(
+    () => pipelineStages.map(({ key, label, color, bg_color, probability, outcome }) => ({
+      key, label, color, bg_color, probability, outcome,
+    })),
+    [pipelineStages]
+  )
+
+  const resetDrafts = () => {
+    setDrafts(savedDrafts)
+    setFormError(null)
+  }
+
+  // Start over from the saved pipeline whenever it changes
+  useEffect(() => {
+    setDrafts(savedDrafts)
+    setFormError(null)
+  }, [savedDrafts])
+
+  const savedKeys = savedDrafts.map(s => s.key)
+  const isDirty = JSON.stringify(drafts) !== JSON.stringify(savedDrafts)
+
+  // Deals sitting in a stage that's going away (or already gone) move on save
+  const draftKeys = drafts.map(d => d.key)
+  const movingDeals = deals.filter(d => !draftKeys.includes(d.stage))
+  const fallbackStage = drafts.find(d => d.outcome === 'open')
+
+  const updateDraft = (index: number, data: Partial<PipelineStageDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...data } : draft))
+  }
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev]
+      const [draft] = next.splice(index, 1)
+      next.splice(index + offset, 0, draft)
+      return next
+    })
+  }
+
+  // New stages go after the last open one, ahead of won and lost
+  const handleAddStage = () => {
+    setDrafts(prev => {
+      const swatch = PIPELINE_STAGE_COLORS[prev.length % PIPELINE_STAGE_COLORS.length]
+      const insertAt = prev.filter(d => d.outcome === 'open').length > 0
+        ? prev.map(d => d.outcome).lastIndexOf('open') + 1
+        : 0
+      const next = [...prev]
+      next.splice(insertAt, 0, {
+        key: stageKeyFromLabel('New stage', prev.map(d => d.key)),
+        label: 'New stage',
+        color: swatch.color,
+        bg_color: swatch.bg_color,
+        probability: 50,
+        outcome: 'open',
+      })
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    if (drafts.some(d => !d.label.trim())) {
+      setFormError('Every stage needs a name')
+      return
+    }
+    if (!fallbackStage) {
+      setFormError('The pipeline needs at least one open stage')
+      return
+    }
+
+    // New stages get a key from their name; saved stages keep theirs so their deals stay put
+    const keys: string[] = []
+    const stages = drafts.map(draft => {
+      const key = savedKeys.includes(draft.key) ? draft.key : stageKeyFromLabel(draft.label, [...savedKeys, ...keys])
+      keys.push(key)
+      return { ...draft, key, label: draft.label.trim() }
+    })
+
+    setSaving(true)
+    setFormError(null)
+    const result = await savePipelineStages(stages)
+    setSaving(false)
+    if (!result.success) setFormError(result.error || 'Failed to save pipeline stages')
+  }
+
+  return (
+    <section>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 16,
+          marginBottom: 12,
+        }}
+      >
+        <div>
+          <h2
+            style={{
+              fontSize: theme.fontSize.lg,
+              fontWeight: theme.fontWeight.semibold,
+              color: theme.text.primary,
+              margin: 0,
+            }}
+          >
+            Deal pipeline
+          </h2>
+          <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: '4px 0 0 0' }}>
+            The stages on the deals board, in order. Probability is the default for deals entering the stage.
+            {isDefaultPipeline(pipelineStages) && ' This client is on the built-in pipeline.'}
+          </p>
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <Button
+            variant="ghost"
+            icon={<RotateCcw size={16} />}
+            onClick={() => setDrafts(DEFAULT_PIPELINE_STAGES.map(stage => ({ ...stage })))}
+          >
+            Restore Defaults
+          </Button>
+          <Button variant="secondary" icon={<Plus size={16} />} onClick={handleAddStage}>
+            Add Stage
+          </Button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          border: `1px solid ${theme.border.subtle}`,
+          borderRadius: theme.radius.lg,
+          backgroundColor: theme.bg.card,
+        }}
+      >
+        {drafts.map((draft, index) => (
+          <div
+            key={draft.key}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 12,
+              padding: '10px 16px',
+              borderBottom: index < drafts.length - 1 ? `1px solid ${theme.border.subtle}` : 'none',
+            }}
+          >
+            {/* Color */}
+            <div style={{ position: 'relative', flexShrink: 0 }}>
+              <button
+                type="button"
+                onClick={() => setColorPickerIndex(colorPickerIndex === index ? null : index)}
+                title="Change color"
+                style={{
+                  width: 18,
+                  height: 18,
+                  padding: 0,
+                  borderRadius: theme.radius.full,
+                  backgroundColor: draft.color,
+                  border: `3px solid ${draft.bg_color}`,
+                  cursor: 'pointer',
+                }}
+              />
+              {colorPickerIndex === index && (
+                <div
+                  style={{
+                    position: 'absolute',
+                    top: 'calc(100% + 6px)',
+                    left: -6,
+                    display: 'grid',
+                    gridTemplateColumns: 'repeat(5, 18px)',
+                    gap: 6,
+                    padding: 8,
+                    backgroundColor: theme.bg.elevated,
+                    border: `1px solid ${theme.border.default}`,
+                    borderRadius: theme.radius.md,
+                    boxShadow: theme.shadow.dropdown,
+                    zIndex: 9999,
+                  }}
+                >
+                  {PIPELINE_STAGE_COLORS.map(swatch => (
+                    <button
+                      key={swatch.color}
+                      type="button"
+                      onClick={() => {
+                        updateDraft(index, { color: swatch.color, bg_color: swatch.bg_color })
+                        setColorPickerIndex(null)
+                      }}
+                      title={swatch.color}
+                      style={{
+                        width: 18,
+                        height: 18,
+                        padding: 0,
+                        borderRadius: theme.radius.full,
+                        backgroundColor: swatch.color,
+                        border: swatch.color === draft.color ? `2px solid ${theme.text.primary}` : 'none',
+                        cursor: 'pointer',
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Name */}
+            <input
+              value={draft.label}
+              onChange={(e) => updateDraft(index, { label: e.target.value })}
+              placeholder="Stage name"
+              aria-label="Stage name"
+              style={{
+                flex: 1,
+                minWidth: 0,
+                padding: '6px 10px',
+                fontSize: theme.fontSize.base,
+                color: theme.text.primary,
+                backgroundColor: theme.bg.muted,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.md,
+                outline: 'none',
+              }}
+            />
+
+            {/* Probability */}
+            <div style={{ display: 'flex', alignItems: 'center', gap: 4, flexShrink: 0 }}>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={draft.probability}
+                onChange={(e) => updateDraft(index, {
+                  probability: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)),
+                })}
+                aria-label="Default probability"
+                style={{
+                  width: 60,
+                  padding: '6px 8px',
+                  fontSize: theme.fontSize.base,
+                  color: theme.text.primary,
+                  backgroundColor: theme.bg.muted,
+                  border: `1px solid ${theme.border.default}`,
+                  borderRadius: theme.radius.md,
+                  outline: 'none',
+                }}
+              />
+              <span style={{ fontSize: theme.fontSize.sm, color: theme.text.muted }}>%</span>
+            </div>
+
+            {/* Outcome */}
+            <div style={{ width: 110, flexShrink: 0 }}>
+              <Select
+                options={OUTCOME_OPTIONS}
+                value={draft.outcome}
+                onChange={(v) => updateDraft(index, { outcome: v as DealStageOutcome })}
+              />
+            </div>
+
+            {/* Order */}
+            <div style={{ display: 'flex', gap: 2, flexShrink: 0 }}>
+              <IconButton
+                icon={<ChevronUp size={14} />}
+                label="Move up"
+                variant="ghost"
+                size="sm"
+                disabled={index === 0}
+                onClick={() => moveDraft(index, -1)}
+              />
+              <IconButton
+                icon={<ChevronDown size={14} />}
+                label="Move down"
+                variant="ghost"
+                size="sm"
+                disabled={index === drafts.length - 1}
+                onClick={() => moveDraft(index, 1)}
+              />
+              <IconButton
+                icon={<Trash2 size={14} />}
+                label="Remove stage"
+                variant="ghost"
+                size="sm"
+                disabled={drafts.length === 1}
+                onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isDirty && movingDeals.length > 0 && fallbackStage && (
+        <p style={{ fontSize: theme.fontSize.sm, color: theme.status.warning, margin: '12px 0 0 0' }}>
+          {movingDeals.length} {movingDeals.length === 1 ? 'deal is' : 'deals are'} in a removed stage and will
+          move to {fallbackStage.label || 'the first open stage'}. Their leads keep their pipeline progress.
+        </p>
+      )}
+
+      {formError && (
+        <div
+          style={{
+            marginTop: 12,
+            padding: 12,
+            backgroundColor: theme.status.errorBg,
+            borderRadius: theme.radius.lg,
+            border: `1px solid ${theme.status.error}`,
+          }}
+        >
+          <p style={{ fontSize: theme.fontSize.sm, color: theme.status.error, margin: 0 }}>
+            {formError}
+          </p>
+        </div>
+      )}
+
+      {isDirty && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 12 }}>
+          <Button variant="ghost" onClick={resetDrafts} disabled={saving}>
+            Discard
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save Pipeline
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react'
+import { Download, FileSpreadsheet, FileText, Check } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { Modal, ModalFooter } from './Modal'
+import { Button } from './Button'
+import { exportRows, type ExportColumn, type ExportFormat } from '../../utils/export'
+
+interface ExportModalProps<T> {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  rows: T[]
+  columns: ExportColumn<T>[]
+  fileName: string
+  entityLabel?: string // Plural noun for the row count, e.g. "leads"
+  initialColumns?: string[] // Column keys to pre-select instead of the defaults
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { value: 'csv', label: 'CSV', description: 'Plain text, works everywhere', icon: <FileText size={18} /> },
+  { value: 'xlsx', label: 'Excel', description: 'XLSX workbook for Excel & Sheets', icon: <FileSpreadsheet size={18} /> },
+]
+
+export function ExportModal<T>({
+  isOpen,
+  onClose,
+  title,
+  rows,
+  columns,
+  fileName,
+  entityLabel = 'rows',
+  initialColumns,
+}: ExportModalProps<T>) {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [selected, setSelected] = useState<string[]>([])
+
+  // Reset the column choice each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(initialColumns || columns.filter(c => c.defaultSelected).map(c => c.key))
+    }
+  }, [isOpen]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const toggleColumn = (key: string) => {
+    setSelected(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key])
+  }
+
+  const allSelected = selected.length === columns.length
+
+  const handleExport = () => {
+    // Keep the column order from the definitions, not the click order
+    const chosen = columns.filter(c => selected.includes(c.key))
+    exportRows(rows, chosen, format, fileName)
+    onClose()
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="md">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+        <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>
+          Exports the {rows.length} {entityLabel} in the current view, in the current order.
+        </p>
+
+        {/* Format */}
+        <div>
+          <SectionLabel>Format</SectionLabel>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+            {FORMAT_OPTIONS.map(option => {
+              const isActive = format === option.value
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 10,
+                    padding: '10px 12px',
+                    textAlign: 'left',
+                    backgroundColor: isActive ? theme.accent.primaryBg : theme.bg.card,
+                    border: `1px solid ${isActive ? theme.accent.primary : theme.border.default}`,
+                    borderRadius: theme.radius.lg,
+                    color: isActive ? theme.accent.primaryLight : theme.text.secondary,
+                    cursor: 'pointer',
+                    transition: `all ${theme.transition.fast}`,
+                  }}
+                >
+                  {option.icon}
+                  <div>
+                    <div style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.medium }}>{option.label}</div>
+                    <div style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>{option.description}</div>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+
+        {/* Columns */}
+        <div>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <SectionLabel>Columns ({selected.length})</SectionLabel>
+            <button
+              type="button"
+              onClick={() => setSelected(allSelected ? [] : columns.map(c => c.key))}
+              style={{
+                fontSize: theme.fontSize.xs,
+                color: theme.accent.primaryLight,
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                padding: 0,
+                marginBottom: 8,
+              }}
+            >
+              {allSelected ? 'Clear all' : 'Select all'}
+            </button>
+          </div>
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '1fr 1fr',
+              gap: 2,
+              maxHeight: 280,
+              overflowY: 'auto',
+              padding: 4,
+              backgroundColor: theme.bg.card,
+              border: `1px solid ${theme.border.subtle}`,
+              borderRadius: theme.radius.lg,
+            }}
+          >
+            {columns.map(column => {
+              const isChecked = selected.includes(column.key)
+              return (
+                <button
+                  key={column.key}
+                  type="button"
+                  onClick={() => toggleColumn(column.key)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    padding: '6px 8px',
+                    fontSize: theme.fontSize.sm,
+                    color: isChecked ? theme.text.primary : theme.text.muted,
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    borderRadius: theme.radius.md,
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  <span
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      width: 16,
+                      height: 16,
+                      flexShrink: 0,
+                      borderRadius: theme.radius.sm,
+                      border: `1px solid ${isChecked ? theme.accent.primary : theme.border.strong}`,
+                      backgroundColor: isChecked ? theme.accent.primary : 'transparent',
+                    }}
+                  >
+                    {isChecked && <Check size={12} color="#fff" />}
+                  </span>
+                  {column.label}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          icon={<Download size={16} />}
+          onClick={handleExport}
+          disabled={selected.length === 0 || rows.length === 0}
+        >
+          Export {format.toUpperCase()}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <p
+      style={{
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.semibold,
+        color: theme.text.muted,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+        margin: '0 0 8px 0',
+      }}
+    >
+      {children}
+    </p>
+  )
+}
@@ -0,0 +1,148 @@
+import { RefreshCw, X, AlertTriangle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { Avatar } from './Avatar'
+import type { PresenceUser } from '../../types'
+
+// ============================================
+// PRESENCE AVATARS
+// ============================================
+interface PresenceAvatarsProps {
+  users: PresenceUser[]
+  max?: number
+  size?: 'xs' | 'sm'
+  label?: string // Tooltip prefix, e.g. "Also viewing"
+}
+
+export function PresenceAvatars({ users, max = 4, size = 'xs', label = 'Online' }: PresenceAvatarsProps) {
+  // A teammate with several tabs open shows up once
+  const unique = users.filter((u, i) => users.findIndex(other => other.user_id === u.user_id) === i)
+  if (unique.length === 0) return null
+
+  const shown = unique.slice(0, max)
+  const overflow = unique.length - shown.length
+  const dimension = size === 'xs' ? 24 : 28
+
+  return (
+    <div
+      title={`${label}: ${unique.map(u => u.name).join(', ')}`}
+      style={{ display: 'flex', alignItems: 'center', flexShrink: 0 }}
+    >
+      {shown.map((u, i) => (
+        <div
+          key={u.user_id}
+          style={{
+            marginLeft: i === 0 ? 0 : -6,
+            borderRadius: theme.radius.full,
+            boxShadow: `0 0 0 2px ${theme.bg.page}`,
+            position: 'relative',
+          }}
+        >
+          <Avatar name={u.name} size={size} />
+          <span
+            style={{
+              position: 'absolute',
+              right: -1,
+              bottom: -1,
+              width: 8,
+              height: 8,
+              borderRadius: theme.radius.full,
+              backgroundColor: theme.status.success,
+              boxShadow: `0 0 0 2px ${theme.bg.page}`,
+            }}
+          />
+        </div>
+      ))}
+      {overflow > 0 && (
+        <div
+          style={{
+            marginLeft: -6,
+            width: dimension,
+            height: dimension,
+            borderRadius: theme.radius.full,
+            backgroundColor: theme.bg.elevated,
+            border: `1px solid ${theme.border.default}`,
+            boxShadow: `0 0 0 2px ${theme.bg.page}`,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: '10px',
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.secondary,
+          }}
+        >
+          +{overflow}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// REMOTE CHANGE NOTICE
+// ============================================
+interface RemoteChangeNoticeProps {
+  message: string
+  onReload?: () => void // Omitted when there is nothing left to reload (record deleted)
+  onDismiss: () => void
+}
+
+export function RemoteChangeNotice({ message, onReload, onDismiss }: RemoteChangeNoticeProps) {
+  return (
+    <div
+      role="alert"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        padding: '10px 12px',
+        backgroundColor: theme.status.warningBg,
+        border: `1px solid ${theme.status.warning}`,
+        borderRadius: theme.radius.lg,
+        fontSize: theme.fontSize.sm,
+        color: theme.text.primary,
+      }}
+    >
+      <AlertTriangle size={16} style={{ color: theme.status.warning, flexShrink: 0 }} />
+      <span style={{ flex: 1, minWidth: 0 }}>{message}</span>
+      {onReload && (
+        <button
+          type="button"
+          onClick={onReload}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            padding: '4px 10px',
+            fontSize: theme.fontSize.xs,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.text.primary,
+            backgroundColor: theme.bg.elevated,
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.md,
+            cursor: 'pointer',
+            flexShrink: 0,
+          }}
+        >
+          <RefreshCw size={12} />
+          Reload
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onDismiss}
+        title="Keep my version"
+        style={{
+          display: 'flex',
+          padding: 4,
+          color: theme.text.muted,
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          flexShrink: 0,
+        }}
+      >
+        <X size={14} />
+      </button>
+    </div>
+  )
+}
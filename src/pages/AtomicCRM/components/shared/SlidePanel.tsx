@@ -177,3 +177,56 @@ export function PanelFooter({ children }: PanelFooterProps) {
     </div>
   )
 }
+
+// Tab bar for switching a panel between views (e.g. Details / History)
+interface PanelTabsProps<T extends string> {
+  tabs: { value: T; label: string; icon?: ReactNode }[]
+  value: T
+  onChange: (value: T) => void
+}
+
+export function PanelTabs<T extends string>({ tabs, value, onChange }: PanelTabsProps<T>) {
+  return (
+    <div
+      role="tablist"
+      style={{
+        display: 'flex',
+        gap: 4,
+        borderBottom: `1px solid ${theme.border.subtle}`,
+      }}
+    >
+      {tabs.map(tab => {
+        const isActive = tab.value === value
+        return (
+          <button
+            key={tab.value}
+            type="button"
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => onChange(tab.value)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 12px',
+              marginBottom: -1,
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: isActive ? theme.text.primary : theme.text.muted,
+              backgroundColor: 'transparent',
+              border: 'none',
+              borderBottom: `2px solid ${isActive ? theme.accent.primary : 'transparent'}`,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => { if (!isActive) e.currentTarget.style.color = theme.text.secondary }}
+            onMouseLeave={(e) => { if (!isActive) e.currentTarget.style.color = theme.text.muted }}
+          >
+            {tab.icon}
+            {tab.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Undo2, X } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+
+// How long the notice stays up - longer when it offers an Undo button
+const UNDOABLE_NOTICE_MS = 8000
+const NOTICE_MS = 2500
+
+// Bottom-right notice for the undo history: "Deleted Jane Doe · Undo", "Undid: Edited Acme"
+export function UndoToast() {
+  const { historyNotice, dismissHistoryNotice, undoHistoryEntry } = useCRM()
+
+  useEffect(() => {
+    if (!historyNotice) return
+    const timer = setTimeout(dismissHistoryNotice, historyNotice.undoable ? UNDOABLE_NOTICE_MS : NOTICE_MS)
+    return () => clearTimeout(timer)
+  }, [historyNotice, dismissHistoryNotice])
+
+  // Undo the step this notice is about, even if newer steps were recorded since
+  const undoNoticedEntry = () => {
+    if (historyNotice?.historyId !== undefined) undoHistoryEntry(historyNotice.historyId)
+  }
+
+  return (
+    <AnimatePresence>
+      {historyNotice && (
+        <motion.div
+          key={historyNotice.id}
+          role="status"
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          style={{
+            position: 'fixed',
+            bottom: 24,
+            right: 24,
+            zIndex: theme.z.toast,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            maxWidth: 420,
+            padding: '8px 8px 8px 16px',
+            backgroundColor: theme.bg.elevated,
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.xl,
+            boxShadow: theme.shadow.dropdown,
+          }}
+        >
+          <span
+            style={{
+              flex: 1,
+              minWidth: 0,
+              fontSize: theme.fontSize.sm,
+              color: theme.text.secondary,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {historyNotice.message}
+          </span>
+          {historyNotice.undoable && (
+            <ToastButton onClick={undoNoticedEntry}>
+              <Undo2 size={14} />
+              Undo
+            </ToastButton>
+          )}
+          <ToastButton onClick={dismissHistoryNotice} label="Dismiss">
+            <X size={14} />
+          </ToastButton>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+interface ToastButtonProps {
+  onClick: () => void
+  label?: string
+  children: React.ReactNode
+}
+
+function ToastButton({ onClick, label, children }: ToastButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      aria-label={label}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        padding: '6px 8px',
+        fontSize: theme.fontSize.sm,
+        fontWeight: theme.fontWeight.medium,
+        color: label ? theme.text.muted : theme.accent.primaryLight,
+        backgroundColor: 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.md,
+        cursor: 'pointer',
+        flexShrink: 0,
+      }}
+      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+    >
+      {children}
+    </button>
+  )
+}
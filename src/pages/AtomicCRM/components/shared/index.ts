@@ -8,7 +8,10 @@ export { Input, SearchInput, Textarea } from './Input'
 export { Select } from './Select'
 export { FilterSelect } from './FilterSelect'
 export { Modal, ModalFooter } from './Modal'
-export { SlidePanel, PanelFooter } from './SlidePanel'
+export { SlidePanel, PanelFooter, PanelTabs } from './SlidePanel'
 export { EmptyState, LoadingSkeleton } from './EmptyState'
 export { StageDropdown } from './StageDropdown'
 export { PipelineProgressDropdown } from './PipelineProgressDropdown'
+export { ExportModal } from './ExportModal'
+export { PresenceAvatars, RemoteChangeNotice } from './Presence'
+export { UndoToast } from './UndoToast'
@@ -0,0 +1,109 @@
+import { X } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { TAG_COLORS } from '../../types'
+import type { Tag, TagEntity } from '../../types'
+
+/** Registered color for a tag name, falling back to gray for tags not in the registry. */
+export function getTagColor(tags: Tag[], entityType: TagEntity, name: string): string {
+  const lower = name.toLowerCase()
+  const match = tags.find(t => t.entity_type === entityType && t.name.toLowerCase() === lower)
+  return match?.color || TAG_COLORS[0]
+}
+
+// ============================================
+// TAG CHIP
+// ============================================
+interface TagChipProps {
+  name: string
+  color: string
+  onRemove?: () => void
+}
+
+export function TagChip({ name, color, onRemove }: TagChipProps) {
+  return (
+    <span
+      title={name}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 4,
+        maxWidth: 140,
+        padding: '1px 8px',
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+        color,
+        backgroundColor: `${color}20`,
+        border: `1px solid ${color}40`,
+        borderRadius: theme.radius.full,
+        whiteSpace: 'nowrap',
+        flexShrink: 0,
+      }}
+    >
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove()
+          }}
+          title={`Remove ${name}`}
+          style={{
+            display: 'flex',
+            padding: 0,
+            color,
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+          }}
+        >
+          <X size={10} />
+        </button>
+      )}
+    </span>
+  )
+}
+
+// ============================================
+// TAG CHIPS
+// ============================================
+interface TagChipsProps {
+  names: string[] | null | undefined
+  entityType: TagEntity
+  max?: number // Chips shown before collapsing the rest into "+N"
+  wrap?: boolean
+}
+
+export function TagChips({ names, entityType, max = 3, wrap = false }: TagChipsProps) {
+  const { tags } = useCRM()
+  if (!names || names.length === 0) return null
+
+  const shown = names.slice(0, max)
+  const overflow = names.length - shown.length
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: wrap ? 'wrap' : 'nowrap',
+        gap: 4,
+        minWidth: 0,
+        overflow: 'hidden',
+      }}
+    >
+      {shown.map(name => (
+        <TagChip key={name} name={name} color={getTagColor(tags, entityType, name)} />
+      ))}
+      {overflow > 0 && (
+        <span
+          title={names.slice(max).join(', ')}
+          style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, flexShrink: 0 }}
+        >
+          +{overflow}
+        </span>
+      )}
+    </div>
+  )
+}
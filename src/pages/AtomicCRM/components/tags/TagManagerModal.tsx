@@ -0,0 +1,517 @@
+import { useState, useMemo, useEffect } from 'react'
+import { Pencil, Trash2, Plus, Check, Merge } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, ModalFooter, Button, Select } from '../shared'
+import { TAG_COLORS } from '../../types'
+import type { Tag, TagEntity } from '../../types'
+
+interface TagManagerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  defaultEntity?: TagEntity
+}
+
+const ENTITY_TABS: { value: TagEntity; label: string }[] = [
+  { value: 'contact', label: 'Contact tags' },
+  { value: 'deal', label: 'Deal tags' },
+]
+
+export function TagManagerModal({ isOpen, onClose, defaultEntity = 'contact' }: TagManagerModalProps) {
+  const { tags, contacts, deals, createTag, updateTag, mergeTags, deleteTag } = useCRM()
+  const [entityType, setEntityType] = useState<TagEntity>(defaultEntity)
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [colorPickerId, setColorPickerId] = useState<string | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [mergeIds, setMergeIds] = useState<string[]>([])
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [localError, setLocalError] = useState<string | null>(null)
+
+  // Start fresh each time the manager opens
+  useEffect(() => {
+    if (!isOpen) return
+    setEntityType(defaultEntity)
+    setNewName('')
+    setEditingId(null)
+    setColorPickerId(null)
+    setConfirmDeleteId(null)
+    setMergeIds([])
+    setMergeTargetId('')
+    setLocalError(null)
+  }, [isOpen, defaultEntity])
+
+  const entityTags = useMemo(
+    () => tags.filter(t => t.entity_type === entityType),
+    [tags, entityType]
+  )
+
+  // How many records carry each tag name
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>()
+    const records: { tags?: string[] | null }[] = entityType === 'contact' ? contacts : deals
+    records.forEach(r => r.tags?.forEach(name => counts.set(name, (counts.get(name) || 0) + 1)))
+    return counts
+  }, [contacts, deals, entityType])
+
+  // Names on records (e.g. from imports or bulk actions) that aren't in the registry yet
+  const unregistered = useMemo(() => {
+    const registered = new Set(entityTags.map(t => t.name.toLowerCase()))
+    return [...usage.keys()]
+      .filter(name => !registered.has(name.toLowerCase()))
+      .sort((a, b) => a.localeCompare(b))
+  }, [usage, entityTags])
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    entityTags.some(t => t.id !== exceptId && t.name.toLowerCase() === name.toLowerCase())
+
+  const switchEntity = (value: TagEntity) => {
+    setEntityType(value)
+    setEditingId(null)
+    setColorPickerId(null)
+    setConfirmDeleteId(null)
+    setMergeIds([])
+    setMergeTargetId('')
+    setLocalError(null)
+  }
+
+  // Runs one tag operation at a time; failures surface through the context error
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setLocalError(null)
+    try {
+      await action()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const nextColor = () => TAG_COLORS[1 + (entityTags.length % (TAG_COLORS.length - 1))]
+
+  const handleCreate = () => {
+    const name = newName.trim()
+    if (!name) return
+    if (nameTaken(name)) {
+      setLocalError(`A tag named "${name}" already exists`)
+      return
+    }
+    run(async () => {
+      const created = await createTag({ name, color: nextColor(), entity_type: entityType })
+      if (created) setNewName('')
+    })
+  }
+
+  const handleRegister = (name: string) => {
+    run(() => createTag({ name, color: nextColor(), entity_type: entityType }))
+  }
+
+  const handleRename = (tag: Tag) => {
+    const name = editName.trim()
+    if (!name || name === tag.name) {
+      setEditingId(null)
+      return
+    }
+    if (nameTaken(name, tag.id)) {
+      setLocalError(`A tag named "${name}" already exists - select both and merge them instead`)
+      return
+    }
+    run(async () => {
+      if (await updateTag(tag.id, { name })) setEditingId(null)
+    })
+  }
+
+  const handleRecolor = (tag: Tag, color: string) => {
+    setColorPickerId(null)
+    if (color !== tag.color) run(() => updateTag(tag.id, { color }))
+  }
+
+  const handleDelete = (tag: Tag) => {
+    run(async () => {
+      if (await deleteTag(tag.id)) {
+        setConfirmDeleteId(null)
+        setMergeIds(prev => prev.filter(id => id !== tag.id))
+      }
+    })
+  }
+
+  const toggleMerge = (id: string) => {
+    const next = mergeIds.includes(id) ? mergeIds.filter(x => x !== id) : [...mergeIds, id]
+    setMergeIds(next)
+    if (!next.includes(mergeTargetId)) setMergeTargetId(next[0] || '')
+  }
+
+  const handleMerge = () => {
+    if (mergeIds.length < 2 || !mergeTargetId) return
+    run(async () => {
+      if (await mergeTags(mergeIds, mergeTargetId)) {
+        setMergeIds([])
+        setMergeTargetId('')
+      }
+    })
+  }
+
+  const mergeOptions = entityTags
+    .filter(t => mergeIds.includes(t.id))
+    .map(t => ({ value: t.id, label: t.name, color: t.color }))
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Manage Tags" size="md">
+      {/* Entity tabs */}
+      <div style={{ display: 'flex', gap: 4, marginBottom: 16, borderBottom: `1px solid ${theme.border.subtle}` }}>
+        {ENTITY_TABS.map(tab => {
+          const isActive = tab.value === entityType
+          return (
+            <button
+              key={tab.value}
+              type="button"
+              onClick={() => switchEntity(tab.value)}
+              style={{
+                padding: '8px 12px',
+                marginBottom: -1,
+                fontSize: theme.fontSize.sm,
+                fontWeight: theme.fontWeight.medium,
+                color: isActive ? theme.text.primary : theme.text.muted,
+                background: 'none',
+                border: 'none',
+                borderBottom: `2px solid ${isActive ? theme.accent.primary : 'transparent'}`,
+                cursor: 'pointer',
+              }}
+            >
+              {tab.label}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Create */}
+      <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New tag name"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          icon={<Plus size={14} />}
+          onClick={handleCreate}
+          disabled={!newName.trim() || busy}
+        >
+          Add
+        </Button>
+      </div>
+
+      {localError && (
+        <div
+          style={{
+            padding: '8px 12px',
+            marginBottom: 12,
+            fontSize: theme.fontSize.sm,
+            color: theme.status.error,
+            backgroundColor: theme.status.errorBg,
+            borderRadius: theme.radius.md,
+          }}
+        >
+          {localError}
+        </div>
+      )}
+
+      {/* Tag list */}
+      <div
+        style={{
+          maxHeight: 360,
+          overflowY: 'auto',
+          border: `1px solid ${theme.border.subtle}`,
+          borderRadius: theme.radius.lg,
+        }}
+      >
+        {entityTags.length === 0 && unregistered.length === 0 && (
+          <div style={{ padding: 16, fontSize: theme.fontSize.sm, color: theme.text.muted, textAlign: 'center' }}>
+            No {entityType} tags yet
+          </div>
+        )}
+
+        {entityTags.map(tag => {
+          const count = usage.get(tag.name) || 0
+          const isEditing = editingId === tag.id
+          const isConfirmingDelete = confirmDeleteId === tag.id
+
+          return (
+            <div key={tag.id} style={rowStyle}>
+              <input
+                type="checkbox"
+                checked={mergeIds.includes(tag.id)}
+                onChange={() => toggleMerge(tag.id)}
+                title="Select to merge"
+                disabled={busy}
+              />
+
+              {/* Color */}
+              <div style={{ position: 'relative', display: 'flex' }}>
+                <button
+                  type="button"
+                  onClick={() => setColorPickerId(colorPickerId === tag.id ? null : tag.id)}
+                  title="Change color"
+                  style={{
+                    width: 14,
+                    height: 14,
+                    padding: 0,
+                    borderRadius: theme.radius.full,
+                    backgroundColor: tag.color,
+                    border: 'none',
+                    cursor: 'pointer',
+                  }}
+                />
+                {colorPickerId === tag.id && (
+                  <div
+                    style={{
+                      position: 'absolute',
+                      top: 'calc(100% + 6px)',
+                      left: -6,
+                      display: 'grid',
+                      gridTemplateColumns: 'repeat(5, 18px)',
+                      gap: 6,
+                      padding: 8,
+                      backgroundColor: theme.bg.elevated,
+                      border: `1px solid ${theme.border.default}`,
+                      borderRadius: theme.radius.md,
+                      boxShadow: theme.shadow.dropdown,
+                      zIndex: 9999,
+                    }}
+                  >
+                    {TAG_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => handleRecolor(tag, color)}
+                        title={color}
+                        style={{
+                          width: 18,
+                          height: 18,
+                          padding: 0,
+                          borderRadius: theme.radius.full,
+                          backgroundColor: color,
+                          border: color === tag.color ? `2px solid ${theme.text.primary}` : 'none',
+                          cursor: 'pointer',
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Name */}
+              {isEditing ? (
+                <input
+                  autoFocus
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(tag)
+                    if (e.key === 'Escape') {
+                      e.stopPropagation()
+                      setEditingId(null)
+                    }
+                  }}
+                  onBlur={() => handleRename(tag)}
+                  style={{ ...inputStyle, flex: 1, padding: '4px 8px' }}
+                />
+              ) : (
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    fontSize: theme.fontSize.sm,
+                    color: theme.text.primary,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {tag.name}
+                </span>
+              )}
+
+              <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, flexShrink: 0 }}>
+                {count} {entityType === 'contact' ? (count === 1 ? 'contact' : 'contacts') : (count === 1 ? 'deal' : 'deals')}
+              </span>
+
+              {isConfirmingDelete ? (
+                <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <RowAction title="Confirm delete" danger onClick={() => handleDelete(tag)} disabled={busy}>
+                    <Check size={14} />
+                  </RowAction>
+                  <RowAction title="Cancel" onClick={() => setConfirmDeleteId(null)}>
+                    Cancel
+                  </RowAction>
+                </div>
+              ) : (
+                <div style={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <RowAction
+                    title="Rename"
+                    onClick={() => {
+                      setEditingId(tag.id)
+                      setEditName(tag.name)
+                    }}
+                    disabled={busy}
+                  >
+                    <Pencil size={14} />
+                  </RowAction>
+                  <RowAction
+                    title={count > 0 ? `Delete and remove from ${count} ${entityType === 'contact' ? 'contacts' : 'deals'}` : 'Delete'}
+                    danger
+                    onClick={() => setConfirmDeleteId(tag.id)}
+                    disabled={busy}
+                  >
+                    <Trash2 size={14} />
+                  </RowAction>
+                </div>
+              )}
+            </div>
+          )
+        })}
+
+        {unregistered.length > 0 && (
+          <>
+            <div
+              style={{
+                padding: '10px 12px 4px',
+                fontSize: theme.fontSize.xs,
+                fontWeight: theme.fontWeight.semibold,
+                color: theme.text.muted,
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+              }}
+            >
+              In use, not managed
+            </div>
+            {unregistered.map(name => (
+              <div key={name} style={rowStyle}>
+                <span
+                  style={{
+                    width: 14,
+                    height: 14,
+                    borderRadius: theme.radius.full,
+                    backgroundColor: TAG_COLORS[0],
+                    flexShrink: 0,
+                  }}
+                />
+                <span style={{ flex: 1, minWidth: 0, fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+                  {name}
+                </span>
+                <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                  {usage.get(name)} {entityType === 'contact' ? 'contacts' : 'deals'}
+                </span>
+                <RowAction title="Add to managed tags" onClick={() => handleRegister(name)} disabled={busy}>
+                  <Plus size={14} />
+                </RowAction>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Merge */}
+      {mergeIds.length >= 2 && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'flex-end',
+            gap: 8,
+            marginTop: 12,
+            padding: 12,
+            backgroundColor: theme.bg.muted,
+            borderRadius: theme.radius.lg,
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <Select
+              label={`Merge ${mergeIds.length} tags into`}
+              options={mergeOptions}
+              value={mergeTargetId}
+              onChange={setMergeTargetId}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="primary"
+            size="md"
+            icon={<Merge size={14} />}
+            onClick={handleMerge}
+            loading={busy}
+            disabled={!mergeTargetId}
+          >
+            Merge
+          </Button>
+        </div>
+      )}
+
+      <ModalFooter>
+        <Button type="button" variant="secondary" onClick={onClose}>
+          Done
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
+
+const inputStyle: React.CSSProperties = {
+  boxSizing: 'border-box',
+  padding: '7px 10px',
+  fontSize: theme.fontSize.sm,
+  color: theme.text.primary,
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  outline: 'none',
+}
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 10,
+  padding: '8px 12px',
+  borderBottom: `1px solid ${theme.border.subtle}`,
+}
+
+interface RowActionProps {
+  title: string
+  onClick: () => void
+  danger?: boolean
+  disabled?: boolean
+  children: React.ReactNode
+}
+
+function RowAction({ title, onClick, danger = false, disabled = false, children }: RowActionProps) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        padding: 4,
+        fontSize: theme.fontSize.xs,
+        color: danger ? theme.status.error : theme.text.muted,
+        backgroundColor: 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.sm,
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        opacity: disabled ? 0.5 : 1,
+      }}
+      onMouseEnter={(e) => {
+        if (!disabled) e.currentTarget.style.backgroundColor = theme.bg.hover
+      }}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+    >
+      {children}
+    </button>
+  )
+}
@@ -0,0 +1,255 @@
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Plus, Check } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { TAG_COLORS } from '../../types'
+import type { TagEntity } from '../../types'
+import { TagChip, getTagColor } from './TagChip'
+
+interface TagPickerProps {
+  entityType: TagEntity
+  value: string[]
+  onChange: (tags: string[]) => void
+  label?: string
+}
+
+export function TagPicker({ entityType, value, onChange, label }: TagPickerProps) {
+  const { tags, contacts, deals, createTag } = useCRM()
+  const [isOpen, setIsOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const [creating, setCreating] = useState(false)
+  const pickerRef = useRef<HTMLDivElement>(null)
+
+  // Close on click outside
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+        setSearch('')
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  // Registered tags plus names already on records (e.g. from imports) that were never registered
+  const options = useMemo(() => {
+    const names = new Map<string, string>()
+    tags.filter(t => t.entity_type === entityType).forEach(t => names.set(t.name.toLowerCase(), t.name))
+    const records: { tags?: string[] | null }[] = entityType === 'contact' ? contacts : deals
+    records.forEach(r => r.tags?.forEach(name => {
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name)
+    }))
+    return [...names.values()].sort((a, b) => a.localeCompare(b))
+  }, [tags, contacts, deals, entityType])
+
+  const query = search.trim()
+  const filtered = options.filter(name => name.toLowerCase().includes(query.toLowerCase()))
+  const canCreate = query !== '' && !options.some(name => name.toLowerCase() === query.toLowerCase())
+
+  const toggle = (name: string) => {
+    onChange(value.includes(name) ? value.filter(t => t !== name) : [...value, name])
+  }
+
+  const handleCreate = async () => {
+    if (!canCreate || creating) return
+    setCreating(true)
+    try {
+      // Rotate through the non-gray swatches so new tags are easy to tell apart
+      const entityCount = tags.filter(t => t.entity_type === entityType).length
+      const color = TAG_COLORS[1 + (entityCount % (TAG_COLORS.length - 1))]
+      const created = await createTag({ name: query, color, entity_type: entityType })
+      if (created) {
+        onChange([...value, created.name])
+        setSearch('')
+      }
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div ref={pickerRef} style={{ position: 'relative', width: '100%' }}>
+      {label && (
+        <label
+          style={{
+            display: 'block',
+            fontSize: theme.fontSize.sm,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.text.secondary,
+            marginBottom: 6,
+          }}
+        >
+          {label}
+        </label>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 6 }}>
+        {value.map(name => (
+          <TagChip
+            key={name}
+            name={name}
+            color={getTagColor(tags, entityType, name)}
+            onRemove={() => toggle(name)}
+          />
+        ))}
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 4,
+            padding: '2px 8px',
+            fontSize: theme.fontSize.xs,
+            color: theme.text.muted,
+            backgroundColor: isOpen ? theme.bg.hover : 'transparent',
+            border: `1px dashed ${theme.border.default}`,
+            borderRadius: theme.radius.full,
+            cursor: 'pointer',
+            transition: `all ${theme.transition.fast}`,
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.color = theme.text.primary}
+          onMouseLeave={(e) => e.currentTarget.style.color = theme.text.muted}
+        >
+          <Plus size={10} />
+          {value.length === 0 ? 'Add tag' : 'Tag'}
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8, scale: 0.96 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -8, scale: 0.96 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              position: 'absolute',
+              top: '100%',
+              left: 0,
+              marginTop: 8,
+              width: 260,
+              padding: 6,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: 12,
+              boxShadow: theme.shadow.dropdown,
+              zIndex: 9999,
+            }}
+          >
+            <input
+              autoFocus
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  if (canCreate) handleCreate()
+                  else if (filtered.length === 1) toggle(filtered[0])
+                }
+                if (e.key === 'Escape') {
+                  e.stopPropagation()
+                  setIsOpen(false)
+                }
+              }}
+              placeholder="Search or create tag..."
+              style={{
+                width: '100%',
+                boxSizing: 'border-box',
+                padding: '7px 10px',
+                marginBottom: 4,
+                fontSize: theme.fontSize.sm,
+                color: theme.text.primary,
+                backgroundColor: theme.bg.card,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.md,
+                outline: 'none',
+              }}
+            />
+
+            <div style={{ maxHeight: 220, overflowY: 'auto' }}>
+              {filtered.map(name => {
+                const isSelected = value.includes(name)
+                return (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => toggle(name)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      width: '100%',
+                      padding: '7px 10px',
+                      fontSize: theme.fontSize.sm,
+                      color: theme.text.primary,
+                      backgroundColor: 'transparent',
+                      border: 'none',
+                      borderRadius: theme.radius.md,
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                    }}
+                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                  >
+                    <span
+                      style={{
+                        width: 8,
+                        height: 8,
+                        borderRadius: theme.radius.full,
+                        backgroundColor: getTagColor(tags, entityType, name),
+                        flexShrink: 0,
+                      }}
+                    />
+                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {name}
+                    </span>
+                    {isSelected && <Check size={14} style={{ color: theme.accent.primaryLight }} />}
+                  </button>
+                )
+              })}
+
+              {filtered.length === 0 && !canCreate && (
+                <div style={{ padding: '8px 10px', fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+                  No tags yet
+                </div>
+              )}
+            </div>
+
+            {canCreate && (
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={creating}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  width: '100%',
+                  padding: '7px 10px',
+                  marginTop: 2,
+                  fontSize: theme.fontSize.sm,
+                  color: theme.accent.primaryLight,
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  borderTop: filtered.length > 0 ? `1px solid ${theme.border.subtle}` : 'none',
+                  borderRadius: theme.radius.md,
+                  cursor: creating ? 'not-allowed' : 'pointer',
+                  opacity: creating ? 0.5 : 1,
+                  textAlign: 'left',
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+              >
+                <Plus size={14} />
+                Create "{query}"
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -1,26 +1,30 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   CheckSquare, Plus, Calendar, AlertCircle, 
   Phone, Mail, Users, Bell, RotateCcw, Check,
-  DollarSign
+  DollarSign, Download, Repeat, AlarmClock
 } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { Card, Button, SearchInput, EmptyState, LoadingSkeleton } from '../shared'
+import { Card, Button, SearchInput, EmptyState, LoadingSkeleton, ExportModal } from '../shared'
 import { TaskModal } from './TaskModal'
 import type { Task } from '../../types'
 import { TASK_TYPE_INFO } from '../../types'
+import { TASK_EXPORT_COLUMNS } from '../../utils/export'
+import { SNOOZE_OPTIONS, describeRecurrence, getDueDateFromToday } from '../../utils/recurrence'
 
 type TaskFilter = 'all' | 'pending' | 'overdue' | 'today' | 'completed'
 
 export function TaskList() {
-  const { tasks, loading, toggleTask } = useCRM()
+  const { tasks, loading, toggleTask, snoozeTask } = useCRM()
   const [searchQuery, setSearchQuery] = useState('')
   const [filter, setFilter] = useState<TaskFilter>('pending')
   const [selectedTask, setSelectedTask] = useState<Task | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isCreating, setIsCreating] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [snoozeMenuTaskId, setSnoozeMenuTaskId] = useState<string | null>(null)
   
   // Filter tasks
   const filteredTasks = useMemo(() => {
@@ -156,6 +160,13 @@ export function TaskList() {
             placeholder="Search tasks..."
             style={{ width: 240 }}
           />
+          <Button
+            variant="secondary"
+            icon={<Download size={16} />}
+            onClick={() => setIsExportOpen(true)}
+          >
+            Export
+          </Button>
           <Button
             icon={<Plus size={16} />}
             onClick={handleCreateTask}
@@ -245,11 +256,19 @@ export function TaskList() {
                 exit={{ opacity: 0, x: 20, height: 0 }}
                 transition={{ delay: index * 0.02 }}
                 layout
+                // Keep the open snooze menu above the rows below it
+                style={{ position: 'relative', zIndex: snoozeMenuTaskId === task.id ? 10 : 'auto' }}
               >
                 <TaskRow
                   task={task}
                   onClick={() => handleOpenTask(task)}
                   onToggle={() => toggleTask(task.id)}
+                  isSnoozeMenuOpen={snoozeMenuTaskId === task.id}
+                  onSnoozeMenuChange={(open) => setSnoozeMenuTaskId(open ? task.id : null)}
+                  onSnooze={(dueDate) => {
+                    setSnoozeMenuTaskId(null)
+                    snoozeTask(task.id, dueDate)
+                  }}
                 />
               </motion.div>
             ))}
@@ -263,6 +282,16 @@ export function TaskList() {
         onClose={() => setIsModalOpen(false)}
         task={isCreating ? null : selectedTask}
       />
+
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        title="Export Tasks"
+        rows={filteredTasks}
+        columns={TASK_EXPORT_COLUMNS}
+        fileName="tasks"
+        entityLabel="tasks"
+      />
     </div>
   )
 }
@@ -272,10 +301,27 @@ interface TaskRowProps {
   task: Task
   onClick: () => void
   onToggle: () => void
+  isSnoozeMenuOpen: boolean
+  onSnoozeMenuChange: (open: boolean) => void
+  onSnooze: (dueDate: string) => void
 }
 
-function TaskRow({ task, onClick, onToggle }: TaskRowProps) {
+function TaskRow({ task, onClick, onToggle, isSnoozeMenuOpen, onSnoozeMenuChange, onSnooze }: TaskRowProps) {
   const [, setIsHovered] = useState(false)
+  const [customDate, setCustomDate] = useState('')
+  const snoozeRef = useRef<HTMLDivElement>(null)
+  
+  // Close the snooze menu on click outside
+  useEffect(() => {
+    if (!isSnoozeMenuOpen) return
+    function handleClickOutside(e: MouseEvent) {
+      if (snoozeRef.current && !snoozeRef.current.contains(e.target as Node)) {
+        onSnoozeMenuChange(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isSnoozeMenuOpen, onSnoozeMenuChange])
   
   const now = new Date()
   const isOverdue = !task.done && task.due_date && new Date(task.due_date) < now
@@ -395,6 +441,35 @@ function TaskRow({ task, onClick, onToggle }: TaskRowProps) {
                 {task.deal.name}
               </span>
             )}
+            {task.recurrence && (
+              <span
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 4,
+                  fontSize: theme.fontSize.sm,
+                  color: theme.text.muted,
+                }}
+              >
+                <Repeat size={12} />
+                {describeRecurrence(task.recurrence)}
+              </span>
+            )}
+            {task.snooze_count > 0 && !task.done && (
+              <span
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 4,
+                  fontSize: theme.fontSize.sm,
+                  color: theme.text.muted,
+                }}
+                title={`Snoozed ${task.snooze_count} ${task.snooze_count === 1 ? 'time' : 'times'}`}
+              >
+                <AlarmClock size={12} />
+                {task.snooze_count}×
+              </span>
+            )}
           </div>
         </div>
         
@@ -417,6 +492,125 @@ function TaskRow({ task, onClick, onToggle }: TaskRowProps) {
             {formatDueDate(task.due_date)}
           </div>
         )}
+        
+        {/* Snooze */}
+        {!task.done && (
+          <div ref={snoozeRef} style={{ position: 'relative' }} onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => onSnoozeMenuChange(!isSnoozeMenuOpen)}
+              title="Snooze"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 28,
+                height: 28,
+                color: isSnoozeMenuOpen ? theme.text.primary : theme.text.muted,
+                backgroundColor: isSnoozeMenuOpen ? theme.bg.hover : 'transparent',
+                border: 'none',
+                borderRadius: theme.radius.md,
+                cursor: 'pointer',
+                transition: `all ${theme.transition.fast}`,
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = isSnoozeMenuOpen ? theme.bg.hover : 'transparent'}
+            >
+              <AlarmClock size={16} />
+            </button>
+            
+            <AnimatePresence>
+              {isSnoozeMenuOpen && (
+                <motion.div
+                  initial={{ opacity: 0, y: -8, scale: 0.96 }}
+                  animate={{ opacity: 1, y: 0, scale: 1 }}
+                  exit={{ opacity: 0, y: -8, scale: 0.96 }}
+                  transition={{ duration: 0.15 }}
+                  style={{
+                    position: 'absolute',
+                    top: '100%',
+                    right: 0,
+                    marginTop: 8,
+                    minWidth: 200,
+                    padding: 8,
+                    backgroundColor: theme.bg.elevated,
+                    border: `1px solid ${theme.border.default}`,
+                    borderRadius: 12,
+                    boxShadow: theme.shadow.dropdown,
+                    zIndex: 9999,
+                  }}
+                >
+                  <div style={{ padding: '4px 12px 8px', fontSize: 14, fontWeight: 600, color: theme.text.primary }}>
+                    Snooze until
+                  </div>
+                  {SNOOZE_OPTIONS.map(option => (
+                    <button
+                      key={option.days}
+                      onClick={() => onSnooze(getDueDateFromToday(option.days))}
+                      style={{
+                        width: '100%',
+                        padding: '8px 12px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        fontSize: 13,
+                        color: theme.text.primary,
+                        backgroundColor: 'transparent',
+                        border: 'none',
+                        borderRadius: 6,
+                        cursor: 'pointer',
+                        textAlign: 'left',
+                      }}
+                      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+                      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <div
+                    style={{
+                      display: 'flex',
+                      gap: 6,
+                      padding: '8px 4px 0',
+                      marginTop: 4,
+                      borderTop: `1px solid ${theme.border.subtle}`,
+                    }}
+                  >
+                    <input
+                      type="date"
+                      value={customDate}
+                      onChange={(e) => setCustomDate(e.target.value)}
+                      style={{
+                        flex: 1,
+                        padding: '5px 8px',
+                        fontSize: 13,
+                        color: theme.text.primary,
+                        backgroundColor: theme.bg.card,
+                        border: `1px solid ${theme.border.default}`,
+                        borderRadius: 6,
+                        outline: 'none',
+                      }}
+                    />
+                    <button
+                      onClick={() => customDate && onSnooze(new Date(customDate).toISOString())}
+                      disabled={!customDate}
+                      style={{
+                        padding: '5px 10px',
+                        fontSize: 13,
+                        color: '#fff',
+                        backgroundColor: theme.accent.primary,
+                        border: 'none',
+                        borderRadius: 6,
+                        cursor: customDate ? 'pointer' : 'not-allowed',
+                        opacity: customDate ? 1 : 0.5,
+                      }}
+                    >
+                      Snooze
+                    </button>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
       </div>
     </Card>
   )
@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Calendar, User, Trash2 } from 'lucide-react'
+import { Calendar, User, Trash2, Repeat } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
 import { Modal, ModalFooter, Button, Input, Select, Textarea } from '../shared'
-import type { Task, TaskType } from '../../types'
+import type { Task, TaskType, TaskRecurrence, RecurrenceFrequency } from '../../types'
 import { TASK_TYPE_INFO } from '../../types'
+import { WEEKDAY_LABELS, describeRecurrence } from '../../utils/recurrence'
+import { isOpenDeal } from '../../utils/pipelineStages'
 
 interface TaskModalProps {
   isOpen: boolean
@@ -16,8 +18,23 @@ const TYPE_OPTIONS: { value: TaskType; label: string }[] = Object.entries(TASK_T
   ([value, info]) => ({ value: value as TaskType, label: info.label })
 )
 
+const REPEAT_OPTIONS: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Every N days' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+const WEEKDAY_OPTIONS = WEEKDAY_LABELS.map((label, i) => ({ value: String(i), label }))
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+}
+
 export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
-  const { contacts, deals, createTask, updateTask, deleteTask, error } = useCRM()
+  const { contacts, deals, pipelineStages, createTask, updateTask, deleteTask, error } = useCRM()
   const [loading, setLoading] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
@@ -29,6 +46,9 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     contact_id: '',
     deal_id: '',
     assigned_to: '',
+    repeat: 'none' as RecurrenceFrequency | 'none',
+    interval: '1',
+    weekday: '',
   })
   
   // Build options with company name for better context
@@ -42,7 +62,7 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
   
   const dealOptions = [
     { value: '', label: 'No deal' },
-    ...deals.filter(d => d.stage !== 'closed' && d.stage !== 'lost').map(d => ({ value: d.id, label: d.name }))
+    ...deals.filter(d => isOpenDeal(pipelineStages, d)).map(d => ({ value: d.id, label: d.name }))
   ]
   
   // Reset form when task changes
@@ -55,6 +75,9 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         contact_id: task.contact_id || '',
         deal_id: task.deal_id || '',
         assigned_to: task.assigned_to || '',
+        repeat: task.recurrence?.frequency || 'none',
+        interval: task.recurrence?.interval?.toString() || '1',
+        weekday: task.recurrence?.weekday?.toString() ?? '',
       })
     } else {
       // Default to tomorrow for new tasks
@@ -68,12 +91,26 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         contact_id: '',
         deal_id: '',
         assigned_to: '',
+        repeat: 'none',
+        interval: '1',
+        weekday: '',
       })
     }
     setShowDeleteConfirm(false)
     setFormError(null)
   }, [task, isOpen])
   
+  // Weekly rules default to the due date's weekday, monthly rules to its day of month
+  const dueDay = formData.due_date ? new Date(formData.due_date) : null
+  const recurrence: TaskRecurrence | null = formData.repeat === 'none' ? null : {
+    frequency: formData.repeat,
+    interval: Math.max(1, parseInt(formData.interval) || 1),
+    weekday: formData.repeat === 'weekly'
+      ? (formData.weekday !== '' ? parseInt(formData.weekday) : dueDay?.getUTCDay() ?? new Date().getDay())
+      : null,
+    day_of_month: formData.repeat === 'monthly' ? dueDay?.getUTCDate() ?? null : null,
+  }
+  
   // Check if form can be submitted
   const canSubmit = formData.text.trim()
   
@@ -93,6 +130,7 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         contact_id: formData.contact_id || null,
         deal_id: formData.deal_id || null,
         assigned_to: formData.assigned_to || null,
+        recurrence,
       }
       
       if (task) {
@@ -115,7 +153,7 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     } finally {
       setLoading(false)
     }
-  }, [formData, task, updateTask, createTask, onClose, error])
+  }, [formData, recurrence, task, updateTask, createTask, onClose, error])
   
   // Handle Enter key to save - passed to Modal
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -183,6 +221,55 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
           />
         </div>
         
+        {/* Recurrence */}
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12, alignItems: 'end' }}>
+          <Select
+            label="Repeat"
+            options={REPEAT_OPTIONS}
+            value={formData.repeat}
+            onChange={(v) => setFormData({ ...formData, repeat: v as RecurrenceFrequency | 'none' })}
+          />
+          {formData.repeat !== 'none' && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>Every</span>
+              <div style={{ width: 72 }}>
+                <Input
+                  value={formData.interval}
+                  onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                  type="number"
+                  min={1}
+                />
+              </div>
+              <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+                {INTERVAL_UNITS[formData.repeat]}
+              </span>
+            </div>
+          )}
+        </div>
+        {formData.repeat === 'weekly' && (
+          <Select
+            label="On"
+            options={WEEKDAY_OPTIONS}
+            value={recurrence?.weekday?.toString() ?? ''}
+            onChange={(v) => setFormData({ ...formData, weekday: v })}
+          />
+        )}
+        {recurrence && (
+          <p
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              fontSize: theme.fontSize.xs,
+              color: theme.text.muted,
+              margin: 0,
+            }}
+          >
+            <Repeat size={12} />
+            {describeRecurrence(recurrence)}. The next occurrence is created when this one is completed.
+          </p>
+        )}
+        
         {/* Related Records */}
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
           <Select
@@ -208,6 +295,12 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
           icon={<User size={14} />}
         />
         
+        {task && task.snooze_count > 0 && (
+          <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: 0 }}>
+            Snoozed {task.snooze_count} {task.snooze_count === 1 ? 'time' : 'times'}
+          </p>
+        )}
+        
         {/* Error Message */}
         {formError && (
           <div
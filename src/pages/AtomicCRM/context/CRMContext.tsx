@@ -1,12 +1,220 @@
-import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react'
+import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react'
 import { supabase, isSupabaseConfigured } from '../../../lib/supabase'
 import { useFilters } from '../../../contexts/FilterContext'
-import type { Contact, Deal, Task, Note, CRMStats, CRMFilters } from '../types'
+import { useAuth } from '../../../contexts/AuthContext'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { ATTACHMENT_BUCKET, MAX_ATTACHMENTS_PER_NOTE, buildAttachmentPath, validateAttachment } from '../utils/attachments'
+import { formatTaskDay, getDueDateFromToday, getNextDueDate } from '../utils/recurrence'
+import { mergePipelineFlags } from '../utils/duplicates'
+import { defaultPipelineStages, firstOpenStage, getStageInfo } from '../utils/pipelineStages'
+import { CONTACT_STAGE_INFO, FOLLOW_UP_TRIGGER_STAGES } from '../types'
+import type { Contact, Deal, DealStage, Task, Note, Attachment, Tag, TagEntity, FollowUpRule, FollowUpTriggerStage, CRMStats, CRMFilters, ContactImportResult, BulkOperationResult, SavedView, SavedViewEntity, CalendarFeed, PresenceUser, NoteChange, TimelineItem, TimelineTarget, HistoryNotice, AuditEntry, AuditTable, DealStageChange, PipelineStage, PipelineStageDraft } from '../types'
 
 // Create an untyped supabase client for tables that aren't in the generated types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = supabase as any
 
+// Rows per insert request when bulk-creating contacts
+const IMPORT_BATCH_SIZE = 100
+
+// Concurrent requests per chunk when bulk-updating or deleting contacts
+const BULK_UPDATE_CONCURRENCY = 10
+
+// Realtime events for records we wrote within this window are treated as our own echo
+const LOCAL_ECHO_WINDOW_MS = 5000
+
+// Bursts of realtime events (bulk edits, imports) collapse into one background deals refetch
+const REALTIME_REFRESH_DEBOUNCE_MS = 750
+
+// Undo steps kept per session
+const MAX_HISTORY = 50
+
+// Most recent field changes shown in a History tab
+const AUDIT_LOG_LIMIT = 500
+
+// PostgREST caps responses at 1000 rows, so longer histories are read in pages
+const STAGE_HISTORY_PAGE_SIZE = 1000
+
+// Run a per-contact operation in small concurrent chunks, collecting partial failures
+async function runBulkOperation(
+  ids: string[],
+  operation: (id: string) => Promise<boolean>,
+  failureMessage: string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<BulkOperationResult> {
+  const result: BulkOperationResult = { succeeded: [], failed: [] }
+  
+  for (let offset = 0; offset < ids.length; offset += BULK_UPDATE_CONCURRENCY) {
+    const chunk = ids.slice(offset, offset + BULK_UPDATE_CONCURRENCY)
+    const outcomes = await Promise.all(chunk.map(id => operation(id).catch(() => false)))
+    outcomes.forEach((ok, i) => {
+      if (ok) result.succeeded.push(chunk[i])
+      else result.failed.push({ id: chunk[i], error: failureMessage })
+    })
+    onProgress?.(Math.min(offset + chunk.length, ids.length), ids.length)
+  }
+  
+  return result
+}
+
+// ============================================
+// HISTORY HELPERS
+// ============================================
+// One undoable step. Undo and redo replay values through the normal CRUD functions.
+interface HistoryAction {
+  label: string
+  destructive?: boolean
+  undo: () => Promise<boolean>
+  redo: () => Promise<boolean>
+}
+
+// An action once it is on a stack; the id lets a notice undo exactly that step
+interface HistoryEntry extends HistoryAction {
+  id: number
+}
+
+// Steps collected by one withHistoryGroup call. CRUD functions record into it when
+// they are handed one, so unrelated edits made meanwhile stay their own steps.
+export type HistoryGroup = HistoryAction[]
+
+// What crm_merge_contacts changed, handed back to crm_unmerge_contacts to undo it
+interface ContactMerge {
+  duplicate_ids: string[]
+  previous: Partial<Contact> // The primary's values before the merge
+  moved: { table: 'crm_tasks' | 'crm_notes' | 'crm_deals'; id: string; contact_id: string; syncs_pipeline?: boolean }[]
+}
+
+// Previous values of the fields an update is about to overwrite
+function pickPrevious<T extends object>(record: T, updates: Partial<T>): Partial<T> {
+  const previous: Partial<T> = {}
+  for (const key of Object.keys(updates) as (keyof T)[]) {
+    previous[key] = record[key]
+  }
+  return previous
+}
+
+// Several actions (a paste, a bulk edit) undone as one step, last change first
+function combineHistoryActions(label: string, actions: HistoryAction[], destructive?: boolean): HistoryAction {
+  return {
+    label,
+    destructive,
+    undo: async () => {
+      let ok = true
+      for (const action of [...actions].reverse()) ok = (await action.undo()) && ok
+      return ok
+    },
+    redo: async () => {
+      let ok = true
+      for (const action of actions) ok = (await action.redo()) && ok
+      return ok
+    },
+  }
+}
+
+// ============================================
+// ACTIVITY HELPERS
+// ============================================
+const PIPELINE_FLAG_KEYS = [
+  'meeting_booked',
+  'showed_up_to_disco',
+  'qualified',
+  'demo_booked',
+  'showed_up_to_demo',
+  'proposal_sent',
+  'closed',
+] as const
+
+// One line per stage / pipeline flag that actually changed; empty when nothing did
+function describeContactChanges(previous: Contact, changes: Partial<Contact>): string[] {
+  const lines: string[] = []
+  const stageLabel = (stage: string) => CONTACT_STAGE_INFO[stage]?.label || stage
+  
+  const fromStage = previous.stage || 'new'
+  if (changes.stage && changes.stage !== fromStage) {
+    lines.push(`Stage changed from ${stageLabel(fromStage)} to ${stageLabel(changes.stage)}`)
+  }
+  PIPELINE_FLAG_KEYS.forEach(flag => {
+    if (changes[flag] === undefined || !!changes[flag] === !!previous[flag]) return
+    lines.push(`${changes[flag] ? 'Reached' : 'Cleared'} ${CONTACT_STAGE_INFO[flag].label}`)
+  })
+  
+  return lines
+}
+
+function dealActivityLinks(deal: Pick<Deal, 'id' | 'contact_id'>): Partial<Note> {
+  return {
+    deal_id: deal.id,
+    contact_id: deal.contact_id,
+  }
+}
+
+function dealStageActivity(deal: Deal, stage: DealStage, stages: PipelineStage[]): Partial<Note> {
+  const from = getStageInfo(stages, deal.stage).label
+  const { label: to, outcome } = getStageInfo(stages, stage)
+  
+  if (outcome === 'won') return { ...dealActivityLinks(deal), type: 'deal_won', text: `Deal won: ${deal.name}` }
+  if (outcome === 'lost') return { ...dealActivityLinks(deal), type: 'deal_lost', text: `Deal lost: ${deal.name}` }
+  return { ...dealActivityLinks(deal), type: 'status_change', text: `${deal.name} moved from ${from} to ${to}` }
+}
+
+// ============================================
+// FOLLOW-UP RULE HELPERS
+// ============================================
+// Deal stages that imply a contact pipeline step (where mapLeadToDealStage is unambiguous)
+const DEAL_STAGE_PIPELINE_STEP: Partial<Record<DealStage, FollowUpTriggerStage>> = {
+  demo: 'demo_booked',
+  proposal: 'proposal_sent',
+  closed: 'closed',
+}
+
+// Pipeline steps a change turns on that the contact didn't have yet
+function enteredPipelineSteps(previous: Contact, changes: Partial<Contact>): FollowUpTriggerStage[] {
+  return FOLLOW_UP_TRIGGER_STAGES.filter(step => changes[step] === true && !previous[step])
+}
+
+function fillTaskTemplate(template: string, contact: Contact, step: FollowUpTriggerStage): string {
+  const name = contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.email || 'contact'
+  return template
+    .replace(/\{name\}/g, name)
+    .replace(/\{company\}/g, contact.company || '')
+    .replace(/\{stage\}/g, CONTACT_STAGE_INFO[step]?.label || step)
+    .trim()
+}
+
+// Escape LIKE wildcards so emails like first_last@ match literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+// Add newly created rows by id; the realtime INSERT for the same row may have landed first
+function addCreatedRows<T extends { id: string | number }>(prev: T[], rows: T[], atEnd = false): T[] {
+  const ids = new Set(rows.map(row => String(row.id)))
+  const rest = prev.filter(row => !ids.has(String(row.id)))
+  return atEnd ? [...rest, ...rows] : [...rows, ...rest]
+}
+
+// Rename (or remove, when `to` is null) a tag in a record's tags array, dropping duplicates
+function replaceTagName(tags: string[] | null | undefined, from: string, to: string | null): string[] {
+  const next = (tags || []).flatMap(tag => tag === from ? (to ? [to] : []) : [tag])
+  return next.filter((tag, i) => next.indexOf(tag) === i)
+}
+
+// New engaged_leads rows always start with every pipeline flag cleared
+function buildContactInsert(contactData: Partial<Contact>, client: string) {
+  return {
+    ...contactData,
+    client,
+    stage: contactData.stage || 'new',
+    meeting_booked: false,
+    qualified: false,
+    showed_up_to_disco: false,
+    demo_booked: false,
+    showed_up_to_demo: false,
+    proposal_sent: false,
+    closed: false,
+  }
+}
+
 // ============================================
 // CONTEXT TYPE
 // ============================================
@@ -38,11 +246,26 @@ interface CRMContextType {
   // CRUD - Contacts (now using engaged_leads)
   fetchContacts: () => Promise<void>
   createContact: (data: Partial<Contact>) => Promise<Contact | null>
-  updateContact: (id: string, data: Partial<Contact>) => Promise<boolean>
-  deleteContact: (id: string) => Promise<boolean>
+  bulkCreateContacts: (
+    rows: Partial<Contact>[],
+    onProgress?: (completed: number, total: number) => void
+  ) => Promise<ContactImportResult[]>
+  updateContact: (id: string, data: Partial<Contact>, group?: HistoryGroup) => Promise<boolean>
+  deleteContact: (id: string, group?: HistoryGroup) => Promise<boolean>
+  restoreContact: (id: string) => Promise<boolean>
+  bulkUpdateContacts: (
+    targets: Contact[],
+    buildUpdate: (contact: Contact) => Partial<Contact>,
+    onProgress?: (completed: number, total: number) => void
+  ) => Promise<BulkOperationResult>
+  bulkDeleteContacts: (
+    ids: string[],
+    onProgress?: (completed: number, total: number) => void
+  ) => Promise<BulkOperationResult>
+  mergeContacts: (primaryId: string, duplicateIds: string[], fields: Partial<Contact>) => Promise<boolean>
   
   // CRUD - Deals
-  fetchDeals: () => Promise<void>
+  fetchDeals: (options?: { silent?: boolean }) => Promise<void>
   createDeal: (data: Partial<Deal>) => Promise<Deal | null>
   updateDeal: (id: string, data: Partial<Deal>) => Promise<boolean>
   deleteDeal: (id: string) => Promise<boolean>
@@ -53,11 +276,70 @@ interface CRMContextType {
   createTask: (data: Partial<Task>) => Promise<Task | null>
   updateTask: (id: string, data: Partial<Task>) => Promise<boolean>
   toggleTask: (id: string) => Promise<boolean>
+  snoozeTask: (id: string, dueDate: string) => Promise<boolean>
   deleteTask: (id: string) => Promise<boolean>
   
   // Notes
   fetchNotes: (entityType: 'contact' | 'deal', entityId: string) => Promise<Note[]>
   createNote: (data: Partial<Note>) => Promise<Note | null>
+  deleteNote: (note: Note) => Promise<boolean>
+  uploadNoteAttachments: (files: File[]) => Promise<Attachment[] | null>
+  getAttachmentUrl: (attachment: Attachment) => Promise<string | null>
+  fetchTimeline: (target: TimelineTarget) => Promise<TimelineItem[]>
+  
+  // Audit log
+  fetchAuditLog: (target: TimelineTarget) => Promise<AuditEntry[]>
+  
+  // Deal stage history
+  fetchDealStageHistory: (dealId?: string) => Promise<DealStageChange[]>
+  
+  // Pipeline stages
+  pipelineStages: PipelineStage[]
+  fetchPipelineStages: () => Promise<void>
+  savePipelineStages: (stages: PipelineStageDraft[]) => Promise<{ success: boolean; error?: string }>
+  
+  // Follow-up rules
+  followUpRules: FollowUpRule[]
+  fetchFollowUpRules: () => Promise<void>
+  createFollowUpRule: (data: Partial<FollowUpRule>) => Promise<FollowUpRule | null>
+  updateFollowUpRule: (id: string, data: Partial<FollowUpRule>) => Promise<boolean>
+  deleteFollowUpRule: (id: string) => Promise<boolean>
+  
+  // Tags
+  tags: Tag[]
+  fetchTags: () => Promise<void>
+  createTag: (data: Pick<Tag, 'name' | 'color' | 'entity_type'>) => Promise<Tag | null>
+  updateTag: (id: string, data: Partial<Pick<Tag, 'name' | 'color'>>) => Promise<boolean>
+  mergeTags: (sourceIds: string[], targetId: string) => Promise<boolean>
+  deleteTag: (id: string) => Promise<boolean>
+  
+  // Saved views
+  fetchSavedViews: (entityType: SavedViewEntity) => Promise<SavedView[]>
+  createSavedView: (data: Pick<SavedView, 'entity_type' | 'name' | 'config' | 'is_shared'>) => Promise<SavedView | null>
+  updateSavedView: (id: string, data: Partial<Pick<SavedView, 'name' | 'config' | 'is_shared'>>) => Promise<boolean>
+  deleteSavedView: (id: string) => Promise<boolean>
+  
+  // Calendar feed
+  fetchCalendarFeed: () => Promise<CalendarFeed | null>
+  createCalendarFeed: (assignee: string | null) => Promise<CalendarFeed | null>
+  deleteCalendarFeed: (id: string) => Promise<boolean>
+  
+  // Realtime
+  presenceUsers: PresenceUser[] // Teammates online for this client (one entry per tab)
+  setPresenceViewing: (viewing: PresenceUser['viewing']) => void
+  remoteChanges: Record<string, string> // "contact:<id>" / "deal:<id>" -> when a teammate last changed it
+  clearRemoteChange: (key: string) => void
+  subscribeToNoteChanges: (listener: (change: NoteChange) => void) => () => void
+  
+  // Undo history - updates, deletes, merges, deal moves and task toggles
+  undo: () => Promise<boolean>
+  redo: () => Promise<boolean>
+  undoHistoryEntry: (id: number) => Promise<boolean> // A specific step, e.g. the one a notice offers to undo
+  canUndo: boolean
+  canRedo: boolean
+  withHistoryGroup: <T>(label: string, run: (group: HistoryGroup) => Promise<T>, options?: { destructive?: boolean }) => Promise<T>
+  historyNotice: HistoryNotice | null
+  dismissHistoryNotice: () => void
   
   // Stats
   fetchStats: () => Promise<void>
@@ -73,12 +355,28 @@ const CRMContext = createContext<CRMContextType | null>(null)
 // ============================================
 export function CRMProvider({ children }: { children: ReactNode }) {
   const { selectedClient } = useFilters()
+  const { user } = useAuth()
   
   // Data state
   const [contacts, setContacts] = useState<Contact[]>([])
   const [deals, setDeals] = useState<Deal[]>([])
   const [tasks, setTasks] = useState<Task[]>([])
+
+  // Latest ids for the realtime handlers, which subscribe once per client
+  const loadedIdsRef = useRef({ contacts: new Set<string>(), deals: new Set<string>(), tasks: new Set<string>() })
+  useEffect(() => {
+    loadedIdsRef.current.contacts = new Set(contacts.map(c => String(c.id)))
+  }, [contacts])
+  useEffect(() => {
+    loadedIdsRef.current.deals = new Set(deals.map(d => String(d.id)))
+  }, [deals])
+  useEffect(() => {
+    loadedIdsRef.current.tasks = new Set(tasks.map(t => String(t.id)))
+  }, [tasks])
   const [stats, setStats] = useState<CRMStats | null>(null)
+  const [tags, setTags] = useState<Tag[]>([])
+  const [followUpRules, setFollowUpRules] = useState<FollowUpRule[]>([])
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[]>(() => defaultPipelineStages(selectedClient || ''))
   
   // Loading state
   const [loading, setLoading] = useState({
@@ -96,6 +394,248 @@ export function CRMProvider({ children }: { children: ReactNode }) {
   
   // Filters
   const [filters, setFilters] = useState<CRMFilters>({})
+  
+  // Realtime state
+  const [presenceUsers, setPresenceUsers] = useState<PresenceUser[]>([])
+  const [remoteChanges, setRemoteChanges] = useState<Record<string, string>>({})
+  const localWritesRef = useRef(new Map<string, number>())
+  const noteListenersRef = useRef(new Set<(change: NoteChange) => void>())
+  const dealsRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const presenceChannelRef = useRef<RealtimeChannel | null>(null)
+  const viewingRef = useRef<PresenceUser['viewing']>(null)
+  
+  // Undo history
+  const undoStackRef = useRef<HistoryEntry[]>([])
+  const redoStackRef = useRef<HistoryEntry[]>([])
+  const nextHistoryIdRef = useRef(1)
+  const replayingHistoryRef = useRef(0) // > 0 while an undo/redo runs, so it isn't recorded again
+  const historyOpsRef = useRef<{
+    updateContact: (id: string, data: Partial<Contact>) => Promise<boolean>
+    deleteContact: (id: string) => Promise<boolean>
+    restoreContact: (id: string) => Promise<boolean>
+    applyContactMerge: (primaryId: string, duplicateIds: string[], fields: Partial<Contact>) => Promise<ContactMerge | null>
+    unmergeContacts: (primaryId: string, merge: ContactMerge) => Promise<boolean>
+    updateDeal: (id: string, data: Partial<Deal>) => Promise<boolean>
+    moveDealToStage: (dealId: string, stage: string, index: number) => Promise<boolean>
+    updateTask: (id: string, data: Partial<Task>) => Promise<boolean>
+  } | null>(null)
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 })
+  const [historyNotice, setHistoryNotice] = useState<HistoryNotice | null>(null)
+
+  // ============================================
+  // UNDO HISTORY
+  // ============================================
+  // Passing the entry's id makes the notice offer to undo it
+  const showHistoryNotice = useCallback((message: string, historyId?: number) => {
+    setHistoryNotice({ id: Date.now(), message, undoable: historyId !== undefined, historyId })
+  }, [])
+
+  const dismissHistoryNotice = useCallback(() => setHistoryNotice(null), [])
+
+  const syncHistorySize = useCallback(() => {
+    setHistorySize({ undo: undoStackRef.current.length, redo: redoStackRef.current.length })
+  }, [])
+
+  const pushHistory = useCallback((action: HistoryAction) => {
+    const entry: HistoryEntry = { ...action, id: nextHistoryIdRef.current++ }
+    undoStackRef.current = [...undoStackRef.current.slice(-(MAX_HISTORY - 1)), entry]
+    redoStackRef.current = []
+    syncHistorySize()
+    if (entry.destructive) showHistoryNotice(entry.label, entry.id)
+  }, [syncHistorySize, showHistoryNotice])
+
+  // Called by CRUD functions after a successful change; inside a group the step waits for the group
+  const recordHistory = useCallback((action: HistoryAction, group?: HistoryGroup) => {
+    if (replayingHistoryRef.current > 0) return
+    if (group) group.push(action)
+    else pushHistory(action)
+  }, [pushHistory])
+
+  // Everything run() records into the group it is given becomes a single undo step
+  const withHistoryGroup = useCallback(async <T,>(
+    label: string,
+    run: (group: HistoryGroup) => Promise<T>,
+    options?: { destructive?: boolean }
+  ): Promise<T> => {
+    const group: HistoryGroup = []
+    try {
+      return await run(group)
+    } finally {
+      if (group.length > 0) recordHistory(combineHistoryActions(label, group, options?.destructive))
+    }
+  }, [recordHistory])
+
+  // Replays the latest step, or the one with the given id
+  const replayHistory = useCallback(async (direction: 'undo' | 'redo', id?: number): Promise<boolean> => {
+    const from = direction === 'undo' ? undoStackRef : redoStackRef
+    const to = direction === 'undo' ? redoStackRef : undoStackRef
+    const index = id === undefined ? from.current.length - 1 : from.current.findIndex(entry => entry.id === id)
+    const action = from.current[index]
+    if (!action) return false
+    
+    from.current = from.current.filter(entry => entry !== action)
+    syncHistorySize()
+    replayingHistoryRef.current++
+    try {
+      const ok = await action[direction]()
+      // A failed step goes back where it was so it can be retried
+      if (ok) to.current = [...to.current, action]
+      else from.current = [...from.current.slice(0, index), action, ...from.current.slice(index)]
+      syncHistorySize()
+      if (ok) showHistoryNotice(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${action.label}`)
+      return ok
+    } finally {
+      replayingHistoryRef.current--
+    }
+  }, [syncHistorySize, showHistoryNotice])
+
+  const undo = useCallback(() => replayHistory('undo'), [replayHistory])
+  const redo = useCallback(() => replayHistory('redo'), [replayHistory])
+  const undoHistoryEntry = useCallback((id: number) => replayHistory('undo', id), [replayHistory])
+
+  // Steps point at another client's records once the client changes
+  useEffect(() => {
+    undoStackRef.current = []
+    redoStackRef.current = []
+    syncHistorySize()
+    setHistoryNotice(null)
+  }, [selectedClient, syncHistorySize])
+
+  // ============================================
+  // ACTIVITY
+  // ============================================
+  // Auto-generated timeline entries; a failure is logged but never fails the change itself
+  const recordActivity = useCallback(async (noteData: Partial<Note>) => {
+    if (!selectedClient || (!noteData.contact_id && !noteData.deal_id)) return
+    
+    const { data: created, error: insertError } = await db
+      .from('crm_notes')
+      .insert({ ...noteData, client: selectedClient, created_by: user?.id ?? null })
+      .select()
+      .single()
+    
+    if (insertError) {
+      console.error('Record activity error:', insertError)
+      return
+    }
+    // Open timelines update right away, even before the realtime event arrives
+    noteListenersRef.current.forEach(listener => listener({ eventType: 'INSERT', note: created as Note }))
+  }, [selectedClient, user])
+
+  // ============================================
+  // FOLLOW-UP RULES
+  // ============================================
+  const fetchFollowUpRules = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_followup_rules')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('created_at', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setFollowUpRules((data || []) as FollowUpRule[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch follow-up rules')
+    }
+  }, [selectedClient])
+
+  const createFollowUpRule = useCallback(async (ruleData: Partial<FollowUpRule>): Promise<FollowUpRule | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_followup_rules')
+        .insert({ ...ruleData, client: selectedClient, created_by: user?.id ?? null })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setFollowUpRules(prev => [...prev, created as FollowUpRule])
+      return created as FollowUpRule
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create follow-up rule')
+      return null
+    }
+  }, [selectedClient, user])
+
+  const updateFollowUpRule = useCallback(async (id: string, ruleData: Partial<FollowUpRule>): Promise<boolean> => {
+    try {
+      const updates = { ...ruleData, updated_at: new Date().toISOString() }
+      const { error: updateError } = await db
+        .from('crm_followup_rules')
+        .update(updates)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setFollowUpRules(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update follow-up rule')
+      return false
+    }
+  }, [])
+
+  const deleteFollowUpRule = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_followup_rules')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setFollowUpRules(prev => prev.filter(r => r.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete follow-up rule')
+      return false
+    }
+  }, [])
+
+  // Create the tasks for active rules on the steps a contact just entered. Like
+  // activity entries, a failure is logged but never fails the change itself.
+  const runFollowUpRules = useCallback(async (contact: Contact, steps: FollowUpTriggerStage[]) => {
+    if (!selectedClient || steps.length === 0) return
+    
+    // One open task per rule and contact, so toggling a step back and forth doesn't pile up tasks
+    const matching = followUpRules.filter(rule =>
+      rule.is_active &&
+      steps.includes(rule.trigger_stage) &&
+      !tasks.some(t => !t.done && t.follow_up_rule_id === rule.id && String(t.contact_id) === String(contact.id))
+    )
+    if (matching.length === 0) return
+    
+    const { data: created, error: insertError } = await db
+      .from('crm_tasks')
+      .insert(matching.map(rule => ({
+        client: selectedClient,
+        contact_id: String(contact.id),
+        type: rule.task_type,
+        text: fillTaskTemplate(rule.task_text, contact, rule.trigger_stage),
+        due_date: getDueDateFromToday(rule.due_in_days),
+        assigned_to: contact.assignee || null,
+        follow_up_rule_id: rule.id,
+      })))
+      .select()
+    
+    if (insertError) {
+      console.error('Follow-up rule error:', insertError)
+      return
+    }
+    setTasks(prev => addCreatedRows(prev, (created || []) as Task[]))
+  }, [selectedClient, followUpRules, tasks])
+
+  // Dragging a deal into a stage counts as its contact entering the matching pipeline step
+  const runDealStageFollowUps = useCallback((deal: Deal, stage: DealStage) => {
+    // Any won stage closes the contact, whatever the client calls it
+    const step = DEAL_STAGE_PIPELINE_STEP[stage]
+      ?? (getStageInfo(pipelineStages, stage).outcome === 'won' ? 'closed' : undefined)
+    if (!step || deal.stage === stage) return
+    const contact = contacts.find(c => String(c.id) === String(deal.contact_id))
+    if (contact && !contact[step]) runFollowUpRules(contact, [step])
+  }, [contacts, pipelineStages, runFollowUpRules])
 
   // ============================================
   // CONTACTS (Using engaged_leads table)
@@ -136,18 +676,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       console.log('Creating contact in engaged_leads with client:', selectedClient, 'data:', contactData)
       const { data: created, error: createError } = await db
         .from('engaged_leads')
-        .insert({ 
-          ...contactData, 
-          client: selectedClient,
-          stage: contactData.stage || 'new',
-          meeting_booked: false,
-          qualified: false,
-          showed_up_to_disco: false,
-          demo_booked: false,
-          showed_up_to_demo: false,
-          proposal_sent: false,
-          closed: false,
-        })
+        .insert(buildContactInsert(contactData, selectedClient))
         .select()
         .single()
       
@@ -157,7 +686,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         console.error('Create contact error:', createError)
         throw createError
       }
-      setContacts(prev => [created as Contact, ...prev])
+      setContacts(prev => addCreatedRows(prev, [created as Contact]))
       setError(null)
       return created as Contact
     } catch (err) {
@@ -168,7 +697,65 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     }
   }, [selectedClient])
 
-  const updateContact = useCallback(async (id: string, contactData: Partial<Contact>): Promise<boolean> => {
+  const bulkCreateContacts = useCallback(async (
+    rows: Partial<Contact>[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<ContactImportResult[]> => {
+    if (!selectedClient) {
+      const message = 'No client selected. Please ensure you are logged in with a valid client assignment.'
+      setError(message)
+      return rows.map((_, index) => ({ index, status: 'failed', error: message }))
+    }
+    
+    const results: ContactImportResult[] = []
+    const created: Contact[] = []
+    
+    for (let offset = 0; offset < rows.length; offset += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(offset, offset + IMPORT_BATCH_SIZE)
+      const { data, error: batchError } = await db
+        .from('engaged_leads')
+        .insert(batch.map(row => buildContactInsert(row, selectedClient)))
+        .select()
+      
+      if (!batchError) {
+        ;((data || []) as Contact[]).forEach((contact, i) => {
+          results.push({ index: offset + i, status: 'created', contact })
+          created.push(contact)
+        })
+      } else {
+        // One bad row rejects the whole batch - retry row by row to isolate it
+        for (let i = 0; i < batch.length; i++) {
+          const { data: single, error: rowError } = await db
+            .from('engaged_leads')
+            .insert(buildContactInsert(batch[i], selectedClient))
+            .select()
+            .single()
+          
+          if (rowError) {
+            results.push({
+              index: offset + i,
+              status: 'failed',
+              error: rowError.message || rowError.details || 'Failed to create contact',
+            })
+          } else {
+            results.push({ index: offset + i, status: 'created', contact: single as Contact })
+            created.push(single as Contact)
+          }
+        }
+      }
+      
+      onProgress?.(Math.min(offset + batch.length, rows.length), rows.length)
+    }
+    
+    if (created.length > 0) {
+      setContacts(prev => addCreatedRows(prev, created))
+    }
+    return results
+  }, [selectedClient])
+
+  const updateContact = useCallback(async (id: string, contactData: Partial<Contact>, group?: HistoryGroup): Promise<boolean> => {
+    // Automations already ran for the original change - undo/redo only replays values
+    const isReplay = replayingHistoryRef.current > 0
     try {
       // Build update object, explicitly including boolean false values
       const updateData: Record<string, any> = {
@@ -209,6 +796,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         }
       }
 
+      localWritesRef.current.set(`contact:${id}`, Date.now())
       const { error: updateError } = await db
         .from('engaged_leads')
         .update(updateData)
@@ -221,6 +809,23 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       
       // Update local state
       setContacts(prev => prev.map(c => c.id === id ? { ...c, ...contactData } : c))
+      
+      const previous = contacts.find(c => c.id === id)
+      const changes = previous ? describeContactChanges(previous, contactData) : []
+      if (changes.length > 0) {
+        recordActivity({ contact_id: String(id), type: 'status_change', text: changes.join('\n') })
+      }
+      if (previous && !isReplay) {
+        runFollowUpRules({ ...previous, ...contactData }, enteredPipelineSteps(previous, contactData))
+      }
+      if (previous) {
+        const before = pickPrevious(previous, contactData)
+        recordHistory({
+          label: `Edited ${previous.full_name || 'lead'}`,
+          undo: () => historyOpsRef.current!.updateContact(id, before),
+          redo: () => historyOpsRef.current!.updateContact(id, contactData),
+        }, group)
+      }
       return true
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update contact'
@@ -228,11 +833,12 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       console.error('Update contact exception:', err)
       return false
     }
-  }, [])
+  }, [contacts, recordActivity, runFollowUpRules, recordHistory])
 
-  const deleteContact = useCallback(async (id: string): Promise<boolean> => {
+  const deleteContact = useCallback(async (id: string, group?: HistoryGroup): Promise<boolean> => {
     try {
       // Soft delete
+      localWritesRef.current.set(`contact:${id}`, Date.now())
       const { error: deleteError } = await db
         .from('engaged_leads')
         .update({ deleted_at: new Date().toISOString() })
@@ -240,22 +846,78 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       
       if (deleteError) throw deleteError
       setContacts(prev => prev.filter(c => c.id !== id))
+      
+      const deleted = contacts.find(c => c.id === id)
+      recordHistory({
+        label: `Deleted ${deleted?.full_name || 'lead'}`,
+        destructive: true,
+        undo: () => historyOpsRef.current!.restoreContact(id),
+        redo: () => historyOpsRef.current!.deleteContact(id),
+      }, group)
       return true
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete contact')
       return false
     }
+  }, [contacts, recordHistory])
+
+  // Undo a soft delete - the row goes back into place by created_at
+  const restoreContact = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      localWritesRef.current.set(`contact:${id}`, Date.now())
+      const { data, error: restoreError } = await db
+        .from('engaged_leads')
+        .update({ deleted_at: null })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (restoreError) throw restoreError
+      const restored = data as Contact
+      setContacts(prev => [...prev.filter(c => c.id !== id), restored]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore contact')
+      return false
+    }
   }, [])
 
+  // Each contact gets its own update (e.g. only stamping *_at fields that were unset)
+  const bulkUpdateContacts = useCallback(async (
+    targets: Contact[],
+    buildUpdate: (contact: Contact) => Partial<Contact>,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<BulkOperationResult> => {
+    const byId = new Map(targets.map(c => [c.id, c]))
+    return withHistoryGroup(`Updated ${targets.length} ${targets.length === 1 ? 'lead' : 'leads'}`, group => runBulkOperation(
+      targets.map(c => c.id),
+      id => updateContact(id, buildUpdate(byId.get(id)!), group),
+      'Failed to update contact',
+      onProgress
+    ))
+  }, [updateContact, withHistoryGroup])
+
+  const bulkDeleteContacts = useCallback(async (
+    ids: string[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<BulkOperationResult> => {
+    return withHistoryGroup(
+      `Deleted ${ids.length} ${ids.length === 1 ? 'lead' : 'leads'}`,
+      group => runBulkOperation(ids, id => deleteContact(id, group), 'Failed to delete contact', onProgress),
+      { destructive: true }
+    )
+  }, [deleteContact, withHistoryGroup])
+
   // ============================================
   // DEALS
   // ============================================
-  const fetchDeals = useCallback(async () => {
+  // Silent refreshes (realtime) keep the board on screen instead of showing the skeleton
+  const fetchDeals = useCallback(async (options?: { silent?: boolean }) => {
     if (!selectedClient) return
-    setLoading(prev => ({ ...prev, deals: true }))
+    if (!options?.silent) setLoading(prev => ({ ...prev, deals: true }))
     
     try {
-      // Fetch existing deals from crm_deals
       const { data: dealsData, error: dealsError } = await db
         .from('crm_deals')
         .select('*')
@@ -265,7 +927,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       
       if (dealsError) throw dealsError
       
-      // Fetch engaged leads
+      // Leads joined onto their deals
       const { data: leadsData, error: leadsError } = await db
         .from('engaged_leads')
         .select('*')
@@ -274,23 +936,6 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       
       if (leadsError) throw leadsError
       
-      // Fetch opportunities to get deal amounts
-      const { data: opportunitiesData, error: oppsError } = await db
-        .from('client_opportunities')
-        .select('*')
-        .eq('client', selectedClient)
-      
-      if (oppsError) throw oppsError
-      
-      // Create a map of email -> opportunity for quick lookup
-      const opportunityMap = new Map<string, { id: number; value: number }>()
-      ;(opportunitiesData || []).forEach((opp: any) => {
-        if (opp.contact_email) {
-          const email = opp.contact_email.toLowerCase()
-          opportunityMap.set(email, { id: opp.id, value: Number(opp.value || 0) })
-        }
-      })
-      
       // Create a map of contact_id -> contact for joining with deals
       const contactMap = new Map<string, Contact>()
       ;(leadsData || []).forEach((lead: any) => {
@@ -353,114 +998,21 @@ export function CRMProvider({ children }: { children: ReactNode }) {
           meeting_link: lead.meeting_link,
           rescheduling_link: lead.rescheduling_link,
           date_created: lead.date_created,
+          tags: lead.tags || [],
           custom_variables_jsonb: lead.custom_variables_jsonb,
           created_at: lead.created_at,
           updated_at: lead.updated_at,
           deleted_at: lead.deleted_at,
         }
         contactMap.set(String(lead.id), contact)
-        if (lead.email) {
-          contactMap.set(lead.email.toLowerCase(), contact)
-        }
-      })
-      
-      // Create a set of emails that already have deals in crm_deals
-      // (to avoid duplicates)
-      const existingDealEmails = new Set<string>()
-      ;(dealsData || []).forEach((deal: any) => {
-        // Join contact if contact_id exists
-        if (deal.contact_id) {
-          const contact = contactMap.get(deal.contact_id)
-          if (contact) {
-            deal.contact = contact
-            if (contact.email) {
-              existingDealEmails.add(contact.email.toLowerCase())
-            }
-          }
-        }
       })
       
-      // Helper function to map engaged lead pipeline stage to deal stage
-      const mapLeadToDealStage = (lead: any): Deal['stage'] => {
-        if (lead.closed) return 'closed'
-        if (lead.proposal_sent) return 'proposal'
-        if (lead.showed_up_to_demo || lead.demo_booked) return 'demo'
-        if (lead.qualified || lead.showed_up_to_disco) return 'discovery'
-        if (lead.meeting_booked) return 'interested'
-        return 'interested'
-      }
-      
-      // Transform engaged leads into deals
-      const leadsAsDeals: Deal[] = (leadsData || [])
-        .filter((lead: any) => {
-          // Only include leads that don't already have a deal
-          if (!lead.email) return false
-          const email = lead.email.toLowerCase()
-          return !existingDealEmails.has(email)
-        })
-        .map((lead: any, index: number) => {
-          const email = (lead.email || '').toLowerCase()
-          const opportunity = email ? opportunityMap.get(email) : null
-          const dealStage = mapLeadToDealStage(lead)
-          
-          // Get contact from map
-          const contact = contactMap.get(String(lead.id))
-          if (!contact) {
-            // Should not happen, but handle gracefully
-            return null
-          }
-          
-          // Create deal name from lead info
-          const dealName = contact.full_name || 
-            contact.company || 
-            contact.email || 
-            'Untitled Deal'
-          
-          // Create deal from lead
-          const deal: Deal = {
-            id: `lead_${lead.id}`, // Use a prefix to distinguish from crm_deals
-            client: lead.client,
-            contact_id: String(lead.id),
-            name: dealName,
-            description: lead.context || lead.notes || null,
-            stage: dealStage,
-            amount: opportunity?.value || 0,
-            currency: 'USD',
-            probability: dealStage === 'closed' ? 100 : dealStage === 'lost' ? 0 : 
-                        dealStage === 'proposal' ? 80 :
-                        dealStage === 'demo' ? 40 :
-                        dealStage === 'discovery' ? 25 :
-                        dealStage === 'interested' ? 10 : 10,
-            expected_close_date: lead.closed_at || null,
-            actual_close_date: lead.closed_at || null,
-            close_reason: null,
-            owner_id: lead.assignee || null,
-            index: index, // Will be sorted by stage later
-            tags: [],
-            created_at: lead.created_at || new Date().toISOString(),
-            updated_at: lead.updated_at || new Date().toISOString(),
-            created_by: null,
-            deleted_at: null,
-            contact,
-          }
-          
-          return deal
-        })
-        .filter((deal: Deal | null): deal is Deal => deal !== null)
-      
-      // Combine existing deals with leads-as-deals
-      const allDeals: Deal[] = [...(dealsData || []), ...leadsAsDeals]
-      
-      // Sort by stage and index
-      const stageOrder: Deal['stage'][] = ['interested', 'discovery', 'demo', 'negotiation', 'proposal', 'closed', 'lost']
-      allDeals.sort((a, b) => {
-        const aStageIndex = stageOrder.indexOf(a.stage)
-        const bStageIndex = stageOrder.indexOf(b.stage)
-        if (aStageIndex !== bStageIndex) {
-          return aStageIndex - bStageIndex
-        }
-        return a.index - b.index
-      })
+      // Every pipeline lead has its own crm_deals row (created and kept in sync
+      // with the lead's pipeline flags by database triggers)
+      const allDeals: Deal[] = (dealsData || []).map((deal: any) => ({
+        ...deal,
+        contact: deal.contact_id ? contactMap.get(deal.contact_id) : undefined,
+      }))
       
       setDeals(allDeals)
     } catch (err) {
@@ -478,7 +1030,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     
     try {
       // Get max index for the stage
-      const stageDeals = deals.filter(d => d.stage === (dealData.stage || 'lead'))
+      const stageDeals = deals.filter(d => d.stage === (dealData.stage || firstOpenStage(pipelineStages)))
       const maxIndex = stageDeals.length > 0 ? Math.max(...stageDeals.map(d => d.index)) + 1 : 0
       
       const { data: created, error: createError } = await db
@@ -493,8 +1045,13 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         console.error('Create deal error:', createError)
         throw createError
       }
-      setDeals(prev => [...prev, created as Deal])
+      setDeals(prev => addCreatedRows(prev, [created as Deal], true))
       setError(null)
+      recordActivity({
+        ...dealActivityLinks(created as Deal),
+        type: 'deal_created',
+        text: `Deal created: ${(created as Deal).name}`,
+      })
       return created as Deal
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create deal'
@@ -502,161 +1059,70 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       console.error('Create deal exception:', err)
       return null
     }
-  }, [selectedClient, deals])
+  }, [selectedClient, deals, pipelineStages, recordActivity])
 
   const updateDeal = useCallback(async (id: string, dealData: Partial<Deal>): Promise<boolean> => {
+    localWritesRef.current.set(`deal:${id}`, Date.now())
+    const previous = deals.find(d => d.id === id)
+    const recordDealHistory = () => {
+      if (!previous) return
+      const before = pickPrevious(previous, dealData)
+      recordHistory({
+        label: `Edited ${previous.name}`,
+        undo: () => historyOpsRef.current!.updateDeal(id, before),
+        redo: () => historyOpsRef.current!.updateDeal(id, dealData),
+      })
+    }
     try {
-      // If this is a deal from engaged leads, update the opportunity and engaged lead
-      if (id.startsWith('lead_')) {
-        const leadId = id.replace('lead_', '')
-        const existingDeal = deals.find(d => d.id === id)
-        
-        if (!existingDeal || !existingDeal.contact?.email) {
-          setError('Deal or contact not found')
-          return false
-        }
-        
-        const email = existingDeal.contact.email.toLowerCase()
-        
-        // Update or create opportunity in client_opportunities
-        if (dealData.amount !== undefined || dealData.stage !== undefined) {
-          // Find existing opportunity by email
-          const { data: existingOpp } = await db
-            .from('client_opportunities')
-            .select('id')
-            .eq('client', selectedClient)
-            .eq('contact_email', email)
-            .maybeSingle()
-          
-          const opportunityData: any = {
-            client: selectedClient,
-            contact_email: email,
-            contact_name: existingDeal.contact.full_name || existingDeal.name || 'Unknown',
-            opportunity_name: dealData.name || existingDeal.name,
-            value: dealData.amount !== undefined ? Number(dealData.amount) : existingDeal.amount,
-            stage: dealData.stage || existingDeal.stage,
-          }
-          
-          if (existingOpp?.id) {
-            // Update existing opportunity
-            const { error: oppError } = await db
-              .from('client_opportunities')
-              .update(opportunityData)
-              .eq('id', existingOpp.id)
-            
-            if (oppError) throw oppError
-          } else if (opportunityData.value > 0) {
-            // Create new opportunity if value > 0
-            const { error: oppError } = await db
-              .from('client_opportunities')
-              .insert(opportunityData)
-            
-            if (oppError) throw oppError
-          }
-        }
-        
-        // Update engaged lead if stage changed (map deal stage to pipeline flags)
-        if (dealData.stage) {
-          const stageUpdates: any = {
-            closed: dealData.stage === 'closed',
-            proposal_sent: dealData.stage === 'proposal',
-            showed_up_to_demo: dealData.stage === 'demo',
-            demo_booked: dealData.stage === 'demo',
-            qualified: dealData.stage === 'discovery',
-            showed_up_to_disco: dealData.stage === 'discovery',
-            meeting_booked: dealData.stage === 'interested',
-          }
-          
-          // Reset all flags first, then set the appropriate one
-          const resetFlags = {
-            closed: false,
-            proposal_sent: false,
-            showed_up_to_demo: false,
-            demo_booked: false,
-            qualified: false,
-            showed_up_to_disco: false,
-            meeting_booked: false,
-          }
-          
-          await db
-            .from('engaged_leads')
-            .update({ ...resetFlags, ...stageUpdates })
-            .eq('id', leadId)
-        }
-        
-        // Update local state immediately
-        setDeals(prev => prev.map(d => d.id === id ? { ...d, ...dealData } : d))
-        // Refresh deals to get updated data from database
-        await fetchDeals()
-        return true
+      // Stage and amount changes on a pipeline deal are written through to the
+      // lead's flags and opportunity by triggers; those echoes are ours too
+      if (previous?.syncs_pipeline && previous.contact_id && (dealData.stage !== undefined || dealData.amount !== undefined)) {
+        localWritesRef.current.set(`contact:${previous.contact_id}`, Date.now())
       }
       
-      // Regular deal - update in crm_deals
       const { error: updateError } = await db
         .from('crm_deals')
         .update(dealData)
         .eq('id', id)
       
       if (updateError) throw updateError
+      
+      if (previous && dealData.stage && dealData.stage !== previous.stage) {
+        recordActivity(dealStageActivity(previous, dealData.stage, pipelineStages))
+      }
+      
       // Update local state immediately
       setDeals(prev => prev.map(d => d.id === id ? { ...d, ...dealData } : d))
-      // Refresh deals to get updated data from database
-      await fetchDeals()
+      recordDealHistory()
+      // Pick up trigger-written columns in the background; the optimistic
+      // update above is already on screen
+      fetchDeals({ silent: true })
       return true
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update deal')
       return false
     }
-  }, [deals, selectedClient, fetchDeals])
+  }, [deals, pipelineStages, fetchDeals, recordActivity, recordHistory])
 
   const moveDealToStage = useCallback(async (dealId: string, stage: string, index: number): Promise<boolean> => {
+    localWritesRef.current.set(`deal:${dealId}`, Date.now())
+    const isReplay = replayingHistoryRef.current > 0
+    // Undo puts the card back where it was
+    const recordMoveHistory = (previous: Deal) => {
+      recordHistory({
+        label: previous.stage === stage
+          ? `Reordered ${previous.name}`
+          : `Moved ${previous.name} to ${getStageInfo(pipelineStages, stage).label}`,
+        undo: () => historyOpsRef.current!.moveDealToStage(dealId, previous.stage, previous.index),
+        redo: () => historyOpsRef.current!.moveDealToStage(dealId, stage, index),
+      })
+    }
+    const previousDeal = deals.find(d => d.id === dealId)
     try {
-      // If this is a deal from engaged leads, create a new deal in crm_deals
-      if (dealId.startsWith('lead_')) {
-        const existingDeal = deals.find(d => d.id === dealId)
-        
-        if (!existingDeal) {
-          setError('Deal not found')
-          return false
-        }
-        
-        // Get max index for the new stage
-        const stageDeals = deals.filter(d => d.stage === stage && !d.id.startsWith('lead_'))
-        const maxIndex = stageDeals.length > 0 ? Math.max(...stageDeals.map(d => d.index)) + 1 : 0
-        
-        // Create new deal in crm_deals
-        const newDealData: Partial<Deal> = {
-          contact_id: existingDeal.contact_id,
-          name: existingDeal.name,
-          description: existingDeal.description,
-          stage: stage as Deal['stage'],
-          amount: existingDeal.amount,
-          currency: existingDeal.currency,
-          probability: existingDeal.probability,
-          expected_close_date: existingDeal.expected_close_date,
-          owner_id: existingDeal.owner_id,
-          index: maxIndex,
-          tags: existingDeal.tags || [],
-        }
-        
-        const { data: created, error: createError } = await db
-          .from('crm_deals')
-          .insert({ ...newDealData, client: selectedClient })
-          .select()
-          .single()
-        
-        if (createError) throw createError
-        
-        // Replace the lead deal with the new real deal in state
-        setDeals(prev => {
-          const filtered = prev.filter(d => d.id !== dealId)
-          return [...filtered, { ...created as Deal, contact: existingDeal.contact }]
-        })
-        
-        return true
+      if (previousDeal?.syncs_pipeline && previousDeal.contact_id && previousDeal.stage !== stage) {
+        localWritesRef.current.set(`contact:${previousDeal.contact_id}`, Date.now())
       }
       
-      // Regular deal - just update it
       const { error: updateError } = await db
         .from('crm_deals')
         .update({ stage, index })
@@ -664,21 +1130,23 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       
       if (updateError) throw updateError
       setDeals(prev => prev.map(d => d.id === dealId ? { ...d, stage: stage as Deal['stage'], index } : d))
-      return true
+      
+      // Reordering within a column isn't a stage change
+      if (previousDeal && previousDeal.stage !== stage) {
+        recordActivity(dealStageActivity(previousDeal, stage, pipelineStages))
+        if (!isReplay) runDealStageFollowUps(previousDeal, stage)
+      }
+      if (previousDeal) recordMoveHistory(previousDeal)
+      return true
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to move deal')
       return false
     }
-  }, [deals, selectedClient])
+  }, [deals, pipelineStages, recordActivity, runDealStageFollowUps, recordHistory])
 
   const deleteDeal = useCallback(async (id: string): Promise<boolean> => {
-    // Deals from engaged leads (prefixed with "lead_") are read-only
-    if (id.startsWith('lead_')) {
-      setError('This deal is read-only and comes from engaged leads. It cannot be deleted from the deals pipeline.')
-      return false
-    }
-    
     try {
+      localWritesRef.current.set(`deal:${id}`, Date.now())
       const { error: deleteError } = await db
         .from('crm_deals')
         .update({ deleted_at: new Date().toISOString() })
@@ -693,6 +1161,127 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
+  // ============================================
+  // DUPLICATES
+  // ============================================
+  // Folds duplicate leads into the primary in one transaction (crm_merge_contacts):
+  // the picked field values plus the union of pipeline flags and tags land on it,
+  // tasks/notes/deals are moved over, and the duplicates are soft-deleted. The
+  // duplicates' pipeline deals become plain deals unless the primary has none.
+  const applyContactMerge = useCallback(async (
+    primaryId: string,
+    duplicateIds: string[],
+    fields: Partial<Contact>
+  ): Promise<ContactMerge | null> => {
+    const primary = contacts.find(c => c.id === primaryId)
+    const duplicates = contacts.filter(c => c.id !== primaryId && duplicateIds.includes(c.id))
+    if (!primary || duplicates.length === 0) return null
+
+    const group = [primary, ...duplicates]
+    const merged: Partial<Contact> = {
+      ...fields,
+      ...mergePipelineFlags(group),
+      tags: [...new Set(group.flatMap(c => c.tags || []))],
+    }
+    if ('first_name' in fields || 'last_name' in fields) {
+      const firstName = 'first_name' in fields ? fields.first_name : primary.first_name
+      const lastName = 'last_name' in fields ? fields.last_name : primary.last_name
+      merged.full_name = [firstName, lastName].filter(Boolean).join(' ') || primary.full_name
+    }
+
+    try {
+      group.forEach(c => localWritesRef.current.set(`contact:${c.id}`, Date.now()))
+
+      const { data, error: mergeError } = await db.rpc('crm_merge_contacts', {
+        p_primary_id: String(primaryId),
+        p_duplicate_ids: duplicates.map(c => String(c.id)),
+        p_fields: merged,
+      })
+      if (mergeError) throw mergeError
+      const merge = data as ContactMerge
+      const mergedIds = new Set(merge.duplicate_ids)
+
+      setContacts(prev => prev
+        .filter(c => !mergedIds.has(String(c.id)))
+        .map(c => c.id === primaryId ? { ...c, ...merged } : c))
+      setTasks(prev => prev.map(t => t.contact_id && mergedIds.has(String(t.contact_id)) ? { ...t, contact_id: primaryId } : t))
+      // Moved deals and the pipeline flags the merge cleared are only on the server
+      fetchDeals({ silent: true })
+
+      const mergedNames = duplicates
+        .filter(c => mergedIds.has(String(c.id)))
+        .map(c => c.email || c.full_name || 'lead')
+      recordActivity({
+        contact_id: String(primaryId),
+        type: 'status_change',
+        text: `Merged ${mergedNames.length} duplicate ${mergedNames.length === 1 ? 'lead' : 'leads'} into this lead (${mergedNames.join(', ')})`,
+      })
+      return merge
+    } catch (err) {
+      console.error('Merge contacts error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to merge leads')
+      return null
+    }
+  }, [contacts, fetchDeals, recordActivity])
+
+  // Undo of a merge: the duplicates come back with their tasks, notes and deals
+  const unmergeContacts = useCallback(async (primaryId: string, merge: ContactMerge): Promise<boolean> => {
+    const leadIds = [String(primaryId), ...merge.duplicate_ids]
+    try {
+      leadIds.forEach(id => localWritesRef.current.set(`contact:${id}`, Date.now()))
+      const { error: unmergeError } = await db.rpc('crm_unmerge_contacts', {
+        p_primary_id: String(primaryId),
+        p_merge: merge,
+      })
+      if (unmergeError) throw unmergeError
+
+      const { data, error: fetchError } = await db
+        .from('engaged_leads')
+        .select('*')
+        .in('id', leadIds)
+      if (fetchError) throw fetchError
+      const restored = (data || []) as Contact[]
+      const restoredIds = new Set(restored.map(c => String(c.id)))
+      setContacts(prev => [...prev.filter(c => !restoredIds.has(String(c.id))), ...restored]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)))
+
+      const movedTasks = new Map(merge.moved.filter(m => m.table === 'crm_tasks').map(m => [m.id, m.contact_id]))
+      setTasks(prev => prev.map(t => movedTasks.has(String(t.id)) && t.contact_id === primaryId
+        ? { ...t, contact_id: movedTasks.get(String(t.id))! }
+        : t))
+      fetchDeals({ silent: true })
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo merge')
+      return false
+    }
+  }, [fetchDeals])
+
+  const mergeContacts = useCallback(async (
+    primaryId: string,
+    duplicateIds: string[],
+    fields: Partial<Contact>
+  ): Promise<boolean> => {
+    const primary = contacts.find(c => c.id === primaryId)
+    const applied = await applyContactMerge(primaryId, duplicateIds, fields)
+    if (!applied) return false
+
+    // Redo merges again, and the next undo reverses that merge
+    let merge = applied
+    const count = merge.duplicate_ids.length
+    recordHistory({
+      label: `Merged ${count} duplicate ${count === 1 ? 'lead' : 'leads'} into ${primary?.full_name || 'lead'}`,
+      destructive: true,
+      undo: () => historyOpsRef.current!.unmergeContacts(primaryId, merge),
+      redo: async () => {
+        const next = await historyOpsRef.current!.applyContactMerge(primaryId, duplicateIds, fields)
+        if (next) merge = next
+        return next !== null
+      },
+    })
+    return true
+  }, [contacts, applyContactMerge, recordHistory])
+
   // ============================================
   // TASKS
   // ============================================
@@ -735,7 +1324,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         console.error('Create task error:', createError)
         throw createError
       }
-      setTasks(prev => [created as Task, ...prev])
+      setTasks(prev => addCreatedRows(prev, [created as Task]))
       setError(null)
       return created as Task
     } catch (err) {
@@ -772,8 +1361,59 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       done_at: newDone ? new Date().toISOString() : null,
     }
     
-    return updateTask(id, updates)
-  }, [tasks, updateTask])
+    const success = await updateTask(id, updates)
+    if (success) {
+      const before = { done: task.done, done_at: task.done_at }
+      recordHistory({
+        label: `${newDone ? 'Completed' : 'Reopened'} task: ${task.text}`,
+        undo: () => historyOpsRef.current!.updateTask(id, before),
+        redo: () => historyOpsRef.current!.updateTask(id, updates),
+      })
+    }
+    if (success && newDone) {
+      recordActivity({
+        contact_id: task.contact_id,
+        deal_id: task.deal_id,
+        type: 'task_completed',
+        text: `Completed task: ${task.text}`,
+      })
+      
+      // Recurring tasks spawn their next occurrence, once - re-completing after an undo doesn't duplicate it
+      if (task.recurrence && !tasks.some(t => t.recurrence_parent_id === task.id)) {
+        await createTask({
+          text: task.text,
+          type: task.type,
+          contact_id: task.contact_id,
+          deal_id: task.deal_id,
+          assigned_to: task.assigned_to,
+          recurrence: task.recurrence,
+          recurrence_parent_id: task.id,
+          due_date: getNextDueDate(task.recurrence, task.due_date),
+        })
+      }
+    }
+    return success
+  }, [tasks, updateTask, createTask, recordActivity, recordHistory])
+
+  const snoozeTask = useCallback(async (id: string, dueDate: string): Promise<boolean> => {
+    const task = tasks.find(t => t.id === id)
+    if (!task) return false
+    
+    const success = await updateTask(id, {
+      due_date: dueDate,
+      snooze_count: (task.snooze_count || 0) + 1,
+    })
+    if (success) {
+      const from = task.due_date ? formatTaskDay(task.due_date) : 'no due date'
+      recordActivity({
+        contact_id: task.contact_id,
+        deal_id: task.deal_id,
+        type: 'task_snoozed',
+        text: `Snoozed task: ${task.text} (${from} → ${formatTaskDay(dueDate)})`,
+      })
+    }
+    return success
+  }, [tasks, updateTask, recordActivity])
 
   const deleteTask = useCallback(async (id: string): Promise<boolean> => {
     try {
@@ -830,11 +1470,678 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       if (createError) throw createError
       return created as Note
     } catch (err) {
+      // Don't leave files behind for a note that was never saved
+      const paths = (noteData.attachments || []).map(a => a.path).filter((path): path is string => !!path)
+      if (paths.length > 0) await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths)
       setError(err instanceof Error ? err.message : 'Failed to create note')
       return null
     }
   }, [selectedClient])
 
+  // Deletes the row first, then its files; orphaned files are only logged
+  const deleteNote = useCallback(async (note: Note): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_notes')
+        .delete()
+        .eq('id', note.id)
+      
+      if (deleteError) throw deleteError
+      noteListenersRef.current.forEach(listener => listener({ eventType: 'DELETE', note: { id: note.id } }))
+      
+      const paths = (note.attachments || []).map(a => a.path).filter((path): path is string => !!path)
+      if (paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths)
+        if (removeError) console.error('Remove note attachments error:', removeError)
+      }
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete note')
+      return false
+    }
+  }, [])
+
+  // Uploads all files or none: a failure removes whatever already made it into the bucket
+  const uploadNoteAttachments = useCallback(async (files: File[]): Promise<Attachment[] | null> => {
+    if (!selectedClient) return null
+    
+    const invalid = files.length > MAX_ATTACHMENTS_PER_NOTE
+      ? `Attach at most ${MAX_ATTACHMENTS_PER_NOTE} files per note`
+      : files.map(validateAttachment).find(Boolean)
+    if (invalid) {
+      setError(invalid)
+      return null
+    }
+    
+    const uploaded: Attachment[] = []
+    try {
+      for (const file of files) {
+        const path = buildAttachmentPath(selectedClient, file.name)
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(path, file, { contentType: file.type })
+        
+        if (uploadError) throw uploadError
+        uploaded.push({ name: file.name, url: '', type: file.type, size: file.size, path })
+      }
+      return uploaded
+    } catch (err) {
+      if (uploaded.length > 0) {
+        await supabase.storage.from(ATTACHMENT_BUCKET).remove(uploaded.map(a => a.path!))
+      }
+      setError(err instanceof Error ? err.message : 'Failed to upload attachments')
+      return null
+    }
+  }, [selectedClient])
+
+  // The bucket is private, so uploaded files are read through short-lived signed URLs
+  const getAttachmentUrl = useCallback(async (attachment: Attachment): Promise<string | null> => {
+    if (!attachment.path) return attachment.url || null
+    
+    const { data, error: signError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(attachment.path, 60 * 60)
+    
+    if (signError) {
+      console.error('Sign attachment URL error:', signError)
+      return null
+    }
+    return data.signedUrl
+  }, [])
+
+  // Notes for the contact and/or deal, merged with the contact's replies and booked meetings (by email)
+  const fetchTimeline = useCallback(async (target: TimelineTarget): Promise<TimelineItem[]> => {
+    if (!selectedClient) return []
+    
+    const noteFilters = [
+      target.contactId && `contact_id.eq.${target.contactId}`,
+      target.dealId && `deal_id.eq.${target.dealId}`,
+    ].filter(Boolean)
+    const email = target.email?.trim().toLowerCase()
+    const empty = Promise.resolve({ data: [], error: null })
+    
+    try {
+      const [notesRes, repliesRes, meetingsRes] = await Promise.all([
+        noteFilters.length > 0
+          ? db.from('crm_notes').select('*').or(noteFilters.join(','))
+          : empty,
+        email
+          ? db.from('replies')
+              .select('reply_id, subject, category, text_body, date_received')
+              .eq('client', selectedClient)
+              .ilike('from_email', escapeLike(email))
+          : empty,
+        email
+          ? db.from('meetings_booked')
+              .select('id, campaign_name, created_time')
+              .eq('client', selectedClient)
+              .ilike('email', escapeLike(email))
+          : empty,
+      ])
+      
+      if (notesRes.error) throw notesRes.error
+      if (repliesRes.error) throw repliesRes.error
+      if (meetingsRes.error) throw meetingsRes.error
+      
+      const items: TimelineItem[] = [
+        ...(notesRes.data as Note[]).map(note => ({
+          id: `note:${note.id}`,
+          kind: note.type || 'note',
+          text: note.text,
+          detail: null,
+          occurred_at: note.created_at,
+          created_by: note.created_by,
+          note,
+        })),
+        ...(repliesRes.data as any[]).map(reply => ({
+          id: `reply:${reply.reply_id}`,
+          kind: 'reply' as const,
+          text: reply.text_body || '',
+          detail: [reply.subject, reply.category].filter(Boolean).join(' · ') || null,
+          occurred_at: reply.date_received,
+          created_by: null,
+        })),
+        ...(meetingsRes.data as any[]).map(meeting => ({
+          id: `meeting:${meeting.id}`,
+          kind: 'meeting_booked' as const,
+          text: 'Meeting booked',
+          detail: meeting.campaign_name || null,
+          occurred_at: meeting.created_time,
+          created_by: null,
+        })),
+      ]
+      
+      // Sources use different timestamp formats, so compare parsed times
+      return items.sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime())
+    } catch (err) {
+      console.error('Fetch timeline error:', err)
+      return []
+    }
+  }, [selectedClient])
+
+  // ============================================
+  // AUDIT LOG
+  // ============================================
+  // Field history written by database triggers. A contact's history covers the
+  // lead row, its tasks and any portal opportunity with the same email; a
+  // deal's covers the deal and its tasks.
+  const fetchAuditLog = useCallback(async (target: TimelineTarget): Promise<AuditEntry[]> => {
+    if (!selectedClient) return []
+
+    const email = target.email?.trim().toLowerCase()
+    const empty = Promise.resolve({ data: [], error: null })
+
+    try {
+      const taskFilters = [
+        target.contactId && `contact_id.eq.${target.contactId}`,
+        target.dealId && `deal_id.eq.${target.dealId}`,
+      ].filter(Boolean)
+      const [tasksRes, opportunitiesRes] = await Promise.all([
+        taskFilters.length > 0
+          ? db.from('crm_tasks').select('id').eq('client', selectedClient).or(taskFilters.join(','))
+          : empty,
+        email
+          ? db.from('client_opportunities').select('id').eq('client', selectedClient).ilike('contact_email', escapeLike(email))
+          : empty,
+      ])
+      if (tasksRes.error) throw tasksRes.error
+      if (opportunitiesRes.error) throw opportunitiesRes.error
+
+      const recordFilter = (table: AuditTable, ids: string[]) => ids.length === 0
+        ? null
+        : `and(table_name.eq.${table},record_id.in.(${ids.join(',')}))`
+      const filters = [
+        target.contactId && recordFilter('engaged_leads', [target.contactId]),
+        target.dealId && recordFilter('crm_deals', [target.dealId]),
+        recordFilter('crm_tasks', (tasksRes.data as { id: string }[]).map(t => String(t.id))),
+        recordFilter('client_opportunities', (opportunitiesRes.data as { id: number }[]).map(o => String(o.id))),
+      ].filter(Boolean)
+      if (filters.length === 0) return []
+
+      const { data, error } = await db
+        .from('crm_audit_log')
+        .select('*')
+        .eq('client', selectedClient)
+        .or(filters.join(','))
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: true })
+        .limit(AUDIT_LOG_LIMIT)
+
+      if (error) throw error
+      return data as AuditEntry[]
+    } catch (err) {
+      console.error('Fetch audit log error:', err)
+      return []
+    }
+  }, [selectedClient])
+
+  // ============================================
+  // DEAL STAGE HISTORY
+  // ============================================
+  // Stage transitions written by a trigger on crm_deals, oldest first. Without
+  // a deal id this is the whole client's history (for deal analytics).
+  const fetchDealStageHistory = useCallback(async (dealId?: string): Promise<DealStageChange[]> => {
+    if (!selectedClient) return []
+
+    try {
+      const changes: DealStageChange[] = []
+      for (let offset = 0; ; offset += STAGE_HISTORY_PAGE_SIZE) {
+        let query = db
+          .from('crm_deal_stage_history')
+          .select('*')
+          .eq('client', selectedClient)
+          .order('changed_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + STAGE_HISTORY_PAGE_SIZE - 1)
+        if (dealId) query = query.eq('deal_id', dealId)
+
+        const { data, error } = await query
+        if (error) throw error
+        changes.push(...(data as DealStageChange[]))
+        if (data.length < STAGE_HISTORY_PAGE_SIZE) break
+      }
+      return changes
+    } catch (err) {
+      console.error('Fetch deal stage history error:', err)
+      return []
+    }
+  }, [selectedClient])
+
+  // ============================================
+  // TAGS
+  // ============================================
+  // Records store tag names, so the registry only holds colors and drives renames/merges
+  const fetchTags = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_tags')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('name', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setTags((data || []) as Tag[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tags')
+    }
+  }, [selectedClient])
+
+  const createTag = useCallback(async (
+    tagData: Pick<Tag, 'name' | 'color' | 'entity_type'>
+  ): Promise<Tag | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_tags')
+        .insert({ ...tagData, name: tagData.name.trim(), client: selectedClient })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setTags(prev => [...prev, created as Tag].sort((a, b) => a.name.localeCompare(b.name)))
+      return created as Tag
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create tag')
+      return null
+    }
+  }, [selectedClient])
+
+  // Rewrite a tag name on every contact or deal of this client, server-side and in local state
+  const replaceTagOnRecords = useCallback(async (entityType: TagEntity, from: string, to: string | null) => {
+    const { error: rpcError } = await db.rpc('crm_replace_tag', {
+      p_client: selectedClient,
+      p_entity_type: entityType,
+      p_old: from,
+      p_new: to,
+    })
+    if (rpcError) throw rpcError
+    
+    if (entityType === 'contact') {
+      setContacts(prev => prev.map(c => c.tags?.includes(from) ? { ...c, tags: replaceTagName(c.tags, from, to) } : c))
+    } else {
+      setDeals(prev => prev.map(d => d.tags?.includes(from) ? { ...d, tags: replaceTagName(d.tags, from, to) } : d))
+    }
+  }, [selectedClient])
+
+  const updateTag = useCallback(async (
+    id: string,
+    tagData: Partial<Pick<Tag, 'name' | 'color'>>
+  ): Promise<boolean> => {
+    const existing = tags.find(t => t.id === id)
+    if (!existing) return false
+    const name = tagData.name?.trim()
+    
+    try {
+      const { error: updateError } = await db
+        .from('crm_tags')
+        .update({ ...tagData, ...(name ? { name } : {}) })
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      if (name && name !== existing.name) {
+        await replaceTagOnRecords(existing.entity_type, existing.name, name)
+      }
+      setTags(prev => prev
+        .map(t => t.id === id ? { ...t, ...tagData, ...(name ? { name } : {}) } : t)
+        .sort((a, b) => a.name.localeCompare(b.name)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tag')
+      return false
+    }
+  }, [tags, replaceTagOnRecords])
+
+  // Sources are folded into the target on every record, then removed
+  const mergeTags = useCallback(async (sourceIds: string[], targetId: string): Promise<boolean> => {
+    const target = tags.find(t => t.id === targetId)
+    const sources = tags.filter(t => sourceIds.includes(t.id) && t.id !== targetId)
+    if (!target || sources.length === 0) return false
+    
+    try {
+      for (const source of sources) {
+        await replaceTagOnRecords(target.entity_type, source.name, target.name)
+      }
+      const { error: deleteError } = await db
+        .from('crm_tags')
+        .delete()
+        .in('id', sources.map(t => t.id))
+      
+      if (deleteError) throw deleteError
+      setTags(prev => prev.filter(t => !sources.some(s => s.id === t.id)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge tags')
+      return false
+    }
+  }, [tags, replaceTagOnRecords])
+
+  const deleteTag = useCallback(async (id: string): Promise<boolean> => {
+    const existing = tags.find(t => t.id === id)
+    if (!existing) return false
+    
+    try {
+      await replaceTagOnRecords(existing.entity_type, existing.name, null)
+      const { error: deleteError } = await db
+        .from('crm_tags')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setTags(prev => prev.filter(t => t.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tag')
+      return false
+    }
+  }, [tags, replaceTagOnRecords])
+
+  // ============================================
+  // SAVED VIEWS
+  // ============================================
+  // Own views plus views teammates shared for this client (RLS enforces the same rule)
+  const fetchSavedViews = useCallback(async (entityType: SavedViewEntity): Promise<SavedView[]> => {
+    if (!selectedClient) return []
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_saved_views')
+        .select('*')
+        .eq('client', selectedClient)
+        .eq('entity_type', entityType)
+        .order('name', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      return ((data || []) as SavedView[]).filter(v => v.is_shared || v.created_by === user?.id)
+    } catch {
+      return []
+    }
+  }, [selectedClient, user?.id])
+
+  const createSavedView = useCallback(async (
+    viewData: Pick<SavedView, 'entity_type' | 'name' | 'config' | 'is_shared'>
+  ): Promise<SavedView | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_saved_views')
+        .insert({ ...viewData, client: selectedClient, created_by: user?.id || null })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      return created as SavedView
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view')
+      return null
+    }
+  }, [selectedClient, user?.id])
+
+  const updateSavedView = useCallback(async (
+    id: string,
+    viewData: Partial<Pick<SavedView, 'name' | 'config' | 'is_shared'>>
+  ): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_saved_views')
+        .update({ ...viewData, updated_at: new Date().toISOString() })
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update view')
+      return false
+    }
+  }, [])
+
+  const deleteSavedView = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_saved_views')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete view')
+      return false
+    }
+  }, [])
+
+  // ============================================
+  // CALENDAR FEED
+  // ============================================
+  // The current user's subscribe link for this client, if they created one
+  const fetchCalendarFeed = useCallback(async (): Promise<CalendarFeed | null> => {
+    if (!selectedClient || !user?.id) return null
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_calendar_feeds')
+        .select('*')
+        .eq('client', selectedClient)
+        .eq('created_by', user.id)
+        .maybeSingle()
+      
+      if (fetchError) throw fetchError
+      return (data as CalendarFeed) || null
+    } catch {
+      return null
+    }
+  }, [selectedClient, user?.id])
+
+  const createCalendarFeed = useCallback(async (assignee: string | null): Promise<CalendarFeed | null> => {
+    if (!selectedClient || !user?.id) return null
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_calendar_feeds')
+        .insert({ client: selectedClient, assignee, created_by: user.id })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      return created as CalendarFeed
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create calendar feed')
+      return null
+    }
+  }, [selectedClient, user?.id])
+
+  // Deleting the row revokes the token, so existing subscriptions stop updating
+  const deleteCalendarFeed = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_calendar_feeds')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off calendar feed')
+      return false
+    }
+  }, [])
+
+  // ============================================
+  // REALTIME
+  // ============================================
+  const isLocalEcho = useCallback((key: string) => {
+    const writtenAt = localWritesRef.current.get(key)
+    return writtenAt !== undefined && Date.now() - writtenAt < LOCAL_ECHO_WINDOW_MS
+  }, [])
+
+  const flagRemoteChange = useCallback((...keys: string[]) => {
+    const changedAt = new Date().toISOString()
+    setRemoteChanges(prev => {
+      const next = { ...prev }
+      keys.forEach(key => { next[key] = changedAt })
+      return next
+    })
+  }, [])
+
+  const clearRemoteChange = useCallback((key: string) => {
+    setRemoteChanges(prev => {
+      if (!(key in prev)) return prev
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
+  }, [])
+
+  // Notes aren't held in context state, so note views subscribe to changes instead
+  const subscribeToNoteChanges = useCallback((listener: (change: NoteChange) => void) => {
+    noteListenersRef.current.add(listener)
+    return () => {
+      noteListenersRef.current.delete(listener)
+    }
+  }, [])
+
+  // Deals are joined with leads client-side, so refetch instead of patching
+  const scheduleDealsRefresh = useCallback(() => {
+    if (dealsRefreshTimerRef.current) clearTimeout(dealsRefreshTimerRef.current)
+    dealsRefreshTimerRef.current = setTimeout(() => {
+      dealsRefreshTimerRef.current = null
+      fetchDeals({ silent: true })
+    }, REALTIME_REFRESH_DEBOUNCE_MS)
+  }, [fetchDeals])
+
+  // Postgres changes for the selected client
+  useEffect(() => {
+    if (!selectedClient || !isSupabaseConfigured()) return
+    
+    const handleContactChange = (payload: any) => {
+      const row = payload.eventType === 'DELETE' ? payload.old : payload.new
+      const id = String(row.id)
+      if (payload.eventType === 'DELETE' && !loadedIdsRef.current.contacts.has(id)) return
+      
+      if (payload.eventType === 'DELETE' || row.deleted_at) {
+        setContacts(prev => prev.filter(c => String(c.id) !== id))
+      } else {
+        setContacts(prev => prev.some(c => String(c.id) === id)
+          ? prev.map(c => String(c.id) === id ? { ...c, ...row } : c)
+          : [row as Contact, ...prev])
+      }
+      
+      if (!isLocalEcho(`contact:${id}`)) {
+        flagRemoteChange(`contact:${id}`)
+        scheduleDealsRefresh()
+      }
+    }
+    
+    const handleDealChange = (payload: any) => {
+      const row = payload.eventType === 'DELETE' ? payload.old : payload.new
+      if (payload.eventType === 'DELETE' && !loadedIdsRef.current.deals.has(String(row.id))) return
+      
+      if (payload.eventType === 'DELETE' || row.deleted_at) {
+        setDeals(prev => prev.filter(d => d.id !== row.id))
+      } else {
+        // Keep the joined contact until the refresh below replaces it
+        setDeals(prev => prev.map(d => d.id === row.id ? { ...d, ...row, contact: d.contact } : d))
+      }
+      
+      // Trigger writes caused by our own lead edits (stage sync, new leads) echo back here too
+      const isEcho = isLocalEcho(`deal:${row.id}`) || (!!row.contact_id && isLocalEcho(`contact:${row.contact_id}`))
+      if (!isEcho) {
+        flagRemoteChange(`deal:${row.id}`)
+        scheduleDealsRefresh()
+      } else if (payload.eventType === 'INSERT') {
+        // New rows (a lead's pipeline deal) need the contact join
+        scheduleDealsRefresh()
+      }
+    }
+    
+    const handleTaskChange = (payload: any) => {
+      if (payload.eventType === 'DELETE') {
+        if (!loadedIdsRef.current.tasks.has(String(payload.old.id))) return
+        setTasks(prev => prev.filter(t => t.id !== payload.old.id))
+        return
+      }
+      const row = payload.new as Task
+      setTasks(prev => prev.some(t => t.id === row.id)
+        ? prev.map(t => t.id === row.id ? { ...t, ...row } : t)
+        : [row, ...prev])
+    }
+    
+    const handleNoteChange = (payload: any) => {
+      const change: NoteChange = {
+        eventType: payload.eventType,
+        note: payload.eventType === 'DELETE' ? payload.old : payload.new,
+      }
+      noteListenersRef.current.forEach(listener => listener(change))
+    }
+    
+    const handlers: [string, (payload: any) => void][] = [
+      ['engaged_leads', handleContactChange],
+      ['crm_deals', handleDealChange],
+      ['crm_tasks', handleTaskChange],
+      ['crm_notes', handleNoteChange],
+    ]
+    
+    const channel = supabase.channel(`crm-sync-${selectedClient}`)
+    const filter = `client=eq.${selectedClient}`
+    handlers.forEach(([table, handler]) => {
+      channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handler)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handler)
+        // Delete events can't be filtered server-side; handlers skip ids that aren't loaded here
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handler)
+    })
+    channel.subscribe()
+    
+    return () => {
+      if (dealsRefreshTimerRef.current) clearTimeout(dealsRefreshTimerRef.current)
+      dealsRefreshTimerRef.current = null
+      supabase.removeChannel(channel)
+      setRemoteChanges({})
+    }
+  }, [selectedClient, isLocalEcho, flagRemoteChange, scheduleDealsRefresh])
+
+  // Presence: who else is online for this client and which record they have open
+  const trackPresence = useCallback((channel: RealtimeChannel) => {
+    if (!user) return
+    channel.track({
+      user_id: user.id,
+      name: user.user_metadata?.full_name || user.email || 'Teammate',
+      viewing: viewingRef.current,
+      online_at: new Date().toISOString(),
+    } satisfies PresenceUser)
+  }, [user])
+
+  useEffect(() => {
+    if (!selectedClient || !user || !isSupabaseConfigured()) return
+    
+    const channel = supabase.channel(`crm-presence-${selectedClient}`)
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const entries = Object.values(channel.presenceState<PresenceUser>()).flat()
+        setPresenceUsers(entries.filter(entry => entry.user_id !== user.id))
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          presenceChannelRef.current = channel
+          trackPresence(channel)
+        }
+      })
+    
+    return () => {
+      presenceChannelRef.current = null
+      supabase.removeChannel(channel)
+      setPresenceUsers([])
+    }
+  }, [selectedClient, user, trackPresence])
+
+  const setPresenceViewing = useCallback((viewing: PresenceUser['viewing']) => {
+    viewingRef.current = viewing
+    if (presenceChannelRef.current) trackPresence(presenceChannelRef.current)
+  }, [trackPresence])
+
   // ============================================
   // STATS (Using engaged_leads)
   // ============================================
@@ -858,18 +2165,23 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     
     try {
       // Fetch all counts in parallel
-      const [contactsRes, dealsRes, tasksRes] = await Promise.all([
+      const [contactsRes, dealsRes, tasksRes, stagesRes] = await Promise.all([
         db.from('engaged_leads')
           .select('stage, meeting_booked, qualified, showed_up_to_disco, demo_booked, showed_up_to_demo, proposal_sent, closed')
           .eq('client', selectedClient)
           .is('deleted_at', null),
         db.from('crm_deals').select('stage, amount, probability').eq('client', selectedClient).is('deleted_at', null),
         db.from('crm_tasks').select('done, due_date, done_at').eq('client', selectedClient),
+        db.from('crm_pipeline_stages').select('*').eq('client', selectedClient),
       ])
       
       const contactsData = (contactsRes.data || []) as ContactStatsRow[]
       const dealsData = (dealsRes.data || []) as DealStatsRow[]
       const tasksData = (tasksRes.data || []) as TaskStatsRow[]
+      const stagesData = (stagesRes.data || []) as PipelineStage[]
+      const stages = stagesData.length > 0 ? stagesData : defaultPipelineStages(selectedClient)
+      // Won and lost deals are out of the weighted pipeline
+      const openDeals = dealsData.filter(d => getStageInfo(stages, d.stage).outcome === 'open')
       
       const now = new Date()
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
@@ -915,7 +2227,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
             return acc
           }, {} as Record<string, number>),
           totalValue: dealsData.reduce((sum, d) => sum + (d.amount || 0), 0),
-          weightedValue: dealsData.reduce((sum, d) => sum + ((d.amount || 0) * (d.probability || 0) / 100), 0),
+          weightedValue: openDeals.reduce((sum, d) => sum + ((d.amount || 0) * (d.probability || 0) / 100), 0),
           avgDealSize: dealsData.length > 0 
             ? dealsData.reduce((sum, d) => sum + (d.amount || 0), 0) / dealsData.length 
             : 0,
@@ -939,6 +2251,97 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     }
   }, [selectedClient])
 
+  // ============================================
+  // PIPELINE STAGES
+  // ============================================
+  // Clients without rows of their own get the built-in pipeline
+  const fetchPipelineStages = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_pipeline_stages')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('position', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      const rows = (data || []) as PipelineStage[]
+      setPipelineStages(rows.length > 0 ? rows : defaultPipelineStages(selectedClient))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch pipeline stages')
+    }
+  }, [selectedClient])
+
+  // Replaces the client's pipeline with the given stages, in order. Deals in a
+  // removed stage move to the first open stage before the stage goes away;
+  // their leads' pipeline flags stay as they were.
+  const savePipelineStages = useCallback(async (drafts: PipelineStageDraft[]): Promise<{ success: boolean; error?: string }> => {
+    if (!selectedClient) return { success: false, error: 'No client selected' }
+    
+    const fallback = drafts.find(stage => stage.outcome === 'open')
+    if (!fallback) {
+      const message = 'The pipeline needs at least one open stage'
+      setError(message)
+      return { success: false, error: message }
+    }
+    
+    try {
+      const keys = drafts.map(stage => stage.key)
+      
+      // Stages first, so a new fallback stage exists before deals move into it
+      const { error: upsertError } = await db
+        .from('crm_pipeline_stages')
+        .upsert(drafts.map((stage, position) => ({
+          client: selectedClient,
+          key: stage.key,
+          label: stage.label,
+          color: stage.color,
+          bg_color: stage.bg_color,
+          probability: stage.probability,
+          outcome: stage.outcome,
+          position,
+          updated_at: new Date().toISOString(),
+        })), { onConflict: 'client,key' })
+      
+      if (upsertError) throw upsertError
+      
+      // Every deal of the client, not just the loaded ones
+      deals.filter(d => !keys.includes(d.stage)).forEach(d => {
+        localWritesRef.current.set(`deal:${d.id}`, Date.now())
+      })
+      const { error: moveError } = await db.rpc('crm_rehome_pipeline_deals', {
+        p_client: selectedClient,
+        p_keys: keys,
+        p_stage: fallback.key,
+        p_probability: fallback.probability,
+      })
+      
+      if (moveError) throw moveError
+      
+      // Keys are slugs, so they're safe to list unquoted
+      const { error: deleteError } = await db
+        .from('crm_pipeline_stages')
+        .delete()
+        .eq('client', selectedClient)
+        .not('key', 'in', `(${keys.join(',')})`)
+      
+      if (deleteError) throw deleteError
+      
+      await Promise.all([fetchPipelineStages(), fetchDeals({ silent: true }), fetchStats()])
+      return { success: true }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save pipeline stages'
+      setError(message)
+      return { success: false, error: message }
+    }
+  }, [selectedClient, deals, fetchPipelineStages, fetchDeals, fetchStats])
+
+  // Undo/redo steps call the latest functions, not the ones captured when the step was recorded
+  useEffect(() => {
+    historyOpsRef.current = { updateContact, deleteContact, restoreContact, applyContactMerge, unmergeContacts, updateDeal, moveDealToStage, updateTask }
+  }, [updateContact, deleteContact, restoreContact, applyContactMerge, unmergeContacts, updateDeal, moveDealToStage, updateTask])
+
   // ============================================
   // REFRESH ALL
   // ============================================
@@ -947,9 +2350,12 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       fetchContacts(),
       fetchDeals(),
       fetchTasks(),
+      fetchTags(),
+      fetchFollowUpRules(),
+      fetchPipelineStages(),
       fetchStats(),
     ])
-  }, [fetchContacts, fetchDeals, fetchTasks, fetchStats])
+  }, [fetchContacts, fetchDeals, fetchTasks, fetchTags, fetchFollowUpRules, fetchPipelineStages, fetchStats])
 
   // Initial fetch
   useEffect(() => {
@@ -967,6 +2373,9 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         deals,
         tasks,
         stats,
+        tags,
+        followUpRules,
+        pipelineStages,
         loading,
         initialLoadComplete,
         error,
@@ -974,8 +2383,13 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         setFilters,
         fetchContacts,
         createContact,
+        bulkCreateContacts,
         updateContact,
         deleteContact,
+        restoreContact,
+        bulkUpdateContacts,
+        bulkDeleteContacts,
+        mergeContacts,
         fetchDeals,
         createDeal,
         updateDeal,
@@ -985,9 +2399,47 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         createTask,
         updateTask,
         toggleTask,
+        snoozeTask,
         deleteTask,
         fetchNotes,
         createNote,
+        deleteNote,
+        uploadNoteAttachments,
+        getAttachmentUrl,
+        fetchTimeline,
+        fetchAuditLog,
+        fetchDealStageHistory,
+        fetchPipelineStages,
+        savePipelineStages,
+        fetchFollowUpRules,
+        createFollowUpRule,
+        updateFollowUpRule,
+        deleteFollowUpRule,
+        fetchTags,
+        createTag,
+        updateTag,
+        mergeTags,
+        deleteTag,
+        fetchSavedViews,
+        createSavedView,
+        updateSavedView,
+        deleteSavedView,
+        fetchCalendarFeed,
+        createCalendarFeed,
+        deleteCalendarFeed,
+        presenceUsers,
+        setPresenceViewing,
+        remoteChanges,
+        clearRemoteChange,
+        subscribeToNoteChanges,
+        undo,
+        redo,
+        canUndo: historySize.undo > 0,
+        canRedo: historySize.redo > 0,
+        undoHistoryEntry,
+        withHistoryGroup,
+        historyNotice,
+        dismissHistoryNotice,
         fetchStats,
         refreshAll,
       }}
@@ -6,6 +6,8 @@ import { CRMDashboard } from './components/dashboard/CRMDashboard'
 import { ContactList } from './components/contacts/ContactList'
 import { DealsKanban } from './components/deals/DealsKanban'
 import { TaskList } from './components/tasks/TaskList'
+import { CRMCalendar } from './components/calendar/CRMCalendar'
+import { CRMSettings } from './components/settings/CRMSettings'
 
 export default function AtomicCRM() {
   return (
@@ -17,6 +19,8 @@ export default function AtomicCRM() {
           <Route path="contacts" element={<ContactList />} />
           <Route path="deals" element={<DealsKanban />} />
           <Route path="tasks" element={<TaskList />} />
+          <Route path="calendar" element={<CRMCalendar />} />
+          <Route path="settings" element={<CRMSettings />} />
           <Route path="*" element={<Navigate to="/crm" replace />} />
         </Routes>
       </CRMLayout>
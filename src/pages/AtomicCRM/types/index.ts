@@ -82,6 +82,7 @@ export interface Contact {
   date_created: string | null
   
   // Metadata
+  tags: string[] | null
   custom_variables_jsonb: Record<string, unknown> | null
   created_at: string
   updated_at: string
@@ -147,6 +148,7 @@ export interface Deal {
   owner_id: string | null
   index: number
   tags: string[]
+  syncs_pipeline: boolean // The lead's pipeline deal: stage mirrors its pipeline flags
   created_at: string
   updated_at: string
   created_by: string | null
@@ -156,28 +158,53 @@ export interface Deal {
   contact?: Contact
 }
 
-export type DealStage = 'interested' | 'discovery' | 'demo' | 'negotiation' | 'proposal' | 'closed' | 'lost'
+// Key of a stage in the client's pipeline (crm_pipeline_stages.key)
+export type DealStage = string
 
-export const DEAL_STAGES: DealStage[] = [
-  'interested',
-  'discovery',
-  'demo',
-  'negotiation',
-  'proposal',
-  'closed',
-  'lost',
-]
+// Won and lost stages end a deal; everything else is still in play
+export type DealStageOutcome = 'open' | 'won' | 'lost'
 
-export const DEAL_STAGE_INFO: Record<DealStage, { label: string; color: string; bgColor: string; probability: number }> = {
-  interested: { label: 'Interested', color: '#60a5fa', bgColor: '#1e3a5f', probability: 10 },
-  discovery: { label: 'Discovery', color: '#a78bfa', bgColor: '#3d2f5c', probability: 25 },
-  demo: { label: 'Demo', color: '#fbbf24', bgColor: '#422006', probability: 40 },
-  negotiation: { label: 'Negotiation', color: '#fb923c', bgColor: '#431407', probability: 60 },
-  proposal: { label: 'Proposal', color: '#2dd4bf', bgColor: '#134e4a', probability: 80 },
-  closed: { label: 'Closed', color: '#22c55e', bgColor: '#14532d', probability: 100 },
-  lost: { label: 'Lost', color: '#f87171', bgColor: '#450a0a', probability: 0 },
+export interface PipelineStage {
+  id: string
+  client: string
+  key: DealStage
+  label: string
+  color: string
+  bg_color: string
+  probability: number // Default win probability for deals entering the stage
+  position: number
+  outcome: DealStageOutcome
+  created_at: string
+  updated_at: string
 }
 
+export type PipelineStageDraft = Pick<PipelineStage, 'key' | 'label' | 'color' | 'bg_color' | 'probability' | 'outcome'>
+
+// The pipeline for clients that haven't set up their own. The lead pipeline
+// sync moves deals between these keys.
+export const DEFAULT_PIPELINE_STAGES: PipelineStageDraft[] = [
+  { key: 'interested', label: 'Interested', color: '#60a5fa', bg_color: '#1e3a5f', probability: 10, outcome: 'open' },
+  { key: 'discovery', label: 'Discovery', color: '#a78bfa', bg_color: '#3d2f5c', probability: 25, outcome: 'open' },
+  { key: 'demo', label: 'Demo', color: '#fbbf24', bg_color: '#422006', probability: 40, outcome: 'open' },
+  { key: 'negotiation', label: 'Negotiation', color: '#fb923c', bg_color: '#431407', probability: 60, outcome: 'open' },
+  { key: 'proposal', label: 'Proposal', color: '#2dd4bf', bg_color: '#134e4a', probability: 80, outcome: 'open' },
+  { key: 'closed', label: 'Closed', color: '#22c55e', bg_color: '#14532d', probability: 100, outcome: 'won' },
+  { key: 'lost', label: 'Lost', color: '#f87171', bg_color: '#450a0a', probability: 0, outcome: 'lost' },
+]
+
+// Swatches offered in the pipeline editor: a text color and its badge background
+export const PIPELINE_STAGE_COLORS = [
+  { color: '#94a3b8', bg_color: '#1e293b' }, // slate
+  { color: '#60a5fa', bg_color: '#1e3a5f' }, // blue
+  { color: '#a78bfa', bg_color: '#3d2f5c' }, // violet
+  { color: '#ec4899', bg_color: '#500724' }, // pink
+  { color: '#fbbf24', bg_color: '#422006' }, // amber
+  { color: '#fb923c', bg_color: '#431407' }, // orange
+  { color: '#2dd4bf', bg_color: '#134e4a' }, // teal
+  { color: '#22c55e', bg_color: '#14532d' }, // green
+  { color: '#f87171', bg_color: '#450a0a' }, // red
+] as const
+
 // ============================================
 // TASK
 // ============================================
@@ -192,6 +219,10 @@ export interface Task {
   done: boolean
   done_at: string | null
   assigned_to: string | null
+  recurrence: TaskRecurrence | null
+  recurrence_parent_id: string | null // The occurrence this one was spawned from
+  follow_up_rule_id: string | null // Set when a follow-up rule created the task
+  snooze_count: number
   created_at: string
   updated_at: string
   created_by: string | null
@@ -201,6 +232,15 @@ export interface Task {
   deal?: Deal
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly'
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency
+  interval: number // Every N days, weeks or months
+  weekday?: number | null // 0 = Sunday; weekly rules only
+  day_of_month?: number | null // 1-31, clamped in shorter months; monthly rules only
+}
+
 export type TaskType = 'task' | 'call' | 'email' | 'meeting' | 'follow_up' | 'reminder'
 
 export const TASK_TYPE_INFO: Record<TaskType, { label: string; icon: string; color: string }> = {
@@ -212,6 +252,35 @@ export const TASK_TYPE_INFO: Record<TaskType, { label: string; icon: string; col
   reminder: { label: 'Reminder', icon: 'Bell', color: '#fb923c' },
 }
 
+// ============================================
+// FOLLOW-UP RULES
+// ============================================
+// Pipeline steps (boolean flags on engaged_leads) a follow-up rule can trigger on
+export const FOLLOW_UP_TRIGGER_STAGES = [
+  'meeting_booked',
+  'showed_up_to_disco',
+  'qualified',
+  'demo_booked',
+  'showed_up_to_demo',
+  'proposal_sent',
+  'closed',
+] as const
+
+export type FollowUpTriggerStage = typeof FOLLOW_UP_TRIGGER_STAGES[number]
+
+export interface FollowUpRule {
+  id: string
+  client: string
+  trigger_stage: FollowUpTriggerStage
+  task_type: TaskType
+  task_text: string // Supports {name}, {company} and {stage}
+  due_in_days: number
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
 // ============================================
 // NOTE / ACTIVITY
 // ============================================
@@ -232,27 +301,43 @@ export interface Note {
   deal?: Deal
 }
 
-export type NoteType = 'note' | 'email' | 'call' | 'meeting' | 'status_change' | 'deal_created' | 'deal_won' | 'deal_lost' | 'task_completed'
+export type NoteType = 'note' | 'email' | 'call' | 'meeting' | 'status_change' | 'deal_created' | 'deal_won' | 'deal_lost' | 'task_completed' | 'task_snoozed'
 
 export interface Attachment {
   name: string
-  url: string
+  url: string // External link; empty for uploaded files, which are served through signed URLs
   type: string
   size: number
+  path?: string // Object path in the crm-attachments storage bucket
 }
 
 // ============================================
 // TAG
 // ============================================
+export type TagEntity = 'contact' | 'deal'
+
 export interface Tag {
   id: string
   client: string
   name: string
   color: string
-  entity_type: 'contact' | 'deal'
+  entity_type: TagEntity
   created_at: string
 }
 
+// Swatches offered in the tag manager; tags not in crm_tags fall back to the first
+export const TAG_COLORS = [
+  '#6b7280', // gray
+  '#60a5fa', // blue
+  '#22c55e', // green
+  '#fbbf24', // amber
+  '#f97316', // orange
+  '#f87171', // red
+  '#ec4899', // pink
+  '#a78bfa', // violet
+  '#2dd4bf', // teal
+] as const
+
 // ============================================
 // CRM DASHBOARD STATS
 // ============================================
@@ -303,6 +388,179 @@ export interface SortOption {
   direction: SortDirection
 }
 
+// ============================================
+// BULK IMPORT
+// ============================================
+export type ContactImportStatus = 'created' | 'failed' | 'skipped'
+
+export interface ContactImportResult {
+  index: number // Position in the submitted rows array
+  status: ContactImportStatus
+  contact?: Contact
+  error?: string
+}
+
+// ============================================
+// BULK ACTIONS
+// ============================================
+export interface BulkOperationResult {
+  succeeded: string[] // Contact ids
+  failed: { id: string; error: string }[]
+}
+
+// ============================================
+// DUPLICATES
+// ============================================
+export type DuplicateReason = 'email' | 'name_company' | 'linkedin'
+
+// Leads that look like the same person, linked by one or more matching keys
+export interface DuplicateCluster {
+  key: string // Sorted member ids - stable while the cluster is unchanged
+  contacts: Contact[] // Oldest first
+  reasons: DuplicateReason[]
+}
+
+// ============================================
+// SAVED VIEWS
+// ============================================
+export type SavedViewEntity = 'contact' | 'deal' | 'task'
+
+export interface SavedView {
+  id: string
+  client: string
+  entity_type: SavedViewEntity
+  name: string
+  config: Record<string, unknown> // Shape is owned by the list view that saved it
+  is_shared: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// ============================================
+// CALENDAR FEEDS
+// ============================================
+// Subscribe link for the iCalendar feed, one per user and client
+export interface CalendarFeed {
+  id: string
+  client: string
+  token: string // Secret; anyone with the URL can read the feed
+  assignee: string | null // Only tasks and meetings assigned to this team member
+  created_by: string
+  created_at: string
+  last_accessed_at: string | null
+}
+
+// ============================================
+// ACTIVITY TIMELINE
+// ============================================
+export type TimelineItemKind = NoteType | 'reply' | 'meeting_booked'
+
+export interface TimelineItem {
+  id: string // Prefixed with the source table so ids never collide
+  kind: TimelineItemKind
+  text: string
+  detail: string | null // Reply subject and category, meeting campaign
+  occurred_at: string
+  created_by: string | null
+  note?: Note // Set for crm_notes rows
+}
+
+// Which records a timeline covers; replies and meetings are matched by email
+export interface TimelineTarget {
+  contactId?: string | null
+  dealId?: string | null
+  email?: string | null
+}
+
+// ============================================
+// REALTIME
+// ============================================
+export type PresenceEntity = 'contact' | 'deal'
+
+export interface PresenceUser {
+  user_id: string
+  name: string
+  viewing: { type: PresenceEntity; id: string } | null // Record open in ContactModal / DealModal
+  online_at: string
+}
+
+export interface NoteChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  note: Partial<Note> & { id: string } // Deletes only carry the primary key
+}
+
+// ============================================
+// UNDO HISTORY
+// ============================================
+// What the undo toast shows after an action, undo or redo
+export interface HistoryNotice {
+  id: number
+  message: string
+  undoable: boolean // Offers an "Undo" button (destructive actions)
+  historyId?: number // The history step that button undoes
+}
+
+// ============================================
+// AUDIT LOG
+// ============================================
+export type AuditTable = 'engaged_leads' | 'crm_deals' | 'crm_tasks' | 'client_opportunities'
+
+export type AuditAction = 'insert' | 'update' | 'delete'
+
+// One row of crm_audit_log - a single field change, or a whole-record insert/delete
+export interface AuditEntry {
+  id: number
+  client: string | null
+  table_name: AuditTable
+  record_id: string
+  action: AuditAction
+  field: string | null // null for insert/delete
+  old_value: unknown
+  new_value: unknown
+  actor: string | null // auth user id, null for system writes (syncs, service role)
+  actor_email: string | null
+  changed_at: string
+}
+
+// ============================================
+// DEAL STAGE HISTORY
+// ============================================
+// One row of crm_deal_stage_history, written by a trigger on every stage change
+export interface DealStageChange {
+  id: string
+  client: string | null
+  deal_id: string
+  from_stage: DealStage | null // null for the stage the deal was created in
+  to_stage: DealStage
+  changed_at: string
+  changed_by: string | null
+}
+
+// A stretch of time a deal spent in one stage
+export interface StageSpan {
+  stage: DealStage
+  entered_at: string
+  exited_at: string | null // null while the deal is still in the stage
+  duration_ms: number
+}
+
+export interface StageAnalytics {
+  stage: DealStage
+  average_ms: number | null // Over finished stays only; null when none have finished
+  stays: number
+  current_count: number
+  reached: number // Deals that got to this stage or further
+  converted: number // Of those, deals that got past it
+}
+
+// An open deal that has sat in its current stage past the threshold
+export interface StalledDeal {
+  deal: Deal
+  since: string
+  duration_ms: number
+}
+
 // ============================================
 // VIEW OPTIONS
 // ============================================
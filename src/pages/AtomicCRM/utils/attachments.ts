@@ -0,0 +1,60 @@
+// Note attachment helpers (Supabase Storage)
+import type { Attachment } from '../types'
+
+export const ATTACHMENT_BUCKET = 'crm-attachments'
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024 // 10 MB, mirrors the bucket's file_size_limit
+
+export const MAX_ATTACHMENTS_PER_NOTE = 5
+
+// Mirrors the bucket's allowed_mime_types
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+]
+
+// Value for the file input's accept attribute
+export const ATTACHMENT_ACCEPT = ALLOWED_ATTACHMENT_TYPES.join(',')
+
+/** Returns a user-facing reason the file can't be attached, or null if it's fine. */
+export function validateAttachment(file: File): string | null {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: file type isn't supported`
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+  }
+  return null
+}
+
+/**
+ * Object path inside the bucket. The first folder is the client, which the
+ * storage RLS policies check against the user's client.
+ */
+export function buildAttachmentPath(client: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-100) || 'file'
+  return `${client}/notes/${crypto.randomUUID()}/${safeName}`
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, 'type'>): boolean {
+  return attachment.type.startsWith('image/')
+}
+
+export function isPdfAttachment(attachment: Pick<Attachment, 'type'>): boolean {
+  return attachment.type === 'application/pdf'
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
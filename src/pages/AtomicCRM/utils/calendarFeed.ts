@@ -0,0 +1,39 @@
+// iCalendar (.ics) export of CRM tasks and meetings. The calendar itself is
+// built by the crm-calendar-feed edge function, so downloads and subscribed
+// calendars always contain the same events with the same UIDs.
+import { downloadBlob } from './export'
+
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/crm-calendar-feed`
+
+/** HTTPS subscribe URL, for calendars that take a link (Google Calendar "From URL"). */
+export function getCalendarFeedUrl(token: string): string {
+  return `${FEED_FUNCTION_URL}?token=${encodeURIComponent(token)}`
+}
+
+/** webcal:// variant that opens the subscribe dialog in Apple Calendar and Outlook. */
+export function getCalendarSubscribeUrl(token: string): string {
+  return getCalendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://')
+}
+
+/**
+ * Download a one-off .ics snapshot for the client, optionally limited to one
+ * assignee. Throws with the function's error message on failure.
+ */
+export async function downloadCalendarFile(accessToken: string, client: string, assignee: string | null) {
+  const response = await fetch(FEED_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ client, assignee }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || 'Failed to export calendar')
+  }
+
+  const blob = await response.blob()
+  downloadBlob(blob, `crm-calendar-${new Date().toISOString().split('T')[0]}.ics`)
+}
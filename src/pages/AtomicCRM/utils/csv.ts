@@ -0,0 +1,117 @@
+// CSV helpers for CRM import/export
+
+export interface ParsedCSV {
+  headers: string[]
+  rows: string[][]
+  lineNumbers: number[] // Source line each row starts on (1-based), parallel to rows
+}
+
+/**
+ * Parse RFC 4180 CSV text. Handles quoted fields, escaped quotes ("")
+ * and newlines inside quotes, CRLF line endings and a leading BOM.
+ * Fully empty lines are dropped and short rows are padded to the header width.
+ * Each row keeps the line it started on, so errors can point at the file.
+ */
+export function parseCSV(text: string, delimiter = ','): ParsedCSV {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const records: string[][] = []
+  const recordLines: number[] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      recordLines.push(recordLine)
+      record = []
+      field = ''
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+
+  // Flush the last record if the file doesn't end with a newline
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+    recordLines.push(recordLine)
+  }
+
+  const nonEmpty = records
+    .map((r, index) => ({ cells: r, line: recordLines[index] }))
+    .filter(r => r.cells.some(cell => cell.trim() !== ''))
+  if (nonEmpty.length === 0) return { headers: [], rows: [], lineNumbers: [] }
+
+  const headers = nonEmpty[0].cells.map(h => h.trim())
+  const rows = nonEmpty.slice(1).map(({ cells: r }) => {
+    const padded = r.slice(0, headers.length)
+    while (padded.length < headers.length) padded.push('')
+    return padded
+  })
+
+  return { headers, rows, lineNumbers: nonEmpty.slice(1).map(r => r.line) }
+}
+
+/**
+ * Spreadsheets run text starting with =, +, -, @, tab or CR as a formula.
+ * Exported fields come from users and prospects, so such text gets a leading
+ * apostrophe to keep it literal (CSV injection).
+ */
+export function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+function escapeCSVField(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * Serialize rows to RFC 4180 CSV. Null/undefined cells become empty fields.
+ * A BOM is prepended so Excel picks up UTF-8 correctly.
+ */
+export function toCSV(
+  headers: string[],
+  rows: (string | number | boolean | null | undefined)[][],
+  delimiter = ','
+): string {
+  const lines = [headers, ...rows].map(row =>
+    row.map(cell => {
+      if (cell == null) return ''
+      const value = typeof cell === 'string' ? neutralizeFormula(cell) : String(cell)
+      return escapeCSVField(value, delimiter)
+    }).join(delimiter)
+  )
+  return '\uFEFF' + lines.join('\r\n')
+}
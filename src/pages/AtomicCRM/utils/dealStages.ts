@@ -0,0 +1,114 @@
+// Time-in-stage and conversion analytics built from crm_deal_stage_history.
+import type { Deal, DealStage, DealStageChange, PipelineStage, StageAnalytics, StageSpan, StalledDeal } from '../types'
+import { isOpenDeal } from './pipelineStages'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Forward order of the pipeline; lost stages are an exit, not a step
+function funnelStages(stages: PipelineStage[]): DealStage[] {
+  return stages.filter(stage => stage.outcome !== 'lost').map(stage => stage.key)
+}
+
+function isDealStage(stage: string | null): stage is DealStage {
+  return !!stage
+}
+
+function elapsed(from: string, to: string | null, now: number): number {
+  return Math.max(0, (to ? new Date(to).getTime() : now) - new Date(from).getTime())
+}
+
+/**
+ * The stages a deal has been through, oldest first. `changes` are the deal's
+ * history rows in order. Deals from before history was recorded (or with no
+ * rows yet) fall back to one stay in the current stage since creation.
+ */
+export function buildStageSpans(deal: Deal, changes: DealStageChange[], now = Date.now()): StageSpan[] {
+  const moves = changes.filter(change => isDealStage(change.to_stage))
+  const starts: { stage: DealStage; at: string }[] = moves.map(change => ({ stage: change.to_stage, at: change.changed_at }))
+
+  // History that starts mid-way: the deal sat in the first from-stage since it was created
+  const first = moves[0]
+  if (!first) {
+    starts.push({ stage: deal.stage, at: deal.created_at })
+  } else if (isDealStage(first.from_stage)) {
+    starts.unshift({ stage: first.from_stage, at: deal.created_at })
+  }
+
+  return starts.map((start, i) => {
+    const exitedAt = starts[i + 1]?.at ?? null
+    return {
+      stage: start.stage,
+      entered_at: start.at,
+      exited_at: exitedAt,
+      duration_ms: elapsed(start.at, exitedAt, now),
+    }
+  })
+}
+
+/** Spans for every deal, keyed by deal id. `changes` is the client's whole history. */
+export function buildSpansByDeal(deals: Deal[], changes: DealStageChange[], now = Date.now()): Map<string, StageSpan[]> {
+  const changesByDeal = new Map<string, DealStageChange[]>()
+  changes.forEach(change => {
+    changesByDeal.set(change.deal_id, [...(changesByDeal.get(change.deal_id) || []), change])
+  })
+  return new Map(deals.map(deal => [deal.id, buildStageSpans(deal, changesByDeal.get(deal.id) || [], now)]))
+}
+
+/**
+ * Per-stage average time spent (finished stays only, so deals still sitting
+ * in a stage don't drag the average down) and stage-to-stage conversion:
+ * of the deals that reached a stage or went further, how many got past it.
+ */
+export function computeStageAnalytics(deals: Deal[], spansByDeal: Map<string, StageSpan[]>, stages: PipelineStage[]): StageAnalytics[] {
+  const funnel = funnelStages(stages)
+  const furthest = deals.map(deal => {
+    const ranks = (spansByDeal.get(deal.id) || [])
+      .map(span => funnel.indexOf(span.stage))
+    return Math.max(-1, funnel.indexOf(deal.stage), ...ranks)
+  })
+
+  return stages.map(({ key: stage }) => {
+    const finished = deals
+      .flatMap(deal => spansByDeal.get(deal.id) || [])
+      .filter(span => span.stage === stage && span.exited_at)
+    const rank = funnel.indexOf(stage)
+    const reached = rank === -1
+      ? deals.filter(deal => deal.stage === stage).length
+      : furthest.filter(r => r >= rank).length
+    return {
+      stage,
+      average_ms: finished.length > 0
+        ? finished.reduce((sum, span) => sum + span.duration_ms, 0) / finished.length
+        : null,
+      stays: finished.length,
+      current_count: deals.filter(deal => deal.stage === stage).length,
+      reached,
+      converted: rank === -1 ? 0 : furthest.filter(r => r > rank).length,
+    }
+  })
+}
+
+/** Open deals that have been in their current stage for more than `days`, longest first. */
+export function findStalledDeals(deals: Deal[], spansByDeal: Map<string, StageSpan[]>, days: number, stages: PipelineStage[]): StalledDeal[] {
+  return deals
+    .filter(deal => isOpenDeal(stages, deal))
+    .map(deal => {
+      const spans = spansByDeal.get(deal.id) || []
+      const current = spans[spans.length - 1]
+      return current && current.stage === deal.stage && !current.exited_at
+        ? { deal, since: current.entered_at, duration_ms: current.duration_ms }
+        : null
+    })
+    .filter((stalled): stalled is StalledDeal => !!stalled && stalled.duration_ms > days * DAY_MS)
+    .sort((a, b) => b.duration_ms - a.duration_ms)
+}
+
+/** "3d 4h", "5h", "12m" - the two largest units. */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+  if (days > 0) return hours % 24 > 0 ? `${days}d ${hours % 24}h` : `${days}d`
+  if (hours > 0) return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  return `${Math.max(minutes, 0)}m`
+}
@@ -0,0 +1,146 @@
+// Duplicate lead detection and merge helpers. engaged_leads gets one row per
+// campaign a person is enrolled in, so the same person shows up several times
+// under the same email, the same name at the same company, or the same LinkedIn.
+import { FOLLOW_UP_TRIGGER_STAGES } from '../types'
+import type { Contact, DuplicateCluster, DuplicateReason } from '../types'
+
+function normalizeEmail(email: string | null): string | null {
+  return email?.trim().toLowerCase() || null
+}
+
+// "José  O'Brien" -> "jose o brien"
+function normalizeName(contact: Contact): string | null {
+  const name = contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ')
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim() || null
+}
+
+// "https://www.Acme.com/about" -> "acme.com"
+function normalizeDomain(domain: string | null): string | null {
+  if (!domain) return null
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#]/)[0] || null
+}
+
+// "https://www.linkedin.com/in/jane-doe/?trk=x" -> "linkedin.com/in/jane-doe"
+function normalizeLinkedIn(url: string | null): string | null {
+  if (!url) return null
+  const normalized = url
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^[a-z]{2,3}\.linkedin\.com/, 'linkedin.com')
+    .replace(/^www\./, '')
+    .split(/[?#]/)[0]
+    .replace(/\/+$/, '')
+  // A bare "linkedin.com" would link everyone who left the field half-filled
+  return normalized.startsWith('linkedin.com/') ? normalized : null
+}
+
+function matchKeys(contact: Contact): [DuplicateReason, string | null][] {
+  const name = normalizeName(contact)
+  const domain = normalizeDomain(contact.company_domain)
+  return [
+    ['email', normalizeEmail(contact.email)],
+    ['name_company', name && domain ? `${name}|${domain}` : null],
+    ['linkedin', normalizeLinkedIn(contact.linkedin_url)],
+  ]
+}
+
+/**
+ * Group contacts that share an email, a name + company domain, or a LinkedIn
+ * URL. Matches are transitive: A~B by email and B~C by LinkedIn is one cluster.
+ * Largest clusters come first.
+ */
+export function findDuplicateClusters(contacts: Contact[]): DuplicateCluster[] {
+  const parent = contacts.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const firstByKey = new Map<string, number>()
+  const links: { index: number; reason: DuplicateReason }[] = []
+
+  contacts.forEach((contact, index) => {
+    for (const [reason, value] of matchKeys(contact)) {
+      if (!value) continue
+      const key = `${reason}:${value}`
+      const first = firstByKey.get(key)
+      if (first === undefined) {
+        firstByKey.set(key, index)
+        continue
+      }
+      parent[find(index)] = find(first)
+      links.push({ index, reason })
+    }
+  })
+
+  const members = new Map<number, number[]>()
+  contacts.forEach((_, index) => {
+    const root = find(index)
+    members.set(root, [...(members.get(root) || []), index])
+  })
+
+  const reasons = new Map<number, Set<DuplicateReason>>()
+  links.forEach(({ index, reason }) => {
+    const root = find(index)
+    reasons.set(root, (reasons.get(root) || new Set()).add(reason))
+  })
+
+  const clusters: DuplicateCluster[] = []
+  members.forEach((indexes, root) => {
+    if (indexes.length < 2) return
+    const clusterContacts = indexes
+      .map(i => contacts[i])
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    clusters.push({
+      key: clusterContacts.map(c => c.id).sort().join(':'),
+      contacts: clusterContacts,
+      reasons: [...(reasons.get(root) || [])],
+    })
+  })
+
+  return clusters.sort((a, b) => b.contacts.length - a.contacts.length)
+}
+
+function pipelineProgress(contact: Contact): number {
+  return FOLLOW_UP_TRIGGER_STAGES.filter(step => contact[step]).length
+}
+
+/** The record to keep by default: furthest along the pipeline, then the oldest (clusters list oldest first). */
+export function pickPrimaryContact(contacts: Contact[]): Contact {
+  return contacts.reduce((best, contact) =>
+    pipelineProgress(contact) > pipelineProgress(best) ? contact : best
+  )
+}
+
+/**
+ * Pipeline flags across the merged records: a step is reached if any record
+ * reached it, dated by the earliest time it was reached.
+ */
+export function mergePipelineFlags(contacts: Contact[]): Partial<Contact> {
+  const merged: Partial<Contact> = {}
+  for (const step of FOLLOW_UP_TRIGGER_STAGES) {
+    const dateKey = `${step}_at` as const
+    const reached = contacts.filter(c => c[step])
+    const earliest = reached
+      .map(c => c[dateKey])
+      .filter((value): value is string => !!value && !isNaN(new Date(value).getTime()))
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0]
+    merged[step] = reached.length > 0
+    merged[dateKey] = earliest ?? null
+  }
+  return merged
+}
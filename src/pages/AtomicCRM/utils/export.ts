@@ -0,0 +1,164 @@
+// Export helpers for CRM list views (contacts, deals, tasks)
+import { toCSV } from './csv'
+import { toXLSX, type XLSXCell } from './xlsx'
+import { describeRecurrence } from './recurrence'
+import { getStageInfo } from './pipelineStages'
+import {
+  CONTACT_STAGE_INFO,
+  TASK_TYPE_INFO,
+  type Contact,
+  type Deal,
+  type PipelineStage,
+  type Task,
+} from '../types'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export interface ExportColumn<T> {
+  key: string
+  label: string
+  value: (row: T) => XLSXCell
+  defaultSelected?: boolean // Pre-checked in the export dialog (matches the on-screen columns)
+}
+
+// Deepest pipeline flag reached, in funnel order
+const PIPELINE_FLAGS = [
+  'closed',
+  'proposal_sent',
+  'showed_up_to_demo',
+  'demo_booked',
+  'qualified',
+  'showed_up_to_disco',
+  'meeting_booked',
+] as const
+
+function contactName(contact: Contact | undefined | null): string {
+  if (!contact) return ''
+  return contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ')
+}
+
+function contactStageLabel(stage: string | null): string {
+  if (!stage) return ''
+  return CONTACT_STAGE_INFO[stage]?.label || stage
+}
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return ''
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toISOString().split('T')[0]
+}
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return ''
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toISOString().replace('T', ' ').slice(0, 16)
+}
+
+// ============================================
+// COLUMN DEFINITIONS
+// ============================================
+
+export const CONTACT_EXPORT_COLUMNS: ExportColumn<Contact>[] = [
+  { key: 'name', label: 'Name', value: c => contactName(c), defaultSelected: true },
+  { key: 'company', label: 'Company', value: c => c.company, defaultSelected: true },
+  { key: 'stage', label: 'Stage', value: c => contactStageLabel(c.stage), defaultSelected: true },
+  {
+    key: 'pipeline',
+    label: 'Pipeline',
+    value: c => {
+      const reached = PIPELINE_FLAGS.find(flag => c[flag])
+      return reached ? CONTACT_STAGE_INFO[reached].label : ''
+    },
+    defaultSelected: true,
+  },
+  { key: 'job_title', label: 'Title', value: c => c.job_title, defaultSelected: true },
+  { key: 'updated_at', label: 'Last Activity', value: c => formatDateTime(c.updated_at), defaultSelected: true },
+  { key: 'email', label: 'Email', value: c => c.email, defaultSelected: true },
+  { key: 'lead_phone', label: 'Phone', value: c => c.lead_phone },
+  { key: 'linkedin_url', label: 'LinkedIn URL', value: c => c.linkedin_url },
+  { key: 'seniority_level', label: 'Seniority', value: c => c.seniority_level },
+  { key: 'company_domain', label: 'Company Domain', value: c => c.company_domain },
+  { key: 'company_website', label: 'Company Website', value: c => c.company_website },
+  { key: 'company_size', label: 'Company Size', value: c => c.company_size },
+  { key: 'industry', label: 'Industry', value: c => c.industry },
+  { key: 'annual_revenue', label: 'Annual Revenue', value: c => c.annual_revenue },
+  { key: 'company_hq_city', label: 'HQ City', value: c => c.company_hq_city },
+  { key: 'company_hq_state', label: 'HQ State', value: c => c.company_hq_state },
+  { key: 'company_hq_country', label: 'HQ Country', value: c => c.company_hq_country },
+  { key: 'campaign_name', label: 'Campaign', value: c => c.campaign_name },
+  { key: 'lead_source', label: 'Lead Source', value: c => c.lead_source },
+  { key: 'epv', label: 'EPV', value: c => c.epv },
+  { key: 'assignee', label: 'Assignee', value: c => c.assignee },
+  { key: 'tags', label: 'Tags', value: c => c.tags?.join(', ') },
+  { key: 'next_touchpoint', label: 'Next Touchpoint', value: c => formatDate(c.next_touchpoint) },
+  { key: 'meeting_date', label: 'Meeting Date', value: c => formatDate(c.meeting_date) },
+  { key: 'created_at', label: 'Created', value: c => formatDateTime(c.created_at) },
+]
+
+// Stage labels come from the client's pipeline
+export const dealExportColumns = (stages: PipelineStage[]): ExportColumn<Deal>[] => [
+  { key: 'name', label: 'Deal Name', value: d => d.name, defaultSelected: true },
+  { key: 'company', label: 'Company', value: d => d.contact?.company, defaultSelected: true },
+  { key: 'contact', label: 'Contact', value: d => contactName(d.contact), defaultSelected: true },
+  { key: 'stage', label: 'Stage', value: d => getStageInfo(stages, d.stage).label, defaultSelected: true },
+  { key: 'amount', label: 'Amount', value: d => d.amount || 0, defaultSelected: true },
+  { key: 'expected_close_date', label: 'Expected Close', value: d => formatDate(d.expected_close_date), defaultSelected: true },
+  { key: 'probability', label: 'Probability (%)', value: d => d.probability },
+  { key: 'currency', label: 'Currency', value: d => d.currency },
+  { key: 'contact_email', label: 'Contact Email', value: d => d.contact?.email },
+  { key: 'actual_close_date', label: 'Actual Close', value: d => formatDate(d.actual_close_date) },
+  { key: 'close_reason', label: 'Close Reason', value: d => d.close_reason },
+  { key: 'description', label: 'Description', value: d => d.description },
+  { key: 'created_at', label: 'Created', value: d => formatDateTime(d.created_at) },
+]
+
+export const TASK_EXPORT_COLUMNS: ExportColumn<Task>[] = [
+  { key: 'text', label: 'Task', value: t => t.text, defaultSelected: true },
+  { key: 'type', label: 'Type', value: t => TASK_TYPE_INFO[t.type]?.label || t.type, defaultSelected: true },
+  { key: 'due_date', label: 'Due', value: t => formatDateTime(t.due_date), defaultSelected: true },
+  { key: 'status', label: 'Status', value: t => (t.done ? 'Done' : 'Pending'), defaultSelected: true },
+  { key: 'contact', label: 'Contact', value: t => contactName(t.contact), defaultSelected: true },
+  { key: 'deal', label: 'Deal', value: t => t.deal?.name, defaultSelected: true },
+  { key: 'company', label: 'Company', value: t => t.contact?.company },
+  { key: 'assigned_to', label: 'Assigned To', value: t => t.assigned_to },
+  { key: 'recurrence', label: 'Repeats', value: t => (t.recurrence ? describeRecurrence(t.recurrence) : '') },
+  { key: 'done_at', label: 'Completed', value: t => formatDateTime(t.done_at) },
+  { key: 'created_at', label: 'Created', value: t => formatDateTime(t.created_at) },
+]
+
+// ============================================
+// EXPORT
+// ============================================
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Serialize rows in their current order using the given columns and trigger a download.
+ * The file name gets a date suffix and the format's extension.
+ */
+export function exportRows<T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  baseName: string
+) {
+  const headers = columns.map(col => col.label)
+  const data = rows.map(row => columns.map(col => col.value(row)))
+  const filename = `${baseName}-${new Date().toISOString().split('T')[0]}.${format}`
+
+  if (format === 'xlsx') {
+    downloadBlob(toXLSX(headers, data, baseName), filename)
+  } else {
+    downloadBlob(new Blob([toCSV(headers, data)], { type: 'text/csv;charset=utf-8' }), filename)
+  }
+}
@@ -0,0 +1,79 @@
+// Display and input formatters for the contacts grid cells
+
+// Date-only values ("2025-01-29", as ContactModal saves them) have no time zone,
+// so they're shown as-is instead of shifting to the previous day west of UTC
+function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value)
+}
+
+/** "Jan 19, 2026", or "-" when empty or invalid. */
+export function formatDate(value: string | null): string {
+  if (!value) return '-'
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return '-'
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    ...(isDateOnly(value) ? { timeZone: 'UTC' } : {}),
+  })
+}
+
+/** YYYY-MM-DD for a date input. */
+export function formatDateForInput(value: string | null): string {
+  if (!value) return ''
+  if (isDateOnly(value.slice(0, 10)) && (value.length === 10 || value.slice(10).startsWith('T00:00:00'))) {
+    return value.slice(0, 10)
+  }
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ''
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** "$5,000", or "-" when empty. */
+export function formatCurrency(value: number | null): string {
+  if (value === null || value === undefined) return '-'
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value)
+}
+
+/** Number from a typed amount like "$5,000", or null when it isn't one. */
+export function parseCurrency(value: string): number | null {
+  if (!value || value === '-') return null
+  const num = parseFloat(value.replace(/[$,\s]/g, ''))
+  return isNaN(num) ? null : num
+}
+
+/** "(708) 901-4213" for US numbers, anything else as typed. */
+export function formatPhone(phone: string | null): string {
+  if (!phone) return '-'
+  const digits = phone.replace(/\D/g, '')
+  if (digits.length === 10) {
+    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`
+  }
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return `+1 (${digits.slice(1, 4)}) ${digits.slice(4, 7)}-${digits.slice(7)}`
+  }
+  return phone
+}
+
+/** "linkedin.com" for a full URL. */
+export function extractDomain(url: string | null): string {
+  if (!url) return '-'
+  try {
+    return new URL(ensureProtocol(url)).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+export function ensureProtocol(url: string | null): string {
+  if (!url) return ''
+  return url.startsWith('http') ? url : `https://${url}`
+}
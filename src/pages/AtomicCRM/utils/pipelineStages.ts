@@ -0,0 +1,75 @@
+// Lookups over the client's configured deal pipeline (crm_pipeline_stages).
+import { DEFAULT_PIPELINE_STAGES } from '../types'
+import type { Deal, DealStage, PipelineStage, PipelineStageDraft } from '../types'
+
+// Ids of the built-in stages, which have no crm_pipeline_stages row
+const DEFAULT_STAGE_ID_PREFIX = 'default:'
+
+// Deals can sit in a stage that was since removed (or that only the lead sync knows)
+const UNKNOWN_STAGE_COLOR = '#9ca3af'
+const UNKNOWN_STAGE_BG_COLOR = '#374151'
+
+export function defaultPipelineStages(client: string): PipelineStage[] {
+  return DEFAULT_PIPELINE_STAGES.map((stage, position) => ({
+    ...stage,
+    id: `${DEFAULT_STAGE_ID_PREFIX}${stage.key}`,
+    client,
+    position,
+    created_at: '',
+    updated_at: '',
+  }))
+}
+
+/** True when the client hasn't saved a pipeline of its own. */
+export function isDefaultPipeline(stages: PipelineStage[]): boolean {
+  return stages.every(stage => stage.id.startsWith(DEFAULT_STAGE_ID_PREFIX))
+}
+
+/** The stage's settings, or a grey placeholder named after the key. */
+export function getStageInfo(stages: PipelineStage[], key: DealStage): PipelineStageDraft {
+  const stage = stages.find(s => s.key === key)
+  if (stage) return stage
+  const words = key.replace(/_/g, ' ')
+  return {
+    key,
+    label: words.charAt(0).toUpperCase() + words.slice(1),
+    color: UNKNOWN_STAGE_COLOR,
+    bg_color: UNKNOWN_STAGE_BG_COLOR,
+    probability: 0,
+    outcome: 'open',
+  }
+}
+
+export function isOpenStage(stages: PipelineStage[], key: DealStage): boolean {
+  return getStageInfo(stages, key).outcome === 'open'
+}
+
+export function isOpenDeal(stages: PipelineStage[], deal: Deal): boolean {
+  return isOpenStage(stages, deal.stage)
+}
+
+/** Where new deals go: the first open stage. */
+export function firstOpenStage(stages: PipelineStage[]): DealStage {
+  return (stages.find(s => s.outcome === 'open') ?? stages[0])?.key ?? DEFAULT_PIPELINE_STAGES[0].key
+}
+
+/**
+ * The configured stage a deal is shown in. Deals in a stage the pipeline no
+ * longer has land in the first open stage until they're moved.
+ */
+export function boardStage(stages: PipelineStage[], key: DealStage): DealStage {
+  return stages.some(s => s.key === key) ? key : firstOpenStage(stages)
+}
+
+/** "Security Review" -> "security_review", suffixed when the key is taken. */
+export function stageKeyFromLabel(label: string, takenKeys: DealStage[]): DealStage {
+  const base = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'stage'
+  let key = base
+  for (let n = 2; takenKeys.includes(key); n++) key = `${base}_${n}`
+  return key
+}
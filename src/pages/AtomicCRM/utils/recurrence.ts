@@ -0,0 +1,95 @@
+// Recurring task and snooze helpers. Due dates are stored as UTC midnight
+// (TaskModal saves the picked date that way), so all date math here is in UTC days.
+import type { TaskRecurrence } from '../types'
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const SNOOZE_OPTIONS = [
+  { days: 1, label: 'Tomorrow' },
+  { days: 3, label: 'In 3 days' },
+  { days: 7, label: 'In 1 week' },
+  { days: 14, label: 'In 2 weeks' },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The user's current calendar day, in the same UTC-midnight form as stored due dates
+function todayUtc(now = new Date()): Date {
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function addMonths(date: Date, months: number, dayOfMonth: number): Date {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth() + months
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(dayOfMonth, lastDay)))
+}
+
+function getNextOccurrence(rule: TaskRecurrence, due: Date): Date {
+  const interval = Math.max(1, Math.floor(rule.interval) || 1)
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(due, interval)
+    case 'weekly': {
+      const weekday = rule.weekday ?? due.getUTCDay()
+      const daysAhead = (weekday - due.getUTCDay() + 7) % 7 || 7
+      return addDays(due, daysAhead + (interval - 1) * 7)
+    }
+    case 'monthly':
+      return addMonths(due, interval, rule.day_of_month ?? due.getUTCDate())
+  }
+}
+
+/**
+ * Due date (ISO) of the occurrence that follows a completed task. Occurrences
+ * that are already in the past are skipped, so finishing late doesn't spawn
+ * an overdue task.
+ */
+export function getNextDueDate(rule: TaskRecurrence, dueDate: string | null): string {
+  const today = todayUtc()
+  let next = getNextOccurrence(rule, dueDate ? startOfUtcDay(new Date(dueDate)) : today)
+  while (next < today) {
+    next = getNextOccurrence(rule, next)
+  }
+  return next.toISOString()
+}
+
+/** Due date (ISO) the given number of days from today, e.g. for snoozing. */
+export function getDueDateFromToday(days: number): string {
+  return addDays(todayUtc(), days).toISOString()
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  return `${n}${suffix}`
+}
+
+/** Short label like "Every 3 days", "Weekly on Monday" or "Every 2 months on the 15th". */
+export function describeRecurrence(rule: TaskRecurrence): string {
+  const interval = Math.max(1, Math.floor(rule.interval) || 1)
+  switch (rule.frequency) {
+    case 'daily':
+      return interval === 1 ? 'Every day' : `Every ${interval} days`
+    case 'weekly': {
+      const on = rule.weekday != null ? ` on ${WEEKDAY_LABELS[rule.weekday]}` : ''
+      return interval === 1 ? `Weekly${on}` : `Every ${interval} weeks${on}`
+    }
+    case 'monthly': {
+      const on = rule.day_of_month ? ` on the ${ordinal(rule.day_of_month)}` : ''
+      return interval === 1 ? `Monthly${on}` : `Every ${interval} months${on}`
+    }
+  }
+}
+
+/** "Jan 27" for a stored due date, read in UTC so it matches the picked day. */
+export function formatTaskDay(dueDate: string): string {
+  return new Date(dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
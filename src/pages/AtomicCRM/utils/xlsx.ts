@@ -0,0 +1,216 @@
+// Minimal XLSX writer - a single worksheet with inline strings, packed in an
+// uncompressed (stored) zip. Enough for report exports without pulling in a
+// spreadsheet library.
+import { neutralizeFormula } from './csv'
+
+export type XLSXCell = string | number | boolean | null | undefined
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Strip control characters that are invalid in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = ''
+  let n = index + 1
+  while (n > 0) {
+    const rem = (n - 1) % 26
+    name = String.fromCharCode(65 + rem) + name
+    n = Math.floor((n - 1) / 26)
+  }
+  return name
+}
+
+function cellXML(value: XLSXCell, ref: string, bold: boolean): string {
+  const style = bold ? ' s="1"' : ''
+  if (value == null || value === '') return ''
+  if (typeof value === 'number' && isFinite(value)) {
+    return `<c r="${ref}"${style}><v>${value}</v></c>`
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`
+  }
+  // Inline strings aren't evaluated, but re-saving or editing the cell would run a formula
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXML(neutralizeFormula(String(value)))}</t></is></c>`
+}
+
+function sheetXML(headers: string[], rows: XLSXCell[][]): string {
+  const allRows = [headers, ...rows]
+  const rowsXML = allRows.map((row, r) => {
+    const cells = row.map((value, c) => cellXML(value, `${columnName(c)}${r + 1}`, r === 0)).join('')
+    return `<row r="${r + 1}">${cells}</row>`
+  }).join('')
+
+  // Rough column widths based on content length, capped so long notes don't blow out the sheet
+  const cols = headers.map((_, c) => {
+    const longest = allRows.reduce((max, row) => Math.max(max, String(row[c] ?? '').length), 0)
+    const width = Math.min(Math.max(longest + 2, 10), 60)
+    return `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`
+  }).join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${rowsXML}</sheetData>` +
+    '</worksheet>'
+}
+
+function workbookFiles(sheetName: string, headers: string[], rows: XLSXCell[][]): { path: string; content: string }[] {
+  // Sheet names are limited to 31 chars and can't contain []:*?/\
+  const safeName = escapeXML(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1')
+
+  return [
+    {
+      path: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      path: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      path: 'xl/styles.xml',
+      // Style index 1 = bold header row
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>',
+    },
+    {
+      path: 'xl/worksheets/sheet1.xml',
+      content: sheetXML(headers, rows),
+    },
+  ]
+}
+
+// ============================================
+// ZIP (stored, no compression)
+// ============================================
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let i = 0; i < 256; i++) {
+      let c = i
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[i] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function buildZip(files: { path: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach(file => {
+    const name = encoder.encode(file.path)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true) // Local file header signature
+    lv.setUint16(4, 20, true) // Version needed
+    lv.setUint16(6, 0x0800, true) // UTF-8 file names
+    lv.setUint16(8, 0, true) // Stored
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, data.length, true)
+    lv.setUint32(22, data.length, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014b50, true) // Central directory signature
+    cv.setUint16(4, 20, true) // Version made by
+    cv.setUint16(6, 20, true) // Version needed
+    cv.setUint16(8, 0x0800, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, data.length, true)
+    cv.setUint32(24, data.length, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, data)
+    centralParts.push(central)
+    offset += local.length + data.length
+  })
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true) // End of central directory signature
+  ev.setUint16(8, files.length, true)
+  ev.setUint16(10, files.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let pos = 0
+  parts.forEach(p => {
+    out.set(p, pos)
+    pos += p.length
+  })
+  return out
+}
+
+/**
+ * Build an .xlsx workbook with a single sheet. The first row is the header
+ * (bold, frozen); numbers and booleans keep their type, everything else is text.
+ */
+export function toXLSX(headers: string[], rows: XLSXCell[][], sheetName = 'Sheet1'): Blob {
+  const zip = buildZip(workbookFiles(sheetName, headers, rows))
+  return new Blob([zip as BlobPart], { type: XLSX_MIME })
+}
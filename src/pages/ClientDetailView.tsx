@@ -1,7 +1,7 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { Settings } from 'lucide-react'
+import { Settings, AlertTriangle } from 'lucide-react'
 import MetricCard from '../components/ui/MetricCard'
 import ClickableMetricCard from '../components/ui/ClickableMetricCard'
 import TrendChart from '../components/charts/TrendChart'
@@ -12,9 +12,12 @@ import { useQuickViewData } from '../hooks/useQuickViewData'
 import { useCampaignStats } from '../hooks/useCampaignStats'
 import { useFirmographicInsights } from '../hooks/useFirmographicInsights'
 import { useIterationLog } from '../hooks/useIterationLog'
+import { usePacing } from '../hooks/usePacing'
+import { useTargetSchedule } from '../hooks/useTargetSchedule'
 import { useFilters } from '../contexts/FilterContext'
 import { useAI } from '../contexts/AIContext'
-import { supabase } from '../lib/supabase'
+import { formatNumber } from '../lib/supabase'
+import { hasTargets, targetsForRange } from '../lib/target-schedule'
 import FirmographicInsightsPanel from '../components/insights/FirmographicInsightsPanel'
 import CampaignFilter from '../components/ui/CampaignFilter'
 import MeetingsDrillDown from '../components/ui/MeetingsDrillDown'
@@ -64,46 +67,24 @@ export default function ClientDetailView() {
     campaigns: selectedCampaigns.length > 0 ? selectedCampaigns : undefined,
   })
 
-  const [targets, setTargets] = useState<{
-    emailsTarget: number
-    prospectsTarget: number
-    repliesTarget: number
-    meetingsTarget: number
-  } | null>(null)
-
-  useEffect(() => {
-    async function fetchTargets() {
-      if (!selectedClient) return
-      try {
-        const { data } = await supabase
-          .from('client_targets')
-          .select('emails_per_day, prospects_per_day, replies_per_day, meetings_per_day')
-          .eq('client', selectedClient)
-          .single()
-
-        type TargetData = {
-          emails_per_day: number | null
-          prospects_per_day: number | null
-          replies_per_day: number | null
-          meetings_per_day: number | null
-        }
-        const targetData = data as TargetData | null
-
-        if (targetData) {
-          const numDays = Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)) + 1
-          setTargets({
-            emailsTarget: (targetData.emails_per_day || 0) * numDays,
-            prospectsTarget: (targetData.prospects_per_day || 0) * numDays,
-            repliesTarget: (targetData.replies_per_day || 0) * numDays,
-            meetingsTarget: (targetData.meetings_per_day || 0) * numDays,
-          })
-        }
-      } catch (err) {
-        console.error('Error fetching targets:', err)
-      }
+  // Range targets sum the target in force on each day
+  const { schedule: targetSchedule, refetch: refetchTargets } = useTargetSchedule({ client: selectedClient || undefined })
+  const targets = useMemo(() => {
+    if (!hasTargets(targetSchedule)) return null
+    const totals = targetsForRange(targetSchedule, dateRange.start, dateRange.end)
+    return {
+      emailsTarget: totals.emails,
+      prospectsTarget: totals.prospects,
+      repliesTarget: totals.replies,
+      interestedTarget: totals.interested,
+      meetingsTarget: totals.meetings,
     }
-    fetchTargets()
-  }, [selectedClient, dateRange])
+  }, [targetSchedule, dateRange])
+
+  // Month-to-date pacing against the daily targets
+  const { period: pacingPeriod, results: pacing, refetch: refetchPacing } = usePacing({ client: selectedClient || undefined })
+  const pacingFor = (key: string) => pacing.find(result => result.key === key)
+  const behindPace = pacing.filter(result => result.status === 'behind')
 
   const { campaigns: campaignStats } = useCampaignStats({
     startDate: dateRange.start,
@@ -195,6 +176,19 @@ export default function ClientDetailView() {
         </div>
       </div>
 
+      {/* Pacing Alert */}
+      {behindPace.length > 0 && (
+        <div className="flex items-start gap-2 bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm">
+          <AlertTriangle size={16} className="text-red-400 flex-shrink-0 mt-0.5" />
+          <div className="text-red-300">
+            <span className="font-medium text-red-400">Behind pace ({pacingPeriod.label}): </span>
+            {behindPace.map(result => (
+              `${result.label} ${Math.round(100 - (result.pace || 0))}% behind (${formatNumber(Math.round(result.actual))} of ${formatNumber(Math.round(result.expected))} expected)`
+            )).join(' • ')}
+          </div>
+        </div>
+      )}
+
       {/* Error State */}
       {error && (
         <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-red-400 text-sm">
@@ -218,6 +212,7 @@ export default function ClientDetailView() {
               title="Emails Sent"
               value={metrics.totalEmailsSent}
               colorClass={targets ? getTargetColor(metrics.totalEmailsSent, targets.emailsTarget) : 'text-white'}
+              projection={pacingFor('emails')}
               isActive={selectedChartMetric === 'sent'}
               onClick={() => handleChartMetricClick('sent')}
             />
@@ -225,6 +220,7 @@ export default function ClientDetailView() {
               title="Prospects"
               value={metrics.uniqueProspects}
               colorClass={targets ? getTargetColor(metrics.uniqueProspects, targets.prospectsTarget) : 'text-white'}
+              projection={pacingFor('prospects')}
               isActive={selectedChartMetric === 'prospects'}
               onClick={() => handleChartMetricClick('prospects')}
             />
@@ -241,6 +237,7 @@ export default function ClientDetailView() {
               percentage={realReplyRate}
               percentageLabel="excl. OOO"
               colorClass={targets ? getTargetColor(metrics.realReplies, targets.repliesTarget) : 'text-white'}
+              projection={pacingFor('replies')}
               isActive={selectedChartMetric === 'replied'}
               onClick={() => handleChartMetricClick('replied')}
             />
@@ -248,7 +245,8 @@ export default function ClientDetailView() {
               title="Interested"
               value={metrics.positiveReplies}
               percentage={positiveRate}
-              colorClass="text-green-400"
+              colorClass={targets && targets.interestedTarget > 0 ? getTargetColor(metrics.positiveReplies, targets.interestedTarget) : 'text-green-400'}
+              projection={pacingFor('interested')}
               isActive={selectedChartMetric === 'positiveReplies'}
               onClick={() => handleChartMetricClick('positiveReplies')}
             />
@@ -263,6 +261,7 @@ export default function ClientDetailView() {
               value={metrics.meetingsBooked}
               percentage={meetingRate}
               colorClass={targets ? getTargetColor(metrics.meetingsBooked, targets.meetingsTarget) : 'text-white'}
+              projection={pacingFor('meetings')}
               isActive={selectedChartMetric === 'meetings' || showMeetingsDrillDown}
               onClick={() => {
                 handleChartMetricClick('meetings')
@@ -287,6 +286,7 @@ export default function ClientDetailView() {
             data={chartData} 
             selectedMetric={selectedChartMetric}
             targets={targets || undefined}
+            targetSchedule={targetSchedule}
             metrics={metrics}
           />
 
@@ -324,28 +324,8 @@ export default function ClientDetailView() {
         onClose={() => setShowConfigureTargets(false)}
         onSave={() => {
           setShowConfigureTargets(false)
-          // Refetch targets after save
-          const fetchTargets = async () => {
-            try {
-              const { data } = await supabase
-                .from('client_targets')
-                .select('emails_per_day, prospects_per_day, replies_per_day, meetings_per_day')
-                .eq('client', selectedClient)
-                .single()
-              if (data) {
-                const numDays = Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)) + 1
-                setTargets({
-                  emailsTarget: ((data as any).emails_per_day || 0) * numDays,
-                  prospectsTarget: ((data as any).prospects_per_day || 0) * numDays,
-                  repliesTarget: ((data as any).replies_per_day || 0) * numDays,
-                  meetingsTarget: ((data as any).meetings_per_day || 0) * numDays,
-                })
-              }
-            } catch (err) {
-              console.error('Error refetching targets:', err)
-            }
-          }
-          fetchTargets()
+          refetchPacing()
+          refetchTargets()
         }}
       />
 
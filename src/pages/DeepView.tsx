@@ -199,7 +199,7 @@ export default function DeepView() {
         const { data, count, error } = await query
         if (error) throw error
 
-        setMeetingsData(data || [])
+        setMeetingsData((data || []) as MeetingBooked[])
         setMeetingsCount(count || 0)
       } catch (err) {
         console.error('Error fetching meetings:', err)
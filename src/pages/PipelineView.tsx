@@ -4,12 +4,17 @@ import OpportunityPipeline from '../components/charts/OpportunityPipeline'
 import InlineLeadsTable from '../components/ui/InlineLeadsTable'
 import ConfigureTargetsModal from '../components/ui/ConfigureTargetsModal'
 import CompactSalesMetrics from '../components/ui/CompactSalesMetrics'
+import RevenueForecast from '../components/charts/RevenueForecast'
+import FunnelForecastAccuracy from '../components/ui/FunnelForecastAccuracy'
+import ReconcileActualsModal from '../components/ui/ReconcileActualsModal'
 import PipelineMetricsSection from '../components/ui/PipelineMetricsSection'
 import { usePipelineData } from '../hooks/usePipelineData'
 import { useQuickViewData } from '../hooks/useQuickViewData'
 import { useFilters } from '../contexts/FilterContext'
 import { useSalesMetrics } from '../hooks/useSalesMetrics'
 import { useOpportunities } from '../hooks/useOpportunities'
+import { useRevenueForecast } from '../hooks/useRevenueForecast'
+import { useFunnelForecastHistory } from '../hooks/useFunnelForecastHistory'
 import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
 
 // Helper to shift weekend dates to weekdays
@@ -40,6 +45,7 @@ export default function PipelineView() {
   
   // Configure targets modal state
   const [isConfigureModalOpen, setIsConfigureModalOpen] = useState(false)
+  const [isReconcileModalOpen, setIsReconcileModalOpen] = useState(false)
   
   // Note: Opportunity stage modal replaced with inline dropdowns in OpportunityPipeline
   
@@ -66,6 +72,21 @@ export default function PipelineView() {
     client: selectedClient || undefined,
   })
 
+  // Weighted forecast from CRM deals and opportunities
+  const { items: forecastItems, loading: forecastLoading, error: forecastError } = useRevenueForecast({
+    client: selectedClient || undefined,
+  })
+
+  // Last 12 months of funnel forecasts for the accuracy view
+  const {
+    rows: forecastHistory,
+    loading: forecastHistoryLoading,
+    error: forecastHistoryError,
+    refetch: refetchForecastHistory,
+  } = useFunnelForecastHistory({
+    client: selectedClient || undefined,
+  })
+
   // Fetch performance data for chart dates template
   const { chartData: performanceChartData, loading: performanceLoading } = useQuickViewData({
     startDate: dateRange.start,
@@ -260,6 +281,16 @@ export default function PipelineView() {
             <CompactSalesMetrics summary={summary} dailyMetrics={dailyMetrics} />
           )}
 
+          {/* Revenue Forecast */}
+          <RevenueForecast
+            items={forecastItems}
+            loading={forecastLoading || salesLoading}
+            error={forecastError || salesError}
+            salesSummary={summary}
+            startDate={dateRange.start}
+            endDate={dateRange.end}
+          />
+
           {/* Dual Funnel System - Lead Funnel and Opportunity Pipeline */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-stretch">
             {/* Lead Count Funnel (Full) */}
@@ -293,6 +324,14 @@ export default function PipelineView() {
               onClose={handleTableClose}
             />
           )}
+
+          {/* Funnel Forecast Accuracy */}
+          <FunnelForecastAccuracy
+            rows={forecastHistory}
+            loading={forecastHistoryLoading}
+            error={forecastHistoryError}
+            onReconcile={() => setIsReconcileModalOpen(true)}
+          />
         </>
       )}
       
@@ -306,6 +345,17 @@ export default function PipelineView() {
         onSave={refetch}
         mode="pipeline"
       />
+
+      {/* Reconcile Funnel Actuals Modal */}
+      <ReconcileActualsModal
+        isOpen={isReconcileModalOpen}
+        onClose={() => setIsReconcileModalOpen(false)}
+        client={selectedClient}
+        onSaved={() => {
+          refetchForecastHistory()
+          refetch()
+        }}
+      />
       
     </div>
   )
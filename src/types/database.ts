@@ -7,39 +7,60 @@ export interface Database {
         Row: Reply
         Insert: Partial<Reply>
         Update: Partial<Reply>
+        Relationships: []
       }
       meetings_booked: {
         Row: MeetingBooked
         Insert: Partial<MeetingBooked>
         Update: Partial<MeetingBooked>
+        Relationships: []
       }
       client_opportunities: {
         Row: ClientOpportunity
         Insert: Partial<ClientOpportunity>
         Update: Partial<ClientOpportunity>
+        Relationships: []
       }
       client_iteration_logs: {
         Row: ClientIterationLog
         Insert: Partial<ClientIterationLog>
         Update: Partial<ClientIterationLog>
+        Relationships: []
       }
       engaged_leads: {
         Row: EngagedLead
         Insert: Partial<EngagedLead>
         Update: Partial<EngagedLead>
+        Relationships: []
       }
       campaign_reporting: {
         Row: CampaignReporting
         Insert: Partial<CampaignReporting>
         Update: Partial<CampaignReporting>
+        Relationships: []
+      }
+      client_target_schedules: {
+        Row: ClientTargetSchedule
+        Insert: Partial<ClientTargetSchedule>
+        Update: Partial<ClientTargetSchedule>
+        Relationships: []
+      }
+      client_target_month_overrides: {
+        Row: ClientTargetMonthOverride
+        Insert: Partial<ClientTargetMonthOverride>
+        Update: Partial<ClientTargetMonthOverride>
+        Relationships: []
       }
     }
+    // Open-ended so tables not listed above can still be queried, untyped
+    Views: Record<string, never>
+    Functions: Record<string, never>
   }
 }
 
 // Table Types
 
-export interface Reply {
+export type Reply = {
   id?: number
   reply_id: string
   type: string
@@ -55,7 +76,7 @@ export interface Reply {
   created_at?: string
 }
 
-export interface MeetingBooked {
+export type MeetingBooked = {
   id?: number
   first_name: string
   last_name: string
@@ -88,7 +109,7 @@ export interface MeetingBooked {
   created_at?: string
 }
 
-export interface ClientOpportunity {
+export type ClientOpportunity = {
   id?: number
   client: string
   opportunity_name: string
@@ -102,7 +123,7 @@ export interface ClientOpportunity {
   updated_at?: string
 }
 
-export interface ClientIterationLog {
+export type ClientIterationLog = {
   id?: number
   client: string
   action_type: string
@@ -118,7 +139,7 @@ export interface MentionedUser {
   display_name: string
 }
 
-export interface EngagedLead {
+export type EngagedLead = {
   id?: number
   client: string
   email: string
@@ -198,7 +219,7 @@ export interface EngagedLead {
   deleted_at?: string
 }
 
-export interface CampaignReporting {
+export type CampaignReporting = {
   id?: number
   campaign_id: string
   campaign_name: string
@@ -243,6 +264,7 @@ export interface ClientBubbleData {
 
 export interface ChartDataPoint {
   date: string
+  days?: string[] // Calendar days (YYYY-MM-DD) the point covers, including folded-in weekends
   sent: number
   prospects: number
   replied: number
@@ -268,7 +290,41 @@ export interface FunnelForecast {
   estimate_2: number
   actual: number
   projected: number
+  computed_actual?: number | null
+  actual_override?: boolean
+  reconciled_at?: string | null
   client?: string
   created_at?: string
   updated_at?: string
 }
+
+// A version of a client's daily targets, in force from effective_from until
+// the next version starts
+export type ClientTargetSchedule = {
+  id?: string
+  client: string
+  effective_from: string // YYYY-MM-DD
+  emails_per_day: number | null
+  prospects_per_day: number | null
+  replies_per_day: number | null
+  interested_per_day: number | null
+  meetings_per_day: number | null
+  weekend_weight: number
+  created_at?: string
+  updated_at?: string
+}
+
+// Per-day targets for one month that replace the version's values (null keeps them)
+export type ClientTargetMonthOverride = {
+  id?: string
+  client: string
+  month: number
+  year: number
+  emails_per_day: number | null
+  prospects_per_day: number | null
+  replies_per_day: number | null
+  interested_per_day: number | null
+  meetings_per_day: number | null
+  created_at?: string
+  updated_at?: string
+}
@@ -0,0 +1,316 @@
+// ============================================================================
+// CRM CALENDAR FEED
+// ============================================================================
+// Serves a client's open CRM tasks (by due date) and booked meetings
+// (engaged_leads.meeting_date) as an RFC 5545 iCalendar file.
+//
+//   GET  /crm-calendar-feed?token=<token>   Subscribe URL for calendar apps.
+//                                           Deploy with --no-verify-jwt: the
+//                                           token from crm_calendar_feeds is
+//                                           the credential.
+//   POST /crm-calendar-feed                 One-off download from the app.
+//        { client, assignee? }              Uses the caller's JWT, so RLS
+//                                           decides what they can read.
+//
+// Event UIDs are derived from the task / lead id, so calendar apps replace
+// an event when it changes instead of adding a duplicate.
+// ============================================================================
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+const UID_DOMAIN = 'crm.rillation'
+
+// Booked meetings without a time of day are shown as all-day events,
+// otherwise they get this default length
+const MEETING_MINUTES = 30
+
+// Past meetings older than this are left out to keep the feed small
+const MEETING_HISTORY_DAYS = 90
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  task: 'Task',
+  call: 'Call',
+  email: 'Email',
+  meeting: 'Meeting',
+  follow_up: 'Follow Up',
+  reminder: 'Reminder',
+}
+
+interface FeedTask {
+  id: string
+  type: string
+  text: string
+  due_date: string
+  contact_id: string | null
+  updated_at: string | null
+}
+
+interface FeedLead {
+  id: number | string
+  full_name: string | null
+  first_name: string | null
+  last_name: string | null
+  company: string | null
+  email: string | null
+  meeting_date: string | null
+  meeting_link: string | null
+  rescheduling_link: string | null
+  updated_at: string | null
+}
+
+// ============================================
+// ICALENDAR FORMATTING
+// ============================================
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Content lines are folded at 75 octets (RFC 5545 §3.1), without splitting a UTF-8 character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74 // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// All-day values come straight from the stored YYYY-MM-DD, so no timezone
+// conversion can move them a day
+function formatDateValue(value: string, addDays = 0): string {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + addDays)).toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+// Escape LIKE wildcards so a name containing % or _ only matches itself
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+// Date-only values ("2025-01-29" or UTC midnight) are all-day events
+function isAllDay(value: string): boolean {
+  return value.length <= 10 || /T00:00(:00(\.0+)?)?(Z|\+00(:?00)?)?$/.test(value)
+}
+
+function leadName(lead: FeedLead | undefined): string {
+  if (!lead) return ''
+  return lead.full_name || [lead.first_name, lead.last_name].filter(Boolean).join(' ') || lead.email || ''
+}
+
+function buildEvent(fields: [string, string][]): string[] {
+  return ['BEGIN:VEVENT', ...fields.map(([name, value]) => `${name}:${value}`), 'END:VEVENT']
+}
+
+function taskEvent(task: FeedTask, contact: FeedLead | undefined, now: Date): string[] {
+  const typeLabel = TASK_TYPE_LABELS[task.type] || 'Task'
+  const name = leadName(contact)
+
+  return buildEvent([
+    ['UID', `task-${task.id}@${UID_DOMAIN}`],
+    ['DTSTAMP', formatDateTime(now)],
+    ['LAST-MODIFIED', formatDateTime(task.updated_at ? new Date(task.updated_at) : now)],
+    ['DTSTART;VALUE=DATE', formatDateValue(task.due_date)],
+    ['DTEND;VALUE=DATE', formatDateValue(task.due_date, 1)],
+    ['SUMMARY', escapeText(`${typeLabel}: ${task.text}`)],
+    ['DESCRIPTION', escapeText(name ? `${typeLabel} for ${name}` : typeLabel)],
+    ['TRANSP', 'TRANSPARENT'],
+  ])
+}
+
+function meetingEvent(lead: FeedLead, now: Date): string[] {
+  const meetingDate = lead.meeting_date as string
+  const start = new Date(meetingDate)
+  const name = leadName(lead) || 'lead'
+  const description = [
+    lead.company ? `Company: ${lead.company}` : '',
+    lead.email ? `Email: ${lead.email}` : '',
+    lead.meeting_link ? `Join: ${lead.meeting_link}` : '',
+    lead.rescheduling_link ? `Reschedule: ${lead.rescheduling_link}` : '',
+  ].filter(Boolean).join('\n')
+
+  const when: [string, string][] = isAllDay(meetingDate)
+    ? [
+        ['DTSTART;VALUE=DATE', formatDateValue(meetingDate)],
+        ['DTEND;VALUE=DATE', formatDateValue(meetingDate, 1)],
+      ]
+    : [
+        ['DTSTART', formatDateTime(start)],
+        ['DTEND', formatDateTime(new Date(start.getTime() + MEETING_MINUTES * 60 * 1000))],
+      ]
+
+  const fields: [string, string][] = [
+    ['UID', `meeting-${lead.id}@${UID_DOMAIN}`],
+    ['DTSTAMP', formatDateTime(now)],
+    ['LAST-MODIFIED', formatDateTime(lead.updated_at ? new Date(lead.updated_at) : now)],
+    ...when,
+    ['SUMMARY', escapeText(lead.company ? `Meeting: ${name} (${lead.company})` : `Meeting: ${name}`)],
+  ]
+  if (description) fields.push(['DESCRIPTION', escapeText(description)])
+  if (lead.meeting_link) {
+    fields.push(['LOCATION', escapeText(lead.meeting_link)])
+    fields.push(['URL', lead.meeting_link])
+  }
+  return buildEvent(fields)
+}
+
+function buildCalendar(client: string, tasks: FeedTask[], leads: FeedLead[], contacts: Map<string, FeedLead>): string {
+  const now = new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rillation//CRM Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`CRM – ${client}`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...leads.flatMap(lead => meetingEvent(lead, now)),
+    ...tasks.flatMap(task => taskEvent(task, task.contact_id ? contacts.get(task.contact_id) : undefined, now)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// ============================================
+// DATA
+// ============================================
+async function loadCalendar(db: SupabaseClient, client: string, assignee: string | null): Promise<string> {
+  const since = new Date(Date.now() - MEETING_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  let taskQuery = db
+    .from('crm_tasks')
+    .select('id, type, text, due_date, contact_id, updated_at')
+    .eq('client', client)
+    .eq('done', false)
+    .not('due_date', 'is', null)
+  let leadQuery = db
+    .from('engaged_leads')
+    .select('id, full_name, first_name, last_name, company, email, meeting_date, meeting_link, rescheduling_link, updated_at')
+    .eq('client', client)
+    .is('deleted_at', null)
+    .not('meeting_date', 'is', null)
+    .gte('meeting_date', since.slice(0, 10))
+  if (assignee) {
+    // Case-insensitive exact match on the name
+    taskQuery = taskQuery.ilike('assigned_to', escapeLike(assignee))
+    leadQuery = leadQuery.ilike('assignee', escapeLike(assignee))
+  }
+
+  const [taskResult, leadResult] = await Promise.all([taskQuery, leadQuery])
+  if (taskResult.error) throw taskResult.error
+  if (leadResult.error) throw leadResult.error
+
+  const tasks = (taskResult.data || []) as FeedTask[]
+  const leads = (leadResult.data || []) as FeedLead[]
+
+  // Names for task descriptions, for contacts that aren't already loaded as meetings
+  const contacts = new Map(leads.map(lead => [String(lead.id), lead]))
+  const missingIds = [...new Set(tasks.map(t => t.contact_id).filter((id): id is string => !!id && !contacts.has(id)))]
+  if (missingIds.length > 0) {
+    const { data } = await db
+      .from('engaged_leads')
+      .select('id, full_name, first_name, last_name, company, email, meeting_date, meeting_link, rescheduling_link, updated_at')
+      .in('id', missingIds)
+    ;((data || []) as FeedLead[]).forEach(lead => contacts.set(String(lead.id), lead))
+  }
+
+  return buildCalendar(client, tasks, leads, contacts)
+}
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function calendarResponse(ics: string, client: string): Response {
+  const fileName = `crm-${client.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics`
+  return new Response(ics, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${fileName}"`,
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+// ============================================
+// HANDLER
+// ============================================
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+  try {
+    if (req.method === 'GET') {
+      const token = new URL(req.url).searchParams.get('token')
+      if (!token) return jsonError('Missing token', 400)
+
+      const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+      const { data: feed, error: feedError } = await admin
+        .from('crm_calendar_feeds')
+        .select('id, client, assignee')
+        .eq('token', token)
+        .maybeSingle()
+      if (feedError) throw feedError
+      if (!feed) return jsonError('Feed not found', 404)
+
+      await admin
+        .from('crm_calendar_feeds')
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq('id', feed.id)
+
+      return calendarResponse(await loadCalendar(admin, feed.client, feed.assignee), feed.client)
+    }
+
+    if (req.method === 'POST') {
+      const authorization = req.headers.get('Authorization')
+      if (!authorization) return jsonError('Not signed in', 401)
+
+      const { client, assignee } = await req.json()
+      if (!client) return jsonError('Missing client', 400)
+
+      const db = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authorization } },
+      })
+      return calendarResponse(await loadCalendar(db, client, assignee || null), client)
+    }
+
+    return jsonError('Method not allowed', 405)
+  } catch (err) {
+    console.error('crm-calendar-feed failed:', err)
+    return jsonError(err instanceof Error ? err.message : 'Failed to build calendar', 500)
+  }
+})
@@ -0,0 +1,256 @@
+// ============================================================================
+// PACING DIGEST
+// ============================================================================
+// Daily Slack digest of month-to-date pacing against the scheduled client
+// targets (client_target_schedules plus client_target_month_overrides), run
+// by the pacing-digest-daily cron job (20250209000000_pacing_digest_vault_secrets.sql).
+// Callers must send the service role key as their bearer token.
+//
+//   POST /pacing-digest
+//        { threshold?, dry_run? }   threshold: percent behind the prorated
+//                                   target to date that gets a client flagged
+//                                   (default 20). dry_run returns the digest
+//                                   without posting it.
+//
+// Actuals are campaign_reporting sums plus meetings_booked, counting
+// completed days only; on the 1st the digest covers how last month finished.
+// Targets sum the version in force on each day, with month overrides and
+// weekend weighting. The pacing rules mirror src/lib/pacing.ts and
+// src/lib/target-schedule.ts, which the Performance page uses.
+// The message goes out through the slack-notify function.
+// ============================================================================
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_THRESHOLD = 20 // percent
+
+const PAGE_SIZE = 1000
+const MAX_PAGES = 100 // Safety limit
+
+type MetricKey = 'emails' | 'prospects' | 'replies' | 'interested' | 'meetings'
+
+type TargetRow = Record<string, any>
+
+const METRICS: { key: MetricKey; label: string; targetColumn: string }[] = [
+  { key: 'emails', label: 'Emails Sent', targetColumn: 'emails_per_day' },
+  { key: 'prospects', label: 'Prospects', targetColumn: 'prospects_per_day' },
+  { key: 'replies', label: 'Replies', targetColumn: 'replies_per_day' },
+  { key: 'interested', label: 'Interested', targetColumn: 'interested_per_day' },
+  { key: 'meetings', label: 'Meetings', targetColumn: 'meetings_per_day' },
+]
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+interface ClientPacing {
+  client: string
+  behind: { label: string; pace: number; actual: number; expected: number; projected: number; monthTarget: number }[]
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay()
+  return day === 0 || day === 6
+}
+
+// Summed daily targets from start through end (both inclusive). versions are
+// oldest first; a month override replaces the version's per-day values.
+function targetsForRange(versions: TargetRow[], overrides: TargetRow[], start: Date, end: Date): Record<MetricKey, number> {
+  const totals: Record<MetricKey, number> = { emails: 0, prospects: 0, replies: 0, interested: 0, meetings: 0 }
+  for (let day = new Date(start); day <= end; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    const dayKey = formatDate(day)
+    const version = versions.filter(v => v.effective_from <= dayKey).pop()
+    const override = overrides.find(o => o.year === day.getUTCFullYear() && o.month === day.getUTCMonth() + 1)
+    if (!version && !override) continue
+
+    const weight = version && isWeekend(day) ? Number(version.weekend_weight ?? 1) : 1
+    METRICS.forEach(({ key, targetColumn }) => {
+      totals[key] += Number(override?.[targetColumn] ?? version?.[targetColumn] ?? 0) * weight
+    })
+  }
+  return totals
+}
+
+function formatCount(value: number): string {
+  return Math.round(value).toLocaleString('en-US')
+}
+
+async function fetchAllRows(buildQuery: (from: number, to: number) => any): Promise<any[]> {
+  const rows: any[] = []
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data, error } = await buildQuery(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+async function buildDigest(db: SupabaseClient, threshold: number, now: Date) {
+  // Completed days of the month containing yesterday
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 1))
+  const start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1))
+  const nextDay = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() + 1))
+  const elapsedDays = end.getUTCDate()
+  const daysInMonth = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 0)).getUTCDate()
+  const month = MONTH_NAMES[end.getUTCMonth()]
+  const periodLabel = elapsedDays === 1 ? `${month} 1` : `${month} 1-${elapsedDays}`
+
+  const monthEnd = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), daysInMonth))
+
+  const [versions, overrides, campaignRows, meetingRows] = await Promise.all([
+    fetchAllRows((from, to) => db
+      .from('client_target_schedules')
+      .select('*')
+      .order('effective_from', { ascending: true })
+      .range(from, to)),
+    fetchAllRows((from, to) => db
+      .from('client_target_month_overrides')
+      .select('*')
+      .eq('year', end.getUTCFullYear())
+      .eq('month', end.getUTCMonth() + 1)
+      .range(from, to)),
+    fetchAllRows((from, to) => db
+      .from('campaign_reporting')
+      .select('client, emails_sent, total_leads_contacted, unique_replies_per_contact, interested')
+      .gte('date', formatDate(start))
+      .lte('date', formatDate(end))
+      .range(from, to)),
+    fetchAllRows((from, to) => db
+      .from('meetings_booked')
+      .select('client')
+      .gte('created_time', formatDate(start))
+      .lt('created_time', formatDate(nextDay))
+      .range(from, to)),
+  ])
+
+  const actualsByClient = new Map<string, Record<MetricKey, number>>()
+  const actualsFor = (client: string) => {
+    let actuals = actualsByClient.get(client)
+    if (!actuals) {
+      actuals = { emails: 0, prospects: 0, replies: 0, interested: 0, meetings: 0 }
+      actualsByClient.set(client, actuals)
+    }
+    return actuals
+  }
+  campaignRows.forEach((row) => {
+    const actuals = actualsFor(row.client)
+    actuals.emails += row.emails_sent || 0
+    actuals.prospects += row.total_leads_contacted || 0
+    actuals.replies += row.unique_replies_per_contact || 0
+    actuals.interested += row.interested || 0
+  })
+  meetingRows.forEach((row) => {
+    actualsFor(row.client).meetings += 1
+  })
+
+  const targetClients = new Set([...versions, ...overrides].map(row => row.client as string))
+
+  const clients: ClientPacing[] = []
+  let onPace = 0
+  targetClients.forEach((client) => {
+    const clientVersions = versions.filter(v => v.client === client)
+    const clientOverrides = overrides.filter(o => o.client === client)
+    const expectedTargets = targetsForRange(clientVersions, clientOverrides, start, end)
+    const monthTargets = targetsForRange(clientVersions, clientOverrides, start, monthEnd)
+    const actuals = actualsFor(client)
+    const behind = METRICS
+      .map(({ key, label }) => {
+        const expected = expectedTargets[key]
+        const pace = expected > 0 ? (actuals[key] / expected) * 100 : 100
+        return {
+          label,
+          pace,
+          actual: actuals[key],
+          expected,
+          projected: expected > 0 ? (pace / 100) * monthTargets[key] : (actuals[key] / elapsedDays) * daysInMonth,
+          monthTarget: monthTargets[key],
+        }
+      })
+      .filter(metric => 100 - metric.pace > threshold)
+
+    if (behind.length > 0) clients.push({ client, behind })
+    else if (METRICS.some(m => expectedTargets[m.key] > 0)) onPace += 1
+  })
+  clients.sort((a, b) => Math.min(...a.behind.map(m => m.pace)) - Math.min(...b.behind.map(m => m.pace)))
+
+  const lines = [
+    `*Pacing digest for ${periodLabel}* (${elapsedDays} of ${daysInMonth} days)`,
+    clients.length > 0
+      ? `${clients.length} ${clients.length === 1 ? 'client is' : 'clients are'} more than ${threshold}% behind target:`
+      : `Every client is within ${threshold}% of target.`,
+    ...clients.map(({ client, behind }) => [
+      `• *${client}*`,
+      ...behind.map(m =>
+        `    ${m.label}: ${Math.round(100 - m.pace)}% behind (${formatCount(m.actual)} of ${formatCount(m.expected)} expected), ` +
+        `projected ${formatCount(m.projected)} / ${formatCount(m.monthTarget)} for the month`
+      ),
+    ].join('\n')),
+  ]
+  if (onPace > 0) lines.push(`${onPace} ${onPace === 1 ? 'client is' : 'clients are'} on pace.`)
+
+  return { period: periodLabel, clients, onPace, text: lines.join('\n') }
+}
+
+// Only the cron job (or an operator with the service role key) may post the digest
+function isServiceRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!serviceKey || !token || token.length !== serviceKey.length) return false
+
+  // Constant-time comparison, so the key can't be guessed from response times
+  let diff = 0
+  for (let i = 0; i < token.length; i++) diff |= token.charCodeAt(i) ^ serviceKey.charCodeAt(i)
+  return diff === 0
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+  if (!isServiceRequest(req)) return json({ error: 'Unauthorized' }, 401)
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const threshold = Number(body.threshold) > 0 ? Number(body.threshold) : DEFAULT_THRESHOLD
+
+    const db = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const digest = await buildDigest(db, threshold, new Date())
+
+    if (body.dry_run) return json({ ...digest, sent: false })
+
+    // Same payload shape as iteration log notifications
+    const { data, error } = await db.functions.invoke('slack-notify', {
+      body: {
+        client: 'All clients',
+        action_type: 'Pacing Digest',
+        description: digest.text,
+        created_by: 'Pacing monitor',
+        mentioned_users: [],
+      },
+    })
+    if (error) throw error
+    if (data?.error) throw new Error(data.error)
+
+    return json({ ...digest, sent: true })
+  } catch (err) {
+    console.error('pacing-digest failed:', err)
+    return json({ error: err instanceof Error ? err.message : 'Failed to send pacing digest' }, 500)
+  }
+})
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- ADD TAGS TO ENGAGED_LEADS
+-- ============================================================================
+-- Migration: Add a tags array to engaged_leads
+-- Created: 2025-01-22
+-- Description: Contacts in Atomic CRM are engaged_leads rows. Tags let users
+--              group leads and are edited in bulk from the contact list.
+-- ============================================================================
+
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- GIN index so tag filters stay fast on large clients
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_tags
+ON engaged_leads USING GIN (tags);
+
+COMMENT ON COLUMN engaged_leads.tags IS 'Free-form contact tags managed from the CRM contact list';
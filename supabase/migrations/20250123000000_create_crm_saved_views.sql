@@ -0,0 +1,63 @@
+-- ============================================================================
+-- CRM SAVED VIEWS
+-- ============================================================================
+-- Migration: Create crm_saved_views table
+-- Created: 2025-01-23
+-- Description: Named list views (filters, filter groups, sorts, search and
+--              visible columns) saved per client. Private views are only
+--              visible to their creator; shared views are visible to every
+--              user of the same client.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS crm_saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  entity_type TEXT NOT NULL DEFAULT 'contact',
+  name TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_saved_views_client_entity
+ON crm_saved_views (client, entity_type);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE crm_saved_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can see shared and own saved views" ON crm_saved_views;
+DROP POLICY IF EXISTS "Users can insert saved views for their client" ON crm_saved_views;
+DROP POLICY IF EXISTS "Users can update their own saved views" ON crm_saved_views;
+DROP POLICY IF EXISTS "Users can delete their own saved views" ON crm_saved_views;
+
+CREATE POLICY "Users can see shared and own saved views"
+ON crm_saved_views
+FOR SELECT
+TO authenticated
+USING (
+  client = get_user_client(auth.uid())
+  AND (is_shared OR created_by = auth.uid()::text)
+);
+
+CREATE POLICY "Users can insert saved views for their client"
+ON crm_saved_views
+FOR INSERT
+TO authenticated
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can update their own saved views"
+ON crm_saved_views
+FOR UPDATE
+TO authenticated
+USING (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text)
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can delete their own saved views"
+ON crm_saved_views
+FOR DELETE
+TO authenticated
+USING (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text);
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- ENABLE REALTIME FOR CRM TABLES
+-- ============================================================================
+-- Migration: Publish CRM tables to supabase_realtime
+-- Created: 2025-01-24
+-- Description: Atomic CRM subscribes to postgres changes on contacts
+--              (engaged_leads), deals, tasks and notes so open tabs and
+--              teammates stay in sync. Existing RLS policies still decide
+--              which rows each subscriber receives.
+-- ============================================================================
+
+DO $$
+DECLARE
+  tbl TEXT;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['engaged_leads', 'crm_deals', 'crm_tasks', 'crm_notes']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = tbl
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', tbl);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- CRM NOTE ATTACHMENTS BUCKET
+-- ============================================================================
+-- Migration: Create the crm-attachments storage bucket
+-- Created: 2025-01-25
+-- Description: Private bucket for files attached to crm_notes. Objects live
+--              under "<client>/notes/<uuid>/<file name>"; the first folder
+--              must match the user's client. Size and type limits mirror
+--              utils/attachments.ts in the CRM.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'crm-attachments',
+  'crm-attachments',
+  FALSE,
+  10485760, -- 10 MB
+  ARRAY[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================
+-- STORAGE POLICIES
+-- ============================================
+DROP POLICY IF EXISTS "Users can read their client's CRM attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload CRM attachments for their client" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their client's CRM attachments" ON storage.objects;
+
+CREATE POLICY "Users can read their client's CRM attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'crm-attachments'
+  AND (storage.foldername(name))[1] = get_user_client(auth.uid())
+);
+
+CREATE POLICY "Users can upload CRM attachments for their client"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'crm-attachments'
+  AND (storage.foldername(name))[1] = get_user_client(auth.uid())
+);
+
+CREATE POLICY "Users can delete their client's CRM attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'crm-attachments'
+  AND (storage.foldername(name))[1] = get_user_client(auth.uid())
+);
@@ -0,0 +1,114 @@
+-- ============================================================================
+-- CRM TAGS
+-- ============================================================================
+-- Migration: Create crm_tags table and tag cascade function
+-- Created: 2025-01-26
+-- Description: Per-client tag registry (name + color) for contacts and deals.
+--              Records keep tag names in their own tags arrays
+--              (engaged_leads.tags, crm_deals.tags); renaming, merging and
+--              deleting a tag rewrites those arrays through crm_replace_tag.
+-- ============================================================================
+
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_crm_deals_tags
+ON crm_deals USING GIN (tags);
+
+CREATE TABLE IF NOT EXISTS crm_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  entity_type TEXT NOT NULL DEFAULT 'contact',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT crm_tags_entity_type_check CHECK (entity_type IN ('contact', 'deal'))
+);
+
+-- Tag names are unique per client and entity, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_crm_tags_client_entity_name
+ON crm_tags (client, entity_type, lower(name));
+
+COMMENT ON TABLE crm_tags IS 'Tag names and colors managed from the CRM tag manager';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE crm_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their client's tags" ON crm_tags;
+DROP POLICY IF EXISTS "Users can only insert tags for their client" ON crm_tags;
+DROP POLICY IF EXISTS "Users can only update their client's tags" ON crm_tags;
+DROP POLICY IF EXISTS "Users can only delete their client's tags" ON crm_tags;
+
+CREATE POLICY "Users can only see their client's tags"
+ON crm_tags
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only insert tags for their client"
+ON crm_tags
+FOR INSERT
+TO authenticated
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only update their client's tags"
+ON crm_tags
+FOR UPDATE
+TO authenticated
+USING (client = get_user_client(auth.uid()))
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only delete their client's tags"
+ON crm_tags
+FOR DELETE
+TO authenticated
+USING (client = get_user_client(auth.uid()));
+
+-- ============================================
+-- TAG CASCADE
+-- ============================================
+-- Replaces p_old with p_new in every record of the entity type (removes it
+-- when p_new is NULL). Duplicates created by a merge are dropped, keeping the
+-- original tag order. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION crm_replace_tag(
+  p_client TEXT,
+  p_entity_type TEXT,
+  p_old TEXT,
+  p_new TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  IF p_entity_type = 'contact' THEN
+    UPDATE engaged_leads
+    SET tags = ARRAY(
+      SELECT t
+      FROM unnest(array_replace(tags, p_old, p_new)) WITH ORDINALITY AS u(t, ord)
+      WHERE t IS NOT NULL
+      GROUP BY t
+      ORDER BY min(ord)
+    )
+    WHERE client = p_client AND p_old = ANY(tags);
+  ELSIF p_entity_type = 'deal' THEN
+    UPDATE crm_deals
+    SET tags = ARRAY(
+      SELECT t
+      FROM unnest(array_replace(tags, p_old, p_new)) WITH ORDINALITY AS u(t, ord)
+      WHERE t IS NOT NULL
+      GROUP BY t
+      ORDER BY min(ord)
+    )
+    WHERE client = p_client AND p_old = ANY(tags);
+  ELSE
+    RAISE EXCEPTION 'Unknown tag entity type: %', p_entity_type;
+  END IF;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$;
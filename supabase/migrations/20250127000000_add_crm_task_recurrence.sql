@@ -0,0 +1,32 @@
+-- ============================================================================
+-- RECURRING AND SNOOZED TASKS
+-- ============================================================================
+-- Migration: Add recurrence rules and snooze tracking to crm_tasks
+-- Created: 2025-01-27
+-- Description: A task with a recurrence rule spawns its next occurrence when
+--              it is completed; recurrence_parent_id links each occurrence to
+--              the one it came from. Snoozing moves due_date and bumps
+--              snooze_count (the CRM also logs a task_snoozed note).
+-- ============================================================================
+
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS recurrence JSONB;
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES crm_tasks(id) ON DELETE SET NULL;
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS snooze_count INTEGER NOT NULL DEFAULT 0;
+
+-- Rule shape: {"frequency": "daily" | "weekly" | "monthly", "interval": N, "weekday": 0-6}
+ALTER TABLE crm_tasks DROP CONSTRAINT IF EXISTS crm_tasks_recurrence_check;
+ALTER TABLE crm_tasks ADD CONSTRAINT crm_tasks_recurrence_check CHECK (
+  recurrence IS NULL
+  OR (
+    recurrence->>'frequency' IN ('daily', 'weekly', 'monthly')
+    AND (recurrence->>'interval')::INTEGER >= 1
+  )
+);
+
+-- Completing an occurrence checks whether its successor already exists
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_recurrence_parent
+ON crm_tasks (recurrence_parent_id)
+WHERE recurrence_parent_id IS NOT NULL;
+
+COMMENT ON COLUMN crm_tasks.recurrence IS 'Recurrence rule; completing the task creates the next occurrence';
+COMMENT ON COLUMN crm_tasks.snooze_count IS 'How many times the task has been snoozed';
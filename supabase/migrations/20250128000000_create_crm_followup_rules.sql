@@ -0,0 +1,78 @@
+-- ============================================================================
+-- CRM FOLLOW-UP RULES
+-- ============================================================================
+-- Migration: Create crm_followup_rules and link generated tasks to them
+-- Created: 2025-01-28
+-- Description: Per-client rules of the form "when a contact enters pipeline
+--              step X, create a task of type Y due in N days, assigned to the
+--              contact's assignee". The CRM evaluates them when a contact's
+--              pipeline flags change or a deal is dragged into a stage.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS crm_followup_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  trigger_stage TEXT NOT NULL,
+  task_type TEXT NOT NULL DEFAULT 'follow_up',
+  task_text TEXT NOT NULL,
+  due_in_days INTEGER NOT NULL DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT crm_followup_rules_trigger_stage_check CHECK (trigger_stage IN (
+    'meeting_booked', 'showed_up_to_disco', 'qualified', 'demo_booked',
+    'showed_up_to_demo', 'proposal_sent', 'closed'
+  )),
+  CONSTRAINT crm_followup_rules_task_type_check CHECK (task_type IN (
+    'task', 'call', 'email', 'meeting', 'follow_up', 'reminder'
+  )),
+  CONSTRAINT crm_followup_rules_due_in_days_check CHECK (due_in_days >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_followup_rules_client
+ON crm_followup_rules (client, trigger_stage);
+
+COMMENT ON TABLE crm_followup_rules IS 'Automatic follow-up task rules managed from CRM settings';
+
+-- Tasks remember the rule that created them so a rule fires once per open task
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS follow_up_rule_id UUID REFERENCES crm_followup_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_follow_up_rule
+ON crm_tasks (follow_up_rule_id)
+WHERE follow_up_rule_id IS NOT NULL;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE crm_followup_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their client's follow-up rules" ON crm_followup_rules;
+DROP POLICY IF EXISTS "Users can only insert follow-up rules for their client" ON crm_followup_rules;
+DROP POLICY IF EXISTS "Users can only update their client's follow-up rules" ON crm_followup_rules;
+DROP POLICY IF EXISTS "Users can only delete their client's follow-up rules" ON crm_followup_rules;
+
+CREATE POLICY "Users can only see their client's follow-up rules"
+ON crm_followup_rules
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only insert follow-up rules for their client"
+ON crm_followup_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only update their client's follow-up rules"
+ON crm_followup_rules
+FOR UPDATE
+TO authenticated
+USING (client = get_user_client(auth.uid()))
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only delete their client's follow-up rules"
+ON crm_followup_rules
+FOR DELETE
+TO authenticated
+USING (client = get_user_client(auth.uid()));
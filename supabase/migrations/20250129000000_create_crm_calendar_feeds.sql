@@ -0,0 +1,52 @@
+-- ============================================================================
+-- CRM CALENDAR FEEDS
+-- ============================================================================
+-- Migration: Create crm_calendar_feeds table
+-- Created: 2025-01-29
+-- Description: Secret subscribe tokens for the iCalendar (.ics) feed served by
+--              the crm-calendar-feed edge function. One feed per user and
+--              client, optionally limited to tasks and meetings assigned to a
+--              given team member. Calendar apps can't send auth headers, so
+--              the token in the URL is the credential; resetting the link
+--              deletes the row and creates a new token.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS crm_calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  assignee TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT crm_calendar_feeds_client_user_key UNIQUE (client, created_by)
+);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+-- Users only ever see their own feeds. The edge function looks tokens up
+-- with the service role.
+ALTER TABLE crm_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can see their own calendar feeds" ON crm_calendar_feeds;
+DROP POLICY IF EXISTS "Users can create their own calendar feeds" ON crm_calendar_feeds;
+DROP POLICY IF EXISTS "Users can delete their own calendar feeds" ON crm_calendar_feeds;
+
+CREATE POLICY "Users can see their own calendar feeds"
+ON crm_calendar_feeds
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text);
+
+CREATE POLICY "Users can create their own calendar feeds"
+ON crm_calendar_feeds
+FOR INSERT
+TO authenticated
+WITH CHECK (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own calendar feeds"
+ON crm_calendar_feeds
+FOR DELETE
+TO authenticated
+USING (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text);
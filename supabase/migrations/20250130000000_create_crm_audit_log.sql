@@ -0,0 +1,137 @@
+-- ============================================================================
+-- CRM AUDIT LOG
+-- ============================================================================
+-- Migration: Create crm_audit_log and audit triggers on CRM tables
+-- Created: 2025-01-30
+-- Description: Field-level change history for engaged_leads, crm_deals,
+--              crm_tasks and client_opportunities, written by triggers so
+--              every writer (CRM, portal pages, n8n syncs, SQL) is captured.
+--              Updates log one row per changed column with old/new values;
+--              inserts and deletes log a single row. The actor is the
+--              authenticated user, NULL for service-role and system writes.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS crm_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  client TEXT,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  field TEXT,
+  old_value JSONB,
+  new_value JSONB,
+  actor TEXT,
+  actor_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT crm_audit_log_action_check CHECK (action IN ('insert', 'update', 'delete'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_audit_log_record
+ON crm_audit_log (table_name, record_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_crm_audit_log_client
+ON crm_audit_log (client, changed_at DESC);
+
+COMMENT ON TABLE crm_audit_log IS 'Trigger-populated field history for CRM records, shown in the History tabs';
+
+-- ============================================
+-- AUDIT TRIGGER FUNCTION
+-- ============================================
+-- Generic over the audited tables: rows are diffed as JSONB so new columns
+-- are picked up without touching the function. Trigger arguments name
+-- columns to ignore (bookkeeping like updated_at). Runs as definer so the
+-- insert isn't blocked by the log's select-only RLS.
+CREATE OR REPLACE FUNCTION crm_audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_actor UUID := auth.uid();
+  v_actor_email TEXT;
+  v_ignored TEXT[] := COALESCE(TG_ARGV, ARRAY[]::TEXT[]);
+BEGIN
+  IF v_actor IS NOT NULL THEN
+    SELECT email INTO v_actor_email FROM auth.users WHERE id = v_actor;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_new := to_jsonb(NEW);
+    INSERT INTO crm_audit_log (client, table_name, record_id, action, actor, actor_email)
+    VALUES (v_new->>'client', TG_TABLE_NAME, v_new->>'id', 'insert', v_actor::text, v_actor_email);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_old := to_jsonb(OLD);
+    INSERT INTO crm_audit_log (client, table_name, record_id, action, old_value, actor, actor_email)
+    VALUES (v_old->>'client', TG_TABLE_NAME, v_old->>'id', 'delete', v_old, v_actor::text, v_actor_email);
+    RETURN OLD;
+  END IF;
+
+  v_old := to_jsonb(OLD);
+  v_new := to_jsonb(NEW);
+
+  INSERT INTO crm_audit_log (client, table_name, record_id, action, field, old_value, new_value, actor, actor_email)
+  SELECT
+    v_new->>'client',
+    TG_TABLE_NAME,
+    v_new->>'id',
+    'update',
+    changed.key,
+    v_old->changed.key,
+    changed.value,
+    v_actor::text,
+    v_actor_email
+  FROM jsonb_each(v_new) AS changed(key, value)
+  WHERE changed.value IS DISTINCT FROM v_old->changed.key
+    AND changed.key <> ALL (v_ignored);
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+DROP TRIGGER IF EXISTS audit_engaged_leads ON engaged_leads;
+CREATE TRIGGER audit_engaged_leads
+AFTER INSERT OR UPDATE OR DELETE ON engaged_leads
+FOR EACH ROW
+EXECUTE FUNCTION crm_audit_row_change('updated_at');
+
+-- index is the kanban position, rewritten for every card in a column on drag
+DROP TRIGGER IF EXISTS audit_crm_deals ON crm_deals;
+CREATE TRIGGER audit_crm_deals
+AFTER INSERT OR UPDATE OR DELETE ON crm_deals
+FOR EACH ROW
+EXECUTE FUNCTION crm_audit_row_change('updated_at', 'index');
+
+DROP TRIGGER IF EXISTS audit_crm_tasks ON crm_tasks;
+CREATE TRIGGER audit_crm_tasks
+AFTER INSERT OR UPDATE OR DELETE ON crm_tasks
+FOR EACH ROW
+EXECUTE FUNCTION crm_audit_row_change('updated_at');
+
+DROP TRIGGER IF EXISTS audit_client_opportunities ON client_opportunities;
+CREATE TRIGGER audit_client_opportunities
+AFTER INSERT OR UPDATE OR DELETE ON client_opportunities
+FOR EACH ROW
+EXECUTE FUNCTION crm_audit_row_change('updated_at');
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+-- Read-only for users: rows are only ever written by the trigger.
+ALTER TABLE crm_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their client's audit log" ON crm_audit_log;
+
+CREATE POLICY "Users can only see their client's audit log"
+ON crm_audit_log
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
@@ -0,0 +1,421 @@
+-- ============================================================================
+-- PERSIST LEAD PIPELINE DEALS
+-- ============================================================================
+-- Migration: Give every engaged lead a crm_deals row and sync it server-side
+-- Created: 2025-01-31
+-- Description: The CRM used to synthesize "lead_<id>" deals in the browser
+--              from engaged_leads pipeline flags and client_opportunities
+--              values, and only wrote a crm_deals row once a card was dragged.
+--              Each lead (one per email, like the board used to show) now has
+--              a persisted pipeline deal linked by contact_id, and triggers
+--              keep the two sides consistent:
+--                - pipeline flags -> deal stage when a lead moves
+--                - deal stage -> pipeline flags when the deal moves
+--                - deal amount <-> client_opportunities value by email
+--              Deletes and restores of a lead carry over to its deals.
+-- ============================================================================
+
+-- contact_id holds engaged_leads ids; the crm_contacts table it once pointed
+-- at is no longer used by the CRM
+ALTER TABLE crm_deals DROP CONSTRAINT IF EXISTS crm_deals_contact_id_fkey;
+ALTER TABLE crm_deals ALTER COLUMN contact_id TYPE TEXT USING contact_id::text;
+
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS syncs_pipeline BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN crm_deals.syncs_pipeline IS 'The lead''s pipeline deal: its stage and the lead''s pipeline flags are kept in sync';
+
+CREATE INDEX IF NOT EXISTS idx_crm_deals_contact
+ON crm_deals (contact_id)
+WHERE deleted_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_crm_deals_pipeline_contact
+ON crm_deals (contact_id)
+WHERE syncs_pipeline AND deleted_at IS NULL;
+
+-- ============================================
+-- STAGE MAPPING
+-- ============================================
+-- Furthest pipeline flag -> deal stage
+CREATE OR REPLACE FUNCTION crm_deal_stage_for_lead(p_lead engaged_leads)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_lead.closed THEN 'closed'
+    WHEN p_lead.proposal_sent THEN 'proposal'
+    WHEN p_lead.showed_up_to_demo OR p_lead.demo_booked THEN 'demo'
+    WHEN p_lead.qualified OR p_lead.showed_up_to_disco THEN 'discovery'
+    ELSE 'interested'
+  END;
+$$;
+
+-- Deal stage -> the stage its pipeline flags read back as. Negotiation has no
+-- flag of its own (it sits on the demo flags); lost has none at all.
+CREATE OR REPLACE FUNCTION crm_deal_flag_stage(p_stage TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_stage
+    WHEN 'negotiation' THEN 'demo'
+    WHEN 'lost' THEN NULL
+    ELSE p_stage
+  END;
+$$;
+
+-- Default win probability per stage (matches DEAL_STAGE_INFO in the CRM)
+CREATE OR REPLACE FUNCTION crm_deal_stage_probability(p_stage TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_stage
+    WHEN 'interested' THEN 10
+    WHEN 'discovery' THEN 25
+    WHEN 'demo' THEN 40
+    WHEN 'negotiation' THEN 60
+    WHEN 'proposal' THEN 80
+    WHEN 'closed' THEN 100
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION crm_lead_deal_name(p_lead engaged_leads)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    NULLIF(TRIM(p_lead.full_name), ''),
+    NULLIF(TRIM(CONCAT_WS(' ', p_lead.first_name, p_lead.last_name)), ''),
+    NULLIF(TRIM(p_lead.company), ''),
+    p_lead.email,
+    'Untitled Deal'
+  );
+$$;
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+-- Deals already linked to a lead (dragged lead cards, hand-made deals): the
+-- oldest one per lead becomes its pipeline deal
+UPDATE crm_deals d
+SET syncs_pipeline = TRUE
+FROM (
+  SELECT DISTINCT ON (contact_id) id
+  FROM crm_deals
+  WHERE contact_id IS NOT NULL AND deleted_at IS NULL
+  ORDER BY contact_id, created_at
+) first_deal
+WHERE d.id = first_deal.id
+  AND EXISTS (SELECT 1 FROM engaged_leads l WHERE l.id::text = d.contact_id);
+
+-- Everyone else gets a deal built the way the board used to build it: one per
+-- email (earliest lead wins), stage from the flags, amount from the opportunity
+WITH people AS (
+  SELECT DISTINCT ON (l.client, LOWER(TRIM(l.email))) l AS lead
+  FROM engaged_leads l
+  WHERE l.deleted_at IS NULL
+    AND l.email IS NOT NULL
+    AND TRIM(l.email) <> ''
+  ORDER BY l.client, LOWER(TRIM(l.email)), l.created_at
+),
+missing AS (
+  SELECT p.lead, crm_deal_stage_for_lead(p.lead) AS stage
+  FROM people p
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM crm_deals d
+    JOIN engaged_leads other ON d.contact_id = other.id::text
+    WHERE d.client = (p.lead).client
+      AND d.deleted_at IS NULL
+      AND other.deleted_at IS NULL
+      AND LOWER(TRIM(other.email)) = LOWER(TRIM((p.lead).email))
+  )
+),
+opportunities AS (
+  SELECT DISTINCT ON (client, LOWER(TRIM(contact_email)))
+    client,
+    LOWER(TRIM(contact_email)) AS email,
+    value
+  FROM client_opportunities
+  WHERE contact_email IS NOT NULL
+  ORDER BY client, LOWER(TRIM(contact_email)), id DESC
+),
+stage_offsets AS (
+  SELECT client, stage, MAX(index) AS max_index
+  FROM crm_deals
+  WHERE deleted_at IS NULL
+  GROUP BY client, stage
+)
+INSERT INTO crm_deals (
+  client, contact_id, name, description, stage, amount, currency, probability,
+  expected_close_date, actual_close_date, index, syncs_pipeline, created_at
+)
+SELECT
+  (m.lead).client,
+  (m.lead).id::text,
+  crm_lead_deal_name(m.lead),
+  COALESCE((m.lead).context, (m.lead).notes),
+  m.stage,
+  COALESCE(o.value, 0),
+  'USD',
+  crm_deal_stage_probability(m.stage),
+  (m.lead).closed_at,
+  (m.lead).closed_at,
+  COALESCE(s.max_index, -1) + ROW_NUMBER() OVER (PARTITION BY (m.lead).client, m.stage ORDER BY (m.lead).created_at),
+  TRUE,
+  COALESCE((m.lead).created_at, NOW())
+FROM missing m
+LEFT JOIN opportunities o
+  ON o.client = (m.lead).client AND o.email = LOWER(TRIM((m.lead).email))
+LEFT JOIN stage_offsets s
+  ON s.client = (m.lead).client AND s.stage = m.stage;
+
+-- ============================================
+-- LEAD -> DEAL
+-- ============================================
+-- New leads get a pipeline deal unless someone with the same email already
+-- has one (the same person enrolled from another campaign)
+CREATE OR REPLACE FUNCTION crm_create_lead_pipeline_deal(p_lead engaged_leads)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT := crm_deal_stage_for_lead(p_lead);
+  v_amount NUMERIC;
+BEGIN
+  IF p_lead.email IS NULL OR TRIM(p_lead.email) = '' THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM crm_deals d
+    JOIN engaged_leads other ON d.contact_id = other.id::text
+    WHERE d.client = p_lead.client
+      AND d.deleted_at IS NULL
+      AND other.deleted_at IS NULL
+      AND LOWER(TRIM(other.email)) = LOWER(TRIM(p_lead.email))
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT value INTO v_amount
+  FROM client_opportunities
+  WHERE client = p_lead.client
+    AND LOWER(TRIM(contact_email)) = LOWER(TRIM(p_lead.email))
+  ORDER BY id DESC
+  LIMIT 1;
+
+  INSERT INTO crm_deals (
+    client, contact_id, name, description, stage, amount, currency, probability,
+    expected_close_date, actual_close_date, index, syncs_pipeline
+  )
+  VALUES (
+    p_lead.client,
+    p_lead.id::text,
+    crm_lead_deal_name(p_lead),
+    COALESCE(p_lead.context, p_lead.notes),
+    v_stage,
+    COALESCE(v_amount, 0),
+    'USD',
+    crm_deal_stage_probability(v_stage),
+    p_lead.closed_at,
+    p_lead.closed_at,
+    (
+      SELECT COALESCE(MAX(index) + 1, 0)
+      FROM crm_deals
+      WHERE client = p_lead.client AND stage = v_stage AND deleted_at IS NULL
+    ),
+    TRUE
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION crm_sync_lead_pipeline_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.deleted_at IS NULL THEN
+      PERFORM crm_create_lead_pipeline_deal(NEW);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Deleting a lead takes its deals along; restoring brings back the same ones
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    UPDATE crm_deals
+    SET deleted_at = NEW.deleted_at
+    WHERE contact_id = NEW.id::text AND deleted_at IS NULL;
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    UPDATE crm_deals
+    SET deleted_at = NULL
+    WHERE contact_id = NEW.id::text AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  -- Flag changes written by the deal-side trigger are already in sync
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a move between stages touches the deal, so a lost or negotiation
+  -- deal keeps its stage while flags within the same stage change
+  v_stage := crm_deal_stage_for_lead(NEW);
+  IF v_stage IS DISTINCT FROM crm_deal_stage_for_lead(OLD) THEN
+    UPDATE crm_deals
+    SET
+      stage = v_stage,
+      probability = crm_deal_stage_probability(v_stage),
+      actual_close_date = CASE WHEN v_stage = 'closed' THEN NEW.closed_at ELSE actual_close_date END,
+      updated_at = NOW()
+    WHERE contact_id = NEW.id::text
+      AND syncs_pipeline
+      AND deleted_at IS NULL
+      AND crm_deal_flag_stage(stage) IS DISTINCT FROM v_stage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_lead_pipeline_deal ON engaged_leads;
+CREATE TRIGGER sync_lead_pipeline_deal
+AFTER INSERT OR UPDATE ON engaged_leads
+FOR EACH ROW
+EXECUTE FUNCTION crm_sync_lead_pipeline_deal();
+
+-- ============================================
+-- DEAL -> LEAD / OPPORTUNITY
+-- ============================================
+-- Moving a pipeline deal sets the lead's flags cumulatively up to the new
+-- stage (keeping the first time each step was reached) and clears the ones
+-- past it. Amount changes are mirrored to the lead's client_opportunities
+-- row, which the portal's pipeline page reads.
+CREATE OR REPLACE FUNCTION crm_sync_deal_pipeline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT := crm_deal_flag_stage(NEW.stage);
+  v_rank INTEGER;
+  v_email TEXT;
+  v_name TEXT;
+BEGIN
+  -- Changes written by the lead or opportunity triggers are already in sync
+  IF pg_trigger_depth() > 1 OR NOT NEW.syncs_pipeline OR NEW.contact_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS DISTINCT FROM OLD.stage AND v_stage IS NOT NULL THEN
+    v_rank := array_position(ARRAY['interested', 'discovery', 'demo', 'proposal', 'closed'], v_stage);
+    UPDATE engaged_leads
+    SET
+      meeting_booked = TRUE,
+      meeting_booked_at = COALESCE(meeting_booked_at, NOW()),
+      showed_up_to_disco = v_rank >= 2,
+      showed_up_to_disco_at = CASE WHEN v_rank >= 2 THEN COALESCE(showed_up_to_disco_at, NOW()) END,
+      qualified = v_rank >= 2,
+      qualified_at = CASE WHEN v_rank >= 2 THEN COALESCE(qualified_at, NOW()) END,
+      demo_booked = v_rank >= 3,
+      demo_booked_at = CASE WHEN v_rank >= 3 THEN COALESCE(demo_booked_at, NOW()) END,
+      showed_up_to_demo = v_rank >= 3,
+      showed_up_to_demo_at = CASE WHEN v_rank >= 3 THEN COALESCE(showed_up_to_demo_at, NOW()) END,
+      proposal_sent = v_rank >= 4,
+      proposal_sent_at = CASE WHEN v_rank >= 4 THEN COALESCE(proposal_sent_at, NOW()) END,
+      closed = v_rank >= 5,
+      closed_at = CASE WHEN v_rank >= 5 THEN COALESCE(closed_at, NOW()) END,
+      updated_at = NOW()
+    WHERE client = NEW.client
+      AND id::text = NEW.contact_id
+      -- Flags that already read as this stage are left alone
+      AND crm_deal_stage_for_lead(engaged_leads.*) IS DISTINCT FROM v_stage;
+  END IF;
+
+  IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    SELECT LOWER(TRIM(email)), crm_lead_deal_name(engaged_leads.*)
+    INTO v_email, v_name
+    FROM engaged_leads
+    WHERE client = NEW.client AND id::text = NEW.contact_id;
+
+    IF v_email IS NOT NULL THEN
+      UPDATE client_opportunities
+      SET value = COALESCE(NEW.amount, 0)
+      WHERE client = NEW.client AND LOWER(TRIM(contact_email)) = v_email;
+
+      IF NOT FOUND AND COALESCE(NEW.amount, 0) > 0 THEN
+        INSERT INTO client_opportunities (client, opportunity_name, stage, value, contact_name, contact_email)
+        VALUES (
+          NEW.client,
+          NEW.name,
+          -- The portal groups opportunities by its own stage names
+          CASE v_stage
+            WHEN 'discovery' THEN 'Qualified'
+            WHEN 'demo' THEN 'Showed Up to Demo'
+            WHEN 'proposal' THEN 'Proposal Sent'
+            WHEN 'closed' THEN 'Closed'
+            ELSE 'Meeting Booked'
+          END,
+          NEW.amount,
+          v_name,
+          v_email
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_deal_pipeline ON crm_deals;
+CREATE TRIGGER sync_deal_pipeline
+AFTER UPDATE OF stage, amount ON crm_deals
+FOR EACH ROW
+EXECUTE FUNCTION crm_sync_deal_pipeline();
+
+-- ============================================
+-- OPPORTUNITY -> DEAL
+-- ============================================
+-- Values set from the portal's pipeline page flow back to the pipeline deal
+CREATE OR REPLACE FUNCTION crm_sync_opportunity_deal_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.contact_email IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE crm_deals d
+  SET amount = COALESCE(NEW.value, 0), updated_at = NOW()
+  FROM engaged_leads l
+  WHERE d.contact_id = l.id::text
+    AND d.syncs_pipeline
+    AND d.deleted_at IS NULL
+    AND l.client = NEW.client
+    AND LOWER(TRIM(l.email)) = LOWER(TRIM(NEW.contact_email))
+    AND d.amount IS DISTINCT FROM COALESCE(NEW.value, 0);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_opportunity_deal_amount ON client_opportunities;
+CREATE TRIGGER sync_opportunity_deal_amount
+AFTER INSERT OR UPDATE OF value ON client_opportunities
+FOR EACH ROW
+EXECUTE FUNCTION crm_sync_opportunity_deal_amount();
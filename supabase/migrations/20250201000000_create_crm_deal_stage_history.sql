@@ -0,0 +1,130 @@
+-- ============================================================================
+-- CRM DEAL STAGE HISTORY
+-- ============================================================================
+-- Migration: Record every deal stage transition
+-- Created: 2025-02-01
+-- Description: crm_deals only holds the current stage, so time spent in each
+--              stage was lost on every move. A trigger now appends a row to
+--              crm_deal_stage_history whenever a deal is created or changes
+--              stage - from the board, the deal panel, or the pipeline sync
+--              triggers - which feeds the deal analytics view and the stage
+--              timeline in the deal panel. Existing deals are backfilled from
+--              the stage changes already in crm_audit_log.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS crm_deal_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT,
+  deal_id UUID NOT NULL REFERENCES crm_deals(id) ON DELETE CASCADE,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  changed_by TEXT
+);
+
+-- The table predates client scoping
+ALTER TABLE crm_deal_stage_history ADD COLUMN IF NOT EXISTS client TEXT;
+
+UPDATE crm_deal_stage_history h
+SET client = d.client
+FROM crm_deals d
+WHERE h.deal_id = d.id AND h.client IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crm_deal_stage_history_deal
+ON crm_deal_stage_history (deal_id, changed_at);
+
+CREATE INDEX IF NOT EXISTS idx_crm_deal_stage_history_client
+ON crm_deal_stage_history (client, changed_at);
+
+COMMENT ON TABLE crm_deal_stage_history IS 'Trigger-populated deal stage transitions; from_stage is NULL for the stage a deal was created in';
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+-- Stage moves the audit log has seen since it was turned on
+INSERT INTO crm_deal_stage_history (client, deal_id, from_stage, to_stage, changed_at, changed_by)
+SELECT
+  a.client,
+  d.id,
+  a.old_value #>> '{}',
+  a.new_value #>> '{}',
+  a.changed_at,
+  a.actor
+FROM crm_audit_log a
+JOIN crm_deals d ON d.id::text = a.record_id
+WHERE a.table_name = 'crm_deals'
+  AND a.action = 'update'
+  AND a.field = 'stage'
+  AND NOT EXISTS (SELECT 1 FROM crm_deal_stage_history h WHERE h.deal_id = d.id);
+
+-- Opening entry: the stage each deal was created in, which is the first
+-- logged move's from-stage, or the current stage if it never moved
+INSERT INTO crm_deal_stage_history (client, deal_id, from_stage, to_stage, changed_at, changed_by)
+SELECT
+  d.client,
+  d.id,
+  NULL,
+  COALESCE(first_move.from_stage, d.stage),
+  COALESCE(d.created_at, NOW()),
+  d.created_by
+FROM crm_deals d
+LEFT JOIN LATERAL (
+  SELECT h.from_stage
+  FROM crm_deal_stage_history h
+  WHERE h.deal_id = d.id
+  ORDER BY h.changed_at
+  LIMIT 1
+) first_move ON TRUE
+WHERE d.stage IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM crm_deal_stage_history h
+    WHERE h.deal_id = d.id AND h.from_stage IS NULL
+  );
+
+-- ============================================
+-- STAGE TRIGGER
+-- ============================================
+-- Runs as definer so the insert isn't blocked by the history's select-only RLS
+CREATE OR REPLACE FUNCTION crm_record_deal_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO crm_deal_stage_history (client, deal_id, from_stage, to_stage, changed_by)
+  VALUES (
+    NEW.client,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage END,
+    NEW.stage,
+    COALESCE(auth.uid()::text, CASE WHEN TG_OP = 'INSERT' THEN NEW.created_by END)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_deal_stage_change ON crm_deals;
+CREATE TRIGGER record_deal_stage_change
+AFTER INSERT OR UPDATE OF stage ON crm_deals
+FOR EACH ROW
+EXECUTE FUNCTION crm_record_deal_stage_change();
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+-- Read-only for users: rows are only ever written by the trigger.
+ALTER TABLE crm_deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their client's deal stage history" ON crm_deal_stage_history;
+
+CREATE POLICY "Users can only see their client's deal stage history"
+ON crm_deal_stage_history
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
@@ -0,0 +1,235 @@
+-- ============================================================================
+-- CRM PIPELINE STAGES
+-- ============================================================================
+-- Migration: Create crm_pipeline_stages for per-client deal pipelines
+-- Created: 2025-02-02
+-- Description: Deal stages were a fixed list (Interested ... Lost) in the CRM
+--              code. Each client can now define its own ordered stages with a
+--              label, color, default win probability and outcome (open, won
+--              or lost). crm_deals.stage holds the stage key. Clients with no
+--              rows keep the built-in pipeline, whose keys are the ones the
+--              lead pipeline sync writes; the sync triggers now leave a deal
+--              alone rather than move it into a stage its client removed, and
+--              use the client's probabilities.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS crm_pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#60a5fa',
+  bg_color TEXT NOT NULL DEFAULT '#1e3a5f',
+  probability INTEGER NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  outcome TEXT NOT NULL DEFAULT 'open',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT crm_pipeline_stages_client_key_unique UNIQUE (client, key),
+  CONSTRAINT crm_pipeline_stages_outcome_check CHECK (outcome IN ('open', 'won', 'lost')),
+  CONSTRAINT crm_pipeline_stages_probability_check CHECK (probability >= 0 AND probability <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_pipeline_stages_client
+ON crm_pipeline_stages (client, position);
+
+COMMENT ON TABLE crm_pipeline_stages IS 'Per-client deal pipeline stages managed from CRM settings; none means the built-in pipeline';
+
+-- ============================================
+-- STAGE LOOKUPS
+-- ============================================
+-- The stage to sync a lead's deal to, or NULL when the client's pipeline
+-- doesn't have it
+CREATE OR REPLACE FUNCTION crm_client_stage_key(p_client TEXT, p_stage TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN NOT EXISTS (SELECT 1 FROM crm_pipeline_stages WHERE client = p_client) THEN p_stage
+    WHEN EXISTS (SELECT 1 FROM crm_pipeline_stages WHERE client = p_client AND key = p_stage) THEN p_stage
+  END;
+$$;
+
+-- The client's default probability for a stage, falling back to the built-in one
+CREATE OR REPLACE FUNCTION crm_client_stage_probability(p_client TEXT, p_stage TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT probability FROM crm_pipeline_stages WHERE client = p_client AND key = p_stage),
+    crm_deal_stage_probability(p_stage)
+  );
+$$;
+
+-- Only the built-in stages carry pipeline flags; custom stages leave them as they are
+CREATE OR REPLACE FUNCTION crm_deal_flag_stage(p_stage TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_stage = 'negotiation' THEN 'demo'
+    WHEN p_stage IN ('interested', 'discovery', 'demo', 'proposal', 'closed') THEN p_stage
+  END;
+$$;
+
+-- ============================================
+-- LEAD -> DEAL (client-aware)
+-- ============================================
+-- New leads open in the synced stage, or the client's first open stage when
+-- its pipeline doesn't have that one
+CREATE OR REPLACE FUNCTION crm_create_lead_pipeline_deal(p_lead engaged_leads)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT := crm_client_stage_key(p_lead.client, crm_deal_stage_for_lead(p_lead));
+  v_amount NUMERIC;
+BEGIN
+  IF p_lead.email IS NULL OR TRIM(p_lead.email) = '' THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM crm_deals d
+    JOIN engaged_leads other ON d.contact_id = other.id::text
+    WHERE d.client = p_lead.client
+      AND d.deleted_at IS NULL
+      AND other.deleted_at IS NULL
+      AND LOWER(TRIM(other.email)) = LOWER(TRIM(p_lead.email))
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF v_stage IS NULL THEN
+    SELECT key INTO v_stage
+    FROM crm_pipeline_stages
+    WHERE client = p_lead.client AND outcome = 'open'
+    ORDER BY position
+    LIMIT 1;
+  END IF;
+
+  SELECT value INTO v_amount
+  FROM client_opportunities
+  WHERE client = p_lead.client
+    AND LOWER(TRIM(contact_email)) = LOWER(TRIM(p_lead.email))
+  ORDER BY id DESC
+  LIMIT 1;
+
+  INSERT INTO crm_deals (
+    client, contact_id, name, description, stage, amount, currency, probability,
+    expected_close_date, actual_close_date, index, syncs_pipeline
+  )
+  VALUES (
+    p_lead.client,
+    p_lead.id::text,
+    crm_lead_deal_name(p_lead),
+    COALESCE(p_lead.context, p_lead.notes),
+    COALESCE(v_stage, 'interested'),
+    COALESCE(v_amount, 0),
+    'USD',
+    crm_client_stage_probability(p_lead.client, COALESCE(v_stage, 'interested')),
+    p_lead.closed_at,
+    p_lead.closed_at,
+    (
+      SELECT COALESCE(MAX(index) + 1, 0)
+      FROM crm_deals
+      WHERE client = p_lead.client AND stage = COALESCE(v_stage, 'interested') AND deleted_at IS NULL
+    ),
+    TRUE
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION crm_sync_lead_pipeline_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.deleted_at IS NULL THEN
+      PERFORM crm_create_lead_pipeline_deal(NEW);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Deleting a lead takes its deals along; restoring brings back the same ones
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    UPDATE crm_deals
+    SET deleted_at = NEW.deleted_at
+    WHERE contact_id = NEW.id::text AND deleted_at IS NULL;
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    UPDATE crm_deals
+    SET deleted_at = NULL
+    WHERE contact_id = NEW.id::text AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  -- Flag changes written by the deal-side trigger are already in sync
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a move between stages touches the deal, so a lost or negotiation
+  -- deal keeps its stage while flags within the same stage change
+  v_stage := crm_deal_stage_for_lead(NEW);
+  IF v_stage IS DISTINCT FROM crm_deal_stage_for_lead(OLD)
+    AND crm_client_stage_key(NEW.client, v_stage) IS NOT NULL THEN
+    UPDATE crm_deals
+    SET
+      stage = v_stage,
+      probability = crm_client_stage_probability(NEW.client, v_stage),
+      actual_close_date = CASE WHEN v_stage = 'closed' THEN NEW.closed_at ELSE actual_close_date END,
+      updated_at = NOW()
+    WHERE contact_id = NEW.id::text
+      AND syncs_pipeline
+      AND deleted_at IS NULL
+      AND crm_deal_flag_stage(stage) IS DISTINCT FROM v_stage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE crm_pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their client's pipeline stages" ON crm_pipeline_stages;
+DROP POLICY IF EXISTS "Users can only insert pipeline stages for their client" ON crm_pipeline_stages;
+DROP POLICY IF EXISTS "Users can only update their client's pipeline stages" ON crm_pipeline_stages;
+DROP POLICY IF EXISTS "Users can only delete their client's pipeline stages" ON crm_pipeline_stages;
+
+CREATE POLICY "Users can only see their client's pipeline stages"
+ON crm_pipeline_stages
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only insert pipeline stages for their client"
+ON crm_pipeline_stages
+FOR INSERT
+TO authenticated
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only update their client's pipeline stages"
+ON crm_pipeline_stages
+FOR UPDATE
+TO authenticated
+USING (client = get_user_client(auth.uid()))
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only delete their client's pipeline stages"
+ON crm_pipeline_stages
+FOR DELETE
+TO authenticated
+USING (client = get_user_client(auth.uid()));
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- FUNNEL FORECAST RECONCILIATION
+-- ============================================================================
+-- Migration: Track computed actuals and manual overrides on funnel_forecasts
+-- Created: 2025-02-03
+-- Description: The actual column used to be typed in by hand. Reconciling a
+--              month now computes each metric from campaign_reporting,
+--              replies, meetings_booked and engaged_leads and fills actual
+--              (plus a run-rate projected value). computed_actual keeps the
+--              last computed value so a typed actual that disagrees shows up
+--              as a diff, and actual_override marks a typed value someone
+--              chose to keep, which later reconciliations leave alone.
+-- ============================================================================
+
+ALTER TABLE funnel_forecasts
+  ADD COLUMN IF NOT EXISTS computed_actual NUMERIC,
+  ADD COLUMN IF NOT EXISTS actual_override BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN funnel_forecasts.computed_actual IS 'Actual computed from live data at the last reconciliation';
+COMMENT ON COLUMN funnel_forecasts.actual_override IS 'The typed actual intentionally differs from computed_actual; reconciliation keeps it';
+COMMENT ON COLUMN funnel_forecasts.reconciled_at IS 'When computed_actual was last refreshed';
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- PACING DIGEST SCHEDULE
+-- ============================================================================
+-- Migration: Run the pacing-digest edge function every morning
+-- Created: 2025-02-04
+-- Description: Posts the month-to-date pacing digest (clients more than 20%
+--              behind their prorated client_targets) to Slack at 13:00 UTC
+--              (8am Eastern), after the overnight reporting sync. Needs the
+--              pg_cron and pg_net extensions and the project URL and service
+--              role key in the app.settings.supabase_url and
+--              app.settings.service_role_key database settings.
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Re-running the migration replaces the job instead of adding a second one
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'pacing-digest-daily';
+
+SELECT cron.schedule(
+  'pacing-digest-daily',
+  '0 13 * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url') || '/functions/v1/pacing-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
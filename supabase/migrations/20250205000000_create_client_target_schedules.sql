@@ -0,0 +1,114 @@
+-- ============================================================================
+-- CLIENT TARGET SCHEDULES
+-- ============================================================================
+-- Migration: Version client targets with effective dates and seasonality
+-- Created: 2025-02-05
+-- Description: client_targets holds one row per client, so saving new targets
+--              rewrote history and past months were judged against today's
+--              goals. Targets are now versions in client_target_schedules,
+--              each in force from its effective_from date until the next one
+--              starts. The per-day values are weekday targets; weekend_weight
+--              scales them on Saturdays and Sundays (0 = no weekend activity).
+--              client_target_month_overrides replaces the per-day values for
+--              a single month, e.g. a slow December. Existing client_targets
+--              rows become each client's first version; their history before
+--              this migration is unknown, so it covers every earlier day.
+--              client_targets keeps bounces_per_day and
+--              monthly_contract_value; its other per-day columns are no
+--              longer read.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS client_target_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  effective_from DATE NOT NULL,
+  emails_per_day NUMERIC,
+  prospects_per_day NUMERIC,
+  replies_per_day NUMERIC,
+  interested_per_day NUMERIC,
+  meetings_per_day NUMERIC,
+  weekend_weight NUMERIC NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT client_target_schedules_client_effective_unique UNIQUE (client, effective_from),
+  CONSTRAINT client_target_schedules_weekend_weight_check CHECK (weekend_weight >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_target_schedules_client
+ON client_target_schedules (client, effective_from);
+
+COMMENT ON TABLE client_target_schedules IS 'Versioned daily targets per client; a version is in force from effective_from until the next one';
+COMMENT ON COLUMN client_target_schedules.weekend_weight IS 'Share of the weekday target expected on Saturdays and Sundays';
+
+CREATE TABLE IF NOT EXISTS client_target_month_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client TEXT NOT NULL,
+  month INTEGER NOT NULL,
+  year INTEGER NOT NULL,
+  emails_per_day NUMERIC,
+  prospects_per_day NUMERIC,
+  replies_per_day NUMERIC,
+  interested_per_day NUMERIC,
+  meetings_per_day NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT client_target_month_overrides_client_month_unique UNIQUE (client, year, month),
+  CONSTRAINT client_target_month_overrides_month_check CHECK (month BETWEEN 1 AND 12)
+);
+
+COMMENT ON TABLE client_target_month_overrides IS 'Per-day targets for one month that replace the scheduled values; NULL keeps the scheduled value';
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+INSERT INTO client_target_schedules (
+  client, effective_from, emails_per_day, prospects_per_day, replies_per_day,
+  interested_per_day, meetings_per_day
+)
+SELECT
+  client,
+  DATE '2000-01-01',
+  emails_per_day,
+  prospects_per_day,
+  replies_per_day,
+  interested_per_day,
+  meetings_per_day
+FROM client_targets
+ON CONFLICT (client, effective_from) DO NOTHING;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE client_target_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_target_month_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only see their client's target schedules" ON client_target_schedules;
+DROP POLICY IF EXISTS "Users can only manage their client's target schedules" ON client_target_schedules;
+DROP POLICY IF EXISTS "Users can only see their client's target overrides" ON client_target_month_overrides;
+DROP POLICY IF EXISTS "Users can only manage their client's target overrides" ON client_target_month_overrides;
+
+CREATE POLICY "Users can only see their client's target schedules"
+ON client_target_schedules
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only manage their client's target schedules"
+ON client_target_schedules
+FOR ALL
+TO authenticated
+USING (client = get_user_client(auth.uid()))
+WITH CHECK (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only see their client's target overrides"
+ON client_target_month_overrides
+FOR SELECT
+TO authenticated
+USING (client = get_user_client(auth.uid()));
+
+CREATE POLICY "Users can only manage their client's target overrides"
+ON client_target_month_overrides
+FOR ALL
+TO authenticated
+USING (client = get_user_client(auth.uid()))
+WITH CHECK (client = get_user_client(auth.uid()));
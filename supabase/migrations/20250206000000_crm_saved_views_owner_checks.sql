@@ -0,0 +1,27 @@
+-- ============================================================================
+-- CRM SAVED VIEWS OWNER CHECKS
+-- ============================================================================
+-- Migration: Tie new and updated saved views to the current user
+-- Created: 2025-02-06
+-- Description: The INSERT policy on crm_saved_views only checked the client,
+--              so a user could create a view under another user's created_by
+--              and then edit or delete it through that owner's rights. Inserts
+--              now require created_by to be the caller, and updates keep it
+--              that way so the owner can't be changed.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can insert saved views for their client" ON crm_saved_views;
+DROP POLICY IF EXISTS "Users can update their own saved views" ON crm_saved_views;
+
+CREATE POLICY "Users can insert saved views for their client"
+ON crm_saved_views
+FOR INSERT
+TO authenticated
+WITH CHECK (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text);
+
+CREATE POLICY "Users can update their own saved views"
+ON crm_saved_views
+FOR UPDATE
+TO authenticated
+USING (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text)
+WITH CHECK (client = get_user_client(auth.uid()) AND created_by = auth.uid()::text);
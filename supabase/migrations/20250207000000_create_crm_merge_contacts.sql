@@ -0,0 +1,191 @@
+-- ============================================================================
+-- CRM MERGE CONTACTS
+-- ============================================================================
+-- Migration: Merge duplicate leads in a single transaction
+-- Created: 2025-02-07
+-- Description: The CRM merged duplicates with a series of separate requests
+--              (update the primary, move tasks/notes/deals, delete the
+--              duplicates), so a failure part way left the primary overwritten
+--              and the related records split between leads. crm_merge_contacts
+--              does it all in one call and returns what it changed, which
+--              crm_unmerge_contacts takes to undo the merge.
+--              A lead has at most one live pipeline deal
+--              (idx_crm_deals_pipeline_contact), so the duplicates' pipeline
+--              deals stop syncing before they move to the primary; one of them
+--              only takes over when the primary has none.
+-- ============================================================================
+
+-- Writes the given columns of one lead from a JSON object. Keys that aren't
+-- engaged_leads columns raise an error; the row's identity and lifecycle
+-- columns are never written.
+CREATE OR REPLACE FUNCTION crm_set_lead_fields(p_lead_id TEXT, p_fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_columns TEXT;
+BEGIN
+  SELECT string_agg(format('%I = f.%I', key, key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_fields) AS key
+  WHERE key NOT IN ('id', 'client', 'created_at', 'updated_at', 'deleted_at');
+
+  IF v_columns IS NULL THEN
+    RETURN;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE engaged_leads l SET %s, updated_at = NOW() '
+    'FROM jsonb_populate_record(NULL::engaged_leads, $1) f '
+    'WHERE l.id::text = $2',
+    v_columns
+  )
+  USING p_fields, p_lead_id;
+END;
+$$;
+
+-- Folds the duplicates into the primary: the duplicates' tasks, notes and
+-- deals move over, p_fields lands on the primary and the duplicates are
+-- soft-deleted. Returns the merged duplicate ids, the primary's previous
+-- values of the written fields and where each moved record came from (with
+-- the deal's syncs_pipeline flag before the merge).
+CREATE OR REPLACE FUNCTION crm_merge_contacts(
+  p_primary_id TEXT,
+  p_duplicate_ids TEXT[],
+  p_fields JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_primary engaged_leads;
+  v_duplicate_ids TEXT[];
+  v_previous JSONB;
+  v_moved JSONB;
+  v_pipeline_deal TEXT;
+BEGIN
+  SELECT * INTO v_primary
+  FROM engaged_leads
+  WHERE id::text = p_primary_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead % not found', p_primary_id;
+  END IF;
+
+  -- Only live leads of the primary's client are merged
+  SELECT array_agg(id::text)
+  INTO v_duplicate_ids
+  FROM engaged_leads
+  WHERE id::text = ANY(p_duplicate_ids)
+    AND id::text <> p_primary_id
+    AND client = v_primary.client
+    AND deleted_at IS NULL;
+
+  IF v_duplicate_ids IS NULL THEN
+    RAISE EXCEPTION 'No duplicates of lead % to merge', p_primary_id;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, to_jsonb(v_primary) -> key), '{}'::jsonb)
+  INTO v_previous
+  FROM jsonb_object_keys(p_fields) AS key;
+
+  SELECT COALESCE(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'table', moved.table_name,
+    'id', moved.id,
+    'contact_id', moved.contact_id,
+    'syncs_pipeline', moved.syncs_pipeline
+  ))), '[]'::jsonb)
+  INTO v_moved
+  FROM (
+    SELECT 'crm_tasks' AS table_name, id::text AS id, contact_id, NULL::boolean AS syncs_pipeline
+    FROM crm_tasks
+    WHERE contact_id = ANY(v_duplicate_ids)
+    UNION ALL
+    SELECT 'crm_notes', id::text, contact_id, NULL
+    FROM crm_notes
+    WHERE contact_id = ANY(v_duplicate_ids)
+    UNION ALL
+    SELECT 'crm_deals', id::text, contact_id, syncs_pipeline
+    FROM crm_deals
+    WHERE contact_id = ANY(v_duplicate_ids)
+  ) moved;
+
+  -- The primary keeps its own pipeline deal; without one, the oldest of the
+  -- duplicates' takes over. Every other one becomes a plain deal.
+  IF NOT EXISTS (
+    SELECT 1
+    FROM crm_deals
+    WHERE contact_id = p_primary_id AND syncs_pipeline AND deleted_at IS NULL
+  ) THEN
+    SELECT id::text INTO v_pipeline_deal
+    FROM crm_deals
+    WHERE contact_id = ANY(v_duplicate_ids) AND syncs_pipeline AND deleted_at IS NULL
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  UPDATE crm_deals
+  SET syncs_pipeline = FALSE, updated_at = NOW()
+  WHERE contact_id = ANY(v_duplicate_ids)
+    AND syncs_pipeline
+    AND deleted_at IS NULL
+    AND id::text IS DISTINCT FROM v_pipeline_deal;
+
+  -- Move related records before the duplicates are deleted, so the delete
+  -- doesn't take their deals along
+  UPDATE crm_tasks SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+  UPDATE crm_notes SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+  UPDATE crm_deals SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+
+  -- After the move, so a pipeline deal that took over follows the merged flags
+  PERFORM crm_set_lead_fields(p_primary_id, p_fields);
+
+  UPDATE engaged_leads
+  SET deleted_at = NOW()
+  WHERE id::text = ANY(v_duplicate_ids);
+
+  RETURN jsonb_build_object(
+    'duplicate_ids', to_jsonb(v_duplicate_ids),
+    'previous', v_previous,
+    'moved', v_moved
+  );
+END;
+$$;
+
+-- Reverses crm_merge_contacts given its result: the duplicates are restored,
+-- the moved records go back to them (deals with their pipeline flag) and the
+-- primary gets its old values.
+-- Records moved on to another lead since the merge are left where they are.
+CREATE OR REPLACE FUNCTION crm_unmerge_contacts(p_primary_id TEXT, p_merge JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_duplicate_ids TEXT[] := ARRAY(SELECT jsonb_array_elements_text(p_merge -> 'duplicate_ids'));
+BEGIN
+  UPDATE engaged_leads
+  SET deleted_at = NULL
+  WHERE id::text = ANY(v_duplicate_ids) AND deleted_at IS NOT NULL;
+
+  UPDATE crm_tasks t
+  SET contact_id = m.contact_id
+  FROM jsonb_to_recordset(p_merge -> 'moved') AS m("table" TEXT, id TEXT, contact_id TEXT)
+  WHERE m."table" = 'crm_tasks' AND t.id::text = m.id AND t.contact_id = p_primary_id;
+
+  UPDATE crm_notes n
+  SET contact_id = m.contact_id
+  FROM jsonb_to_recordset(p_merge -> 'moved') AS m("table" TEXT, id TEXT, contact_id TEXT)
+  WHERE m."table" = 'crm_notes' AND n.id::text = m.id AND n.contact_id = p_primary_id;
+
+  UPDATE crm_deals d
+  SET contact_id = m.contact_id, syncs_pipeline = COALESCE(m.syncs_pipeline, d.syncs_pipeline)
+  FROM jsonb_to_recordset(p_merge -> 'moved') AS m("table" TEXT, id TEXT, contact_id TEXT, syncs_pipeline BOOLEAN)
+  WHERE m."table" = 'crm_deals' AND d.id::text = m.id AND d.contact_id = p_primary_id;
+
+  PERFORM crm_set_lead_fields(p_primary_id, COALESCE(p_merge -> 'previous', '{}'::jsonb));
+END;
+$$;
@@ -0,0 +1,191 @@
+-- ============================================================================
+-- CRM CUSTOM STAGE FLAGS
+-- ============================================================================
+-- Migration: Sync pipeline flags for deals in a client's custom stages
+-- Created: 2025-02-08
+-- Description: crm_deal_flag_stage only knows the built-in stage keys, so a
+--              pipeline deal moved into a custom stage never updated its
+--              lead's flags. The sync triggers now map stages through the
+--              client's pipeline by outcome: won stages read as closed, lost
+--              stages leave the flags alone, and open stages read as the
+--              nearest built-in stage at or before them in the client's order.
+-- ============================================================================
+
+-- ============================================
+-- STAGE LOOKUPS
+-- ============================================
+-- Deal stage -> the stage its pipeline flags read as, for this client's
+-- pipeline (the built-in mapping when the client has none). Open custom stages
+-- with no built-in stage before them read as interested.
+CREATE OR REPLACE FUNCTION crm_client_flag_stage(p_client TEXT, p_stage TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_stage crm_pipeline_stages;
+BEGIN
+  SELECT * INTO v_stage
+  FROM crm_pipeline_stages
+  WHERE client = p_client AND key = p_stage;
+
+  IF NOT FOUND THEN
+    RETURN crm_deal_flag_stage(p_stage);
+  ELSIF v_stage.outcome = 'won' THEN
+    RETURN 'closed';
+  ELSIF v_stage.outcome = 'lost' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN COALESCE(
+    (
+      SELECT crm_deal_flag_stage(key)
+      FROM crm_pipeline_stages
+      WHERE client = p_client
+        AND position <= v_stage.position
+        AND outcome = 'open'
+        AND crm_deal_flag_stage(key) IS NOT NULL
+      ORDER BY position DESC
+      LIMIT 1
+    ),
+    'interested'
+  );
+END;
+$$;
+
+-- ============================================
+-- LEAD -> DEAL
+-- ============================================
+CREATE OR REPLACE FUNCTION crm_sync_lead_pipeline_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.deleted_at IS NULL THEN
+      PERFORM crm_create_lead_pipeline_deal(NEW);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Deleting a lead takes its deals along; restoring brings back the same ones
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    UPDATE crm_deals
+    SET deleted_at = NEW.deleted_at
+    WHERE contact_id = NEW.id::text AND deleted_at IS NULL;
+  ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+    UPDATE crm_deals
+    SET deleted_at = NULL
+    WHERE contact_id = NEW.id::text AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  -- Flag changes written by the deal-side trigger are already in sync
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a move between stages touches the deal, so a lost or negotiation
+  -- deal keeps its stage while flags within the same stage change
+  v_stage := crm_deal_stage_for_lead(NEW);
+  IF v_stage IS DISTINCT FROM crm_deal_stage_for_lead(OLD)
+    AND crm_client_stage_key(NEW.client, v_stage) IS NOT NULL THEN
+    UPDATE crm_deals
+    SET
+      stage = v_stage,
+      probability = crm_client_stage_probability(NEW.client, v_stage),
+      actual_close_date = CASE WHEN v_stage = 'closed' THEN NEW.closed_at ELSE actual_close_date END,
+      updated_at = NOW()
+    WHERE contact_id = NEW.id::text
+      AND syncs_pipeline
+      AND deleted_at IS NULL
+      AND crm_client_flag_stage(NEW.client, stage) IS DISTINCT FROM v_stage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- DEAL -> LEAD / OPPORTUNITY
+-- ============================================
+CREATE OR REPLACE FUNCTION crm_sync_deal_pipeline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT := crm_client_flag_stage(NEW.client, NEW.stage);
+  v_rank INTEGER;
+  v_email TEXT;
+  v_name TEXT;
+BEGIN
+  -- Changes written by the lead or opportunity triggers are already in sync
+  IF pg_trigger_depth() > 1 OR NOT NEW.syncs_pipeline OR NEW.contact_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS DISTINCT FROM OLD.stage AND v_stage IS NOT NULL THEN
+    v_rank := array_position(ARRAY['interested', 'discovery', 'demo', 'proposal', 'closed'], v_stage);
+    UPDATE engaged_leads
+    SET
+      meeting_booked = TRUE,
+      meeting_booked_at = COALESCE(meeting_booked_at, NOW()),
+      showed_up_to_disco = v_rank >= 2,
+      showed_up_to_disco_at = CASE WHEN v_rank >= 2 THEN COALESCE(showed_up_to_disco_at, NOW()) END,
+      qualified = v_rank >= 2,
+      qualified_at = CASE WHEN v_rank >= 2 THEN COALESCE(qualified_at, NOW()) END,
+      demo_booked = v_rank >= 3,
+      demo_booked_at = CASE WHEN v_rank >= 3 THEN COALESCE(demo_booked_at, NOW()) END,
+      showed_up_to_demo = v_rank >= 3,
+      showed_up_to_demo_at = CASE WHEN v_rank >= 3 THEN COALESCE(showed_up_to_demo_at, NOW()) END,
+      proposal_sent = v_rank >= 4,
+      proposal_sent_at = CASE WHEN v_rank >= 4 THEN COALESCE(proposal_sent_at, NOW()) END,
+      closed = v_rank >= 5,
+      closed_at = CASE WHEN v_rank >= 5 THEN COALESCE(closed_at, NOW()) END,
+      updated_at = NOW()
+    WHERE client = NEW.client
+      AND id::text = NEW.contact_id
+      -- Flags that already read as this stage are left alone
+      AND crm_deal_stage_for_lead(engaged_leads.*) IS DISTINCT FROM v_stage;
+  END IF;
+
+  IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    SELECT LOWER(TRIM(email)), crm_lead_deal_name(engaged_leads.*)
+    INTO v_email, v_name
+    FROM engaged_leads
+    WHERE client = NEW.client AND id::text = NEW.contact_id;
+
+    IF v_email IS NOT NULL THEN
+      UPDATE client_opportunities
+      SET value = COALESCE(NEW.amount, 0)
+      WHERE client = NEW.client AND LOWER(TRIM(contact_email)) = v_email;
+
+      IF NOT FOUND AND COALESCE(NEW.amount, 0) > 0 THEN
+        INSERT INTO client_opportunities (client, opportunity_name, stage, value, contact_name, contact_email)
+        VALUES (
+          NEW.client,
+          NEW.name,
+          -- The portal groups opportunities by its own stage names
+          CASE v_stage
+            WHEN 'discovery' THEN 'Qualified'
+            WHEN 'demo' THEN 'Showed Up to Demo'
+            WHEN 'proposal' THEN 'Proposal Sent'
+            WHEN 'closed' THEN 'Closed'
+            ELSE 'Meeting Booked'
+          END,
+          NEW.amount,
+          v_name,
+          v_email
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- PACING DIGEST VAULT SECRETS
+-- ============================================================================
+-- Migration: Read the pacing digest job's URL and key from Vault
+-- Created: 2025-02-09
+-- Description: The pacing-digest-daily job read app.settings.supabase_url and
+--              app.settings.service_role_key, which can't be set on hosted
+--              Supabase, so every run failed. It now reads the project URL and
+--              service role key from Vault; the pacing-digest function rejects
+--              requests without that key. Create the secrets once per project:
+--                SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--                SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- ============================================================================
+
+-- Replaces the job scheduled by 20250204000000_schedule_pacing_digest.sql
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'pacing-digest-daily';
+
+SELECT cron.schedule(
+  'pacing-digest-daily',
+  '0 13 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/pacing-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
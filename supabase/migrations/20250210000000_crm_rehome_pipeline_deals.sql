@@ -0,0 +1,127 @@
+-- ============================================================================
+-- CRM REHOME PIPELINE DEALS
+-- ============================================================================
+-- Migration: Move deals off removed pipeline stages without touching leads
+-- Created: 2025-02-10
+-- Description: Removing a stage moved its deals to the first open stage with a
+--              plain update, which the deal -> lead trigger took for a real
+--              move: it rewrote the linked leads' pipeline flags to the new
+--              stage, clearing later flags and their timestamps. Deals are now
+--              re-homed through crm_rehome_pipeline_deals, which the trigger
+--              skips, so the leads' funnel history stays as it was.
+-- ============================================================================
+
+-- ============================================
+-- DEAL -> LEAD / OPPORTUNITY
+-- ============================================
+CREATE OR REPLACE FUNCTION crm_sync_deal_pipeline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage TEXT := crm_client_flag_stage(NEW.client, NEW.stage);
+  v_rank INTEGER;
+  v_email TEXT;
+  v_name TEXT;
+BEGIN
+  -- Changes written by the lead or opportunity triggers are already in sync,
+  -- and deals re-homed off a removed stage keep their lead's flags
+  IF pg_trigger_depth() > 1
+    OR NOT NEW.syncs_pipeline
+    OR NEW.contact_id IS NULL
+    OR current_setting('crm.rehoming_deals', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS DISTINCT FROM OLD.stage AND v_stage IS NOT NULL THEN
+    v_rank := array_position(ARRAY['interested', 'discovery', 'demo', 'proposal', 'closed'], v_stage);
+    UPDATE engaged_leads
+    SET
+      meeting_booked = TRUE,
+      meeting_booked_at = COALESCE(meeting_booked_at, NOW()),
+      showed_up_to_disco = v_rank >= 2,
+      showed_up_to_disco_at = CASE WHEN v_rank >= 2 THEN COALESCE(showed_up_to_disco_at, NOW()) END,
+      qualified = v_rank >= 2,
+      qualified_at = CASE WHEN v_rank >= 2 THEN COALESCE(qualified_at, NOW()) END,
+      demo_booked = v_rank >= 3,
+      demo_booked_at = CASE WHEN v_rank >= 3 THEN COALESCE(demo_booked_at, NOW()) END,
+      showed_up_to_demo = v_rank >= 3,
+      showed_up_to_demo_at = CASE WHEN v_rank >= 3 THEN COALESCE(showed_up_to_demo_at, NOW()) END,
+      proposal_sent = v_rank >= 4,
+      proposal_sent_at = CASE WHEN v_rank >= 4 THEN COALESCE(proposal_sent_at, NOW()) END,
+      closed = v_rank >= 5,
+      closed_at = CASE WHEN v_rank >= 5 THEN COALESCE(closed_at, NOW()) END,
+      updated_at = NOW()
+    WHERE client = NEW.client
+      AND id::text = NEW.contact_id
+      -- Flags that already read as this stage are left alone
+      AND crm_deal_stage_for_lead(engaged_leads.*) IS DISTINCT FROM v_stage;
+  END IF;
+
+  IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    SELECT LOWER(TRIM(email)), crm_lead_deal_name(engaged_leads.*)
+    INTO v_email, v_name
+    FROM engaged_leads
+    WHERE client = NEW.client AND id::text = NEW.contact_id;
+
+    IF v_email IS NOT NULL THEN
+      UPDATE client_opportunities
+      SET value = COALESCE(NEW.amount, 0)
+      WHERE client = NEW.client AND LOWER(TRIM(contact_email)) = v_email;
+
+      IF NOT FOUND AND COALESCE(NEW.amount, 0) > 0 THEN
+        INSERT INTO client_opportunities (client, opportunity_name, stage, value, contact_name, contact_email)
+        VALUES (
+          NEW.client,
+          NEW.name,
+          -- The portal groups opportunities by its own stage names
+          CASE v_stage
+            WHEN 'discovery' THEN 'Qualified'
+            WHEN 'demo' THEN 'Showed Up to Demo'
+            WHEN 'proposal' THEN 'Proposal Sent'
+            WHEN 'closed' THEN 'Closed'
+            ELSE 'Meeting Booked'
+          END,
+          NEW.amount,
+          v_name,
+          v_email
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- REHOMING
+-- ============================================
+-- Moves every deal of the client whose stage isn't in p_keys to p_stage.
+-- Returns the number of deals moved.
+CREATE OR REPLACE FUNCTION crm_rehome_pipeline_deals(
+  p_client TEXT,
+  p_keys TEXT[],
+  p_stage TEXT,
+  p_probability INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  PERFORM set_config('crm.rehoming_deals', 'on', TRUE);
+
+  UPDATE crm_deals
+  SET stage = p_stage, probability = p_probability, updated_at = NOW()
+  WHERE client = p_client AND NOT (stage = ANY(p_keys));
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  PERFORM set_config('crm.rehoming_deals', 'off', TRUE);
+  RETURN affected;
+END;
+$$;